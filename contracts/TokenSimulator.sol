@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.19;
+
+interface IERC20 {
+	function balanceOf(address account) external view returns (uint256);
+}
+
+interface IUniswapV2Router02 {
+	function WETH() external pure returns (address);
+
+	function getAmountsOut(
+		uint256 amountIn,
+		address[] calldata path
+	) external view returns (uint256[] memory amounts);
+
+	function swapExactETHForTokensSupportingFeeOnTransferTokens(
+		uint256 amountOutMin,
+		address[] calldata path,
+		address to,
+		uint256 deadline
+	) external payable;
+
+	function swapExactTokensForETHSupportingFeeOnTransferTokens(
+		uint256 amountIn,
+		uint256 amountOutMin,
+		address[] calldata path,
+		address to,
+		uint256 deadline
+	) external;
+}
+
+/**
+ * Never deployed: its runtime code is injected with an eth_call state
+ * override, together with an ETH balance. It buys `token` with `amountIn`
+ * ETH through a Uniswap V2 router, sells everything it received back, and
+ * reports what the router quoted and what actually arrived on each leg.
+ */
+contract TokenSimulator {
+	receive() external payable {}
+
+	function simulate(
+		address router,
+		address token,
+		uint256 amountIn
+	)
+		external
+		returns (
+			uint256 buyExpected,
+			uint256 buyReceived,
+			uint256 sellExpected,
+			uint256 sellReceived,
+			bool buySucceeded,
+			bool sellSucceeded
+		)
+	{
+		IUniswapV2Router02 v2Router = IUniswapV2Router02(router);
+		address weth = v2Router.WETH();
+
+		address[] memory path = new address[](2);
+		path[0] = weth;
+		path[1] = token;
+		buyExpected = v2Router.getAmountsOut(amountIn, path)[1];
+
+		uint256 tokenBefore = IERC20(token).balanceOf(address(this));
+		try
+			v2Router.swapExactETHForTokensSupportingFeeOnTransferTokens{
+				value: amountIn
+			}(0, path, address(this), block.timestamp)
+		{
+			buySucceeded = true;
+		} catch {
+			return (buyExpected, 0, 0, 0, false, false);
+		}
+		buyReceived = IERC20(token).balanceOf(address(this)) - tokenBefore;
+		if (buyReceived == 0) {
+			return (buyExpected, 0, 0, 0, true, false);
+		}
+
+		path[0] = token;
+		path[1] = weth;
+		sellExpected = v2Router.getAmountsOut(buyReceived, path)[1];
+
+		// Low-level call: some tokens (e.g. USDT) return nothing from approve
+		(bool approved, ) = token.call(
+			abi.encodeWithSelector(0x095ea7b3, router, buyReceived)
+		);
+		if (!approved) {
+			return (buyExpected, buyReceived, sellExpected, 0, true, false);
+		}
+
+		uint256 ethBefore = address(this).balance;
+		try
+			v2Router.swapExactTokensForETHSupportingFeeOnTransferTokens(
+				buyReceived,
+				0,
+				path,
+				address(this),
+				block.timestamp
+			)
+		{
+			sellReceived = address(this).balance - ethBefore;
+			sellSucceeded = true;
+		} catch {}
+	}
+}
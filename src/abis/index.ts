@@ -4,12 +4,53 @@ export const UNISWAP_V2_FACTORY_ABI = [
 
 export const UNISWAP_V2_PAIR_ABI = [
 	'function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+	'function price0CumulativeLast() external view returns (uint256)',
+	'function price1CumulativeLast() external view returns (uint256)',
 	'function token0() external view returns (address)',
 	'function token1() external view returns (address)',
 ];
 
 export const UNISWAP_V2_ROUTER_ABI = [
 	'function getAmountsOut(uint amountIn, address[] calldata path) external view returns (uint[] memory amounts)',
+	'function getAmountsIn(uint amountOut, address[] calldata path) external view returns (uint[] memory amounts)',
+	'function WETH() external pure returns (address)',
 ];
 
-export const ERC20_ABI = ['function decimals() external view returns (uint8)'];
+export const UNISWAP_V3_FACTORY_ABI = [
+	'function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)',
+];
+
+export const UNISWAP_V3_POOL_ABI = [
+	'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+	'function liquidity() external view returns (uint128)',
+	'function tickSpacing() external view returns (int24)',
+];
+
+export const UNISWAP_V3_TICK_LENS_ABI = [
+	'function getPopulatedTicksInWord(address pool, int16 tickBitmapIndex) external view returns (tuple(int24 tick, int128 liquidityNet, uint128 liquidityGross)[] populatedTicks)',
+];
+
+export const CURVE_REGISTRY_ABI = [
+	'function find_pool_for_coins(address _from, address _to, uint256 i) external view returns (address)',
+	'function get_coin_indices(address _pool, address _from, address _to) external view returns (int128, int128, bool)',
+	'function get_coins(address _pool) external view returns (address[8])',
+];
+
+export const CURVE_POOL_ABI = [
+	'function A() external view returns (uint256)',
+	'function fee() external view returns (uint256)',
+	'function balances(uint256 i) external view returns (uint256)',
+];
+
+export const ERC20_ABI = [
+	'function name() external view returns (string)',
+	'function symbol() external view returns (string)',
+	'function decimals() external view returns (uint8)',
+	'function balanceOf(address account) external view returns (uint256)',
+];
+
+export const MULTICALL3_ABI = [
+	'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+];
+
+export * from './tokenSimulator';
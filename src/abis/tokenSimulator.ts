@@ -0,0 +1,11 @@
+/**
+ * Runtime code of `contracts/TokenSimulator.sol` (solc 0.8.19, optimizer 200
+ * runs). It is never deployed: token risk checks inject it at a fixed
+ * address through an eth_call state override.
+ */
+export const TOKEN_SIMULATOR_BYTECODE =
+	'0x6080604052600436106100225760003560e01c8063eded77ae1461002e57600080fd5b3661002957005b600080fd5b34801561003a57600080fd5b5061004e6100493660046105e7565b610083565b60408051968752602087019590955293850192909252606084015215156080830152151560a082015260c00160405180910390f35b60008060008060008060008990506000816001600160a01b031663ad5c46486040518163ffffffff1660e01b8152600401602060405180830381865afa1580156100d1573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906100f59190610628565b6040805160028082526060820183529293506000929091602083019080368337019050509050818160008151811061012f5761012f610662565b60200260200101906001600160a01b031690816001600160a01b0316815250508a8160018151811061016357610163610662565b6001600160a01b03928316602091820292909201015260405163d06ca61f60e01b81529084169063d06ca61f906101a0908d9085906004016106bc565b600060405180830381865afa1580156101bd573d6000803e3d6000fd5b505050506040513d6000823e601f3d908101601f191682016040526101e591908101906106dd565b6001815181106101f7576101f7610662565b60209081029190910101516040516370a0823160e01b81523060048201529099506000906001600160a01b038d16906370a0823190602401602060405180830381865afa15801561024c573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610270919061079b565b9050836001600160a01b031663b6f9de958c60008530426040518663ffffffff1660e01b81526004016102a694939291906107b4565b6000604051808303818588803b1580156102bf57600080fd5b505af1935050505080156102d1575060015b6102ef5750600097508796508695508594508493506105c392505050565b6040516370a0823160e01b81523060048201526001965081906001600160a01b038e16906370a0823190602401602060405180830381865afa158015610339573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061035d919061079b565b61036791906107e9565b98508860000361038c575060009750879650869550600194508593506105c392505050565b8b826000815181106103a0576103a0610662565b60200260200101906001600160a01b031690816001600160a01b03168152505082826001815181106103d4576103d4610662565b6001600160a01b03928316602091820292909201015260405163d06ca61f60e01b81529085169063d06ca61f90610411908c9086906004016106bc565b600060405180830381865afa15801561042e573d6000803e3d6000fd5b505050506040513d6000823e601f3d908101601f1916820160405261045691908101906106dd565b60018151811061046857610468610662565b6020026020010151975060008c6001600160a01b031663095ea7b38f8c6040516024016104aa9291906001600160a01b03929092168252602082015260400190565b6040516020818303038152906040529060e01b6020820180516001600160e01b0383818316178352505050506040516104e39190610810565b6000604051808303816000865af19150503d8060008114610520576040519150601f19603f3d011682016040523d82523d6000602084013e610525565b606091505b5050905080610544575060009650600195508694506105c39350505050565b60405163791ac94760e01b815247906001600160a01b0387169063791ac9479061057b908e9060009089903090429060040161083f565b600060405180830381600087803b15801561059557600080fd5b505af19250505080156105a6575060015b156105bc576105b581476107e9565b9850600196505b5050505050505b93975093979195509350565b6001600160a01b03811681146105e457600080fd5b50565b6000806000606084860312156105fc57600080fd5b8335610607816105cf565b92506020840135610617816105cf565b929592945050506040919091013590565b60006020828403121561063a57600080fd5b8151610645816105cf565b9392505050565b634e487b7160e01b600052604160045260246000fd5b634e487b7160e01b600052603260045260246000fd5b600081518084526020808501945080840160005b838110156106b15781516001600160a01b03168752958201959082019060010161068c565b509495945050505050565b8281526040602082015260006106d56040830184610678565b949350505050565b600060208083850312156106f057600080fd5b825167ffffffffffffffff8082111561070857600080fd5b818501915085601f83011261071c57600080fd5b81518181111561072e5761072e61064c565b8060051b604051601f19603f830116810181811085821117156107535761075361064c565b60405291825284820192508381018501918883111561077157600080fd5b938501935b8285101561078f57845184529385019392850192610776565b98975050505050505050565b6000602082840312156107ad57600080fd5b5051919050565b8481526080602082015260006107cd6080830186610678565b6001600160a01b03949094166040830152506060015292915050565b8181038181111561080a57634e487b7160e01b600052601160045260246000fd5b92915050565b6000825160005b818110156108315760208186018101518583015201610817565b506000920191825250919050565b85815284602082015260a06040820152600061085e60a0830186610678565b6001600160a01b039490941660608301525060800152939250505056fea2646970667358221220513215d3979db2962d2681420fcbf0ce6af5e0634ad03e73d9ffdced423f625e64736f6c63430008130033';
+
+export const TOKEN_SIMULATOR_ABI = [
+	'function simulate(address router, address token, uint256 amountIn) external returns (uint256 buyExpected, uint256 buyReceived, uint256 sellExpected, uint256 sellReceived, bool buySucceeded, bool sellSucceeded)',
+];
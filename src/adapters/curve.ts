@@ -0,0 +1,176 @@
+import { ethers } from 'ethers';
+import { CurveDexConfig } from '../types';
+import { CURVE_POOL_ABI, CURVE_REGISTRY_ABI } from '../abis';
+import { CURVE_CONFIG } from '../constants';
+import { PriceRatio } from '../utils/price';
+import {
+	CURVE_FEE_DENOMINATOR,
+	StableSwapPool,
+	getDx,
+	getDy,
+	getStableSwapSpotPrice,
+} from '../utils/stableSwap';
+import { getTokenDecimals } from '../utils/token';
+import { DexAdapter, Pool, PoolState } from './types';
+
+export interface CurvePoolState extends PoolState, StableSwapPool {}
+
+/**
+ * Curve StableSwap pools found through the on-chain registry. Only plain
+ * pools are quoted: metapool routes through underlying coins need
+ * `exchange_underlying` and are skipped.
+ */
+export class CurveAdapter implements DexAdapter<CurvePoolState> {
+	readonly name: string;
+
+	constructor(private readonly config: CurveDexConfig) {
+		this.name = config.name;
+	}
+
+	async findPools(
+		tokenA: string,
+		tokenB: string,
+		provider: ethers.providers.JsonRpcProvider
+	): Promise<Pool[]> {
+		const registry = new ethers.Contract(
+			this.config.registryAddress,
+			CURVE_REGISTRY_ABI,
+			provider
+		);
+
+		const addresses: string[] = [];
+		for (let i = 0; i < CURVE_CONFIG.MAX_POOLS_PER_PAIR; i++) {
+			const address: string = await registry.find_pool_for_coins(
+				tokenA,
+				tokenB,
+				i
+			);
+			if (address === ethers.constants.AddressZero) {
+				break;
+			}
+			addresses.push(address);
+		}
+
+		const pools = await Promise.all(
+			addresses.map(async (address): Promise<Pool | null> => {
+				const [[, , isUnderlying], coins]: [
+					[ethers.BigNumber, ethers.BigNumber, boolean],
+					string[]
+				] = await Promise.all([
+					registry.get_coin_indices(address, tokenA, tokenB),
+					registry.get_coins(address),
+				]);
+				if (isUnderlying) {
+					return null;
+				}
+
+				return {
+					dex: this.name,
+					address,
+					tokens: coins.filter((coin) => coin !== ethers.constants.AddressZero),
+					// Replaced by the pool's on-chain fee in getState
+					feeBps: 0,
+				};
+			})
+		);
+
+		return pools.filter((pool): pool is Pool => pool !== null);
+	}
+
+	async getState(
+		pool: Pool,
+		provider: ethers.providers.JsonRpcProvider
+	): Promise<CurvePoolState> {
+		const contract = new ethers.Contract(
+			pool.address,
+			CURVE_POOL_ABI,
+			provider
+		);
+
+		const [amp, fee, balances, decimals] = await Promise.all([
+			contract.A() as Promise<ethers.BigNumber>,
+			contract.fee() as Promise<ethers.BigNumber>,
+			Promise.all(
+				pool.tokens.map(
+					(_, i): Promise<ethers.BigNumber> => contract.balances(i)
+				)
+			),
+			Promise.all(
+				pool.tokens.map((token) => getTokenDecimals(token, provider))
+			),
+		]);
+
+		if (balances.some((balance) => balance.eq(0))) {
+			throw new Error(
+				`Liquidity pool for pair ${pool.tokens.join('/')} has zero reserves`
+			);
+		}
+
+		return {
+			pool: {
+				...pool,
+				feeBps: fee.mul(10_000).toNumber() / CURVE_FEE_DENOMINATOR.toNumber(),
+			},
+			amp,
+			fee,
+			balances,
+			decimals,
+		};
+	}
+
+	quoteExactIn(
+		state: CurvePoolState,
+		tokenIn: string,
+		amountIn: ethers.BigNumber,
+		tokenOut: string
+	): ethers.BigNumber {
+		return getDy(
+			state,
+			this.getIndex(state, tokenIn),
+			this.getIndex(state, tokenOut),
+			amountIn
+		);
+	}
+
+	quoteExactOut(
+		state: CurvePoolState,
+		tokenIn: string,
+		amountOut: ethers.BigNumber,
+		tokenOut: string
+	): ethers.BigNumber {
+		return getDx(
+			state,
+			this.getIndex(state, tokenIn),
+			this.getIndex(state, tokenOut),
+			amountOut
+		);
+	}
+
+	getSpotPrice(
+		state: CurvePoolState,
+		tokenIn: string,
+		tokenOut: string
+	): PriceRatio {
+		return getStableSwapSpotPrice(
+			state,
+			this.getIndex(state, tokenIn),
+			this.getIndex(state, tokenOut)
+		);
+	}
+
+	getReserve(state: CurvePoolState, token: string): ethers.BigNumber {
+		return state.balances[this.getIndex(state, token)];
+	}
+
+	private getIndex(state: CurvePoolState, token: string): number {
+		const index = state.pool.tokens.findIndex(
+			(coin) => coin.toLowerCase() === token.toLowerCase()
+		);
+		if (index === -1) {
+			throw new Error(
+				`Token ${token} is not in Curve pool ${state.pool.address}`
+			);
+		}
+		return index;
+	}
+}
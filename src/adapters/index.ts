@@ -0,0 +1,31 @@
+import { getChainConfig } from '../config/chains';
+import { DexConfig } from '../types';
+import { CurveAdapter } from './curve';
+import { DexAdapter } from './types';
+import { UniswapV2Adapter } from './uniswapV2';
+import { UniswapV3Adapter } from './uniswapV3';
+
+export * from './types';
+
+const createDexAdapter = (config: DexConfig): DexAdapter => {
+	switch (config.type) {
+		case 'uniswap-v2':
+			return new UniswapV2Adapter(config);
+		case 'uniswap-v3':
+			return new UniswapV3Adapter(config);
+		case 'curve':
+			return new CurveAdapter(config);
+	}
+};
+
+const adaptersByChain = new Map<number, DexAdapter[]>();
+
+/** Adapters for every DEX configured on `chainId`, created once per chain. */
+export const getDexAdapters = (chainId: number): DexAdapter[] => {
+	let adapters = adaptersByChain.get(chainId);
+	if (!adapters) {
+		adapters = getChainConfig(chainId).dexes.map(createDexAdapter);
+		adaptersByChain.set(chainId, adapters);
+	}
+	return adapters;
+};
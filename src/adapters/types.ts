@@ -0,0 +1,80 @@
+import { ethers } from 'ethers';
+import { PoolHop } from '../utils/constantProduct';
+import { PriceRatio } from '../utils/price';
+import { RouterVerification } from '../utils/routerVerification';
+import { PoolSummary } from '../types';
+
+export interface Pool extends PoolSummary {
+	/** Every token the pool holds; two for Uniswap-style pools, more for Curve. */
+	tokens: string[];
+}
+
+/** On-chain state of a pool; each adapter extends it with what its math needs. */
+export interface PoolState {
+	pool: Pool;
+}
+
+/**
+ * A single AMM implementation. Adapters discover pools and read their state
+ * over RPC, then quote swaps locally from that state so the service can
+ * evaluate many trade sizes without further calls.
+ */
+export interface DexAdapter<TState extends PoolState = PoolState> {
+	readonly name: string;
+
+	/** Pools trading `tokenA` against `tokenB`; empty when none exist. */
+	findPools(
+		tokenA: string,
+		tokenB: string,
+		provider: ethers.providers.JsonRpcProvider
+	): Promise<Pool[]>;
+
+	getState(
+		pool: Pool,
+		provider: ethers.providers.JsonRpcProvider
+	): Promise<TState>;
+
+	quoteExactIn(
+		state: TState,
+		tokenIn: string,
+		amountIn: ethers.BigNumber,
+		tokenOut: string
+	): ethers.BigNumber;
+
+	/** Throws an `Insufficient liquidity` error when the pool cannot fill `amountOut`. */
+	quoteExactOut(
+		state: TState,
+		tokenIn: string,
+		amountOut: ethers.BigNumber,
+		tokenOut: string
+	): ethers.BigNumber;
+
+	/** Marginal price of `tokenIn` in `tokenOut`, excluding fees. */
+	getSpotPrice(state: TState, tokenIn: string, tokenOut: string): PriceRatio;
+
+	/** Amount of `token` the pool holds. */
+	getReserve(state: TState, token: string): ethers.BigNumber;
+
+	/** Constant-product pools expose their reserves so paths can be solved in closed form. */
+	toConstantProductHop?(state: TState, tokenIn: string): PoolHop;
+
+	/** On-chain router used to cross-check local quotes along `path`. */
+	getRouterVerification?(
+		path: string[],
+		provider: ethers.providers.JsonRpcProvider
+	): RouterVerification;
+}
+
+/** One swap along a route: a pool's state bound to the adapter that quotes it. */
+export interface SwapStep {
+	adapter: DexAdapter;
+	state: PoolState;
+	tokenIn: string;
+	tokenOut: string;
+}
+
+/** Token order used by Uniswap-style pools: token0 has the lower address. */
+export const sortTokens = (tokenA: string, tokenB: string): string[] =>
+	tokenA.toLowerCase() < tokenB.toLowerCase()
+		? [tokenA, tokenB]
+		: [tokenB, tokenA];
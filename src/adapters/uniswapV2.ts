@@ -0,0 +1,202 @@
+import { ethers } from 'ethers';
+import { UniswapV2DexConfig } from '../types';
+import {
+	UNISWAP_V2_FACTORY_ABI,
+	UNISWAP_V2_PAIR_ABI,
+	UNISWAP_V2_ROUTER_ABI,
+} from '../abis';
+import { PoolHop, getAmountIn, getAmountOut } from '../utils/constantProduct';
+import { PriceRatio } from '../utils/price';
+import { PinnedBlock } from '../utils/block';
+import {
+	CumulativePriceObservation,
+	getCurrentCumulativePrices,
+} from '../utils/twap';
+import { RouterVerification } from '../utils/routerVerification';
+import { getTokenDecimals } from '../utils/token';
+import { DexAdapter, Pool, PoolState, sortTokens } from './types';
+
+export interface UniswapV2PoolState extends PoolState {
+	reserves: [ethers.BigNumber, ethers.BigNumber];
+}
+
+/** Smallest reserve considered reliable: 0.001 tokens. */
+const getMinReserve = (decimals: number): ethers.BigNumber =>
+	ethers.BigNumber.from(10).pow(decimals).div(1000);
+
+/** Uniswap V2 and its forks (SushiSwap, QuickSwap, PancakeSwap, ...). */
+export class UniswapV2Adapter implements DexAdapter<UniswapV2PoolState> {
+	readonly name: string;
+
+	constructor(private readonly config: UniswapV2DexConfig) {
+		this.name = config.name;
+	}
+
+	async findPools(
+		tokenA: string,
+		tokenB: string,
+		provider: ethers.providers.JsonRpcProvider
+	): Promise<Pool[]> {
+		const factory = new ethers.Contract(
+			this.config.factoryAddress,
+			UNISWAP_V2_FACTORY_ABI,
+			provider
+		);
+
+		const pairAddress: string = await factory.getPair(tokenA, tokenB);
+		if (pairAddress === ethers.constants.AddressZero) {
+			return [];
+		}
+
+		return [
+			{
+				dex: this.name,
+				address: pairAddress,
+				tokens: sortTokens(tokenA, tokenB),
+				feeBps: this.config.feeBps,
+			},
+		];
+	}
+
+	async getState(
+		pool: Pool,
+		provider: ethers.providers.JsonRpcProvider
+	): Promise<UniswapV2PoolState> {
+		const [token0, token1] = pool.tokens;
+		const pair = new ethers.Contract(
+			pool.address,
+			UNISWAP_V2_PAIR_ABI,
+			provider
+		);
+
+		const [reserve0, reserve1] = await pair.getReserves();
+
+		if (reserve0.eq(0) || reserve1.eq(0)) {
+			throw new Error(
+				`Liquidity pool for pair ${token0}/${token1} has zero reserves`
+			);
+		}
+
+		const [token0Decimals, token1Decimals] = await Promise.all([
+			getTokenDecimals(token0, provider),
+			getTokenDecimals(token1, provider),
+		]);
+
+		const minReserve0 = getMinReserve(token0Decimals);
+		const minReserve1 = getMinReserve(token1Decimals);
+
+		if (reserve0.lt(minReserve0) || reserve1.lt(minReserve1)) {
+			throw new Error(
+				`Insufficient liquidity for reliable pricing in pair ${token0}/${token1}. ` +
+					`Reserves: ${ethers.utils.formatUnits(
+						reserve0,
+						token0Decimals
+					)} / ${ethers.utils.formatUnits(reserve1, token1Decimals)}`
+			);
+		}
+
+		const testTradeSize = reserve0.div(1000);
+		if (testTradeSize.lt(minReserve0.mul(10))) {
+			throw new Error(
+				`Pool depth too low for reliable pricing in pair ${token0}/${token1}`
+			);
+		}
+
+		return { pool, reserves: [reserve0, reserve1] };
+	}
+
+	/** Reserves and cumulative prices of the pair as of `block`, for TWAPs. */
+	async observeCumulativePrices(
+		pool: Pool,
+		provider: ethers.providers.JsonRpcProvider,
+		block: PinnedBlock
+	): Promise<CumulativePriceObservation> {
+		const pair = new ethers.Contract(
+			pool.address,
+			UNISWAP_V2_PAIR_ABI,
+			provider
+		);
+		const overrides = { blockTag: block.number };
+
+		const [[reserve0, reserve1, blockTimestampLast], price0, price1] =
+			await Promise.all([
+				pair.getReserves(overrides),
+				pair.price0CumulativeLast(overrides),
+				pair.price1CumulativeLast(overrides),
+			]);
+
+		return {
+			blockNumber: block.number,
+			timestamp: block.timestamp,
+			reserves: [reserve0, reserve1],
+			priceCumulatives: getCurrentCumulativePrices(
+				[price0, price1],
+				[reserve0, reserve1],
+				blockTimestampLast,
+				block.timestamp
+			),
+		};
+	}
+
+	quoteExactIn(
+		state: UniswapV2PoolState,
+		tokenIn: string,
+		amountIn: ethers.BigNumber
+	): ethers.BigNumber {
+		const { reserveIn, reserveOut, feeBps } = this.toConstantProductHop(
+			state,
+			tokenIn
+		);
+		return getAmountOut(amountIn, reserveIn, reserveOut, feeBps);
+	}
+
+	quoteExactOut(
+		state: UniswapV2PoolState,
+		tokenIn: string,
+		amountOut: ethers.BigNumber
+	): ethers.BigNumber {
+		const { reserveIn, reserveOut, feeBps } = this.toConstantProductHop(
+			state,
+			tokenIn
+		);
+		return getAmountIn(amountOut, reserveIn, reserveOut, feeBps);
+	}
+
+	getSpotPrice(state: UniswapV2PoolState, tokenIn: string): PriceRatio {
+		const { reserveIn, reserveOut } = this.toConstantProductHop(state, tokenIn);
+		return { numerator: reserveOut, denominator: reserveIn };
+	}
+
+	getReserve(state: UniswapV2PoolState, token: string): ethers.BigNumber {
+		return this.isToken0(state, token) ? state.reserves[0] : state.reserves[1];
+	}
+
+	toConstantProductHop(state: UniswapV2PoolState, tokenIn: string): PoolHop {
+		const [reserve0, reserve1] = state.reserves;
+		const isToken0 = this.isToken0(state, tokenIn);
+
+		return {
+			reserveIn: isToken0 ? reserve0 : reserve1,
+			reserveOut: isToken0 ? reserve1 : reserve0,
+			feeBps: state.pool.feeBps,
+		};
+	}
+
+	getRouterVerification(
+		path: string[],
+		provider: ethers.providers.JsonRpcProvider
+	): RouterVerification {
+		return {
+			router: new ethers.Contract(
+				this.config.routerAddress,
+				UNISWAP_V2_ROUTER_ABI,
+				provider
+			),
+			path,
+		};
+	}
+
+	private isToken0(state: UniswapV2PoolState, token: string): boolean {
+		return state.pool.tokens[0].toLowerCase() === token.toLowerCase();
+	}
+}
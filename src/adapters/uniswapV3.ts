@@ -0,0 +1,179 @@
+import { ethers } from 'ethers';
+import { UniswapV3DexConfig } from '../types';
+import {
+	ERC20_ABI,
+	UNISWAP_V3_FACTORY_ABI,
+	UNISWAP_V3_POOL_ABI,
+	UNISWAP_V3_TICK_LENS_ABI,
+} from '../abis';
+import { UNISWAP_V3_CONFIG } from '../constants';
+import {
+	ConcentratedLiquidityState,
+	InitializedTick,
+	Q192,
+	getTickWord,
+	simulateSwap,
+} from '../utils/concentratedLiquidity';
+import { PriceRatio } from '../utils/price';
+import { DexAdapter, Pool, PoolState, sortTokens } from './types';
+
+export interface UniswapV3PoolState
+	extends PoolState,
+		ConcentratedLiquidityState {
+	balances: [ethers.BigNumber, ethers.BigNumber];
+}
+
+/**
+ * Uniswap V3 concentrated-liquidity pools. Every configured fee tier is a
+ * separate pool; quotes walk the initialized ticks read around the current
+ * price, so trades that would move the price beyond them cannot be filled.
+ */
+export class UniswapV3Adapter implements DexAdapter<UniswapV3PoolState> {
+	readonly name: string;
+
+	constructor(private readonly config: UniswapV3DexConfig) {
+		this.name = config.name;
+	}
+
+	async findPools(
+		tokenA: string,
+		tokenB: string,
+		provider: ethers.providers.JsonRpcProvider
+	): Promise<Pool[]> {
+		const factory = new ethers.Contract(
+			this.config.factoryAddress,
+			UNISWAP_V3_FACTORY_ABI,
+			provider
+		);
+
+		const addresses: string[] = await Promise.all(
+			this.config.feeTiers.map((fee) => factory.getPool(tokenA, tokenB, fee))
+		);
+
+		return this.config.feeTiers
+			.map((fee, index) => ({
+				dex: this.name,
+				address: addresses[index],
+				tokens: sortTokens(tokenA, tokenB),
+				feeBps: fee / 100,
+				feeTier: fee,
+			}))
+			.filter((pool) => pool.address !== ethers.constants.AddressZero);
+	}
+
+	async getState(
+		pool: Pool,
+		provider: ethers.providers.JsonRpcProvider
+	): Promise<UniswapV3PoolState> {
+		const [token0, token1] = pool.tokens;
+		const contract = new ethers.Contract(
+			pool.address,
+			UNISWAP_V3_POOL_ABI,
+			provider
+		);
+
+		const [slot0, liquidity, tickSpacing, balance0, balance1] =
+			await Promise.all([
+				contract.slot0(),
+				contract.liquidity(),
+				contract.tickSpacing(),
+				new ethers.Contract(token0, ERC20_ABI, provider).balanceOf(
+					pool.address
+				),
+				new ethers.Contract(token1, ERC20_ABI, provider).balanceOf(
+					pool.address
+				),
+			]);
+
+		if (liquidity.eq(0)) {
+			throw new Error(
+				`Insufficient liquidity in pool ${pool.address} for pair ${token0}/${token1}: no liquidity at the current price`
+			);
+		}
+
+		const currentWord = getTickWord(slot0.tick, tickSpacing);
+		const minWord = currentWord - UNISWAP_V3_CONFIG.TICK_WORD_RADIUS;
+		const maxWord = currentWord + UNISWAP_V3_CONFIG.TICK_WORD_RADIUS;
+
+		return {
+			pool,
+			sqrtPriceX96: slot0.sqrtPriceX96,
+			tick: slot0.tick,
+			liquidity,
+			tickSpacing,
+			feePips: pool.feeTier ?? pool.feeBps * 100,
+			ticks: await this.getInitializedTicks(
+				pool.address,
+				minWord,
+				maxWord,
+				provider
+			),
+			minWord,
+			maxWord,
+			balances: [balance0, balance1],
+		};
+	}
+
+	quoteExactIn(
+		state: UniswapV3PoolState,
+		tokenIn: string,
+		amountIn: ethers.BigNumber
+	): ethers.BigNumber {
+		return simulateSwap(state, this.isToken0(state, tokenIn), amountIn);
+	}
+
+	quoteExactOut(
+		state: UniswapV3PoolState,
+		tokenIn: string,
+		amountOut: ethers.BigNumber
+	): ethers.BigNumber {
+		return simulateSwap(
+			state,
+			this.isToken0(state, tokenIn),
+			amountOut.mul(-1)
+		);
+	}
+
+	getSpotPrice(state: UniswapV3PoolState, tokenIn: string): PriceRatio {
+		const priceX192 = state.sqrtPriceX96.mul(state.sqrtPriceX96);
+		return this.isToken0(state, tokenIn)
+			? { numerator: priceX192, denominator: Q192 }
+			: { numerator: Q192, denominator: priceX192 };
+	}
+
+	getReserve(state: UniswapV3PoolState, token: string): ethers.BigNumber {
+		return this.isToken0(state, token) ? state.balances[0] : state.balances[1];
+	}
+
+	private async getInitializedTicks(
+		poolAddress: string,
+		minWord: number,
+		maxWord: number,
+		provider: ethers.providers.JsonRpcProvider
+	): Promise<InitializedTick[]> {
+		const tickLens = new ethers.Contract(
+			this.config.tickLensAddress,
+			UNISWAP_V3_TICK_LENS_ABI,
+			provider
+		);
+
+		const words: number[] = [];
+		for (let word = minWord; word <= maxWord; word++) {
+			words.push(word);
+		}
+
+		const populated: { tick: number; liquidityNet: ethers.BigNumber }[][] =
+			await Promise.all(
+				words.map((word) => tickLens.getPopulatedTicksInWord(poolAddress, word))
+			);
+
+		return populated
+			.flat()
+			.map(({ tick, liquidityNet }) => ({ tick, liquidityNet }))
+			.sort((a, b) => a.tick - b.tick);
+	}
+
+	private isToken0(state: UniswapV3PoolState, token: string): boolean {
+		return state.pool.tokens[0].toLowerCase() === token.toLowerCase();
+	}
+}
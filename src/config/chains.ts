@@ -1,29 +1,171 @@
 import { ChainConfig } from '../types';
 
+// Multicall3 is deployed at the same address on every supported chain
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+/**
+ * RPC endpoints from a comma-separated environment variable, or the public
+ * defaults when it is unset or empty.
+ */
+export const parseRpcUrls = (
+	value: string | undefined,
+	defaults: string[]
+): string[] => {
+	const urls = (value || '')
+		.split(',')
+		.map((url) => url.trim())
+		.filter((url) => url.length > 0);
+	return urls.length > 0 ? urls : defaults;
+};
+
 export const CHAIN_CONFIGS: Record<number, ChainConfig> = {
 	1: {
-		rpcUrl: process.env.ETHEREUM_RPC_URL || 'https://ethereum.publicnode.com',
-		factoryAddress: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
-		routerAddress: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+		rpcUrls: parseRpcUrls(process.env.ETHEREUM_RPC_URL, [
+			'https://ethereum.publicnode.com',
+			'https://eth.llamarpc.com',
+			'https://eth.drpc.org',
+		]),
 		name: 'Ethereum',
+		multicall3Address: MULTICALL3_ADDRESS,
+		baseTokens: [
+			'0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // WETH
+			'0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', // USDC
+			'0xdAC17F958D2ee523a2206206994597C13D831ec7', // USDT
+			'0x6B175474E89094C44Da98b954EedeAC495271d0F', // DAI
+		],
+		stablecoins: [
+			'0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', // USDC
+			'0xdAC17F958D2ee523a2206206994597C13D831ec7', // USDT
+			'0x6B175474E89094C44Da98b954EedeAC495271d0F', // DAI
+		],
+		dexes: [
+			{
+				type: 'uniswap-v2',
+				name: 'Uniswap V2',
+				factoryAddress: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
+				routerAddress: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+				feeBps: 30,
+			},
+			{
+				type: 'uniswap-v2',
+				name: 'SushiSwap',
+				factoryAddress: '0xC0AEe478e3658e2610c5F7A4A2E1777cE9e4f2Ac',
+				routerAddress: '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F',
+				feeBps: 30,
+			},
+			{
+				type: 'uniswap-v3',
+				name: 'Uniswap V3',
+				factoryAddress: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+				tickLensAddress: '0xbfd8137f7d1516D3ea5cA83523914859ec47F573',
+				feeTiers: [100, 500, 3000, 10000],
+			},
+			{
+				type: 'curve',
+				name: 'Curve',
+				registryAddress: '0x90E00ACe148ca3b23Ac1bC8C240C2a7Dd9c2d7f5',
+			},
+		],
 	},
 	137: {
-		rpcUrl: process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com',
-		factoryAddress: '0x5757371414417b8C6CAad45bAeF941aBc7d3Ab32',
-		routerAddress: '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff',
+		rpcUrls: parseRpcUrls(process.env.POLYGON_RPC_URL, [
+			'https://polygon-rpc.com',
+			'https://polygon-bor-rpc.publicnode.com',
+			'https://polygon.drpc.org',
+		]),
 		name: 'Polygon',
+		multicall3Address: MULTICALL3_ADDRESS,
+		baseTokens: [
+			'0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', // WMATIC
+			'0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', // WETH
+			'0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', // USDC.e
+			'0xc2132D05D31c914a87C6611C10748AEb04B58e8F', // USDT
+		],
+		stablecoins: [
+			'0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', // USDC.e
+			'0xc2132D05D31c914a87C6611C10748AEb04B58e8F', // USDT
+		],
+		dexes: [
+			{
+				type: 'uniswap-v2',
+				name: 'QuickSwap',
+				factoryAddress: '0x5757371414417b8C6CAad45bAeF941aBc7d3Ab32',
+				routerAddress: '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff',
+				feeBps: 30,
+			},
+			{
+				type: 'uniswap-v2',
+				name: 'SushiSwap',
+				factoryAddress: '0xc35DADB65012eC5796536bD9864eD8773aBc74C4',
+				routerAddress: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506',
+				feeBps: 30,
+			},
+		],
 	},
 	56: {
-		rpcUrl: process.env.BSC_RPC_URL || 'https://bsc-dataseed.binance.org',
-		factoryAddress: '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73',
-		routerAddress: '0x10ED43C718714eb63d5aA57B78B54704E256024E',
+		rpcUrls: parseRpcUrls(process.env.BSC_RPC_URL, [
+			'https://bsc-dataseed.binance.org',
+			'https://bsc-rpc.publicnode.com',
+			'https://bsc.drpc.org',
+		]),
 		name: 'BSC',
+		multicall3Address: MULTICALL3_ADDRESS,
+		baseTokens: [
+			'0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c', // WBNB
+			'0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56', // BUSD
+			'0x55d398326f99059fF775485246999027B3197955', // USDT
+			'0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', // USDC
+		],
+		stablecoins: [
+			'0x55d398326f99059fF775485246999027B3197955', // USDT
+			'0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', // USDC
+			'0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56', // BUSD
+		],
+		dexes: [
+			{
+				type: 'uniswap-v2',
+				name: 'PancakeSwap V2',
+				factoryAddress: '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73',
+				routerAddress: '0x10ED43C718714eb63d5aA57B78B54704E256024E',
+				feeBps: 25,
+			},
+		],
 	},
 	42161: {
-		rpcUrl: process.env.ARBITRUM_RPC_URL || 'https://arb1.arbitrum.io/rpc',
-		factoryAddress: '0xc35DADB65012eC5796536bD9864eD8773aBc74C4',
-		routerAddress: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506',
+		rpcUrls: parseRpcUrls(process.env.ARBITRUM_RPC_URL, [
+			'https://arb1.arbitrum.io/rpc',
+			'https://arbitrum-one-rpc.publicnode.com',
+			'https://arbitrum.drpc.org',
+		]),
 		name: 'Arbitrum',
+		multicall3Address: MULTICALL3_ADDRESS,
+		baseTokens: [
+			'0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', // WETH
+			'0xaf88d065e77c8cC2239327C5EDb3A432268e5831', // USDC
+			'0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8', // USDC.e
+			'0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', // USDT
+		],
+		stablecoins: [
+			'0xaf88d065e77c8cC2239327C5EDb3A432268e5831', // USDC
+			'0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', // USDT
+			'0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8', // USDC.e
+		],
+		dexes: [
+			{
+				type: 'uniswap-v2',
+				name: 'SushiSwap',
+				factoryAddress: '0xc35DADB65012eC5796536bD9864eD8773aBc74C4',
+				routerAddress: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506',
+				feeBps: 30,
+			},
+			{
+				type: 'uniswap-v3',
+				name: 'Uniswap V3',
+				factoryAddress: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+				tickLensAddress: '0xbfd8137f7d1516D3ea5cA83523914859ec47F573',
+				feeTiers: [100, 500, 3000, 10000],
+			},
+		],
 	},
 };
 
@@ -0,0 +1,27 @@
+import { TrackedPair } from '../types';
+import { validateAndNormalizeAddresses } from '../utils/address';
+import { CHAIN_CONFIGS } from './chains';
+
+/**
+ * Pairs the snapshot recorder tracks, from `SNAPSHOT_PAIRS`: comma-separated
+ * `chainId:sellToken:buyToken` entries, e.g.
+ * `1:0xA0b8...eB48:0xC02a...6Cc2,137:0x2791...4174:0x0d50...1270`.
+ */
+export const getSnapshotPairs = (
+	raw = process.env.SNAPSHOT_PAIRS || ''
+): TrackedPair[] =>
+	raw
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter((entry) => entry.length > 0)
+		.map((entry) => {
+			const [chainId, sellToken, buyToken, ...rest] = entry.split(':');
+			const chainIdNum = Number(chainId);
+			if (!buyToken || rest.length > 0 || !CHAIN_CONFIGS[chainIdNum]) {
+				throw new Error(
+					`Invalid SNAPSHOT_PAIRS entry "${entry}": expected chainId:sellToken:buyToken on a supported chain`
+				);
+			}
+			const [sell, buy] = validateAndNormalizeAddresses(sellToken, buyToken);
+			return { chainId: chainIdNum, sellToken: sell, buyToken: buy };
+		});
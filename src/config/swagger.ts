@@ -22,7 +22,18 @@ const options = {
 			schemas: {
 				LiquidityResponse: {
 					type: 'object',
-					required: ['sellToken', 'buyToken', 'chainId', 'quotes'],
+					required: [
+						'sellToken',
+						'buyToken',
+						'chainId',
+						'blockNumber',
+						'blockTimestamp',
+						'usdPrices',
+						'quotes',
+						'venues',
+						'tokens',
+						'tokenRisk',
+					],
 					properties: {
 						sellToken: {
 							type: 'string',
@@ -40,21 +51,418 @@ const options = {
 							example: 1,
 							enum: [1, 137, 56, 42161],
 						},
+						blockNumber: {
+							type: 'integer',
+							description: 'Block every read for the response was made at',
+							example: 19000000,
+						},
+						blockTimestamp: {
+							type: 'integer',
+							description: 'Timestamp of that block, in Unix seconds',
+							example: 1705173443,
+						},
+						usdPrices: {
+							type: 'object',
+							required: ['sellToken', 'buyToken'],
+							description:
+								"USD price of each token from its reference route to one of the chain's stablecoins; null when the token does not route to one",
+							properties: {
+								sellToken: {
+									type: 'string',
+									nullable: true,
+									example: '1.0',
+								},
+								buyToken: {
+									type: 'string',
+									nullable: true,
+									example: '2380.512241',
+								},
+							},
+						},
 						quotes: {
 							type: 'object',
-							required: ['1%', '5%', '10%'],
+							description:
+								'Quotes keyed by slippage level, e.g. "0.5%" or "10%"',
+							additionalProperties: {
+								$ref: '#/components/schemas/SlippageQuote',
+							},
+							example: {
+								'1%': { sellAmount: '1000.0', buyAmount: '0.42' },
+								'5%': { sellAmount: '5000.0', buyAmount: '2.1' },
+								'10%': { sellAmount: '10000.0', buyAmount: '4.2' },
+							},
+						},
+						usdQuotes: {
+							type: 'object',
+							description:
+								'Best quote for selling each requested USD notional of the sell token, keyed like "$10000"; only returned with usdLevels',
+							additionalProperties: {
+								$ref: '#/components/schemas/SlippageQuote',
+							},
+						},
+						venues: {
+							type: 'array',
+							items: { $ref: '#/components/schemas/VenueQuotes' },
+							description:
+								'Quotes of each DEX on the chain; `quotes` holds the best of them per level',
+						},
+						aggregated: {
+							type: 'object',
+							description:
+								'Depth per slippage level with the order split across every pool of the direct pair; omitted when there is no direct pool',
+							additionalProperties: {
+								$ref: '#/components/schemas/AggregatedQuote',
+							},
+						},
+						orderBook: {
+							$ref: '#/components/schemas/OrderBook',
+						},
+						tokens: {
+							type: 'object',
+							required: ['sellToken', 'buyToken'],
+							description: 'ERC20 metadata of both tokens',
 							properties: {
-								'1%': { $ref: '#/components/schemas/SlippageQuote' },
-								'5%': { $ref: '#/components/schemas/SlippageQuote' },
-								'10%': { $ref: '#/components/schemas/SlippageQuote' },
+								sellToken: { $ref: '#/components/schemas/TokenMetadata' },
+								buyToken: { $ref: '#/components/schemas/TokenMetadata' },
+							},
+						},
+						tokenRisk: {
+							type: 'object',
+							required: ['sellToken', 'buyToken'],
+							description:
+								'Transfer taxes and honeypot flags from simulating a buy and sell of each token',
+							properties: {
+								sellToken: { $ref: '#/components/schemas/TokenRisk' },
+								buyToken: { $ref: '#/components/schemas/TokenRisk' },
+							},
+						},
+					},
+				},
+				OrderBook: {
+					type: 'object',
+					description:
+						'Both sides of the pair priced in buyToken per sellToken; only returned with mode=orderbook',
+					required: [
+						'bestBid',
+						'bestAsk',
+						'midPrice',
+						'spreadBps',
+						'bids',
+						'asks',
+					],
+					properties: {
+						bestBid: {
+							type: 'string',
+							description:
+								'Price received for the first unit of sellToken sold, net of LP fees',
+							example: '0.000419',
+						},
+						bestAsk: {
+							type: 'string',
+							description:
+								'Price paid for the first unit of sellToken bought, including LP fees',
+							example: '0.000421',
+						},
+						midPrice: {
+							type: 'string',
+							description: 'Midpoint of the best bid and ask',
+							example: '0.00042',
+						},
+						spreadBps: {
+							type: 'number',
+							description:
+								'Best ask minus best bid relative to the mid price, in basis points',
+							example: 47.6,
+						},
+						bids: {
+							type: 'object',
+							description: 'Depth selling sellToken, keyed by slippage level',
+							additionalProperties: {
+								$ref: '#/components/schemas/OrderBookLevel',
+							},
+						},
+						asks: {
+							type: 'object',
+							description:
+								'Depth buying sellToken with buyToken, keyed by slippage level',
+							additionalProperties: {
+								$ref: '#/components/schemas/OrderBookLevel',
+							},
+						},
+					},
+				},
+				OrderBookLevel: {
+					type: 'object',
+					required: [
+						'dex',
+						'baseAmount',
+						'quoteAmount',
+						'price',
+						'path',
+						'pools',
+					],
+					properties: {
+						dex: {
+							type: 'string',
+							example: 'Uniswap V3',
+						},
+						baseAmount: {
+							type: 'string',
+							description: 'Amount of sellToken traded',
+							example: '1000.0',
+						},
+						quoteAmount: {
+							type: 'string',
+							description: 'Amount of buyToken received or paid',
+							example: '0.415',
+						},
+						price: {
+							type: 'string',
+							description: 'Average execution price in buyToken per sellToken',
+							example: '0.000415',
+						},
+						path: {
+							type: 'array',
+							items: { type: 'string' },
+							description: 'Token path in the direction of the trade',
+						},
+						pools: {
+							type: 'array',
+							items: { $ref: '#/components/schemas/PoolSummary' },
+						},
+					},
+				},
+				LiquidityBatchItem: {
+					type: 'object',
+					required: ['sellToken', 'buyToken', 'chainId'],
+					properties: {
+						sellToken: {
+							type: 'string',
+							description: 'Token address or token list symbol',
+							example: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+						},
+						buyToken: {
+							type: 'string',
+							description: 'Token address or token list symbol',
+							example: 'WETH',
+						},
+						chainId: {
+							oneOf: [{ type: 'integer' }, { type: 'string' }],
+							example: 1,
+						},
+						levels: {
+							type: 'array',
+							description:
+								'Slippage levels as percentages (e.g. 0.5 or "0.5%") or bps values (e.g. "50bps"); 1%, 5% and 10% by default',
+							items: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+							example: ['0.5%', '1%'],
+						},
+					},
+				},
+				LiquidityBatchResponse: {
+					type: 'object',
+					required: ['results', 'succeeded', 'failed'],
+					properties: {
+						results: {
+							type: 'array',
+							description: 'One result per item, in request order',
+							items: { $ref: '#/components/schemas/LiquidityBatchResult' },
+						},
+						succeeded: { type: 'integer', example: 2 },
+						failed: { type: 'integer', example: 0 },
+					},
+				},
+				LiquidityBatchResult: {
+					type: 'object',
+					required: ['success', 'status'],
+					properties: {
+						success: { type: 'boolean' },
+						status: {
+							type: 'integer',
+							description: 'HTTP status the item would get from GET /liquidity',
+							example: 200,
+						},
+						result: { $ref: '#/components/schemas/LiquidityResponse' },
+						error: { $ref: '#/components/schemas/ErrorResponse' },
+					},
+				},
+				TokenSearchResponse: {
+					type: 'object',
+					required: ['chainId', 'tokens'],
+					properties: {
+						chainId: { type: 'integer', example: 1 },
+						tokens: {
+							type: 'array',
+							items: { $ref: '#/components/schemas/TokenListToken' },
+						},
+					},
+				},
+				TokenListToken: {
+					type: 'object',
+					description: 'A token of a Uniswap Token List',
+					required: ['chainId', 'address', 'symbol', 'name', 'decimals'],
+					properties: {
+						chainId: { type: 'integer', example: 1 },
+						address: {
+							type: 'string',
+							example: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+						},
+						symbol: { type: 'string', example: 'USDC' },
+						name: { type: 'string', example: 'USD Coin' },
+						decimals: { type: 'integer', example: 6 },
+						logoURI: { type: 'string' },
+					},
+				},
+				TokenMetadata: {
+					type: 'object',
+					required: ['address', 'symbol', 'name', 'decimals'],
+					properties: {
+						address: {
+							type: 'string',
+							example: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+						},
+						symbol: {
+							type: 'string',
+							nullable: true,
+							description:
+								'Token symbol, also decoded from bytes32 for tokens such as MKR; null when the token has none',
+							example: 'USDC',
+						},
+						name: {
+							type: 'string',
+							nullable: true,
+							description: 'Token name; null when the token has none',
+							example: 'USD Coin',
+						},
+						decimals: {
+							type: 'integer',
+							example: 6,
+						},
+					},
+				},
+				TokenRisk: {
+					type: 'object',
+					required: [
+						'simulated',
+						'isHoneypot',
+						'buyTaxPercent',
+						'sellTaxPercent',
+					],
+					properties: {
+						simulated: {
+							type: 'boolean',
+							description:
+								'Whether the buy and sell round trip was simulated on-chain',
+						},
+						isHoneypot: {
+							type: 'boolean',
+							description:
+								'True when the token cannot be bought or sold back, or its sell tax is 50% or more',
+						},
+						buyTaxPercent: {
+							type: 'number',
+							nullable: true,
+							description:
+								'Share of the bought tokens lost in transfer, in percent',
+							example: 5,
+						},
+						sellTaxPercent: {
+							type: 'number',
+							nullable: true,
+							description:
+								'Share of the sale proceeds lost in transfer, in percent',
+							example: 5,
+						},
+						reason: {
+							type: 'string',
+							description:
+								'Why the token was not simulated or was flagged as a honeypot',
+							example: 'Sell reverted',
+						},
+					},
+				},
+				AggregatedQuote: {
+					type: 'object',
+					required: ['sellAmount', 'buyAmount', 'allocations'],
+					properties: {
+						sellAmount: {
+							type: 'string',
+							description: 'Total amount of sell token across all pools',
+							example: '201.96',
+						},
+						buyAmount: {
+							type: 'string',
+							description: 'Total amount of buy token received',
+							example: '1199.64',
+						},
+						allocations: {
+							type: 'array',
+							items: { $ref: '#/components/schemas/PoolAllocation' },
+							description: 'Share of the order routed through each pool',
+						},
+					},
+				},
+				PoolAllocation: {
+					type: 'object',
+					required: ['pool', 'sellAmount', 'buyAmount', 'share'],
+					properties: {
+						pool: { $ref: '#/components/schemas/PoolSummary' },
+						sellAmount: {
+							type: 'string',
+							description: 'Amount of sell token routed through the pool',
+							example: '123.45',
+						},
+						buyAmount: {
+							type: 'string',
+							description: 'Amount of buy token the pool returns',
+							example: '733.29',
+						},
+						share: {
+							type: 'number',
+							description: 'Fraction of the total sell amount',
+							example: 0.611255,
+						},
+					},
+				},
+				VenueQuotes: {
+					type: 'object',
+					required: ['dex', 'quotes'],
+					properties: {
+						dex: {
+							type: 'string',
+							description: 'DEX name',
+							example: 'SushiSwap',
+						},
+						quotes: {
+							type: 'object',
+							description:
+								'Quotes keyed by slippage level; levels this DEX cannot quote are omitted',
+							additionalProperties: {
+								$ref: '#/components/schemas/SlippageQuote',
 							},
 						},
 					},
 				},
 				SlippageQuote: {
 					type: 'object',
-					required: ['sellAmount', 'buyAmount'],
+					required: [
+						'dex',
+						'sellAmount',
+						'buyAmount',
+						'sellAmountUsd',
+						'buyAmountUsd',
+						'path',
+						'pools',
+						'priceImpactBps',
+						'lpFeeBps',
+						'curveImpactBps',
+					],
 					properties: {
+						dex: {
+							type: 'string',
+							description: 'DEX serving the route',
+							example: 'Uniswap V3',
+						},
 						sellAmount: {
 							type: 'string',
 							description:
@@ -67,6 +475,491 @@ const options = {
 								'Amount of buy token received (formatted with proper decimals)',
 							example: '0.42',
 						},
+						sellAmountUsd: {
+							type: 'string',
+							nullable: true,
+							description:
+								'USD value of the sell amount, rounded down to the cent; null when the token has no USD price',
+							example: '1000.0',
+						},
+						buyAmountUsd: {
+							type: 'string',
+							nullable: true,
+							description:
+								'USD value of the buy amount, rounded down to the cent; null when the token has no USD price',
+							example: '999.81',
+						},
+						path: {
+							type: 'array',
+							items: { type: 'string' },
+							description:
+								'Token path of the route with the best output at this level',
+							example: [
+								'0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+								'0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+							],
+						},
+						pools: {
+							type: 'array',
+							items: { $ref: '#/components/schemas/PoolSummary' },
+							description: 'Pool used for each hop of the path',
+						},
+						priceImpactBps: {
+							type: 'number',
+							description:
+								'Price impact against the spot price in basis points, including the LP fee',
+							example: 100,
+						},
+						lpFeeBps: {
+							type: 'number',
+							description:
+								'Combined LP fee of the pools along the path in basis points',
+							example: 5,
+						},
+						curveImpactBps: {
+							type: 'number',
+							description:
+								"Price impact beyond the LP fee, from moving along the pools' curves, in basis points",
+							example: 95,
+						},
+					},
+				},
+				PoolSummary: {
+					type: 'object',
+					required: ['dex', 'address', 'feeBps'],
+					properties: {
+						dex: {
+							type: 'string',
+							description: 'DEX the pool belongs to',
+							example: 'Uniswap V3',
+						},
+						address: {
+							type: 'string',
+							description: 'Pool address',
+							example: '0x88e6A0c2dDD26FEEb64F039a2c41296FcB3f5640',
+						},
+						feeBps: {
+							type: 'number',
+							description: 'Swap fee in basis points',
+							example: 5,
+						},
+						feeTier: {
+							type: 'integer',
+							description:
+								'Uniswap V3 fee tier in hundredths of a basis point (only for V3 pools)',
+							example: 500,
+						},
+					},
+				},
+				SwapQuoteResponse: {
+					type: 'object',
+					required: [
+						'sellToken',
+						'buyToken',
+						'chainId',
+						'blockNumber',
+						'blockTimestamp',
+						'path',
+						'pairAddresses',
+						'pools',
+						'sellAmount',
+						'sellAmountWei',
+						'buyAmount',
+						'buyAmountWei',
+						'effectivePrice',
+						'spotPrice',
+						'priceImpactBps',
+						'lpFeeBps',
+						'curveImpactBps',
+					],
+					properties: {
+						sellToken: {
+							type: 'string',
+							example: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+						},
+						buyToken: {
+							type: 'string',
+							example: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+						},
+						chainId: {
+							type: 'integer',
+							example: 1,
+						},
+						blockNumber: {
+							type: 'integer',
+							description: 'Block every read for the response was made at',
+							example: 19000000,
+						},
+						blockTimestamp: {
+							type: 'integer',
+							description: 'Timestamp of that block, in Unix seconds',
+							example: 1705173443,
+						},
+						path: {
+							type: 'array',
+							items: { type: 'string' },
+							description: 'Token path of the route used for the quote',
+							example: [
+								'0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+								'0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+							],
+						},
+						pairAddresses: {
+							type: 'array',
+							items: { type: 'string' },
+							description: 'Address of each pool along the path',
+							example: ['0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc'],
+						},
+						pools: {
+							type: 'array',
+							items: { $ref: '#/components/schemas/PoolSummary' },
+							description: 'Pool used for each hop of the path',
+						},
+						sellAmount: {
+							type: 'string',
+							description: 'Amount of sell token (formatted with decimals)',
+							example: '1000.0',
+						},
+						sellAmountWei: {
+							type: 'string',
+							description: 'Amount of sell token in base units',
+							example: '1000000000',
+						},
+						buyAmount: {
+							type: 'string',
+							description: 'Amount of buy token received (formatted)',
+							example: '0.418',
+						},
+						buyAmountWei: {
+							type: 'string',
+							description: 'Amount of buy token received in base units',
+							example: '418000000000000000',
+						},
+						effectivePrice: {
+							type: 'string',
+							description: 'Buy tokens received per sell token',
+							example: '0.000418',
+						},
+						spotPrice: {
+							type: 'string',
+							description:
+								'Spot price along the route in buy tokens per sell token',
+							example: '0.00042',
+						},
+						priceImpactBps: {
+							type: 'number',
+							description:
+								'Price impact against the spot price in basis points, including the LP fee',
+							example: 31.2,
+						},
+						lpFeeBps: {
+							type: 'number',
+							description:
+								'Combined LP fee of the pools along the path in basis points',
+							example: 30,
+						},
+						curveImpactBps: {
+							type: 'number',
+							description:
+								"Price impact beyond the LP fee, from moving along the pools' curves, in basis points",
+							example: 1.2,
+						},
+					},
+				},
+				DepthCurveResponse: {
+					type: 'object',
+					required: [
+						'sellToken',
+						'buyToken',
+						'chainId',
+						'blockNumber',
+						'blockTimestamp',
+						'dex',
+						'path',
+						'pools',
+						'spacing',
+						'points',
+					],
+					properties: {
+						sellToken: {
+							type: 'string',
+							example: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+						},
+						buyToken: {
+							type: 'string',
+							example: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+						},
+						chainId: {
+							type: 'integer',
+							example: 1,
+						},
+						blockNumber: {
+							type: 'integer',
+							description: 'Block every read for the response was made at',
+							example: 19000000,
+						},
+						blockTimestamp: {
+							type: 'integer',
+							description: 'Timestamp of that block, in Unix seconds',
+							example: 1705173443,
+						},
+						dex: {
+							type: 'string',
+							description: 'DEX serving the route',
+							example: 'Uniswap V3',
+						},
+						path: {
+							type: 'array',
+							items: { type: 'string' },
+							description:
+								'Token path of the route with the best output at maxImpact',
+							example: [
+								'0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+								'0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+							],
+						},
+						pools: {
+							type: 'array',
+							items: { $ref: '#/components/schemas/PoolSummary' },
+							description: 'Pool used for each hop of the path',
+						},
+						spacing: {
+							type: 'string',
+							enum: ['linear', 'log'],
+							example: 'linear',
+						},
+						points: {
+							type: 'array',
+							items: { $ref: '#/components/schemas/DepthCurvePoint' },
+							description:
+								'Trades in increasing size, starting with a zero-size trade',
+						},
+					},
+				},
+				DepthCurvePoint: {
+					type: 'object',
+					required: ['sellAmount', 'buyAmount', 'priceImpactBps'],
+					properties: {
+						sellAmount: {
+							type: 'string',
+							description: 'Amount of sell token (formatted with decimals)',
+							example: '500000.0',
+						},
+						buyAmount: {
+							type: 'string',
+							description: 'Amount of buy token received (formatted)',
+							example: '208.95',
+						},
+						priceImpactBps: {
+							type: 'number',
+							description:
+								'Price impact against the spot price in basis points, including the LP fee',
+							example: 49.8,
+						},
+					},
+				},
+				TwapResponse: {
+					type: 'object',
+					required: [
+						'sellToken',
+						'buyToken',
+						'chainId',
+						'blockNumber',
+						'blockTimestamp',
+						'window',
+						'startBlockNumber',
+						'startBlockTimestamp',
+						'pools',
+					],
+					properties: {
+						sellToken: {
+							type: 'string',
+							example: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+						},
+						buyToken: {
+							type: 'string',
+							example: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+						},
+						chainId: {
+							type: 'integer',
+							example: 1,
+						},
+						blockNumber: {
+							type: 'integer',
+							description: 'End block of the window',
+							example: 19000000,
+						},
+						blockTimestamp: {
+							type: 'integer',
+							example: 1705173443,
+						},
+						window: {
+							type: 'integer',
+							description:
+								'Seconds between the start and end blocks; at most the requested window',
+							example: 3599,
+						},
+						startBlockNumber: {
+							type: 'integer',
+							description:
+								'Last block mined at or before the start of the requested window',
+							example: 18999703,
+						},
+						startBlockTimestamp: {
+							type: 'integer',
+							example: 1705169844,
+						},
+						pools: {
+							type: 'array',
+							items: { $ref: '#/components/schemas/PoolTwap' },
+						},
+					},
+				},
+				PoolTwap: {
+					allOf: [
+						{ $ref: '#/components/schemas/PoolSummary' },
+						{
+							type: 'object',
+							required: ['twap', 'spotPrice', 'deviationBps'],
+							properties: {
+								twap: {
+									type: 'string',
+									description:
+										'Time-weighted average price over the window, in buyToken per sellToken',
+									example: '0.000391',
+								},
+								spotPrice: {
+									type: 'string',
+									description: 'Reserve ratio at the end block',
+									example: '0.000392',
+								},
+								deviationBps: {
+									type: 'number',
+									description:
+										'Deviation of the spot price from the TWAP in basis points; positive when spot is above it',
+									example: 25.57,
+								},
+							},
+						},
+					],
+				},
+				LiquidityHistoryResponse: {
+					type: 'object',
+					required: [
+						'sellToken',
+						'buyToken',
+						'chainId',
+						'from',
+						'to',
+						'interval',
+						'snapshots',
+					],
+					properties: {
+						sellToken: {
+							type: 'string',
+							example: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+						},
+						buyToken: {
+							type: 'string',
+							example: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+						},
+						chainId: {
+							type: 'integer',
+							example: 1,
+						},
+						from: {
+							type: 'integer',
+							description: 'Start of the range, in Unix seconds',
+							example: 1704067200,
+						},
+						to: {
+							type: 'integer',
+							description: 'End of the range, in Unix seconds',
+							example: 1704153600,
+						},
+						interval: {
+							type: 'integer',
+							nullable: true,
+							description:
+								'Bucket width in seconds the snapshots were downsampled to, or null when returned as recorded',
+							example: 3600,
+						},
+						snapshots: {
+							type: 'array',
+							items: { $ref: '#/components/schemas/LiquiditySnapshot' },
+							description: 'Snapshots in the range, oldest first',
+						},
+					},
+				},
+				LiquiditySnapshot: {
+					type: 'object',
+					required: [
+						'timestamp',
+						'sellToken',
+						'buyToken',
+						'chainId',
+						'blockNumber',
+						'blockTimestamp',
+						'reserves',
+						'quotes',
+					],
+					properties: {
+						timestamp: {
+							type: 'integer',
+							description: 'When the snapshot was taken, in Unix seconds',
+							example: 1704067260,
+						},
+						sellToken: {
+							type: 'string',
+							example: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+						},
+						buyToken: {
+							type: 'string',
+							example: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+						},
+						chainId: {
+							type: 'integer',
+							example: 1,
+						},
+						blockNumber: {
+							type: 'integer',
+							example: 18908895,
+						},
+						blockTimestamp: {
+							type: 'integer',
+							example: 1704067259,
+						},
+						reserves: {
+							type: 'array',
+							description: 'Reserves of every direct pool of the pair',
+							items: {
+								allOf: [
+									{ $ref: '#/components/schemas/PoolSummary' },
+									{
+										type: 'object',
+										required: ['sellReserve', 'buyReserve'],
+										properties: {
+											sellReserve: { type: 'string', example: '31250000.0' },
+											buyReserve: { type: 'string', example: '13750.5' },
+										},
+									},
+								],
+							},
+						},
+						quotes: {
+							type: 'object',
+							description:
+								'Depth of the best route at 1%, 5% and 10% price impact',
+							additionalProperties: {
+								type: 'object',
+								required: ['dex', 'sellAmount', 'buyAmount'],
+								properties: {
+									dex: { type: 'string', example: 'Uniswap V3' },
+									sellAmount: { type: 'string', example: '1250000.0' },
+									buyAmount: { type: 'string', example: '543.2' },
+								},
+							},
+						},
 					},
 				},
 				HealthResponse: {
@@ -75,8 +968,9 @@ const options = {
 					properties: {
 						status: {
 							type: 'string',
-							enum: ['ok', 'degraded'],
-							description: 'Service health status',
+							enum: ['ok', 'degraded', 'unhealthy'],
+							description:
+								'ok when every chain is healthy, degraded when some endpoints fail, unhealthy when a chain has no healthy endpoint',
 						},
 						timestamp: {
 							type: 'string',
@@ -93,10 +987,9 @@ const options = {
 							enum: ['healthy', 'unhealthy'],
 							description: 'Status of RPC connectivity',
 						},
-						latestBlock: {
-							type: 'integer',
-							description: 'Latest block number (only present when healthy)',
-							example: 18500000,
+						chains: {
+							type: 'array',
+							items: { $ref: '#/components/schemas/ChainHealth' },
 						},
 						cacheSize: {
 							type: 'integer',
@@ -105,11 +998,56 @@ const options = {
 						},
 						error: {
 							type: 'string',
-							description: 'Error message (only present when degraded)',
+							description:
+								'Error message (only present when the check itself failed)',
 							example: 'RPC timeout',
 						},
 					},
 				},
+				ChainHealth: {
+					type: 'object',
+					required: ['chainId', 'name', 'status', 'endpoints'],
+					properties: {
+						chainId: { type: 'integer', example: 137 },
+						name: { type: 'string', example: 'Polygon' },
+						status: {
+							type: 'string',
+							enum: ['healthy', 'degraded', 'unhealthy'],
+						},
+						latestBlock: {
+							type: 'integer',
+							nullable: true,
+							description: 'Highest block served by any endpoint',
+							example: 55000000,
+						},
+						blockAgeSeconds: {
+							type: 'integer',
+							nullable: true,
+							description: 'Age of the freshest block served by any endpoint',
+							example: 2,
+						},
+						endpoints: {
+							type: 'array',
+							items: { $ref: '#/components/schemas/EndpointHealth' },
+						},
+					},
+				},
+				EndpointHealth: {
+					type: 'object',
+					required: ['url', 'healthy'],
+					properties: {
+						url: {
+							type: 'string',
+							description: 'Origin of the RPC URL',
+							example: 'https://polygon-rpc.com',
+						},
+						healthy: { type: 'boolean' },
+						latencyMs: { type: 'integer', nullable: true, example: 180 },
+						latestBlock: { type: 'integer', nullable: true, example: 55000000 },
+						blockAgeSeconds: { type: 'integer', nullable: true, example: 2 },
+						error: { type: 'string', example: 'RPC timeout' },
+					},
+				},
 				APIInfoResponse: {
 					type: 'object',
 					properties: {
@@ -137,6 +1075,14 @@ const options = {
 										example: { type: 'string' },
 									},
 								},
+								'GET /quote': {
+									type: 'object',
+									properties: {
+										description: { type: 'string' },
+										parameters: { type: 'object' },
+										example: { type: 'string' },
+									},
+								},
 								'GET /health': {
 									type: 'object',
 									properties: {
@@ -148,10 +1094,20 @@ const options = {
 						supportedChains: {
 							type: 'object',
 							properties: {
-								'1': { type: 'string', example: 'Ethereum (Uniswap V2)' },
-								'137': { type: 'string', example: 'Polygon (QuickSwap)' },
-								'56': { type: 'string', example: 'BSC (PancakeSwap)' },
-								'42161': { type: 'string', example: 'Arbitrum (SushiSwap)' },
+								'1': {
+									type: 'string',
+									example:
+										'Ethereum (Uniswap V2, SushiSwap, Uniswap V3, Curve)',
+								},
+								'137': {
+									type: 'string',
+									example: 'Polygon (QuickSwap, SushiSwap)',
+								},
+								'56': { type: 'string', example: 'BSC (PancakeSwap V2)' },
+								'42161': {
+									type: 'string',
+									example: 'Arbitrum (SushiSwap, Uniswap V3)',
+								},
 							},
 						},
 					},
@@ -263,6 +1219,86 @@ const options = {
 						},
 					],
 				},
+				InvalidModeError: {
+					allOf: [
+						{ $ref: '#/components/schemas/ErrorResponse' },
+						{
+							type: 'object',
+							properties: {
+								error: {
+									type: 'string',
+									enum: ['Invalid mode'],
+								},
+								message: {
+									type: 'string',
+									example: 'Invalid mode: mode must be "quotes" or "orderbook"',
+								},
+							},
+						},
+					],
+				},
+				InvalidBlockTagError: {
+					allOf: [
+						{ $ref: '#/components/schemas/ErrorResponse' },
+						{
+							type: 'object',
+							properties: {
+								error: {
+									type: 'string',
+									enum: ['Invalid blockTag'],
+								},
+								message: {
+									type: 'string',
+									example:
+										'Invalid blockTag: blockTag must be a block number, "latest", "safe" or "finalized"',
+								},
+							},
+						},
+					],
+				},
+				InvalidLevelsError: {
+					allOf: [
+						{ $ref: '#/components/schemas/ErrorResponse' },
+						{
+							type: 'object',
+							properties: {
+								error: {
+									type: 'string',
+									enum: ['Invalid levels'],
+								},
+								message: {
+									type: 'string',
+									examples: [
+										'Invalid levels: "abc" is not a percentage (e.g. 0.5 or 0.5%) or bps value (e.g. 50bps)',
+										'Invalid levels: "150" must be between 0.01% and 99%',
+										'Invalid levels: at most 10 levels can be requested',
+									],
+								},
+							},
+						},
+					],
+				},
+				InvalidAmountError: {
+					allOf: [
+						{ $ref: '#/components/schemas/ErrorResponse' },
+						{
+							type: 'object',
+							properties: {
+								error: {
+									type: 'string',
+									enum: ['Invalid amount'],
+								},
+								message: {
+									type: 'string',
+									examples: [
+										'Invalid amount: unit must be "token" or "wei"',
+										'Invalid amount: 1.5 is not a valid integer wei amount',
+									],
+								},
+							},
+						},
+					],
+				},
 				InvalidTokenAddressError: {
 					allOf: [
 						{ $ref: '#/components/schemas/ErrorResponse' },
@@ -301,6 +1337,7 @@ const options = {
 										'No liquidity pool found for pair 0x.../0x... on chain Ethereum',
 										'Liquidity pool for pair 0x.../0x... has zero reserves',
 										'Insufficient liquidity for reliable pricing in pair 0x.../0x...',
+										'Insufficient liquidity: requested 50000.0 exceeds the 41234.5 available for pair 0x...',
 									],
 								},
 							},
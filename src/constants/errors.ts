@@ -8,6 +8,12 @@ export const CLIENT_ERROR_PATTERNS = [
 	'Invalid token decimals',
 	'zero reserves',
 	'not a valid ERC20 token',
+	'Invalid amount',
+	'Insufficient liquidity',
+	'Invalid blockTag',
+	'Invalid window',
+	'Unknown token symbol',
+	'Ambiguous token symbol',
 ] as const;
 
 export const HTTP_STATUS = {
@@ -25,6 +31,15 @@ export const ERROR_TYPES = {
 	UNSUPPORTED_CHAIN: 'Unsupported chain',
 	INVALID_CHAIN_ID: 'Invalid chainId',
 	INVALID_TOKEN_PAIR: 'Invalid token pair',
+	INVALID_LEVELS: 'Invalid levels',
+	INVALID_MODE: 'Invalid mode',
+	INVALID_BLOCK_TAG: 'Invalid blockTag',
+	INVALID_AMOUNT: 'Invalid amount',
+	INVALID_DEPTH_CURVE: 'Invalid depth curve parameters',
+	INVALID_HISTORY: 'Invalid history parameters',
+	INVALID_TWAP_WINDOW: 'Invalid window',
+	INVALID_TOKEN_SEARCH: 'Invalid token search',
+	INVALID_BATCH: 'Invalid batch',
 	MISSING_PARAMETERS: 'Missing or invalid required parameters',
 } as const;
 
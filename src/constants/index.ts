@@ -8,11 +8,126 @@ export const RATE_LIMIT_CONFIG = {
 	MAX_REQUESTS: 100,
 } as const;
 
+export const BATCH_CONFIG = {
+	MAX_ITEMS: 500,
+	// Items quoted at once; the rest wait for a free slot
+	CONCURRENCY: 8,
+} as const;
+
 export const TIMEOUT_CONFIG = {
 	RPC_CALL_TIMEOUT: 10000,
 	HEALTH_CHECK_TIMEOUT: 5000,
 } as const;
 
+export const SLIPPAGE_CONFIG = {
+	VERIFY_WITH_ROUTER: process.env.VERIFY_WITH_ROUTER === 'true',
+	ROUTER_TOLERANCE_BPS: 1,
+} as const;
+
+export const SLIPPAGE_LEVELS_CONFIG = {
+	DEFAULT_LEVELS: [0.01, 0.05, 0.1],
+	MIN_LEVEL: 0.0001,
+	MAX_LEVEL: 0.99,
+	MAX_COUNT: 10,
+} as const;
+
+export const USD_PRICING_CONFIG = {
+	/** Impact level at which the deepest route to a stablecoin is picked as a token's reference route. */
+	REFERENCE_IMPACT: 0.02,
+	MAX_NOTIONAL: 1_000_000_000_000,
+} as const;
+
+export const DEPTH_CURVE_CONFIG = {
+	DEFAULT_MAX_IMPACT: 0.1,
+	DEFAULT_POINTS: 50,
+	MIN_POINTS: 2,
+	MAX_POINTS: 500,
+	DEFAULT_SPACING: 'linear',
+	// Orders of magnitude covered by log spacing below the largest trade
+	LOG_SPAN_DECADES: 4,
+} as const;
+
+export const SNAPSHOT_CONFIG = {
+	INTERVAL_MS: Number(process.env.SNAPSHOT_INTERVAL_MS) || 5 * 60 * 1000,
+	DATA_DIR: process.env.SNAPSHOT_DATA_DIR || 'data/snapshots',
+	LEVELS: [0.01, 0.05, 0.1],
+	DEFAULT_HISTORY_RANGE: 24 * 60 * 60,
+	// Larger results are downsampled to at most this many snapshots
+	MAX_HISTORY_POINTS: 1000,
+} as const;
+
+export const TWAP_CONFIG = {
+	DEFAULT_WINDOW: 30 * 60,
+	MIN_WINDOW: 60,
+	MAX_WINDOW: 7 * 24 * 60 * 60,
+} as const;
+
+export const ROUTING_CONFIG = {
+	MAX_HOPS: 3,
+} as const;
+
+export const RPC_CONFIG = {
+	// Attempts per request, each on the best endpoint not tried yet
+	MAX_ATTEMPTS: 3,
+	BACKOFF_BASE_MS: 200,
+	BACKOFF_MAX_MS: 2000,
+	// Weight of the newest sample in an endpoint's latency and error rate
+	SMOOTHING: 0.2,
+	// Latency assumed for endpoints that have not answered yet
+	INITIAL_LATENCY_MS: 500,
+	// An endpoint failing every request scores as 1 + ERROR_PENALTY times slower
+	ERROR_PENALTY: 10,
+	MAX_CONSECUTIVE_FAILURES: 3,
+	REST_MS: 30000,
+} as const;
+
+export const HEALTH_CONFIG = {
+	// Endpoints whose latest block is older than this are lagging
+	MAX_BLOCK_AGE_SECONDS: 120,
+	// Probes are reused for this long so frequent health checks stay cheap
+	CACHE_TTL: 5000,
+} as const;
+
+export const METRICS_CONFIG = {
+	// Histogram buckets in seconds
+	HTTP_DURATION_BUCKETS: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+	RPC_DURATION_BUCKETS: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+	BISECTION_ITERATION_BUCKETS: [0, 8, 16, 32, 64, 128, 256, 512],
+} as const;
+
+export const MULTICALL_CONFIG = {
+	// Calls per aggregate3, kept well below the eth_call gas cap of public RPCs
+	MAX_CALLS: 50,
+} as const;
+
+export const UNISWAP_V3_CONFIG = {
+	// Tick bitmap words read on each side of the current price
+	TICK_WORD_RADIUS: 2,
+} as const;
+
+export const CURVE_CONFIG = {
+	// Registry entries checked per pair by find_pool_for_coins
+	MAX_POOLS_PER_PAIR: 4,
+} as const;
+
+export const TOKEN_RISK_CONFIG = {
+	// Native token spent on the simulated buy, in wei (0.1 ETH/MATIC/BNB)
+	SIMULATION_AMOUNT: '100000000000000000',
+	// Sell taxes at or above this make a token unsellable in practice
+	HONEYPOT_SELL_TAX_PERCENT: 50,
+} as const;
+
+export const TOKEN_METADATA_CONFIG = {
+	// Unset keeps the metadata cache in memory only
+	CACHE_FILE: process.env.TOKEN_METADATA_CACHE_FILE || undefined,
+} as const;
+
+export const TOKEN_LIST_CONFIG = {
+	DIR: process.env.TOKEN_LIST_DIR || 'tokenlists',
+	DEFAULT_SEARCH_LIMIT: 20,
+	MAX_SEARCH_LIMIT: 100,
+} as const;
+
 export const VALIDATION_LIMITS = {
 	MIN_TOKEN_DECIMALS: 0,
 	MAX_TOKEN_DECIMALS: 77,
@@ -3,13 +3,27 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import swaggerUi from 'swagger-ui-express';
 import liquidityRoutes from './routes/liquidity';
+import quoteRoutes from './routes/quote';
+import depthRoutes from './routes/depth';
+import historyRoutes from './routes/history';
+import twapRoutes from './routes/twap';
+import tokenRoutes from './routes/tokens';
+import metricsRoutes from './routes/metrics';
+import { metricsMiddleware } from './middleware/metrics';
 import { specs } from './config/swagger';
+import { getSnapshotPairs } from './config/snapshots';
+import { CHAIN_CONFIGS } from './config/chains';
+import { LiquidityService } from './services/liquidityService';
+import { SnapshotRecorder } from './services/snapshotRecorder';
+import { SnapshotStore } from './utils/snapshotStore';
+import { SNAPSHOT_CONFIG } from './constants';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+app.use(metricsMiddleware);
 app.use(cors());
 app.use(express.json());
 
@@ -29,6 +43,12 @@ app.use(
 );
 
 app.use('/', liquidityRoutes);
+app.use('/', quoteRoutes);
+app.use('/', depthRoutes);
+app.use('/', historyRoutes);
+app.use('/', twapRoutes);
+app.use('/', tokenRoutes);
+app.use('/', metricsRoutes);
 
 /**
  * @swagger
@@ -55,24 +75,125 @@ app.get('/', (req: express.Request, res: express.Response) => {
 			'GET /liquidity': {
 				description: 'Get liquidity quotes with slippage calculations',
 				parameters: {
-					sellToken: 'Token address to sell (required)',
-					buyToken: 'Token address to buy (required)',
+					sellToken: 'Token address or token list symbol to sell (required)',
+					buyToken: 'Token address or token list symbol to buy (required)',
 					chainId:
 						'EVM chain ID (required - 1=Ethereum, 137=Polygon, 56=BSC, 42161=Arbitrum)',
+					levels:
+						'Comma-separated slippage levels in percent or bps (optional - e.g. 0.1,0.5,2,25 or 50bps; defaults to 1,5,10)',
+					usdLevels:
+						'Comma-separated USD notionals of the sell token to quote (optional - e.g. 10k,100k,1m)',
+					mode: 'quotes (default) or orderbook to add bid/ask depth, mid price and spread (optional)',
+					blockTag:
+						'Block number, latest (default), safe or finalized to quote at (optional - historical blocks need an archive node)',
 				},
 				example:
 					'/liquidity?sellToken=0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48&buyToken=0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2&chainId=1',
 			},
+			'POST /liquidity/batch': {
+				description:
+					'Quote up to 500 pairs in one request, with a result or error per pair',
+				body: 'JSON array of { sellToken, buyToken, chainId, levels } items',
+				example:
+					'[{"sellToken":"USDC","buyToken":"WETH","chainId":1,"levels":["1%"]}]',
+			},
+			'GET /quote': {
+				description:
+					'Quote an exact-input or exact-output swap: amounts, effective and spot price, price impact',
+				parameters: {
+					sellToken: 'Token address to sell (required)',
+					buyToken: 'Token address to buy (required)',
+					chainId: 'EVM chain ID (required)',
+					sellAmount:
+						'Exact amount of sellToken to sell (one of sellAmount/buyAmount)',
+					buyAmount:
+						'Exact amount of buyToken to receive (one of sellAmount/buyAmount)',
+					unit: 'Unit of the amount: token (default) or wei (optional)',
+					blockTag:
+						'Block number, latest (default), safe or finalized to quote at (optional - historical blocks need an archive node)',
+				},
+				example:
+					'/quote?sellToken=0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48&buyToken=0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2&chainId=1&sellAmount=1000',
+			},
+			'GET /depth': {
+				description:
+					'Price-impact depth curve: dense series of sell amount, buy amount and price impact for charting',
+				parameters: {
+					sellToken: 'Token address to sell (required)',
+					buyToken: 'Token address to buy (required)',
+					chainId: 'EVM chain ID (required)',
+					maxImpact:
+						'Price impact of the last point in percent or bps (optional - defaults to 10)',
+					points: 'Number of points, 2-500 (optional - defaults to 50)',
+					spacing: 'Trade size spacing: linear (default) or log (optional)',
+					blockTag:
+						'Block number, latest (default), safe or finalized to quote at (optional - historical blocks need an archive node)',
+				},
+				example:
+					'/depth?sellToken=0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48&buyToken=0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2&chainId=1&maxImpact=5&points=100&spacing=log',
+			},
+			'GET /twap': {
+				description:
+					'Time-weighted average price of each Uniswap V2-style pool from its cumulative prices, with the spot deviation',
+				parameters: {
+					sellToken: 'Token address to sell (required)',
+					buyToken: 'Token address to buy (required)',
+					chainId: 'EVM chain ID (required)',
+					window:
+						'Averaging window, e.g. 1800, 30m, 1h or 1d (optional - defaults to 30m, at most 7d)',
+					blockTag:
+						'End block: block number, latest (default), safe or finalized (optional)',
+				},
+				example:
+					'/twap?sellToken=0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48&buyToken=0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2&chainId=1&window=1h',
+			},
+			'GET /history': {
+				description:
+					'Recorded reserves and 1%/5%/10% depth of a pair listed in SNAPSHOT_PAIRS',
+				parameters: {
+					sellToken: 'Token address to sell (required)',
+					buyToken: 'Token address to buy (required)',
+					chainId: 'EVM chain ID (required)',
+					from: 'Start of the range, Unix seconds or ISO 8601 (optional - defaults to 24 hours before to)',
+					to: 'End of the range, Unix seconds or ISO 8601 (optional - defaults to now)',
+					interval:
+						'Bucket width for downsampling, e.g. 300, 15m, 1h or 1d (optional)',
+				},
+				example:
+					'/history?sellToken=0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48&buyToken=0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2&chainId=1&interval=1h',
+			},
+			'GET /tokens': {
+				description:
+					'Search the token lists that /liquidity resolves symbols from',
+				parameters: {
+					chainId: 'EVM chain ID (required)',
+					query: 'Address, or part of a symbol or name (optional)',
+					limit: 'Maximum number of tokens, 1-100 (optional - defaults to 20)',
+				},
+				example: '/tokens?chainId=1&query=usd',
+			},
 			'GET /health': {
-				description: 'Health check endpoint',
+				description:
+					'Latency, latest block and block age of every RPC endpoint of every chain',
+			},
+			'GET /health/live': {
+				description: 'Liveness probe; succeeds while the process is up',
+			},
+			'GET /health/ready': {
+				description:
+					'Readiness probe; fails with 503 while any chain has no healthy RPC endpoint',
+			},
+			'GET /metrics': {
+				description:
+					'Prometheus metrics: requests, RPC calls, cache, rate limiting and slippage bisection',
 			},
 		},
-		supportedChains: {
-			1: 'Ethereum (Uniswap V2)',
-			137: 'Polygon (QuickSwap)',
-			56: 'BSC (PancakeSwap)',
-			42161: 'Arbitrum (SushiSwap)',
-		},
+		supportedChains: Object.fromEntries(
+			Object.entries(CHAIN_CONFIGS).map(([chainId, { name, dexes }]) => [
+				chainId,
+				`${name} (${dexes.map((dex) => dex.name).join(', ')})`,
+			])
+		),
 	});
 });
 
@@ -99,6 +220,13 @@ app.listen(PORT, () => {
 	console.log(`API documentation available at http://localhost:${PORT}`);
 	console.log(`Swagger docs: http://localhost:${PORT}/docs`);
 	console.log(`Health check: http://localhost:${PORT}/health`);
+
+	new SnapshotRecorder(
+		new LiquidityService(),
+		new SnapshotStore(SNAPSHOT_CONFIG.DATA_DIR),
+		getSnapshotPairs(),
+		SNAPSHOT_CONFIG.INTERVAL_MS
+	).start();
 });
 
 export default app;
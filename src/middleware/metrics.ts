@@ -0,0 +1,39 @@
+import { NextFunction, Request, Response } from 'express';
+import { CHAIN_CONFIGS } from '../config/chains';
+import { httpRequestDuration, httpRequestsTotal } from '../utils/metrics';
+
+/**
+ * Chain of the request, if it names a supported one. Anything else is
+ * reported as `none` so arbitrary input cannot create new series.
+ */
+const getChainLabel = (req: Request): string => {
+	const chainId = req.query?.chainId ?? req.body?.chainId;
+	const key = String(chainId);
+	return typeof chainId !== 'object' &&
+		Object.prototype.hasOwnProperty.call(CHAIN_CONFIGS, key)
+		? key
+		: 'none';
+};
+
+/** Counts and times every request by its route pattern, chain and status. */
+export const metricsMiddleware = (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	const stopTimer = httpRequestDuration.startTimer();
+
+	res.on('finish', () => {
+		const labels = {
+			method: req.method,
+			// Unmatched paths are collapsed for the same reason
+			route: req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched',
+			chain: getChainLabel(req),
+			status: String(res.statusCode),
+		};
+		httpRequestsTotal.inc(labels);
+		stopTimer(labels);
+	});
+
+	next();
+};
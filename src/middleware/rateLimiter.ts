@@ -0,0 +1,19 @@
+import rateLimit from 'express-rate-limit';
+import { ERROR_TYPES, RATE_LIMIT_CONFIG } from '../constants';
+import { rateLimitRejectionsTotal } from '../utils/metrics';
+
+/** One budget per client, shared by every rate-limited route. */
+export const limiter = rateLimit({
+	windowMs: RATE_LIMIT_CONFIG.WINDOW_MS,
+	max: RATE_LIMIT_CONFIG.MAX_REQUESTS,
+	message: {
+		error: ERROR_TYPES.TOO_MANY_REQUESTS,
+		message: 'Please try again later',
+	},
+	standardHeaders: true,
+	legacyHeaders: false,
+	handler: (req, res, next, options) => {
+		rateLimitRejectionsTotal.inc({ route: req.route?.path ?? 'unmatched' });
+		res.status(options.statusCode).send(options.message);
+	},
+});
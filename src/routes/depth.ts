@@ -0,0 +1,191 @@
+import { Router, Request, Response } from 'express';
+import { LiquidityService } from '../services/liquidityService';
+import { BlockTag, DepthCurveRequest } from '../types';
+import { HTTP_STATUS, ERROR_TYPES, CACHE_CONFIG } from '../constants';
+import { logInfo, logError } from '../utils/logger';
+import { getErrorMessage } from '../utils/error';
+import { formatSlippageLevel } from '../utils/levels';
+import {
+	parseDepthSpacing,
+	parseMaxImpact,
+	parsePointCount,
+} from '../utils/depthCurve';
+import { SimpleCache } from '../utils/cache';
+import { limiter } from '../middleware/rateLimiter';
+import {
+	parseBlockTag,
+	sendErrorResponse,
+	validatePairParams,
+} from './helpers';
+
+const router = Router();
+const liquidityService = new LiquidityService();
+
+const cache = new SimpleCache<any>(
+	CACHE_CONFIG.MAX_SIZE,
+	CACHE_CONFIG.TTL,
+	'depth'
+);
+
+/**
+ * @swagger
+ * /depth:
+ *   get:
+ *     summary: Price-impact depth curve for charting
+ *     description: |
+ *       Returns a dense series of `(sellAmount, buyAmount, priceImpactBps)` points along
+ *       the route with the best output at `maxImpact`, from a zero-size trade up to the
+ *       trade whose price impact is `maxImpact`. Points are spaced evenly in trade size
+ *       (`linear`) or geometrically over four orders of magnitude (`log`), which gives the
+ *       small trades at the start of the curve more detail. Quotes are computed locally
+ *       from the same pool state as `/liquidity`, so the series costs no extra RPC calls
+ *       per point.
+ *     tags:
+ *       - Liquidity
+ *     parameters:
+ *       - name: sellToken
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *         example: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48"
+ *       - name: buyToken
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *         example: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"
+ *       - name: chainId
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           enum: [1, 137, 56, 42161]
+ *         example: 1
+ *       - name: maxImpact
+ *         in: query
+ *         required: false
+ *         description: Price impact of the last point, in percent or with a `bps` suffix. Defaults to 10%.
+ *         schema:
+ *           type: string
+ *         example: "5"
+ *       - name: points
+ *         in: query
+ *         required: false
+ *         description: Number of points in the series, including the zero-size trade (2-500, default 50)
+ *         schema:
+ *           type: integer
+ *           minimum: 2
+ *           maximum: 500
+ *         example: 100
+ *       - name: spacing
+ *         in: query
+ *         required: false
+ *         description: Spacing of the trade sizes (default linear)
+ *         schema:
+ *           type: string
+ *           enum: [linear, log]
+ *         example: log
+ *       - name: blockTag
+ *         in: query
+ *         required: false
+ *         description: |
+ *           Block to quote at: a block number, `latest` (default), `safe` or `finalized`.
+ *           Every read for the response is made at this one block. Historical blocks
+ *           need an archive node behind the chain's RPC URL.
+ *         schema:
+ *           type: string
+ *         example: "18000000"
+ *     responses:
+ *       200:
+ *         description: Depth curve calculated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DepthCurveResponse'
+ *       400:
+ *         description: Bad Request - Invalid parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *             example:
+ *               error: "Invalid depth curve parameters"
+ *               message: 'Invalid spacing: spacing must be "linear" or "log"'
+ *       503:
+ *         description: Service unavailable - RPC or network issues
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/depth', limiter, async (req: Request, res: Response) => {
+	const startTime = Date.now();
+	const { sellToken, buyToken, chainId, maxImpact, points, spacing, blockTag } =
+		req.query;
+
+	logInfo(
+		`Depth curve request: ${sellToken} -> ${buyToken} on chain ${chainId}`
+	);
+
+	try {
+		const validation = validatePairParams(
+			req.query,
+			'/depth?sellToken=0x...&buyToken=0x...&chainId=1&maxImpact=5&points=100'
+		);
+		if (!validation.valid) {
+			return res.status(validation.status).json(validation.body);
+		}
+
+		let requestBlockTag: BlockTag;
+		try {
+			requestBlockTag = parseBlockTag(blockTag);
+		} catch (error) {
+			return res.status(HTTP_STATUS.BAD_REQUEST).json({
+				error: ERROR_TYPES.INVALID_BLOCK_TAG,
+				message: getErrorMessage(error, 'Invalid blockTag'),
+			});
+		}
+
+		let request: DepthCurveRequest;
+		try {
+			request = {
+				...validation.value,
+				maxImpact: parseMaxImpact(maxImpact),
+				points: parsePointCount(points),
+				spacing: parseDepthSpacing(spacing),
+				blockTag: requestBlockTag,
+			};
+		} catch (error) {
+			return res.status(HTTP_STATUS.BAD_REQUEST).json({
+				error: ERROR_TYPES.INVALID_DEPTH_CURVE,
+				message: getErrorMessage(error, 'Invalid depth curve parameters'),
+			});
+		}
+
+		const cacheKey = `${request.sellToken.toLowerCase()}-${request.buyToken.toLowerCase()}-${
+			request.chainId
+		}-${formatSlippageLevel(request.maxImpact)}-${request.points}-${
+			request.spacing
+		}-${requestBlockTag}`;
+		const cached = cache.get(cacheKey);
+		if (cached) {
+			logInfo(`Cache hit for ${cacheKey}`);
+			return res.json(cached);
+		}
+
+		const curve = await liquidityService.getDepthCurve(request);
+		cache.set(cacheKey, curve);
+
+		logInfo(`Request completed in ${Date.now() - startTime}ms`);
+
+		res.json(curve);
+	} catch (error) {
+		logError(`Request failed in ${Date.now() - startTime}ms:`, error);
+		sendErrorResponse(res, error);
+	}
+});
+
+export default router;
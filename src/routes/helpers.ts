@@ -0,0 +1,185 @@
+import { Request, Response } from 'express';
+import { CHAIN_CONFIGS } from '../config/chains';
+import {
+	isClientError,
+	isNetworkError,
+	HTTP_STATUS,
+	ERROR_TYPES,
+} from '../constants';
+import { getErrorMessage } from '../utils/error';
+import { tokenRegistry } from '../utils/tokenRegistry';
+import { BlockTag, ErrorBody, LiquidityMode } from '../types';
+
+export interface PairParams {
+	sellToken: string;
+	buyToken: string;
+	chainId: number;
+}
+
+export type ParamValidation<T> =
+	| { valid: true; value: T }
+	| { valid: false; status: number; body: ErrorBody };
+
+export const isValidParam = (param: unknown): param is string => {
+	return typeof param === 'string' && param.length > 0;
+};
+
+const formatParamList = (names: string[]): string =>
+	names.length > 1
+		? `${names.slice(0, -1).join(', ')}, and ${names[names.length - 1]}`
+		: names.join('');
+
+export const validatePairParams = (
+	query: Request['query'],
+	example: string,
+	extraParams: string[] = []
+): ParamValidation<PairParams> => {
+	const { sellToken, buyToken, chainId } = query;
+	const required = ['sellToken', 'buyToken', 'chainId', ...extraParams];
+
+	if (
+		!isValidParam(sellToken) ||
+		!isValidParam(buyToken) ||
+		!isValidParam(chainId) ||
+		extraParams.some((name) => !isValidParam(query[name]))
+	) {
+		return {
+			valid: false,
+			status: HTTP_STATUS.BAD_REQUEST,
+			body: {
+				error: ERROR_TYPES.MISSING_PARAMETERS,
+				message: `${formatParamList(
+					required
+				)} are required and must be strings`,
+				example,
+			},
+		};
+	}
+
+	const chainValidation = validateChainId(chainId);
+	if (!chainValidation.valid) {
+		return chainValidation;
+	}
+
+	return {
+		valid: true,
+		value: { sellToken, buyToken, chainId: chainValidation.value },
+	};
+};
+
+/** Checks that `chainId` is the number of a configured chain. */
+export const validateChainId = (chainId: string): ParamValidation<number> => {
+	const chainIdNum = parseInt(chainId);
+	if (isNaN(chainIdNum)) {
+		return {
+			valid: false,
+			status: HTTP_STATUS.BAD_REQUEST,
+			body: {
+				error: ERROR_TYPES.INVALID_CHAIN_ID,
+				message: 'chainId must be a valid number',
+			},
+		};
+	}
+
+	const supportedChainIds = Object.keys(CHAIN_CONFIGS).map(Number);
+	if (!supportedChainIds.includes(chainIdNum)) {
+		return {
+			valid: false,
+			status: HTTP_STATUS.BAD_REQUEST,
+			body: {
+				error: ERROR_TYPES.UNSUPPORTED_CHAIN,
+				message: `Chain ID ${chainIdNum} is not supported`,
+				supportedChains: supportedChainIds.map((id) => ({
+					chainId: id,
+					name: CHAIN_CONFIGS[id].name,
+				})),
+			},
+		};
+	}
+
+	return { valid: true, value: chainIdNum };
+};
+
+/** Resolves token symbols of the pair to addresses via the token lists. */
+export const resolvePairTokens = async (
+	params: PairParams
+): Promise<PairParams> => {
+	const [sellToken, buyToken] = await Promise.all([
+		tokenRegistry.resolve(params.chainId, params.sellToken),
+		tokenRegistry.resolve(params.chainId, params.buyToken),
+	]);
+	return { ...params, sellToken, buyToken };
+};
+
+export const parseLiquidityMode = (mode: unknown): LiquidityMode => {
+	if (mode === undefined) {
+		return 'quotes';
+	}
+	if (mode === 'quotes' || mode === 'orderbook') {
+		return mode;
+	}
+	throw new Error('Invalid mode: mode must be "quotes" or "orderbook"');
+};
+
+const BLOCK_NUMBER_PATTERN = /^\d+$/;
+
+export const parseBlockTag = (blockTag: unknown): BlockTag => {
+	if (blockTag === undefined) {
+		return 'latest';
+	}
+	if (
+		blockTag === 'latest' ||
+		blockTag === 'safe' ||
+		blockTag === 'finalized'
+	) {
+		return blockTag;
+	}
+	if (typeof blockTag === 'string' && BLOCK_NUMBER_PATTERN.test(blockTag)) {
+		const blockNumber = Number(blockTag);
+		if (Number.isSafeInteger(blockNumber)) {
+			return blockNumber;
+		}
+	}
+	throw new Error(
+		'Invalid blockTag: blockTag must be a block number, "latest", "safe" or "finalized"'
+	);
+};
+
+/** Status and body of the response for a failed request. */
+export const getErrorResponse = (
+	error: unknown
+): { status: number; body: ErrorBody } => {
+	if (error instanceof Error) {
+		let statusCode: number;
+		let errorType: string;
+
+		if (isClientError(error)) {
+			statusCode = HTTP_STATUS.BAD_REQUEST;
+			errorType = ERROR_TYPES.INVALID_REQUEST;
+		} else if (isNetworkError(error)) {
+			statusCode = HTTP_STATUS.SERVICE_UNAVAILABLE;
+			errorType = ERROR_TYPES.SERVICE_UNAVAILABLE;
+		} else {
+			statusCode = HTTP_STATUS.INTERNAL_SERVER_ERROR;
+			errorType = ERROR_TYPES.INTERNAL_SERVER_ERROR;
+		}
+
+		return {
+			status: statusCode,
+			body: { error: errorType, message: error.message },
+		};
+	}
+
+	return {
+		status: HTTP_STATUS.INTERNAL_SERVER_ERROR,
+		body: {
+			error: ERROR_TYPES.INTERNAL_SERVER_ERROR,
+			message: getErrorMessage(error, 'An unexpected error occurred'),
+		},
+	};
+};
+
+export const sendErrorResponse = (res: Response, error: unknown) => {
+	const { status, body } = getErrorResponse(error);
+	return res.status(status).json(body);
+};
@@ -0,0 +1,172 @@
+import { Router, Request, Response } from 'express';
+import { LiquidityHistoryResponse } from '../types';
+import { HTTP_STATUS, ERROR_TYPES, SNAPSHOT_CONFIG } from '../constants';
+import { logInfo, logError } from '../utils/logger';
+import { getErrorMessage } from '../utils/error';
+import { validateAndNormalizeAddresses } from '../utils/address';
+import {
+	downsampleSnapshots,
+	getHistoryInterval,
+	parseHistoryInterval,
+	parseHistoryTime,
+} from '../utils/history';
+import { SnapshotStore } from '../utils/snapshotStore';
+import { limiter } from '../middleware/rateLimiter';
+import { sendErrorResponse, validatePairParams } from './helpers';
+
+const router = Router();
+const store = new SnapshotStore(SNAPSHOT_CONFIG.DATA_DIR);
+
+/**
+ * @swagger
+ * /history:
+ *   get:
+ *     summary: Recorded liquidity history of a pair
+ *     description: |
+ *       Returns the snapshots the background recorder took of a pair between `from` and
+ *       `to`: the reserves of every direct pool and the depth at 1%, 5% and 10% price
+ *       impact. Only pairs listed in `SNAPSHOT_PAIRS` are recorded, in the configured
+ *       direction. With `interval` the last snapshot of each bucket is returned; results
+ *       that would exceed 1000 snapshots are downsampled the same way with a wider
+ *       interval, reported in the response.
+ *     tags:
+ *       - Liquidity
+ *     parameters:
+ *       - name: sellToken
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *         example: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48"
+ *       - name: buyToken
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *         example: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"
+ *       - name: chainId
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           enum: [1, 137, 56, 42161]
+ *         example: 1
+ *       - name: from
+ *         in: query
+ *         required: false
+ *         description: Start of the range, as Unix seconds or an ISO 8601 date. Defaults to 24 hours before `to`.
+ *         schema:
+ *           type: string
+ *         example: "2024-01-01T00:00:00Z"
+ *       - name: to
+ *         in: query
+ *         required: false
+ *         description: End of the range, as Unix seconds or an ISO 8601 date. Defaults to now.
+ *         schema:
+ *           type: string
+ *         example: "1704153600"
+ *       - name: interval
+ *         in: query
+ *         required: false
+ *         description: Bucket width in seconds or with an `s`, `m`, `h` or `d` suffix
+ *         schema:
+ *           type: string
+ *         example: 1h
+ *     responses:
+ *       200:
+ *         description: Snapshots in the range, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LiquidityHistoryResponse'
+ *       400:
+ *         description: Bad Request - Invalid parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *             example:
+ *               error: "Invalid history parameters"
+ *               message: "Invalid interval: interval must be a positive number of seconds or use an s, m, h or d suffix (e.g. 15m)"
+ */
+router.get('/history', limiter, async (req: Request, res: Response) => {
+	const startTime = Date.now();
+	const { sellToken, buyToken, chainId, from, to, interval } = req.query;
+
+	logInfo(`History request: ${sellToken} -> ${buyToken} on chain ${chainId}`);
+
+	try {
+		const validation = validatePairParams(
+			req.query,
+			'/history?sellToken=0x...&buyToken=0x...&chainId=1&from=2024-01-01&interval=1h'
+		);
+		if (!validation.valid) {
+			return res.status(validation.status).json(validation.body);
+		}
+
+		let range: { from: number; to: number; interval: number | null };
+		try {
+			const rangeEnd = parseHistoryTime(
+				to,
+				'to',
+				Math.floor(Date.now() / 1000)
+			);
+			range = {
+				from: parseHistoryTime(
+					from,
+					'from',
+					rangeEnd - SNAPSHOT_CONFIG.DEFAULT_HISTORY_RANGE
+				),
+				to: rangeEnd,
+				interval: parseHistoryInterval(interval),
+			};
+			if (range.from > range.to) {
+				throw new Error('Invalid range: from must not be after to');
+			}
+		} catch (error) {
+			return res.status(HTTP_STATUS.BAD_REQUEST).json({
+				error: ERROR_TYPES.INVALID_HISTORY,
+				message: getErrorMessage(error, 'Invalid history parameters'),
+			});
+		}
+
+		const [normalizedSellToken, normalizedBuyToken] =
+			validateAndNormalizeAddresses(
+				validation.value.sellToken,
+				validation.value.buyToken
+			);
+		const pair = {
+			chainId: validation.value.chainId,
+			sellToken: normalizedSellToken,
+			buyToken: normalizedBuyToken,
+		};
+
+		const snapshots = await store.query(pair, range.from, range.to);
+		const bucket = getHistoryInterval(
+			snapshots.length,
+			range.from,
+			range.to,
+			range.interval
+		);
+
+		const history: LiquidityHistoryResponse = {
+			...pair,
+			from: range.from,
+			to: range.to,
+			interval: bucket,
+			snapshots:
+				bucket === null ? snapshots : downsampleSnapshots(snapshots, bucket),
+		};
+
+		logInfo(`Request completed in ${Date.now() - startTime}ms`);
+
+		res.json(history);
+	} catch (error) {
+		logError(`Request failed in ${Date.now() - startTime}ms:`, error);
+		sendErrorResponse(res, error);
+	}
+});
+
+export default router;
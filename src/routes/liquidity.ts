@@ -1,41 +1,115 @@
 import { Router, Request, Response } from 'express';
-import rateLimit from 'express-rate-limit';
 import { LiquidityService } from '../services/liquidityService';
-import { LiquidityRequest } from '../types';
-import { ethers } from 'ethers';
-import { CHAIN_CONFIGS } from '../config/chains';
+import { HealthService } from '../services/healthService';
+import {
+	BlockTag,
+	LiquidityBatchResult,
+	LiquidityMode,
+	LiquidityRequest,
+} from '../types';
 import {
-	isClientError,
-	isNetworkError,
 	HTTP_STATUS,
 	ERROR_TYPES,
+	BATCH_CONFIG,
 	CACHE_CONFIG,
-	RATE_LIMIT_CONFIG,
-	TIMEOUT_CONFIG,
 } from '../constants';
 import { logInfo, logError } from '../utils/logger';
 import { getErrorMessage } from '../utils/error';
-import { withTimeout } from '../utils/timeout';
+import {
+	formatSlippageLevel,
+	formatUsdLevel,
+	parseSlippageLevels,
+	parseUsdLevels,
+} from '../utils/levels';
 import { SimpleCache } from '../utils/cache';
+import { limiter } from '../middleware/rateLimiter';
+import {
+	ParamValidation,
+	getErrorResponse,
+	parseBlockTag,
+	parseLiquidityMode,
+	resolvePairTokens,
+	sendErrorResponse,
+	validatePairParams,
+} from './helpers';
 
 const router = Router();
 const liquidityService = new LiquidityService();
+const healthService = new HealthService();
 
-const limiter = rateLimit({
-	windowMs: RATE_LIMIT_CONFIG.WINDOW_MS,
-	max: RATE_LIMIT_CONFIG.MAX_REQUESTS,
-	message: {
-		error: ERROR_TYPES.TOO_MANY_REQUESTS,
-		message: 'Please try again later',
-	},
-	standardHeaders: true,
-	legacyHeaders: false,
-});
+const cache = new SimpleCache<any>(
+	CACHE_CONFIG.MAX_SIZE,
+	CACHE_CONFIG.TTL,
+	'liquidity'
+);
+
+const BATCH_ITEM_EXAMPLE =
+	'{"sellToken":"0x...","buyToken":"0x...","chainId":1,"levels":["1%"]}';
+
+/**
+ * Validates one batch item like GET /liquidity validates its query, except
+ * that `chainId` and the entries of `levels` may also be numbers.
+ */
+const parseBatchItem = async (
+	item: unknown
+): Promise<ParamValidation<LiquidityRequest>> => {
+	if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+		return {
+			valid: false,
+			status: HTTP_STATUS.BAD_REQUEST,
+			body: {
+				error: ERROR_TYPES.INVALID_BATCH,
+				message: 'Invalid batch: each item must be an object',
+				example: BATCH_ITEM_EXAMPLE,
+			},
+		};
+	}
 
-const cache = new SimpleCache<any>(CACHE_CONFIG.MAX_SIZE, CACHE_CONFIG.TTL);
+	const { sellToken, buyToken, chainId, levels } = item as Record<
+		string,
+		unknown
+	>;
+	const toQueryValue = (value: unknown) =>
+		typeof value === 'number' ? String(value) : value;
 
-const isValidParam = (param: unknown): param is string => {
-	return typeof param === 'string' && param.length > 0;
+	const validation = validatePairParams(
+		{ sellToken, buyToken, chainId: toQueryValue(chainId) } as Request['query'],
+		BATCH_ITEM_EXAMPLE
+	);
+	if (!validation.valid) {
+		return validation;
+	}
+
+	let slippageLevels: number[];
+	try {
+		slippageLevels = parseSlippageLevels(
+			Array.isArray(levels) ? levels.map(toQueryValue) : toQueryValue(levels)
+		);
+	} catch (error) {
+		return {
+			valid: false,
+			status: HTTP_STATUS.BAD_REQUEST,
+			body: {
+				error: ERROR_TYPES.INVALID_LEVELS,
+				message: getErrorMessage(error, 'Invalid levels'),
+			},
+		};
+	}
+
+	try {
+		const params = await resolvePairTokens(validation.value);
+		return {
+			valid: true,
+			value: {
+				...params,
+				levels: slippageLevels,
+				mode: 'quotes',
+				blockTag: 'latest',
+			},
+		};
+	} catch (error) {
+		return { valid: false, ...getErrorResponse(error) };
+	}
 };
 
 /**
@@ -44,14 +118,37 @@ const isValidParam = (param: unknown): param is string => {
  *   get:
  *     summary: Calculate liquidity quotes with slippage
  *     description: |
- *       Calculates buy/sell amounts for token pairs at 1%, 5%, and 10% slippage levels.
- *       Uses DEX factory contracts to find liquidity pools and router contracts for price calculations.
+ *       Calculates buy/sell amounts for token pairs at the requested slippage levels
+ *       (1%, 5%, and 10% by default). Each quote is keyed by its level, e.g. `"0.5%"`.
+ *       Uses DEX factory contracts to find liquidity pools and solves each pool's curve
+ *       locally from its on-chain state, including the pool fee: constant-product math for
+ *       V2 pools, tick walking for V3 pools and the StableSwap invariant for Curve pools.
+ *       Each quote splits its `priceImpactBps` into the LP fee charged along the path
+ *       (`lpFeeBps`) and the remaining `curveImpactBps`.
+ *       Set `VERIFY_WITH_ROUTER=true` to cross-check V2 quotes against the DEX router.
+ *
+ *       Besides the direct pair, routes through one or two of the chain's base tokens
+ *       (e.g. WETH, USDC) are considered. Each level uses the route with the best output
+ *       and reports it in `path`, with the pool and fee tier of every hop in `pools`.
+ *
+ *       Every DEX on the chain is quoted: `quotes` holds the best venue per level (see
+ *       `dex`) and `venues` lists each DEX's own quotes for comparison. `aggregated`
+ *       gives the depth per level when the order is split across every direct pool so
+ *       their marginal prices equalise, with each pool's allocation.
+ *
+ *       With `mode=orderbook` the response adds `orderBook`, a two-sided view of the pair
+ *       priced in buyToken per sellToken: `bids` sell the sellToken and `asks` buy it back,
+ *       both solved from a single read of the pool state so the sides are consistent.
+ *
+ *       `tokenRisk` reports each token's buy and sell tax and flags honeypots, from a
+ *       buy and sell round trip through a V2 router simulated with an `eth_call` state
+ *       override. Nodes without state override support leave `simulated` false.
  *
  *       **Supported DEXs by Chain:**
- *       - Ethereum (1): Uniswap V2
- *       - Polygon (137): QuickSwap
+ *       - Ethereum (1): Uniswap V2, SushiSwap, Uniswap V3, Curve
+ *       - Polygon (137): QuickSwap, SushiSwap
  *       - BSC (56): PancakeSwap
- *       - Arbitrum (42161): SushiSwap
+ *       - Arbitrum (42161): SushiSwap, Uniswap V3
  *     tags:
  *       - Liquidity
  *     parameters:
@@ -60,17 +157,19 @@ const isValidParam = (param: unknown): param is string => {
  *         required: true
  *         schema:
  *           type: string
- *           pattern: '^0x[a-fA-F0-9]{40}$'
- *           description: Token contract address to sell (must be valid ERC20)
+ *           description: |
+ *             Token contract address to sell (must be valid ERC20), or its symbol in the
+ *             chain's token lists (see `/tokens`)
  *           example: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48"
  *       - name: buyToken
  *         in: query
  *         required: true
  *         schema:
  *           type: string
- *           pattern: '^0x[a-fA-F0-9]{40}$'
- *           description: Token contract address to buy (must be valid ERC20)
- *           example: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"
+ *           description: |
+ *             Token contract address to buy (must be valid ERC20), or its symbol in the
+ *             chain's token lists (see `/tokens`)
+ *           example: WETH
  *       - name: chainId
  *         in: query
  *         required: true
@@ -79,6 +178,47 @@ const isValidParam = (param: unknown): param is string => {
  *           enum: [1, 137, 56, 42161]
  *           description: EVM chain ID
  *           example: 1
+ *       - name: levels
+ *         in: query
+ *         required: false
+ *         description: |
+ *           Comma-separated slippage levels (the parameter may also be repeated).
+ *           Plain numbers are percentages, a `bps` suffix marks basis points.
+ *           Up to 10 levels between 0.01% and 99%. Defaults to `1,5,10`.
+ *         schema:
+ *           type: string
+ *           example: "0.1,0.5,2,25"
+ *       - name: usdLevels
+ *         in: query
+ *         required: false
+ *         description: |
+ *           Comma-separated trade sizes as USD notionals of the sell token, with
+ *           an optional `$` prefix and `k` or `m` suffix. Returned in `usdQuotes`;
+ *           requires the sell token to have a USD price. Up to 10 levels.
+ *         schema:
+ *           type: string
+ *           example: "10k,100k,1m"
+ *       - name: mode
+ *         in: query
+ *         required: false
+ *         description: |
+ *           `quotes` (default) quotes the sellToken to buyToken direction only.
+ *           `orderbook` also returns `orderBook`: bid and ask depth at every level,
+ *           the best bid and ask, mid price and spread, all from the same pool state.
+ *         schema:
+ *           type: string
+ *           enum: [quotes, orderbook]
+ *           example: orderbook
+ *       - name: blockTag
+ *         in: query
+ *         required: false
+ *         description: |
+ *           Block to quote at: a block number, `latest` (default), `safe` or `finalized`.
+ *           Every read for the response is made at this one block. Historical blocks
+ *           need an archive node behind the chain's RPC URL.
+ *         schema:
+ *           type: string
+ *           example: "18000000"
  *     responses:
  *       200:
  *         description: Liquidity quotes calculated successfully
@@ -93,16 +233,71 @@ const isValidParam = (param: unknown): param is string => {
  *                   sellToken: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48"
  *                   buyToken: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"
  *                   chainId: 1
+ *                   blockNumber: 19000000
+ *                   blockTimestamp: 1705173443
  *                   quotes:
  *                     "1%":
+ *                       dex: "Uniswap V3"
  *                       sellAmount: "1000.0"
  *                       buyAmount: "0.42"
+ *                       path: ["0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"]
+ *                       pools: [{ dex: "Uniswap V3", address: "0x88e6A0c2dDD26FEEb64F039a2c41296FcB3f5640", feeBps: 5, feeTier: 500 }]
+ *                       priceImpactBps: 100
+ *                       lpFeeBps: 5
+ *                       curveImpactBps: 95
  *                     "5%":
+ *                       dex: "Uniswap V3"
  *                       sellAmount: "5000.0"
  *                       buyAmount: "2.1"
+ *                       path: ["0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"]
+ *                       pools: [{ dex: "Uniswap V3", address: "0x88e6A0c2dDD26FEEb64F039a2c41296FcB3f5640", feeBps: 5, feeTier: 500 }]
+ *                       priceImpactBps: 500
+ *                       lpFeeBps: 5
+ *                       curveImpactBps: 495
  *                     "10%":
+ *                       dex: "Uniswap V3"
  *                       sellAmount: "10000.0"
  *                       buyAmount: "4.2"
+ *                       path: ["0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"]
+ *                       pools: [{ dex: "Uniswap V3", address: "0x88e6A0c2dDD26FEEb64F039a2c41296FcB3f5640", feeBps: 5, feeTier: 500 }]
+ *                       priceImpactBps: 1000
+ *                       lpFeeBps: 5
+ *                       curveImpactBps: 995
+ *                   venues:
+ *                     - dex: "Uniswap V2"
+ *                       quotes:
+ *                         "1%":
+ *                           dex: "Uniswap V2"
+ *                           sellAmount: "800.0"
+ *                           buyAmount: "0.33"
+ *                           path: ["0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"]
+ *                           pools: [{ dex: "Uniswap V2", address: "0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc", feeBps: 30 }]
+ *                           priceImpactBps: 100
+ *                           lpFeeBps: 30
+ *                           curveImpactBps: 70
+ *                     - dex: "Uniswap V3"
+ *                       quotes:
+ *                         "1%":
+ *                           dex: "Uniswap V3"
+ *                           sellAmount: "1000.0"
+ *                           buyAmount: "0.42"
+ *                           path: ["0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"]
+ *                           pools: [{ dex: "Uniswap V3", address: "0x88e6A0c2dDD26FEEb64F039a2c41296FcB3f5640", feeBps: 5, feeTier: 500 }]
+ *                           priceImpactBps: 100
+ *                           lpFeeBps: 5
+ *                           curveImpactBps: 95
+ *                   tokenRisk:
+ *                     sellToken:
+ *                       simulated: true
+ *                       isHoneypot: false
+ *                       buyTaxPercent: 0
+ *                       sellTaxPercent: 0
+ *                     buyToken:
+ *                       simulated: false
+ *                       isHoneypot: false
+ *                       buyTaxPercent: 0
+ *                       sellTaxPercent: 0
+ *                       reason: "Wrapped native token"
  *       400:
  *         description: Bad Request - Invalid parameters
  *         content:
@@ -113,6 +308,9 @@ const isValidParam = (param: unknown): param is string => {
  *                 - $ref: '#/components/schemas/InvalidChainIdError'
  *                 - $ref: '#/components/schemas/UnsupportedChainError'
  *                 - $ref: '#/components/schemas/InvalidTokenPairError'
+ *                 - $ref: '#/components/schemas/InvalidLevelsError'
+ *                 - $ref: '#/components/schemas/InvalidModeError'
+ *                 - $ref: '#/components/schemas/InvalidBlockTagError'
  *                 - $ref: '#/components/schemas/InvalidTokenAddressError'
  *                 - $ref: '#/components/schemas/NoLiquidityError'
  *                 - $ref: '#/components/schemas/SlippageCalculationError'
@@ -143,6 +341,16 @@ const isValidParam = (param: unknown): param is string => {
  *                 value:
  *                   error: "Invalid token pair"
  *                   message: "sellToken and buyToken cannot be the same"
+ *               invalid_levels:
+ *                 summary: Invalid slippage levels
+ *                 value:
+ *                   error: "Invalid levels"
+ *                   message: "Invalid levels: at most 10 levels can be requested"
+ *               invalid_mode:
+ *                 summary: Unknown mode
+ *                 value:
+ *                   error: "Invalid mode"
+ *                   message: 'Invalid mode: mode must be "quotes" or "orderbook"'
  *               invalid_address:
  *                 summary: Invalid token address
  *                 value:
@@ -196,45 +404,66 @@ const isValidParam = (param: unknown): param is string => {
  */
 router.get('/liquidity', limiter, async (req: Request, res: Response) => {
 	const startTime = Date.now();
-	const { sellToken, buyToken, chainId } = req.query;
+	const { sellToken, buyToken, chainId, levels, usdLevels, mode, blockTag } =
+		req.query;
 
 	logInfo(`Liquidity request: ${sellToken} -> ${buyToken} on chain ${chainId}`);
 
 	try {
-		if (
-			!isValidParam(sellToken) ||
-			!isValidParam(buyToken) ||
-			!isValidParam(chainId)
-		) {
+		const validation = validatePairParams(
+			req.query,
+			'/liquidity?sellToken=0x...&buyToken=0x...&chainId=1'
+		);
+		if (!validation.valid) {
+			return res.status(validation.status).json(validation.body);
+		}
+		const params = await resolvePairTokens(validation.value);
+
+		let slippageLevels: number[];
+		try {
+			slippageLevels = parseSlippageLevels(levels);
+		} catch (error) {
+			return res.status(HTTP_STATUS.BAD_REQUEST).json({
+				error: ERROR_TYPES.INVALID_LEVELS,
+				message: getErrorMessage(error, 'Invalid levels'),
+			});
+		}
+
+		let usdNotionals: number[] | undefined;
+		try {
+			usdNotionals = parseUsdLevels(usdLevels);
+		} catch (error) {
 			return res.status(HTTP_STATUS.BAD_REQUEST).json({
-				error: ERROR_TYPES.MISSING_PARAMETERS,
-				message:
-					'sellToken, buyToken, and chainId are required and must be strings',
-				example: '/liquidity?sellToken=0x...&buyToken=0x...&chainId=1',
+				error: ERROR_TYPES.INVALID_LEVELS,
+				message: getErrorMessage(error, 'Invalid usdLevels'),
 			});
 		}
 
-		const chainIdNum = parseInt(chainId);
-		if (isNaN(chainIdNum)) {
+		let liquidityMode: LiquidityMode;
+		try {
+			liquidityMode = parseLiquidityMode(mode);
+		} catch (error) {
 			return res.status(HTTP_STATUS.BAD_REQUEST).json({
-				error: ERROR_TYPES.INVALID_CHAIN_ID,
-				message: 'chainId must be a valid number',
+				error: ERROR_TYPES.INVALID_MODE,
+				message: getErrorMessage(error, 'Invalid mode'),
 			});
 		}
 
-		const supportedChainIds = Object.keys(CHAIN_CONFIGS).map(Number);
-		if (!supportedChainIds.includes(chainIdNum)) {
+		let requestBlockTag: BlockTag;
+		try {
+			requestBlockTag = parseBlockTag(blockTag);
+		} catch (error) {
 			return res.status(HTTP_STATUS.BAD_REQUEST).json({
-				error: ERROR_TYPES.UNSUPPORTED_CHAIN,
-				message: `Chain ID ${chainIdNum} is not supported`,
-				supportedChains: supportedChainIds.map((id) => ({
-					chainId: id,
-					name: CHAIN_CONFIGS[id].name,
-				})),
+				error: ERROR_TYPES.INVALID_BLOCK_TAG,
+				message: getErrorMessage(error, 'Invalid blockTag'),
 			});
 		}
 
-		const cacheKey = `${sellToken.toLowerCase()}-${buyToken.toLowerCase()}-${chainIdNum}`;
+		const levelsKey = slippageLevels.map(formatSlippageLevel).join(',');
+		const usdLevelsKey = usdNotionals?.map(formatUsdLevel).join(',') ?? '';
+		const cacheKey = `${params.sellToken.toLowerCase()}-${params.buyToken.toLowerCase()}-${
+			params.chainId
+		}-${levelsKey}-${usdLevelsKey}-${liquidityMode}-${requestBlockTag}`;
 		const cached = cache.get(cacheKey);
 		if (cached) {
 			logInfo(`Cache hit for ${cacheKey}`);
@@ -242,9 +471,11 @@ router.get('/liquidity', limiter, async (req: Request, res: Response) => {
 		}
 
 		const request: LiquidityRequest = {
-			sellToken,
-			buyToken,
-			chainId: chainIdNum,
+			...params,
+			levels: slippageLevels,
+			...(usdNotionals && { usdLevels: usdNotionals }),
+			mode: liquidityMode,
+			blockTag: requestBlockTag,
 		};
 
 		const quotes = await liquidityService.getLiquidityQuotes(request);
@@ -255,34 +486,128 @@ router.get('/liquidity', limiter, async (req: Request, res: Response) => {
 		res.json(quotes);
 	} catch (error) {
 		logError(`Request failed in ${Date.now() - startTime}ms:`, error);
+		sendErrorResponse(res, error);
+	}
+});
+
+/**
+ * @swagger
+ * /liquidity/batch:
+ *   post:
+ *     summary: Calculate liquidity quotes for many pairs at once
+ *     description: |
+ *       Quotes every item of the body like `GET /liquidity` with its default mode and the
+ *       latest block, and counts as a single request against the rate limit. Items are
+ *       quoted a few at a time; items on the same chain are quoted at the same block and
+ *       read each pool only once.
+ *
+ *       `results` holds one entry per item, in request order. An item that cannot be
+ *       quoted gets the error and HTTP status it would have received on its own, and
+ *       does not affect the other items. `chainId` and the entries of `levels` may be
+ *       numbers or strings.
+ *     tags:
+ *       - Liquidity
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: array
+ *             minItems: 1
+ *             maxItems: 500
+ *             items:
+ *               $ref: '#/components/schemas/LiquidityBatchItem'
+ *           example:
+ *             - sellToken: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48"
+ *               buyToken: "WETH"
+ *               chainId: 1
+ *               levels: ["0.5%", "1%"]
+ *             - sellToken: "0xdAC17F958D2ee523a2206206994597C13D831ec7"
+ *               buyToken: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"
+ *               chainId: 1
+ *     responses:
+ *       200:
+ *         description: Every item was processed; see each result for its outcome
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LiquidityBatchResponse'
+ *       400:
+ *         description: Bad Request - The body is not an array of 1 to 500 items
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *             example:
+ *               error: "Invalid batch"
+ *               message: "Invalid batch: body must be an array of 1 to 500 items"
+ *       429:
+ *         description: Too Many Requests - Rate limit exceeded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
+ */
+router.post(
+	'/liquidity/batch',
+	limiter,
+	async (req: Request, res: Response) => {
+		const startTime = Date.now();
+		const items: unknown = req.body;
 
-		if (error instanceof Error) {
-			let statusCode: number;
-			let errorType: string;
-
-			if (isClientError(error)) {
-				statusCode = HTTP_STATUS.BAD_REQUEST;
-				errorType = ERROR_TYPES.INVALID_REQUEST;
-			} else if (isNetworkError(error)) {
-				statusCode = HTTP_STATUS.SERVICE_UNAVAILABLE;
-				errorType = ERROR_TYPES.SERVICE_UNAVAILABLE;
-			} else {
-				statusCode = HTTP_STATUS.INTERNAL_SERVER_ERROR;
-				errorType = ERROR_TYPES.INTERNAL_SERVER_ERROR;
-			}
-
-			return res.status(statusCode).json({
-				error: errorType,
-				message: error.message,
+		if (
+			!Array.isArray(items) ||
+			items.length === 0 ||
+			items.length > BATCH_CONFIG.MAX_ITEMS
+		) {
+			return res.status(HTTP_STATUS.BAD_REQUEST).json({
+				error: ERROR_TYPES.INVALID_BATCH,
+				message: `Invalid batch: body must be an array of 1 to ${BATCH_CONFIG.MAX_ITEMS} items`,
+				example: `[${BATCH_ITEM_EXAMPLE}]`,
 			});
 		}
 
-		res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
-			error: ERROR_TYPES.INTERNAL_SERVER_ERROR,
-			message: getErrorMessage(error, 'An unexpected error occurred'),
-		});
+		logInfo(`Liquidity batch request: ${items.length} pairs`);
+
+		try {
+			const validations = await Promise.all(items.map(parseBatchItem));
+			const requests = validations.flatMap((validation) =>
+				validation.valid ? [validation.value] : []
+			);
+			const quotes = await liquidityService.getLiquidityQuotesBatch(requests);
+
+			let next = 0;
+			const results = validations.map((validation): LiquidityBatchResult => {
+				if (!validation.valid) {
+					return {
+						success: false,
+						status: validation.status,
+						error: validation.body,
+					};
+				}
+
+				const quote = quotes[next++];
+				if (quote.status === 'rejected') {
+					const { status, body } = getErrorResponse(quote.reason);
+					return { success: false, status, error: body };
+				}
+				return { success: true, status: HTTP_STATUS.OK, result: quote.value };
+			});
+			const succeeded = results.filter(({ success }) => success).length;
+
+			logInfo(
+				`Batch completed in ${Date.now() - startTime}ms: ${succeeded}/${
+					results.length
+				} pairs quoted`
+			);
+
+			res.json({ results, succeeded, failed: results.length - succeeded });
+		} catch (error) {
+			logError(`Batch failed in ${Date.now() - startTime}ms:`, error);
+			sendErrorResponse(res, error);
+		}
 	}
-});
+);
 
 /**
  * @swagger
@@ -290,78 +615,146 @@ router.get('/liquidity', limiter, async (req: Request, res: Response) => {
  *   get:
  *     summary: Health check endpoint
  *     description: |
- *       Checks the health status of the service and its dependencies.
- *       Tests RPC connectivity to Ethereum mainnet and returns cache statistics.
+ *       Probes the latest block of every RPC endpoint of every configured chain and
+ *       reports each endpoint's latency, latest block and block age. An endpoint is
+ *       healthy when it answers within 5 seconds with a block at most 120 seconds old.
+ *       A chain is `healthy` when all of its endpoints are, `degraded` when only some
+ *       are and `unhealthy` when none is. Probes are reused for 5 seconds.
+ *
+ *       `status` is `ok` when every chain is healthy, `degraded` when some endpoints
+ *       are failing but every chain can still be served, and `unhealthy` (with a 503)
+ *       when at least one chain cannot be served. RPC URLs are reported by origin only.
  *     tags:
  *       - Health
  *     responses:
  *       200:
- *         description: Service is healthy
+ *         description: Every chain has a healthy endpoint
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/HealthResponse'
- *             example:
- *               status: "ok"
- *               timestamp: "2025-09-20T10:30:00.000Z"
- *               service: "liquidity-service"
- *               rpcConnectivity: "healthy"
- *               latestBlock: 18500000
- *               cacheSize: 42
  *       503:
- *         description: Service is degraded or unhealthy
+ *         description: At least one chain has no healthy endpoint
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/HealthResponse'
- *             examples:
- *               rpc_timeout:
- *                 summary: RPC connection timeout
- *                 value:
- *                   status: "degraded"
- *                   timestamp: "2025-09-20T10:30:00.000Z"
- *                   service: "liquidity-service"
- *                   rpcConnectivity: "unhealthy"
- *                   error: "RPC timeout"
- *                   cacheSize: 42
- *               rpc_error:
- *                 summary: RPC connection error
- *                 value:
- *                   status: "degraded"
- *                   timestamp: "2025-09-20T10:30:00.000Z"
- *                   service: "liquidity-service"
- *                   rpcConnectivity: "unhealthy"
- *                   error: "Network connection failed"
- *                   cacheSize: 0
  */
 router.get('/health', async (req: Request, res: Response) => {
 	try {
-		const provider = new ethers.providers.JsonRpcProvider(
-			process.env.ETHEREUM_RPC_URL || 'https://ethereum.publicnode.com'
-		);
-
-		const blockNumber = await withTimeout(
-			provider.getBlockNumber(),
-			TIMEOUT_CONFIG.HEALTH_CHECK_TIMEOUT,
-			'RPC timeout'
-		);
+		const chains = await healthService.checkChains();
+		const servable = chains.every(({ status }) => status !== 'unhealthy');
+		let status = 'unhealthy';
+		if (chains.every(({ status }) => status === 'healthy')) {
+			status = 'ok';
+		} else if (servable) {
+			status = 'degraded';
+		}
 
-		res.status(HTTP_STATUS.OK).json({
-			status: 'ok',
+		res
+			.status(servable ? HTTP_STATUS.OK : HTTP_STATUS.SERVICE_UNAVAILABLE)
+			.json({
+				status,
+				timestamp: new Date().toISOString(),
+				service: 'liquidity-service',
+				rpcConnectivity: servable ? 'healthy' : 'unhealthy',
+				chains,
+				cacheSize: cache.size(),
+			});
+	} catch (error) {
+		logError('Health check failed:', error);
+		res.status(HTTP_STATUS.SERVICE_UNAVAILABLE).json({
+			status: 'unhealthy',
 			timestamp: new Date().toISOString(),
 			service: 'liquidity-service',
-			rpcConnectivity: 'healthy',
-			latestBlock: blockNumber,
+			rpcConnectivity: 'unhealthy',
+			error: getErrorMessage(error, 'Unknown error'),
 			cacheSize: cache.size(),
 		});
+	}
+});
+
+/**
+ * @swagger
+ * /health/live:
+ *   get:
+ *     summary: Liveness probe
+ *     description: Succeeds while the process is serving requests. Makes no RPC calls.
+ *     tags:
+ *       - Health
+ *     responses:
+ *       200:
+ *         description: The process is alive
+ *         content:
+ *           application/json:
+ *             example:
+ *               status: "ok"
+ *               timestamp: "2025-09-20T10:30:00.000Z"
+ *               uptimeSeconds: 3600
+ */
+router.get('/health/live', (req: Request, res: Response) => {
+	res.json({
+		status: 'ok',
+		timestamp: new Date().toISOString(),
+		uptimeSeconds: Math.floor(process.uptime()),
+	});
+});
+
+/**
+ * @swagger
+ * /health/ready:
+ *   get:
+ *     summary: Readiness probe
+ *     description: |
+ *       Succeeds when every configured chain has at least one healthy RPC endpoint,
+ *       using the same probes as `/health`. Returns 503 listing each chain's status
+ *       otherwise, so traffic can be routed away while a chain is unhealthy.
+ *     tags:
+ *       - Health
+ *     responses:
+ *       200:
+ *         description: Every chain can be served
+ *         content:
+ *           application/json:
+ *             example:
+ *               ready: true
+ *               timestamp: "2025-09-20T10:30:00.000Z"
+ *               chains:
+ *                 - chainId: 1
+ *                   name: "Ethereum"
+ *                   status: "healthy"
+ *       503:
+ *         description: At least one chain has no healthy endpoint
+ *         content:
+ *           application/json:
+ *             example:
+ *               ready: false
+ *               timestamp: "2025-09-20T10:30:00.000Z"
+ *               chains:
+ *                 - chainId: 137
+ *                   name: "Polygon"
+ *                   status: "unhealthy"
+ */
+router.get('/health/ready', async (req: Request, res: Response) => {
+	try {
+		const chains = await healthService.checkChains();
+		const ready = chains.every(({ status }) => status !== 'unhealthy');
+
+		res.status(ready ? HTTP_STATUS.OK : HTTP_STATUS.SERVICE_UNAVAILABLE).json({
+			ready,
+			timestamp: new Date().toISOString(),
+			chains: chains.map(({ chainId, name, status }) => ({
+				chainId,
+				name,
+				status,
+			})),
+		});
 	} catch (error) {
+		logError('Readiness check failed:', error);
 		res.status(HTTP_STATUS.SERVICE_UNAVAILABLE).json({
-			status: 'degraded',
+			ready: false,
 			timestamp: new Date().toISOString(),
-			service: 'liquidity-service',
-			rpcConnectivity: 'unhealthy',
 			error: getErrorMessage(error, 'Unknown error'),
-			cacheSize: cache.size(),
 		});
 	}
 });
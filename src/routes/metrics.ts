@@ -0,0 +1,44 @@
+import { Router, Request, Response } from 'express';
+import { HTTP_STATUS } from '../constants';
+import { logError } from '../utils/logger';
+import { metricsRegistry } from '../utils/metrics';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /metrics:
+ *   get:
+ *     summary: Prometheus metrics
+ *     description: |
+ *       Metrics in the Prometheus text exposition format: request counts and latencies
+ *       by route, chain and status (`http_requests_total`, `http_request_duration_seconds`),
+ *       RPC request counts and latencies by chain and method (`rpc_requests_total`,
+ *       `rpc_request_duration_seconds`), response cache hits, misses and evictions
+ *       (`cache_hits_total`, `cache_misses_total`, `cache_evictions_total`), rate-limit
+ *       rejections (`rate_limit_rejections_total`), the bisection iterations of slippage
+ *       quotes (`slippage_bisection_iterations`) and the default Node.js process metrics.
+ *     tags:
+ *       - Health
+ *     responses:
+ *       200:
+ *         description: Current metrics
+ *         content:
+ *           text/plain:
+ *             example: |
+ *               # HELP http_requests_total HTTP requests by route, chain and status code
+ *               # TYPE http_requests_total counter
+ *               http_requests_total{method="GET",route="/liquidity",chain="1",status="200"} 42
+ */
+router.get('/metrics', async (req: Request, res: Response) => {
+	try {
+		const metrics = await metricsRegistry.metrics();
+		res.set('Content-Type', metricsRegistry.contentType);
+		res.send(metrics);
+	} catch (error) {
+		logError('Failed to collect metrics:', error);
+		res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).end();
+	}
+});
+
+export default router;
@@ -0,0 +1,211 @@
+import { Router, Request, Response } from 'express';
+import { LiquidityService } from '../services/liquidityService';
+import { AmountUnit, BlockTag } from '../types';
+import { HTTP_STATUS, ERROR_TYPES } from '../constants';
+import { logInfo, logError } from '../utils/logger';
+import { getErrorMessage } from '../utils/error';
+import { parseAmountUnit, validateAmountFormat } from '../utils/amount';
+import { limiter } from '../middleware/rateLimiter';
+import {
+	isValidParam,
+	parseBlockTag,
+	sendErrorResponse,
+	validatePairParams,
+} from './helpers';
+
+const router = Router();
+const liquidityService = new LiquidityService();
+
+const QUOTE_EXAMPLE =
+	'/quote?sellToken=0x...&buyToken=0x...&chainId=1&sellAmount=1000';
+
+/**
+ * @swagger
+ * /quote:
+ *   get:
+ *     summary: Quote an exact-input or exact-output swap
+ *     description: |
+ *       Pass exactly one of `sellAmount` or `buyAmount`.
+ *
+ *       - `sellAmount`: how much buyToken is received for selling exactly that amount of sellToken.
+ *       - `buyAmount`: how much sellToken is required to receive exactly that amount of buyToken.
+ *         Fails when the amount is not below the pool's buyToken reserve.
+ *
+ *       Amounts are computed locally from the pool reserves with the pair fee applied. The direct
+ *       pair and routes through the chain's base tokens are compared and the best one is used.
+ *     tags:
+ *       - Quotes
+ *     parameters:
+ *       - name: sellToken
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *           example: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48"
+ *       - name: buyToken
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *           example: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"
+ *       - name: chainId
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           enum: [1, 137, 56, 42161]
+ *           example: 1
+ *       - name: sellAmount
+ *         in: query
+ *         required: false
+ *         description: Exact amount of sellToken to sell, in token units or wei depending on `unit`
+ *         schema:
+ *           type: string
+ *           example: "1000.5"
+ *       - name: buyAmount
+ *         in: query
+ *         required: false
+ *         description: Exact amount of buyToken to receive, in token units or wei depending on `unit`
+ *         schema:
+ *           type: string
+ *           example: "0.5"
+ *       - name: unit
+ *         in: query
+ *         required: false
+ *         description: Unit of `sellAmount` or `buyAmount`
+ *         schema:
+ *           type: string
+ *           enum: [token, wei]
+ *           default: token
+ *       - name: blockTag
+ *         in: query
+ *         required: false
+ *         description: |
+ *           Block to quote at: a block number, `latest` (default), `safe` or `finalized`.
+ *           Every read for the response is made at this one block. Historical blocks
+ *           need an archive node behind the chain's RPC URL.
+ *         schema:
+ *           type: string
+ *           example: "18000000"
+ *     responses:
+ *       200:
+ *         description: Quote calculated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SwapQuoteResponse'
+ *       400:
+ *         description: Bad Request - Invalid parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/MissingParametersError'
+ *                 - $ref: '#/components/schemas/InvalidChainIdError'
+ *                 - $ref: '#/components/schemas/UnsupportedChainError'
+ *                 - $ref: '#/components/schemas/InvalidAmountError'
+ *                 - $ref: '#/components/schemas/InvalidBlockTagError'
+ *                 - $ref: '#/components/schemas/InvalidTokenAddressError'
+ *                 - $ref: '#/components/schemas/NoLiquidityError'
+ *       429:
+ *         description: Too Many Requests - Rate limit exceeded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RateLimitError'
+ *       500:
+ *         description: Internal Server Error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InternalServerError'
+ *       503:
+ *         description: Service Unavailable - Network/RPC issues
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NetworkError'
+ */
+router.get('/quote', limiter, async (req: Request, res: Response) => {
+	const startTime = Date.now();
+	const {
+		sellToken,
+		buyToken,
+		chainId,
+		sellAmount,
+		buyAmount,
+		unit,
+		blockTag,
+	} = req.query;
+
+	logInfo(
+		`Quote request: ${sellAmount ?? '?'} ${sellToken} -> ${
+			buyAmount ?? '?'
+		} ${buyToken} on chain ${chainId}`
+	);
+
+	try {
+		const validation = validatePairParams(req.query, QUOTE_EXAMPLE);
+		if (!validation.valid) {
+			return res.status(validation.status).json(validation.body);
+		}
+
+		if (isValidParam(sellAmount) === isValidParam(buyAmount)) {
+			return res.status(HTTP_STATUS.BAD_REQUEST).json({
+				error: ERROR_TYPES.MISSING_PARAMETERS,
+				message:
+					'Exactly one of sellAmount or buyAmount is required and must be a string',
+				example: QUOTE_EXAMPLE,
+			});
+		}
+
+		const amount = (
+			isValidParam(sellAmount) ? sellAmount : buyAmount
+		) as string;
+		let amountUnit: AmountUnit;
+		try {
+			amountUnit = parseAmountUnit(unit);
+			validateAmountFormat(amount, amountUnit);
+		} catch (error) {
+			return res.status(HTTP_STATUS.BAD_REQUEST).json({
+				error: ERROR_TYPES.INVALID_AMOUNT,
+				message: getErrorMessage(error, 'Invalid amount'),
+			});
+		}
+
+		let requestBlockTag: BlockTag;
+		try {
+			requestBlockTag = parseBlockTag(blockTag);
+		} catch (error) {
+			return res.status(HTTP_STATUS.BAD_REQUEST).json({
+				error: ERROR_TYPES.INVALID_BLOCK_TAG,
+				message: getErrorMessage(error, 'Invalid blockTag'),
+			});
+		}
+
+		const quote = isValidParam(sellAmount)
+			? await liquidityService.getExactInputQuote({
+					...validation.value,
+					sellAmount: amount,
+					unit: amountUnit,
+					blockTag: requestBlockTag,
+			  })
+			: await liquidityService.getExactOutputQuote({
+					...validation.value,
+					buyAmount: amount,
+					unit: amountUnit,
+					blockTag: requestBlockTag,
+			  });
+
+		logInfo(`Request completed in ${Date.now() - startTime}ms`);
+
+		res.json(quote);
+	} catch (error) {
+		logError(`Request failed in ${Date.now() - startTime}ms:`, error);
+		sendErrorResponse(res, error);
+	}
+});
+
+export default router;
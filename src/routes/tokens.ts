@@ -0,0 +1,125 @@
+import { Router, Request, Response } from 'express';
+import { HTTP_STATUS, ERROR_TYPES, TOKEN_LIST_CONFIG } from '../constants';
+import { TokenSearchResponse } from '../types';
+import { logInfo, logError } from '../utils/logger';
+import { getErrorMessage } from '../utils/error';
+import { tokenRegistry } from '../utils/tokenRegistry';
+import { limiter } from '../middleware/rateLimiter';
+import { isValidParam, sendErrorResponse, validateChainId } from './helpers';
+
+const router = Router();
+
+const parseSearchLimit = (limit: unknown): number => {
+	if (limit === undefined) {
+		return TOKEN_LIST_CONFIG.DEFAULT_SEARCH_LIMIT;
+	}
+	const value = typeof limit === 'string' ? Number(limit) : NaN;
+	if (
+		!Number.isInteger(value) ||
+		value < 1 ||
+		value > TOKEN_LIST_CONFIG.MAX_SEARCH_LIMIT
+	) {
+		throw new Error(
+			`Invalid limit: limit must be an integer between 1 and ${TOKEN_LIST_CONFIG.MAX_SEARCH_LIMIT}`
+		);
+	}
+	return value;
+};
+
+/**
+ * @swagger
+ * /tokens:
+ *   get:
+ *     summary: Search the token registry
+ *     description: |
+ *       Searches the tokens of the Uniswap Token List JSON files in `TOKEN_LIST_DIR`
+ *       (default `tokenlists/`) for a chain. These are the symbols `/liquidity` accepts
+ *       in place of addresses. Without `query`, lists the chain's tokens.
+ *     tags:
+ *       - Information
+ *     parameters:
+ *       - name: chainId
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           enum: [1, 137, 56, 42161]
+ *         example: 1
+ *       - name: query
+ *         in: query
+ *         required: false
+ *         description: Address, or part of a symbol or name; exact symbol matches come first
+ *         schema:
+ *           type: string
+ *         example: usd
+ *       - name: limit
+ *         in: query
+ *         required: false
+ *         description: Maximum number of tokens returned, from 1 to 100 (default 20)
+ *         schema:
+ *           type: integer
+ *         example: 20
+ *     responses:
+ *       200:
+ *         description: Matching tokens
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TokenSearchResponse'
+ *       400:
+ *         description: Bad Request - Invalid parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/tokens', limiter, async (req: Request, res: Response) => {
+	const { chainId, query, limit } = req.query;
+
+	try {
+		if (!isValidParam(chainId)) {
+			return res.status(HTTP_STATUS.BAD_REQUEST).json({
+				error: ERROR_TYPES.MISSING_PARAMETERS,
+				message: 'chainId is required and must be a string',
+				example: '/tokens?chainId=1&query=usdc',
+			});
+		}
+		const chainValidation = validateChainId(chainId);
+		if (!chainValidation.valid) {
+			return res.status(chainValidation.status).json(chainValidation.body);
+		}
+
+		if (query !== undefined && typeof query !== 'string') {
+			return res.status(HTTP_STATUS.BAD_REQUEST).json({
+				error: ERROR_TYPES.INVALID_TOKEN_SEARCH,
+				message: 'Invalid query: query must be a string',
+			});
+		}
+		let searchLimit: number;
+		try {
+			searchLimit = parseSearchLimit(limit);
+		} catch (error) {
+			return res.status(HTTP_STATUS.BAD_REQUEST).json({
+				error: ERROR_TYPES.INVALID_TOKEN_SEARCH,
+				message: getErrorMessage(error, 'Invalid limit'),
+			});
+		}
+
+		logInfo(`Token search on chain ${chainId}: ${query ?? '(all)'}`);
+
+		const response: TokenSearchResponse = {
+			chainId: chainValidation.value,
+			tokens: await tokenRegistry.search(
+				chainValidation.value,
+				query ?? '',
+				searchLimit
+			),
+		};
+		res.json(response);
+	} catch (error) {
+		logError('Token search failed:', error);
+		sendErrorResponse(res, error);
+	}
+});
+
+export default router;
@@ -0,0 +1,160 @@
+import { Router, Request, Response } from 'express';
+import { LiquidityService } from '../services/liquidityService';
+import { BlockTag } from '../types';
+import { HTTP_STATUS, ERROR_TYPES, CACHE_CONFIG } from '../constants';
+import { logInfo, logError } from '../utils/logger';
+import { getErrorMessage } from '../utils/error';
+import { parseTwapWindow } from '../utils/twap';
+import { SimpleCache } from '../utils/cache';
+import { limiter } from '../middleware/rateLimiter';
+import {
+	parseBlockTag,
+	sendErrorResponse,
+	validatePairParams,
+} from './helpers';
+
+const router = Router();
+const liquidityService = new LiquidityService();
+
+const cache = new SimpleCache<any>(
+	CACHE_CONFIG.MAX_SIZE,
+	CACHE_CONFIG.TTL,
+	'twap'
+);
+
+/**
+ * @swagger
+ * /twap:
+ *   get:
+ *     summary: Time-weighted average price from Uniswap V2 cumulative prices
+ *     description: |
+ *       Reads `price0CumulativeLast` and `price1CumulativeLast` of every Uniswap V2-style
+ *       pool of the pair at the end block and at the last block mined `window` seconds
+ *       earlier, and returns each pool's time-weighted average price over that span.
+ *       `deviationBps` compares the current spot price with the TWAP: a large deviation
+ *       means the reserves moved sharply within the window, as they do when a pool is
+ *       being manipulated. Historical blocks need an archive node; pools created within
+ *       the window have no history and are left out.
+ *     tags:
+ *       - Liquidity
+ *     parameters:
+ *       - name: sellToken
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *         example: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48"
+ *       - name: buyToken
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^0x[a-fA-F0-9]{40}$'
+ *         example: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"
+ *       - name: chainId
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           enum: [1, 137, 56, 42161]
+ *         example: 1
+ *       - name: window
+ *         in: query
+ *         required: false
+ *         description: Averaging window in seconds or with an `s`, `m`, `h` or `d` suffix, from 1 minute to 7 days (default 30m)
+ *         schema:
+ *           type: string
+ *         example: 1h
+ *       - name: blockTag
+ *         in: query
+ *         required: false
+ *         description: End block of the window - a block number, `latest` (default), `safe` or `finalized`
+ *         schema:
+ *           type: string
+ *         example: "18000000"
+ *     responses:
+ *       200:
+ *         description: TWAP calculated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwapResponse'
+ *       400:
+ *         description: Bad Request - Invalid parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *             example:
+ *               error: "Invalid window"
+ *               message: "Invalid window: window must be between 60 and 604800 seconds"
+ *       503:
+ *         description: Service unavailable - RPC or network issues
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/twap', limiter, async (req: Request, res: Response) => {
+	const startTime = Date.now();
+	const { sellToken, buyToken, chainId, window, blockTag } = req.query;
+
+	logInfo(`TWAP request: ${sellToken} -> ${buyToken} on chain ${chainId}`);
+
+	try {
+		const validation = validatePairParams(
+			req.query,
+			'/twap?sellToken=0x...&buyToken=0x...&chainId=1&window=1h'
+		);
+		if (!validation.valid) {
+			return res.status(validation.status).json(validation.body);
+		}
+
+		let twapWindow: number;
+		try {
+			twapWindow = parseTwapWindow(window);
+		} catch (error) {
+			return res.status(HTTP_STATUS.BAD_REQUEST).json({
+				error: ERROR_TYPES.INVALID_TWAP_WINDOW,
+				message: getErrorMessage(error, 'Invalid window'),
+			});
+		}
+
+		let requestBlockTag: BlockTag;
+		try {
+			requestBlockTag = parseBlockTag(blockTag);
+		} catch (error) {
+			return res.status(HTTP_STATUS.BAD_REQUEST).json({
+				error: ERROR_TYPES.INVALID_BLOCK_TAG,
+				message: getErrorMessage(error, 'Invalid blockTag'),
+			});
+		}
+
+		const params = validation.value;
+		const cacheKey = `${params.sellToken.toLowerCase()}-${params.buyToken.toLowerCase()}-${
+			params.chainId
+		}-${twapWindow}-${requestBlockTag}`;
+		const cached = cache.get(cacheKey);
+		if (cached) {
+			logInfo(`Cache hit for ${cacheKey}`);
+			return res.json(cached);
+		}
+
+		const twap = await liquidityService.getTwap({
+			...params,
+			window: twapWindow,
+			blockTag: requestBlockTag,
+		});
+		cache.set(cacheKey, twap);
+
+		logInfo(`Request completed in ${Date.now() - startTime}ms`);
+
+		res.json(twap);
+	} catch (error) {
+		logError(`Request failed in ${Date.now() - startTime}ms:`, error);
+		sendErrorResponse(res, error);
+	}
+});
+
+export default router;
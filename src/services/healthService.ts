@@ -0,0 +1,128 @@
+import { CHAIN_CONFIGS } from '../config/chains';
+import { ChainHealth, ChainHealthStatus, EndpointHealth } from '../types';
+import { HEALTH_CONFIG, TIMEOUT_CONFIG } from '../constants';
+import { RpcEndpoint, providerManager } from '../utils/providerManager';
+import { getErrorMessage } from '../utils/error';
+import { withTimeout } from '../utils/timeout';
+
+const redactUrl = (url: string): string => {
+	try {
+		return new URL(url).origin;
+	} catch {
+		return 'invalid URL';
+	}
+};
+
+/**
+ * Probes the latest block of every RPC endpoint of every configured chain.
+ * Results feed the endpoints' health scores, so a probe also steers traffic
+ * away from lagging or failing endpoints.
+ */
+export class HealthService {
+	private lastCheck: { time: number; result: Promise<ChainHealth[]> } | null =
+		null;
+
+	/** Health of every chain, probed at most once per `CACHE_TTL`. */
+	checkChains(): Promise<ChainHealth[]> {
+		const now = Date.now();
+		if (
+			!this.lastCheck ||
+			now - this.lastCheck.time >= HEALTH_CONFIG.CACHE_TTL
+		) {
+			this.lastCheck = {
+				time: now,
+				result: Promise.all(
+					Object.keys(CHAIN_CONFIGS).map((chainId) =>
+						this.checkChain(Number(chainId))
+					)
+				),
+			};
+		}
+		return this.lastCheck.result;
+	}
+
+	private async checkChain(chainId: number): Promise<ChainHealth> {
+		const { endpoints } = providerManager.getProvider(chainId);
+		const results = await Promise.all(
+			endpoints.map((endpoint) => this.checkEndpoint(endpoint))
+		);
+		const responding = results.filter(
+			(
+				result
+			): result is EndpointHealth & {
+				latestBlock: number;
+				blockAgeSeconds: number;
+			} => result.latestBlock !== null
+		);
+		const healthyCount = results.filter(({ healthy }) => healthy).length;
+
+		let status: ChainHealthStatus = 'degraded';
+		if (healthyCount === results.length) {
+			status = 'healthy';
+		} else if (healthyCount === 0) {
+			status = 'unhealthy';
+		}
+
+		return {
+			chainId,
+			name: CHAIN_CONFIGS[chainId].name,
+			status,
+			latestBlock:
+				responding.length > 0
+					? Math.max(...responding.map(({ latestBlock }) => latestBlock))
+					: null,
+			blockAgeSeconds:
+				responding.length > 0
+					? Math.min(
+							...responding.map(({ blockAgeSeconds }) => blockAgeSeconds)
+					  )
+					: null,
+			endpoints: results,
+		};
+	}
+
+	private async checkEndpoint(endpoint: RpcEndpoint): Promise<EndpointHealth> {
+		const url = redactUrl(endpoint.url);
+		const startTime = Date.now();
+		try {
+			const block = await withTimeout(
+				endpoint.provider.getBlock('latest'),
+				TIMEOUT_CONFIG.HEALTH_CHECK_TIMEOUT,
+				'RPC timeout'
+			);
+			const latencyMs = Date.now() - startTime;
+			const blockAgeSeconds = Math.max(
+				0,
+				Math.floor(Date.now() / 1000) - block.timestamp
+			);
+			const healthy = blockAgeSeconds <= HEALTH_CONFIG.MAX_BLOCK_AGE_SECONDS;
+
+			if (healthy) {
+				endpoint.recordSuccess(latencyMs);
+			} else {
+				endpoint.recordFailure();
+			}
+
+			return {
+				url,
+				healthy,
+				latencyMs,
+				latestBlock: block.number,
+				blockAgeSeconds,
+				...(!healthy && {
+					error: `Latest block is ${blockAgeSeconds}s old`,
+				}),
+			};
+		} catch (error) {
+			endpoint.recordFailure();
+			return {
+				url,
+				healthy: false,
+				latencyMs: null,
+				latestBlock: null,
+				blockAgeSeconds: null,
+				error: getErrorMessage(error, 'Unknown error'),
+			};
+		}
+	}
+}
@@ -1,33 +1,1032 @@
 import { ethers } from 'ethers';
 import { getChainConfig } from '../config/chains';
 import {
+	AggregatedQuote,
+	DepthCurveRequest,
+	DepthCurveResponse,
+	ExactInputQuoteRequest,
+	ExactOutputQuoteRequest,
 	LiquidityRequest,
 	LiquidityResponse,
-	TokenReserves,
+	LiquiditySnapshot,
+	OrderBook,
+	OrderBookLevel,
+	SlippageQuote,
+	SnapshotQuote,
+	SwapQuoteResponse,
+	TrackedPair,
+	TwapRequest,
+	TwapResponse,
+	PoolTwap,
 	ChainConfig,
+	UniswapV2DexConfig,
+	BlockInfo,
+	BlockTag,
+	TokenMetadata,
+	TokenRisk,
 } from '../types';
-import {
-	UNISWAP_V2_FACTORY_ABI,
-	UNISWAP_V2_PAIR_ABI,
-	UNISWAP_V2_ROUTER_ABI,
-	ERC20_ABI,
-} from '../abis';
+import { DexAdapter, PoolState, SwapStep, getDexAdapters } from '../adapters';
+import { UniswapV2Adapter } from '../adapters/uniswapV2';
 import { validateAndNormalizeAddresses } from '../utils/address';
 import { getErrorMessage } from '../utils/error';
-import { calculateSlippageQuote } from '../utils/slippage';
-import { VALIDATION_LIMITS } from '../constants';
+import {
+	buildAggregatedDepth,
+	calculateAggregatedQuote,
+	calculateNotionalQuote,
+	calculateSlippageQuote,
+	SlippageSolution,
+	solveSlippage,
+} from '../utils/slippage';
+import { formatSlippageLevel, formatUsdLevel } from '../utils/levels';
+import { parseTokenAmount } from '../utils/amount';
+import {
+	PriceRatio,
+	calculatePriceImpactBps,
+	formatPrice,
+} from '../utils/price';
+import { getDepthCurveAmounts } from '../utils/depthCurve';
+import {
+	getPathPools,
+	getPathSpotPrice,
+	getPriceImpactBreakdown,
+	quoteExactInAlongPath,
+	quoteExactOutAlongPath,
+	reverseSteps,
+	solveAmountInForImpactAlongPath,
+} from '../utils/swapPath';
+import {
+	getMidPrice,
+	getSpreadBps,
+	getTopOfBookPrice,
+	invertPrice,
+} from '../utils/orderBook';
+import { getBestSpotPrice } from '../utils/orderSplitting';
+import { getTokenDecimals, getTokenMetadata } from '../utils/token';
+import {
+	BlockPinnedProvider,
+	PinnedBlock,
+	findBlockAtTimestamp,
+	resolveBlock,
+} from '../utils/block';
+import { getDeviationBps, getTwapPrice } from '../utils/twap';
+import {
+	UsdPrice,
+	UsdPrices,
+	getAmountForUsd,
+	getStablecoinUsdPrice,
+} from '../utils/usd';
+import { simulateTokenRisk } from '../utils/tokenRisk';
+import { settleWithConcurrency } from '../utils/concurrency';
+import { SimpleCache } from '../utils/cache';
+import { providerManager } from '../utils/providerManager';
+import { buildCandidatePaths, getPairKey } from '../utils/routing';
+import {
+	RouterVerification,
+	verifyAmountIn,
+	verifyAmountOut,
+} from '../utils/routerVerification';
+import {
+	BATCH_CONFIG,
+	CACHE_CONFIG,
+	ROUTING_CONFIG,
+	SLIPPAGE_CONFIG,
+	SLIPPAGE_LEVELS_CONFIG,
+	SNAPSHOT_CONFIG,
+	USD_PRICING_CONFIG,
+} from '../constants';
+
+interface Route {
+	adapter: DexAdapter;
+	path: string[];
+	steps: SwapStep[];
+}
+
+interface PinnedLookups {
+	provider: BlockPinnedProvider;
+	block: PinnedBlock;
+	/** Pool states read at the block, by DEX and pair. */
+	poolStates: Map<string, Promise<PoolState[]>>;
+	/** Token risk simulated at the block, by token. */
+	tokenRisks: Map<string, Promise<TokenRisk>>;
+}
+
+/** Pinned lookups of a batch's requests, by chain and block tag. */
+type BatchLookups = Map<string, Promise<PinnedLookups>>;
+
+interface RouteState {
+	sellToken: string;
+	buyToken: string;
+	chainId: number;
+	provider: ethers.providers.JsonRpcProvider;
+	block: PinnedBlock;
+	poolStates: Map<string, Promise<PoolState[]>>;
+	tokenRisks: Map<string, Promise<TokenRisk>>;
+	routes: Route[];
+	tokens: { sellToken: TokenMetadata; buyToken: TokenMetadata };
+	sellTokenDecimals: number;
+	buyTokenDecimals: number;
+}
 
 export class LiquidityService {
-	private getProvider(chainId: number): ethers.providers.JsonRpcProvider {
-		const config = getChainConfig(chainId);
-		return new ethers.providers.JsonRpcProvider(config.rpcUrl);
+	// Simulations by chain, token and block, which fix their outcome
+	private readonly tokenRiskCache = new SimpleCache<Promise<TokenRisk>>(
+		CACHE_CONFIG.MAX_SIZE,
+		CACHE_CONFIG.TTL,
+		'token-risk'
+	);
+
+	/**
+	 * Resolves `blockTag` once and returns a provider whose calls are all
+	 * pinned to that block, so a response never mixes state from several.
+	 */
+	private async getPinnedProvider(
+		chainId: number,
+		blockTag: BlockTag
+	): Promise<{ provider: BlockPinnedProvider; block: PinnedBlock }> {
+		const { multicall3Address } = getChainConfig(chainId);
+		const upstream = providerManager.getProvider(chainId);
+		const block = await resolveBlock(upstream, blockTag);
+		return {
+			provider: new BlockPinnedProvider(
+				upstream,
+				block.number,
+				multicall3Address
+			),
+			block,
+		};
+	}
+
+	/**
+	 * Pins the block routes are loaded at, with empty caches of the pool
+	 * states read and token risks simulated at it. Requests of a batch that
+	 * read the same chain and block tag share them.
+	 */
+	private getPinnedLookups(
+		chainId: number,
+		blockTag: BlockTag,
+		batch?: BatchLookups
+	): Promise<PinnedLookups> {
+		const key = `${chainId}:${blockTag}`;
+		const shared = batch?.get(key);
+		if (shared) {
+			return shared;
+		}
+
+		const lookups = this.getPinnedProvider(chainId, blockTag).then(
+			(pinned) => ({ ...pinned, poolStates: new Map(), tokenRisks: new Map() })
+		);
+		batch?.set(key, lookups);
+		return lookups;
 	}
 
 	async getLiquidityQuotes(
 		request: LiquidityRequest
 	): Promise<LiquidityResponse> {
-		const { sellToken, buyToken, chainId } = request;
+		return this.quoteLiquidity(request);
+	}
+
+	/**
+	 * Quotes each request of a batch, a few at a time. Requests on the same
+	 * chain are quoted at one block and read each pool once; a request that
+	 * fails is settled as rejected without affecting the others.
+	 */
+	async getLiquidityQuotesBatch(
+		requests: LiquidityRequest[]
+	): Promise<PromiseSettledResult<LiquidityResponse>[]> {
+		const batch: BatchLookups = new Map();
+		return settleWithConcurrency(
+			requests,
+			BATCH_CONFIG.CONCURRENCY,
+			(request) => this.quoteLiquidity(request, batch)
+		);
+	}
+
+	private async quoteLiquidity(
+		request: LiquidityRequest,
+		batch?: BatchLookups
+	): Promise<LiquidityResponse> {
+		const { chainId } = request;
+		const state = await this.loadRoutes(
+			request.sellToken,
+			request.buyToken,
+			chainId,
+			request.blockTag,
+			batch
+		);
+		const { sellTokenDecimals, buyTokenDecimals } = state;
+		// Runs over RPC while the quotes are computed locally
+		const tokenRisk = this.getTokenRisk(state);
+		const usdPrices = await this.getUsdPrices(state);
+
+		const slippageLevels =
+			request.levels ?? SLIPPAGE_LEVELS_CONFIG.DEFAULT_LEVELS;
+
+		const venues = this.groupRoutesByDex(state.routes);
+
+		const levelQuotes = await Promise.all(
+			slippageLevels.map(async (slippage) => {
+				// Solutions found while scoring are reused by the quotes
+				const solutions = new Map<SwapStep[], SlippageSolution>();
+				const outputs = new Map<SwapStep[], ethers.BigNumber>();
+				const score = (steps: SwapStep[]): ethers.BigNumber => {
+					let output = outputs.get(steps);
+					if (!output) {
+						const solution = solveSlippage(steps, slippage);
+						output = quoteExactInAlongPath(steps, solution.sellAmount);
+						solutions.set(steps, solution);
+						outputs.set(steps, output);
+					}
+					return output;
+				};
 
+				const venueQuotes = await Promise.allSettled(
+					venues.map(async ({ routes }) => {
+						const route = this.selectBestRoute(routes, score);
+						if (!route) {
+							throw new Error(
+								`Insufficient liquidity: no route for pair ${state.sellToken}/${state.buyToken}`
+							);
+						}
+						return calculateSlippageQuote({
+							path: route.path,
+							steps: route.steps,
+							targetSlippage: slippage,
+							sellTokenDecimals,
+							buyTokenDecimals,
+							verification: this.getRouterVerification(state, route),
+							usdPrices,
+							solution: solutions.get(route.steps),
+						});
+					})
+				);
+
+				const best = this.selectBestRoute(state.routes, score);
+				if (!best) {
+					throw new Error(
+						`Insufficient liquidity: no route for pair ${state.sellToken}/${state.buyToken}`
+					);
+				}
+				const bestVenue = venues.findIndex(({ routes }) =>
+					routes.includes(best)
+				);
+
+				return { best: venueQuotes[bestVenue], venueQuotes };
+			})
+		);
+
+		const errors = levelQuotes
+			.map(({ best }, index) =>
+				best.status === 'rejected'
+					? `${formatSlippageLevel(slippageLevels[index])}: ${
+							best.reason?.message || 'Unknown error'
+					  }`
+					: null
+			)
+			.filter(Boolean);
+
+		if (errors.length > 0) {
+			throw new Error(
+				`Failed to calculate slippage quotes. Errors: ${errors.join(', ')}`
+			);
+		}
+
+		const quoteMap: Record<string, SlippageQuote> = {};
+		const venueQuoteMaps = venues.map(
+			() => ({} as Record<string, SlippageQuote>)
+		);
+		levelQuotes.forEach(({ best, venueQuotes }, index) => {
+			const level = formatSlippageLevel(slippageLevels[index]);
+			if (best.status === 'fulfilled') {
+				quoteMap[level] = best.value;
+			}
+			venueQuotes.forEach((quote, venue) => {
+				// A venue that cannot quote a level is left out of its breakdown
+				if (quote.status === 'fulfilled') {
+					venueQuoteMaps[venue][level] = quote.value;
+				}
+			});
+		});
+
+		return {
+			sellToken: state.sellToken,
+			buyToken: state.buyToken,
+			chainId,
+			...this.getBlockInfo(state),
+			usdPrices: {
+				sellToken: this.formatUsdPrice(usdPrices.sellToken, sellTokenDecimals),
+				buyToken: this.formatUsdPrice(usdPrices.buyToken, buyTokenDecimals),
+			},
+			quotes: quoteMap,
+			...(request.usdLevels && {
+				usdQuotes: await this.getUsdQuotes(state, request.usdLevels, usdPrices),
+			}),
+			venues: venues.map(({ dex }, index) => ({
+				dex,
+				quotes: venueQuoteMaps[index],
+			})),
+			...this.getAggregatedQuotes(state, slippageLevels),
+			...(request.mode === 'orderbook' && {
+				orderBook: this.getOrderBook(state, slippageLevels),
+			}),
+			tokens: state.tokens,
+			tokenRisk: await tokenRisk,
+		};
+	}
+
+	/**
+	 * Dense (sellAmount, buyAmount, priceImpactBps) series along the route
+	 * with the best output at `maxImpact`, from 0 up to that trade size.
+	 */
+	async getDepthCurve(request: DepthCurveRequest): Promise<DepthCurveResponse> {
+		const state = await this.loadRoutes(
+			request.sellToken,
+			request.buyToken,
+			request.chainId,
+			request.blockTag
+		);
+		const { sellTokenDecimals, buyTokenDecimals } = state;
+
+		const { route, amountIn: maxAmount } = this.solveBestRouteForImpact(
+			state.routes,
+			request.maxImpact
+		);
+		const spotPrice = getPathSpotPrice(route.steps);
+
+		const points = getDepthCurveAmounts(
+			maxAmount,
+			request.points,
+			request.spacing
+		).map((amountIn) => {
+			const amountOut = quoteExactInAlongPath(route.steps, amountIn);
+			return {
+				sellAmount: ethers.utils.formatUnits(amountIn, sellTokenDecimals),
+				buyAmount: ethers.utils.formatUnits(amountOut, buyTokenDecimals),
+				priceImpactBps: calculatePriceImpactBps(amountIn, amountOut, spotPrice),
+			};
+		});
+
+		return {
+			sellToken: state.sellToken,
+			buyToken: state.buyToken,
+			chainId: state.chainId,
+			...this.getBlockInfo(state),
+			dex: route.adapter.name,
+			path: route.path,
+			pools: getPathPools(route.steps),
+			spacing: request.spacing,
+			points,
+		};
+	}
+
+	/**
+	 * Reserves of every direct pool of the pair and the best route's depth at
+	 * each snapshot level, for the snapshot recorder.
+	 */
+	async getLiquiditySnapshot(pair: TrackedPair): Promise<LiquiditySnapshot> {
+		const state = await this.loadRoutes(
+			pair.sellToken,
+			pair.buyToken,
+			pair.chainId
+		);
+		const { sellTokenDecimals, buyTokenDecimals } = state;
+
+		const reserves = state.routes
+			.filter((route) => route.steps.length === 1)
+			.map(({ steps: [step] }) => ({
+				...getPathPools([step])[0],
+				sellReserve: ethers.utils.formatUnits(
+					step.adapter.getReserve(step.state, state.sellToken),
+					sellTokenDecimals
+				),
+				buyReserve: ethers.utils.formatUnits(
+					step.adapter.getReserve(step.state, state.buyToken),
+					buyTokenDecimals
+				),
+			}));
+
+		const quotes: Record<string, SnapshotQuote> = {};
+		for (const level of SNAPSHOT_CONFIG.LEVELS) {
+			const { route, amountIn, amountOut } = this.solveBestRouteForImpact(
+				state.routes,
+				level
+			);
+			quotes[formatSlippageLevel(level)] = {
+				dex: route.adapter.name,
+				sellAmount: ethers.utils.formatUnits(amountIn, sellTokenDecimals),
+				buyAmount: ethers.utils.formatUnits(amountOut, buyTokenDecimals),
+			};
+		}
+
+		return {
+			timestamp: Math.floor(Date.now() / 1000),
+			sellToken: state.sellToken,
+			buyToken: state.buyToken,
+			chainId: state.chainId,
+			...this.getBlockInfo(state),
+			reserves,
+			quotes,
+		};
+	}
+
+	/**
+	 * Time-weighted average price of every Uniswap V2-style pool of the pair
+	 * over `window` seconds up to the requested block, from the pools'
+	 * cumulative prices at both ends, with the spot price's deviation from it.
+	 * Pools created within the window have no history and are left out.
+	 */
+	async getTwap(request: TwapRequest): Promise<TwapResponse> {
+		const [sellToken, buyToken] = this.normalizePair(
+			request.sellToken,
+			request.buyToken
+		);
+		const config = getChainConfig(request.chainId);
+		const { provider, block } = await this.getPinnedProvider(
+			request.chainId,
+			request.blockTag ?? 'latest'
+		);
+
+		const adapters = getDexAdapters(request.chainId).filter(
+			(adapter): adapter is UniswapV2Adapter =>
+				adapter instanceof UniswapV2Adapter
+		);
+		const pools = (
+			await Promise.all(
+				adapters.map(async (adapter) =>
+					(
+						await adapter.findPools(sellToken, buyToken, provider)
+					).map((pool) => ({ adapter, pool }))
+				)
+			)
+		).flat();
+		if (pools.length === 0) {
+			throw new Error(
+				`No liquidity pool found for pair ${sellToken}/${buyToken} on a Uniswap V2-style DEX on chain ${config.name}`
+			);
+		}
+
+		const [startBlock, sellTokenDecimals, buyTokenDecimals] = await Promise.all(
+			[
+				findBlockAtTimestamp(provider, block.timestamp - request.window, block),
+				getTokenDecimals(sellToken, provider),
+				getTokenDecimals(buyToken, provider),
+			]
+		);
+
+		const results = await Promise.allSettled(
+			pools.map(async ({ adapter, pool }): Promise<PoolTwap> => {
+				const [start, end] = await Promise.all([
+					adapter.observeCumulativePrices(pool, provider, startBlock),
+					adapter.observeCumulativePrices(pool, provider, block),
+				]);
+				const sellIndex =
+					pool.tokens[0].toLowerCase() === sellToken.toLowerCase() ? 0 : 1;
+				const twap = getTwapPrice(start, end, sellIndex);
+				const spotPrice = {
+					numerator: end.reserves[1 - sellIndex],
+					denominator: end.reserves[sellIndex],
+				};
+				const format = ({ numerator, denominator }: PriceRatio) =>
+					formatPrice(
+						numerator,
+						buyTokenDecimals,
+						denominator,
+						sellTokenDecimals
+					);
+
+				return {
+					dex: pool.dex,
+					address: pool.address,
+					feeBps: pool.feeBps,
+					twap: format(twap),
+					spotPrice: format(spotPrice),
+					deviationBps: getDeviationBps(spotPrice, twap),
+				};
+			})
+		);
+
+		const twaps = results.flatMap((result) =>
+			result.status === 'fulfilled' ? [result.value] : []
+		);
+		if (twaps.length === 0) {
+			throw (results[0] as PromiseRejectedResult).reason;
+		}
+
+		return {
+			sellToken,
+			buyToken,
+			chainId: request.chainId,
+			blockNumber: block.number,
+			blockTimestamp: block.timestamp,
+			window: block.timestamp - startBlock.timestamp,
+			startBlockNumber: startBlock.number,
+			startBlockTimestamp: startBlock.timestamp,
+			pools: twaps,
+		};
+	}
+
+	async getExactInputQuote(
+		request: ExactInputQuoteRequest
+	): Promise<SwapQuoteResponse> {
+		const state = await this.loadRoutes(
+			request.sellToken,
+			request.buyToken,
+			request.chainId,
+			request.blockTag
+		);
+
+		const amountIn = parseTokenAmount(
+			request.sellAmount,
+			request.unit,
+			state.sellTokenDecimals
+		);
+		const route = this.selectBestRoute(state.routes, (steps) =>
+			this.tryQuoteExactIn(steps, amountIn)
+		);
+		if (!route) {
+			throw new Error(
+				`Insufficient liquidity: no route can fill a sale of ${ethers.utils.formatUnits(
+					amountIn,
+					state.sellTokenDecimals
+				)} for pair ${state.sellToken}/${state.buyToken}`
+			);
+		}
+		const amountOut = quoteExactInAlongPath(route.steps, amountIn);
+
+		const verification = this.getRouterVerification(state, route);
+		if (verification) {
+			await verifyAmountOut(verification, amountIn, amountOut);
+		}
+
+		return this.buildSwapQuote(state, route, amountIn, amountOut);
+	}
+
+	async getExactOutputQuote(
+		request: ExactOutputQuoteRequest
+	): Promise<SwapQuoteResponse> {
+		const state = await this.loadRoutes(
+			request.sellToken,
+			request.buyToken,
+			request.chainId,
+			request.blockTag
+		);
+		const { buyTokenDecimals } = state;
+
+		const amountOut = parseTokenAmount(
+			request.buyAmount,
+			request.unit,
+			buyTokenDecimals
+		);
+
+		const route = this.selectBestRoute(
+			state.routes,
+			(steps) => {
+				try {
+					return quoteExactOutAlongPath(steps, amountOut);
+				} catch {
+					return null;
+				}
+			},
+			'lowest'
+		);
+		if (!route) {
+			const available = state.routes.reduce((max, { steps }) => {
+				const { adapter, state: poolState } = steps[steps.length - 1];
+				const reserveOut = adapter.getReserve(poolState, state.buyToken);
+				return reserveOut.gt(max) ? reserveOut : max;
+			}, ethers.constants.Zero);
+			throw new Error(
+				`Insufficient liquidity: requested ${ethers.utils.formatUnits(
+					amountOut,
+					buyTokenDecimals
+				)} exceeds the ${ethers.utils.formatUnits(
+					available,
+					buyTokenDecimals
+				)} available for pair ${state.sellToken}/${state.buyToken}`
+			);
+		}
+		const amountIn = quoteExactOutAlongPath(route.steps, amountOut);
+
+		const verification = this.getRouterVerification(state, route);
+		if (verification) {
+			await verifyAmountIn(verification, amountOut, amountIn);
+		}
+
+		return this.buildSwapQuote(state, route, amountIn, amountOut);
+	}
+
+	/**
+	 * Best quote for selling each USD notional's worth of the sell token,
+	 * valued at its reference price. Notionals no route can fill are left
+	 * out rather than failing the whole response.
+	 */
+	private async getUsdQuotes(
+		state: RouteState,
+		notionals: number[],
+		usdPrices: UsdPrices
+	): Promise<Record<string, SlippageQuote>> {
+		const { sellToken: sellTokenPrice } = usdPrices;
+		if (!sellTokenPrice) {
+			throw new Error(
+				`Could not calculate quote for usdLevels: no route prices ${
+					state.sellToken
+				} in USD on chain ${getChainConfig(state.chainId).name}`
+			);
+		}
+
+		const usdQuotes: Record<string, SlippageQuote> = {};
+		for (const notional of notionals) {
+			const level = formatUsdLevel(notional);
+			const sellAmount = getAmountForUsd(notional, sellTokenPrice);
+			const route = this.selectBestRoute(state.routes, (steps) =>
+				this.tryQuoteExactIn(steps, sellAmount)
+			);
+			if (!route) {
+				continue;
+			}
+			usdQuotes[level] = await calculateNotionalQuote({
+				path: route.path,
+				steps: route.steps,
+				sellAmount,
+				level,
+				sellTokenDecimals: state.sellTokenDecimals,
+				buyTokenDecimals: state.buyTokenDecimals,
+				verification: this.getRouterVerification(state, route),
+				usdPrices,
+			});
+		}
+		return usdQuotes;
+	}
+
+	private async getUsdPrices(state: RouteState): Promise<UsdPrices> {
+		const [sellToken, buyToken] = await Promise.all([
+			this.getUsdPrice(state, state.sellToken, state.sellTokenDecimals),
+			this.getUsdPrice(state, state.buyToken, state.buyTokenDecimals),
+		]);
+		return { sellToken, buyToken };
+	}
+
+	/**
+	 * Stablecoins are worth $1. Other tokens are priced at the spot price of
+	 * their reference route: the deepest route to the first of the chain's
+	 * stablecoins that the token routes to. The pair's own routes are reused
+	 * when its other token is a stablecoin. `null` when nothing routes.
+	 */
+	private async getUsdPrice(
+		state: RouteState,
+		token: string,
+		decimals: number
+	): Promise<UsdPrice | null> {
+		const config = getChainConfig(state.chainId);
+		const isStablecoin = (address: string) =>
+			config.stablecoins.some(
+				(stablecoin) => stablecoin.toLowerCase() === address.toLowerCase()
+			);
+
+		if (isStablecoin(token)) {
+			return getStablecoinUsdPrice(decimals);
+		}
+		if (token === state.sellToken && isStablecoin(state.buyToken)) {
+			return this.getReferencePrice(state.routes, state.buyTokenDecimals);
+		}
+		if (token === state.buyToken && isStablecoin(state.sellToken)) {
+			return this.getReferencePrice(
+				state.routes.map((route) => ({
+					...route,
+					path: [...route.path].reverse(),
+					steps: reverseSteps(route.steps),
+				})),
+				state.sellTokenDecimals
+			);
+		}
+
+		for (const stablecoin of config.stablecoins) {
+			try {
+				const [routes, stablecoinDecimals] = await Promise.all([
+					this.findRoutes(
+						token,
+						ethers.utils.getAddress(stablecoin),
+						config,
+						getDexAdapters(state.chainId),
+						state.provider,
+						state.poolStates
+					),
+					getTokenDecimals(stablecoin, state.provider),
+				]);
+				return this.getReferencePrice(routes, stablecoinDecimals);
+			} catch {
+				// Not routable to this stablecoin; try the next one
+			}
+		}
+		return null;
+	}
+
+	private getReferencePrice(
+		routes: Route[],
+		stablecoinDecimals: number
+	): UsdPrice {
+		const { route } = this.solveBestRouteForImpact(
+			routes,
+			USD_PRICING_CONFIG.REFERENCE_IMPACT
+		);
+		return { ...getPathSpotPrice(route.steps), decimals: stablecoinDecimals };
+	}
+
+	private formatUsdPrice(
+		price: UsdPrice | null,
+		tokenDecimals: number
+	): string | null {
+		return price
+			? formatPrice(
+					price.numerator,
+					price.decimals,
+					price.denominator,
+					tokenDecimals
+			  )
+			: null;
+	}
+
+	private getBlockInfo({ block }: RouteState): BlockInfo {
+		return { blockNumber: block.number, blockTimestamp: block.timestamp };
+	}
+
+	/**
+	 * Output of selling `amountIn` along `steps`, or `null` when a pool on
+	 * the path cannot fill it, e.g. a V3 pool running out of loaded ticks.
+	 */
+	private tryQuoteExactIn(
+		steps: SwapStep[],
+		amountIn: ethers.BigNumber
+	): ethers.BigNumber | null {
+		try {
+			return quoteExactInAlongPath(steps, amountIn);
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Picks the route with the best score; routes scored `null` cannot fill
+	 * the trade and are skipped.
+	 */
+	private selectBestRoute(
+		routes: Route[],
+		score: (steps: SwapStep[]) => ethers.BigNumber | null,
+		prefer: 'highest' | 'lowest' = 'highest'
+	): Route | null {
+		let best: Route | null = null;
+		let bestScore: ethers.BigNumber | null = null;
+
+		for (const route of routes) {
+			const routeScore = score(route.steps);
+			if (
+				routeScore &&
+				(!bestScore ||
+					(prefer === 'highest'
+						? routeScore.gt(bestScore)
+						: routeScore.lt(bestScore)))
+			) {
+				best = route;
+				bestScore = routeScore;
+			}
+		}
+
+		return best;
+	}
+
+	/** The route with the best output at `targetImpact`, with its trade size. */
+	private solveBestRouteForImpact(
+		routes: Route[],
+		targetImpact: number
+	): { route: Route; amountIn: ethers.BigNumber; amountOut: ethers.BigNumber } {
+		const trades = new Map<
+			SwapStep[],
+			{ amountIn: ethers.BigNumber; amountOut: ethers.BigNumber }
+		>();
+		const route = this.selectBestRoute(routes, (steps) => {
+			const amountIn = solveAmountInForImpactAlongPath(steps, targetImpact);
+			const amountOut = quoteExactInAlongPath(steps, amountIn);
+			trades.set(steps, { amountIn, amountOut });
+			return amountOut;
+		});
+		const trade = route && trades.get(route.steps);
+		if (!route || !trade) {
+			throw new Error(
+				`Insufficient liquidity: no route reaches ${formatSlippageLevel(
+					targetImpact
+				)} price impact`
+			);
+		}
+
+		return { route, ...trade };
+	}
+
+	/**
+	 * Depth per level with the order split across every pool of the direct
+	 * pair, on all DEXs. Multi-hop routes share pools with each other, so
+	 * they are not split across; pairs without a direct pool get no section.
+	 */
+	private getAggregatedQuotes(
+		state: RouteState,
+		slippageLevels: readonly number[]
+	): Pick<LiquidityResponse, 'aggregated'> {
+		const directSteps = state.routes
+			.filter((route) => route.steps.length === 1)
+			.map((route) => route.steps[0]);
+		if (directSteps.length === 0) {
+			return {};
+		}
+
+		const depth = buildAggregatedDepth(directSteps);
+		const aggregated: Record<string, AggregatedQuote> = {};
+		for (const slippage of slippageLevels) {
+			aggregated[formatSlippageLevel(slippage)] = calculateAggregatedQuote(
+				depth,
+				slippage,
+				state.sellTokenDecimals,
+				state.buyTokenDecimals
+			);
+		}
+		return { aggregated };
+	}
+
+	/**
+	 * Bids and asks at each level, both solved from the already loaded pool
+	 * state: asks trade the same routes in reverse, so the two sides always
+	 * reflect the same reserves.
+	 */
+	private getOrderBook(
+		state: RouteState,
+		slippageLevels: readonly number[]
+	): OrderBook {
+		const { sellTokenDecimals, buyTokenDecimals } = state;
+		const askRoutes = state.routes.map((route) => ({
+			...route,
+			path: [...route.path].reverse(),
+			steps: reverseSteps(route.steps),
+		}));
+
+		const bestBid = getBestSpotPrice(
+			state.routes.map((route) => getTopOfBookPrice(route.steps))
+		);
+		const bestAsk = invertPrice(
+			getBestSpotPrice(askRoutes.map((route) => getTopOfBookPrice(route.steps)))
+		);
+		const midPrice = getMidPrice(bestBid, bestAsk);
+
+		const formatLevel = (
+			route: Route,
+			baseAmount: ethers.BigNumber,
+			quoteAmount: ethers.BigNumber
+		): OrderBookLevel => ({
+			dex: route.adapter.name,
+			baseAmount: ethers.utils.formatUnits(baseAmount, sellTokenDecimals),
+			quoteAmount: ethers.utils.formatUnits(quoteAmount, buyTokenDecimals),
+			price: formatPrice(
+				quoteAmount,
+				buyTokenDecimals,
+				baseAmount,
+				sellTokenDecimals
+			),
+			path: route.path,
+			pools: getPathPools(route.steps),
+		});
+
+		const bids: Record<string, OrderBookLevel> = {};
+		const asks: Record<string, OrderBookLevel> = {};
+		for (const slippage of slippageLevels) {
+			const level = formatSlippageLevel(slippage);
+			const bid = this.solveBestRouteForImpact(state.routes, slippage);
+			bids[level] = formatLevel(bid.route, bid.amountIn, bid.amountOut);
+			const ask = this.solveBestRouteForImpact(askRoutes, slippage);
+			asks[level] = formatLevel(ask.route, ask.amountOut, ask.amountIn);
+		}
+
+		const formatRatio = ({ numerator, denominator }: PriceRatio) =>
+			formatPrice(numerator, buyTokenDecimals, denominator, sellTokenDecimals);
+
+		return {
+			bestBid: formatRatio(bestBid),
+			bestAsk: formatRatio(bestAsk),
+			midPrice: formatRatio(midPrice),
+			spreadBps: getSpreadBps(bestBid, bestAsk),
+			bids,
+			asks,
+		};
+	}
+
+	/** Round-trip simulation of both tokens through the chain's first V2 router. */
+	private async getTokenRisk(
+		state: RouteState
+	): Promise<LiquidityResponse['tokenRisk']> {
+		const v2Dex = getChainConfig(state.chainId).dexes.find(
+			(dex): dex is UniswapV2DexConfig => dex.type === 'uniswap-v2'
+		);
+		if (!v2Dex) {
+			const risk = {
+				simulated: false,
+				isHoneypot: false,
+				buyTaxPercent: null,
+				sellTaxPercent: null,
+				reason: 'No Uniswap V2 router configured for this chain',
+			};
+			return { sellToken: risk, buyToken: risk };
+		}
+
+		const [sellToken, buyToken] = await Promise.all([
+			this.simulateTokenRisk(state, state.sellToken, v2Dex.routerAddress),
+			this.simulateTokenRisk(state, state.buyToken, v2Dex.routerAddress),
+		]);
+		return { sellToken, buyToken };
+	}
+
+	/**
+	 * Simulates `token` once per block: requests of a batch share the
+	 * simulation through their pinned lookups, others through the cache.
+	 */
+	private simulateTokenRisk(
+		state: RouteState,
+		token: string,
+		routerAddress: string
+	): Promise<TokenRisk> {
+		let risk = state.tokenRisks.get(token);
+		if (!risk) {
+			const key = `${state.chainId}:${token.toLowerCase()}:${
+				state.block.number
+			}`;
+			const cached = this.tokenRiskCache.get(key);
+			risk =
+				cached ??
+				simulateTokenRisk(
+					token,
+					routerAddress,
+					state.provider,
+					state.block.number
+				);
+			if (!cached) {
+				this.tokenRiskCache.set(key, risk);
+			}
+			state.tokenRisks.set(token, risk);
+		}
+		return risk;
+	}
+
+	/** Routes grouped by the DEX serving them, in configuration order. */
+	private groupRoutesByDex(
+		routes: Route[]
+	): { dex: string; routes: Route[] }[] {
+		const venues = new Map<string, Route[]>();
+		for (const route of routes) {
+			const venue = venues.get(route.adapter.name);
+			if (venue) {
+				venue.push(route);
+			} else {
+				venues.set(route.adapter.name, [route]);
+			}
+		}
+		return Array.from(venues, ([dex, venueRoutes]) => ({
+			dex,
+			routes: venueRoutes,
+		}));
+	}
+
+	private buildSwapQuote(
+		state: RouteState,
+		route: Route,
+		amountIn: ethers.BigNumber,
+		amountOut: ethers.BigNumber
+	): SwapQuoteResponse {
+		const { sellTokenDecimals, buyTokenDecimals } = state;
+		const spotPrice = getPathSpotPrice(route.steps);
+
+		return {
+			sellToken: state.sellToken,
+			buyToken: state.buyToken,
+			chainId: state.chainId,
+			...this.getBlockInfo(state),
+			path: route.path,
+			pairAddresses: route.steps.map((step) => step.state.pool.address),
+			pools: getPathPools(route.steps),
+			sellAmount: ethers.utils.formatUnits(amountIn, sellTokenDecimals),
+			sellAmountWei: amountIn.toString(),
+			buyAmount: ethers.utils.formatUnits(amountOut, buyTokenDecimals),
+			buyAmountWei: amountOut.toString(),
+			effectivePrice: formatPrice(
+				amountOut,
+				buyTokenDecimals,
+				amountIn,
+				sellTokenDecimals
+			),
+			spotPrice: formatPrice(
+				spotPrice.numerator,
+				buyTokenDecimals,
+				spotPrice.denominator,
+				sellTokenDecimals
+			),
+			...getPriceImpactBreakdown(route.steps, amountIn, amountOut),
+		};
+	}
+
+	private normalizePair(sellToken: string, buyToken: string): [string, string] {
 		let normalizedSellToken: string;
 		let normalizedBuyToken: string;
 
@@ -44,172 +1043,204 @@ export class LiquidityService {
 			throw new Error('Sell and buy tokens cannot be the same');
 		}
 
+		return [normalizedSellToken, normalizedBuyToken];
+	}
+
+	private async loadRoutes(
+		sellToken: string,
+		buyToken: string,
+		chainId: number,
+		blockTag: BlockTag = 'latest',
+		batch?: BatchLookups
+	): Promise<RouteState> {
+		const [normalizedSellToken, normalizedBuyToken] = this.normalizePair(
+			sellToken,
+			buyToken
+		);
+
 		const config = getChainConfig(chainId);
-		const provider = this.getProvider(chainId);
+		const { provider, block, poolStates, tokenRisks } =
+			await this.getPinnedLookups(chainId, blockTag, batch);
 
-		const reserves = await this.getTokenReserves(
+		const routes = await this.findRoutes(
 			normalizedSellToken,
 			normalizedBuyToken,
 			config,
-			provider
+			getDexAdapters(chainId),
+			provider,
+			poolStates
 		);
 
-		const [sellTokenDecimals, buyTokenDecimals] = await Promise.all([
-			this.getTokenDecimals(normalizedSellToken, provider),
-			this.getTokenDecimals(normalizedBuyToken, provider),
+		const [sellTokenMetadata, buyTokenMetadata] = await Promise.all([
+			getTokenMetadata(normalizedSellToken, provider),
+			getTokenMetadata(normalizedBuyToken, provider),
 		]);
 
-		const slippageLevels = [0.01, 0.05, 0.1] as const;
-
-		const router = new ethers.Contract(
-			config.routerAddress,
-			UNISWAP_V2_ROUTER_ABI,
-			provider
-		);
-
-		const reserveSell = ethers.BigNumber.from(reserves.reserveSell);
-		const reserveBuy = ethers.BigNumber.from(reserves.reserveBuy);
-
-		const quotes = await Promise.allSettled(
-			slippageLevels.map((slippage) =>
-				calculateSlippageQuote({
-					router,
-					path: [normalizedSellToken, normalizedBuyToken],
-					reserveSell,
-					reserveBuy,
-					targetSlippage: slippage,
-					sellTokenDecimals,
-					buyTokenDecimals,
-				})
-			)
-		);
-
-		const quote1 = quotes[0].status === 'fulfilled' ? quotes[0].value : null;
-		const quote5 = quotes[1].status === 'fulfilled' ? quotes[1].value : null;
-		const quote10 = quotes[2].status === 'fulfilled' ? quotes[2].value : null;
-
-		const errors = quotes
-			.map((quote, index) =>
-				quote.status === 'rejected'
-					? `${slippageLevels[index] * 100}%: ${
-							quote.reason?.message || 'Unknown error'
-					  }`
-					: null
-			)
-			.filter(Boolean);
-
-		if (quote1 === null || quote5 === null || quote10 === null) {
-			const errorMessage =
-				errors.length > 0
-					? `Failed to calculate slippage quotes. Errors: ${errors.join(', ')}`
-					: 'Failed to calculate slippage quotes';
-			throw new Error(errorMessage);
-		}
 		return {
 			sellToken: normalizedSellToken,
 			buyToken: normalizedBuyToken,
 			chainId,
-			quotes: {
-				'1%': quote1,
-				'5%': quote5,
-				'10%': quote10,
-			},
+			provider,
+			block,
+			poolStates,
+			tokenRisks,
+			routes,
+			tokens: { sellToken: sellTokenMetadata, buyToken: buyTokenMetadata },
+			sellTokenDecimals: sellTokenMetadata.decimals,
+			buyTokenDecimals: buyTokenMetadata.decimals,
 		};
 	}
 
-	private async getTokenReserves(
+	/**
+	 * Resolves every candidate path, on each DEX, whose pools all exist and
+	 * pass the liquidity checks. When nothing routes, the direct pair's error
+	 * is surfaced so callers see why the pair itself is unusable. Pool states
+	 * are read once into `poolStates` and reused from there.
+	 */
+	private async findRoutes(
 		sellToken: string,
 		buyToken: string,
 		config: ChainConfig,
-		provider: ethers.providers.JsonRpcProvider
-	): Promise<TokenReserves> {
-		try {
-			const factory = new ethers.Contract(
-				config.factoryAddress,
-				UNISWAP_V2_FACTORY_ABI,
-				provider
-			);
+		adapters: DexAdapter[],
+		provider: ethers.providers.JsonRpcProvider,
+		poolStates: Map<string, Promise<PoolState[]>>
+	): Promise<Route[]> {
+		const paths = buildCandidatePaths(
+			sellToken,
+			buyToken,
+			config.baseTokens,
+			ROUTING_CONFIG.MAX_HOPS
+		);
 
-			const pairAddress = await factory.getPair(sellToken, buyToken);
-			if (pairAddress === ethers.constants.AddressZero) {
-				throw new Error(
-					`No liquidity pool found for pair ${sellToken}/${buyToken} on chain ${config.name}`
-				);
+		const pairs = new Map<string, [string, string]>();
+		for (const path of paths) {
+			for (let i = 0; i < path.length - 1; i++) {
+				pairs.set(getPairKey(path[i], path[i + 1]), [path[i], path[i + 1]]);
 			}
+		}
+
+		const routesByAdapter = await Promise.all(
+			adapters.map(async (adapter) => {
+				const entries = Array.from(pairs.entries());
+				const results = await Promise.allSettled(
+					entries.map(([key, [tokenA, tokenB]]) => {
+						const stateKey = `${adapter.name}:${key}`;
+						let states = poolStates.get(stateKey);
+						if (!states) {
+							states = this.loadPoolStates(
+								adapter,
+								tokenA,
+								tokenB,
+								config,
+								provider
+							);
+							poolStates.set(stateKey, states);
+						}
+						return states;
+					})
+				);
+				const states = new Map(
+					entries.map(([key], index) => [key, results[index]])
+				);
 
-			const pair = new ethers.Contract(
-				pairAddress,
-				UNISWAP_V2_PAIR_ABI,
-				provider
+				return {
+					routes: paths.flatMap((path) =>
+						this.buildRoutes(adapter, path, states)
+					),
+					directResult: states.get(getPairKey(sellToken, buyToken)),
+				};
+			})
+		);
+
+		const routes = routesByAdapter.flatMap((result) => result.routes);
+		if (routes.length === 0) {
+			const rejected = routesByAdapter.find(
+				({ directResult }) => directResult?.status === 'rejected'
+			)?.directResult as PromiseRejectedResult | undefined;
+			if (rejected) {
+				throw rejected.reason;
+			}
+			throw new Error(
+				`No liquidity pool found for pair ${sellToken}/${buyToken} on chain ${config.name}`
 			);
+		}
 
-			const [reserves, token0, token1] = await Promise.all([
-				pair.getReserves(),
-				pair.token0(),
-				pair.token1(),
-			]);
+		return routes;
+	}
 
-			const [reserve0, reserve1] = reserves;
+	/**
+	 * Routes along `path` through the loaded pools. The direct pair yields
+	 * one route per pool (e.g. per V3 fee tier); multi-hop paths only use the
+	 * deepest pool of each pair to keep the number of routes small.
+	 */
+	private buildRoutes(
+		adapter: DexAdapter,
+		path: string[],
+		states: Map<string, PromiseSettledResult<PoolState[]>>
+	): Route[] {
+		let stepLists: SwapStep[][] = [[]];
 
-			if (reserve0.eq(0) || reserve1.eq(0)) {
-				throw new Error(
-					`Liquidity pool for pair ${sellToken}/${buyToken} has zero reserves`
-				);
+		for (let i = 0; i < path.length - 1; i++) {
+			const result = states.get(getPairKey(path[i], path[i + 1]));
+			if (result?.status !== 'fulfilled') {
+				return [];
 			}
 
-			const [token0Decimals, token1Decimals] = await Promise.all([
-				this.getTokenDecimals(token0, provider),
-				this.getTokenDecimals(token1, provider),
-			]);
+			const tokenIn = path[i];
+			const tokenOut = path[i + 1];
+			const poolStates =
+				path.length > 2
+					? [
+							result.value.reduce((deepest, state) =>
+								adapter
+									.getReserve(state, tokenOut)
+									.gt(adapter.getReserve(deepest, tokenOut))
+									? state
+									: deepest
+							),
+					  ]
+					: result.value;
 
-			const MIN_RESERVE_RATIO = 0.0001;
-			const ABSOLUTE_MIN_RESERVE_0 = ethers.utils.parseUnits(
-				'0.001',
-				token0Decimals
-			);
-			const ABSOLUTE_MIN_RESERVE_1 = ethers.utils.parseUnits(
-				'0.001',
-				token1Decimals
+			stepLists = stepLists.flatMap((steps) =>
+				poolStates.map((state) => [
+					...steps,
+					{ adapter, state, tokenIn, tokenOut },
+				])
 			);
+		}
 
-			const SCALED_MIN_0 = ethers.BigNumber.from(10)
-				.pow(token0Decimals)
-				.div(1000);
-			const SCALED_MIN_1 = ethers.BigNumber.from(10)
-				.pow(token1Decimals)
-				.div(1000);
-			const MIN_RESERVE_0 = ABSOLUTE_MIN_RESERVE_0.gt(SCALED_MIN_0)
-				? ABSOLUTE_MIN_RESERVE_0
-				: SCALED_MIN_0;
-			const MIN_RESERVE_1 = ABSOLUTE_MIN_RESERVE_1.gt(SCALED_MIN_1)
-				? ABSOLUTE_MIN_RESERVE_1
-				: SCALED_MIN_1;
-
-			if (reserve0.lt(MIN_RESERVE_0) || reserve1.lt(MIN_RESERVE_1)) {
-				throw new Error(
-					`Insufficient liquidity for reliable pricing in pair ${sellToken}/${buyToken}. ` +
-						`Reserves: ${ethers.utils.formatUnits(
-							reserve0,
-							token0Decimals
-						)} / ${ethers.utils.formatUnits(reserve1, token1Decimals)}`
-				);
-			}
+		return stepLists.map((steps) => ({ adapter, path, steps }));
+	}
 
-			const testTradeSize = reserve0.div(1000);
-			if (testTradeSize.lt(MIN_RESERVE_0.mul(10))) {
+	private async loadPoolStates(
+		adapter: DexAdapter,
+		tokenA: string,
+		tokenB: string,
+		config: ChainConfig,
+		provider: ethers.providers.JsonRpcProvider
+	): Promise<PoolState[]> {
+		try {
+			const pools = await adapter.findPools(tokenA, tokenB, provider);
+			if (pools.length === 0) {
 				throw new Error(
-					`Pool depth too low for reliable pricing in pair ${sellToken}/${buyToken}`
+					`No liquidity pool found for pair ${tokenA}/${tokenB} on chain ${config.name}`
 				);
 			}
 
-			const isSellToken0 = sellToken.toLowerCase() === token0.toLowerCase();
+			const results = await Promise.allSettled(
+				pools.map((pool) => adapter.getState(pool, provider))
+			);
+			const states = results
+				.filter(
+					(result): result is PromiseFulfilledResult<PoolState> =>
+						result.status === 'fulfilled'
+				)
+				.map((result) => result.value);
+			if (states.length === 0) {
+				throw (results[0] as PromiseRejectedResult).reason;
+			}
 
-			return {
-				reserveSell: isSellToken0 ? reserve0.toString() : reserve1.toString(),
-				reserveBuy: isSellToken0 ? reserve1.toString() : reserve0.toString(),
-				token0,
-				token1,
-			};
+			return states;
 		} catch (error) {
 			if (error instanceof Error) {
 				if (error.message.includes('CALL_EXCEPTION')) {
@@ -227,31 +1258,14 @@ export class LiquidityService {
 		}
 	}
 
-	private async getTokenDecimals(
-		tokenAddress: string,
-		provider: ethers.providers.JsonRpcProvider
-	): Promise<number> {
-		try {
-			const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
-			const decimals = await token.decimals();
-
-			if (
-				decimals < VALIDATION_LIMITS.MIN_TOKEN_DECIMALS ||
-				decimals > VALIDATION_LIMITS.MAX_TOKEN_DECIMALS
-			) {
-				throw new Error(
-					`Invalid token decimals: ${decimals} for token ${tokenAddress}`
-				);
-			}
-
-			return decimals;
-		} catch (error) {
-			if (error instanceof Error && error.message.includes('CALL_EXCEPTION')) {
-				throw new Error(
-					`Invalid token contract: ${tokenAddress} is not a valid ERC20 token`
-				);
-			}
-			throw error;
+	private getRouterVerification(
+		state: RouteState,
+		route: Route
+	): RouterVerification | undefined {
+		if (!SLIPPAGE_CONFIG.VERIFY_WITH_ROUTER) {
+			return undefined;
 		}
+
+		return route.adapter.getRouterVerification?.(route.path, state.provider);
 	}
 }
@@ -0,0 +1,66 @@
+import { TrackedPair } from '../types';
+import { LiquidityService } from './liquidityService';
+import { SnapshotStore } from '../utils/snapshotStore';
+import { logInfo, logError } from '../utils/logger';
+
+/**
+ * Snapshots the reserves and depth of each tracked pair every `intervalMs`.
+ * A run that is still in progress when the next one is due is not overlapped;
+ * that tick is skipped.
+ */
+export class SnapshotRecorder {
+	private timer: NodeJS.Timeout | null = null;
+	private recording = false;
+
+	constructor(
+		private liquidityService: LiquidityService,
+		private store: SnapshotStore,
+		private pairs: TrackedPair[],
+		private intervalMs: number
+	) {}
+
+	start(): void {
+		if (this.timer || this.pairs.length === 0) {
+			return;
+		}
+		logInfo(
+			`Recording snapshots of ${this.pairs.length} pairs every ${this.intervalMs}ms`
+		);
+		void this.recordAll();
+		this.timer = setInterval(() => void this.recordAll(), this.intervalMs);
+		// Recording alone should not keep the process alive
+		this.timer.unref();
+	}
+
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/** Records one snapshot per pair; a failing pair does not stop the others. */
+	async recordAll(): Promise<void> {
+		if (this.recording) {
+			return;
+		}
+		this.recording = true;
+		try {
+			await Promise.all(this.pairs.map((pair) => this.record(pair)));
+		} finally {
+			this.recording = false;
+		}
+	}
+
+	private async record(pair: TrackedPair): Promise<void> {
+		try {
+			const snapshot = await this.liquidityService.getLiquiditySnapshot(pair);
+			await this.store.append(snapshot);
+		} catch (error) {
+			logError(
+				`Snapshot failed for ${pair.sellToken} -> ${pair.buyToken} on chain ${pair.chainId}:`,
+				error
+			);
+		}
+	}
+}
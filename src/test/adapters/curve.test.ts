@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { CurveAdapter } from '../../adapters/curve';
+import { calculatePriceImpactBps } from '../../utils/price';
+import { solveAmountInForImpactAlongPath } from '../../utils/swapPath';
+import { getTokenDecimals } from '../../utils/token';
+
+const contracts = vi.hoisted(() => new Map<string, any>());
+
+vi.mock('ethers', async (importOriginal) => {
+	const actual = await importOriginal<typeof import('ethers')>();
+	return {
+		...actual,
+		ethers: {
+			...actual.ethers,
+			Contract: vi.fn((address: string) => contracts.get(address)),
+		},
+	};
+});
+
+vi.mock('../../utils/token', () => ({ getTokenDecimals: vi.fn() }));
+
+const { BigNumber } = ethers;
+
+const REGISTRY = '0x90E00ACe148ca3b23Ac1bC8C240C2a7Dd9c2d7f5';
+const THREE_POOL = '0xbEbc44782C7dB0a1A60Cb6fe97d0b483032FF1C7';
+const META_POOL = '0x4f062658EaAF2C1ccf8C8e36D6824CDf41167956';
+const DAI = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const USDT = '0xdAC17F958D2ee523a2206206994597C13D831ec7';
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+
+const units = (amount: number, decimals: number) =>
+	ethers.utils.parseUnits(amount.toString(), decimals);
+
+const padCoins = (coins: string[]) => [
+	...coins,
+	...Array(8 - coins.length).fill(ethers.constants.AddressZero),
+];
+
+describe('CurveAdapter', () => {
+	const adapter = new CurveAdapter({
+		type: 'curve',
+		name: 'Curve',
+		registryAddress: REGISTRY,
+	});
+	const provider = {} as ethers.providers.JsonRpcProvider;
+	const pool = {
+		dex: 'Curve',
+		address: THREE_POOL,
+		tokens: [DAI, USDC, USDT],
+		feeBps: 0,
+	};
+	const balances = [
+		units(50_000_000, 18),
+		units(50_000_000, 6),
+		units(50_000_000, 6),
+	];
+
+	beforeEach(() => {
+		contracts.clear();
+		contracts.set(THREE_POOL, {
+			A: vi.fn().mockResolvedValue(BigNumber.from(2000)),
+			fee: vi.fn().mockResolvedValue(BigNumber.from(1_000_000)),
+			balances: vi.fn((i: number) => Promise.resolve(balances[i])),
+		});
+		vi.mocked(getTokenDecimals).mockImplementation((token) =>
+			Promise.resolve(token === DAI ? 18 : 6)
+		);
+	});
+
+	it('should discover plain registry pools and skip underlying matches', async () => {
+		contracts.set(REGISTRY, {
+			find_pool_for_coins: vi.fn((_from, _to, i: number) =>
+				Promise.resolve(
+					[THREE_POOL, META_POOL][i] ?? ethers.constants.AddressZero
+				)
+			),
+			get_coin_indices: vi.fn((address: string) =>
+				Promise.resolve([
+					BigNumber.from(1),
+					BigNumber.from(2),
+					address === META_POOL,
+				])
+			),
+			get_coins: vi.fn(() => Promise.resolve(padCoins([DAI, USDC, USDT]))),
+		});
+
+		const pools = await adapter.findPools(USDC, USDT, provider);
+
+		expect(pools).toEqual([pool]);
+	});
+
+	it('should read A, fee and balances and report the fee in bps', async () => {
+		const state = await adapter.getState(pool, provider);
+
+		expect(state.amp.toNumber()).toBe(2000);
+		expect(state.fee.toNumber()).toBe(1_000_000);
+		expect(state.decimals).toEqual([18, 6, 6]);
+		expect(state.pool.feeBps).toBe(1);
+		expect(adapter.getReserve(state, USDT).toString()).toBe(
+			balances[2].toString()
+		);
+	});
+
+	it('should reject pools with an empty balance', async () => {
+		contracts
+			.get(THREE_POOL)
+			.balances.mockImplementation((i: number) =>
+				Promise.resolve(i === 2 ? BigNumber.from(0) : balances[i])
+			);
+
+		await expect(adapter.getState(pool, provider)).rejects.toThrow(
+			'has zero reserves'
+		);
+	});
+
+	it('should quote between any two coins of the pool', async () => {
+		const state = await adapter.getState(pool, provider);
+		const amountIn = units(1_000_000, 6);
+
+		const out = adapter.quoteExactIn(state, USDC, amountIn, DAI);
+		expect(out.gt(units(999_000, 18)) && out.lt(units(1_000_000, 18))).toBe(
+			true
+		);
+		expect(
+			adapter.quoteExactOut(state, USDT, out, DAI).sub(amountIn).abs().lte(2)
+		).toBe(true);
+		expect(() => adapter.quoteExactIn(state, USDC, amountIn, WETH)).toThrow(
+			'is not in Curve pool'
+		);
+	});
+
+	it('should solve depth for a target impact by bisection', async () => {
+		const state = await adapter.getState(pool, provider);
+		const steps = [{ adapter, state, tokenIn: USDC, tokenOut: USDT }];
+
+		const amountIn = solveAmountInForImpactAlongPath(steps, 0.005);
+		const amountOut = adapter.quoteExactIn(state, USDC, amountIn, USDT);
+		const impactBps = calculatePriceImpactBps(
+			amountIn,
+			amountOut,
+			adapter.getSpotPrice(state, USDC, USDT)
+		);
+
+		expect(amountIn.gt(units(10_000_000, 6))).toBe(true);
+		expect(Math.abs(impactBps - 50)).toBeLessThanOrEqual(1);
+	});
+});
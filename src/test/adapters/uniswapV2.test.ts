@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { UniswapV2Adapter, UniswapV2PoolState } from '../../adapters/uniswapV2';
+import { UniswapV3Adapter } from '../../adapters/uniswapV3';
+import { CurveAdapter } from '../../adapters/curve';
+import { getDexAdapters } from '../../adapters';
+import { getTokenDecimals } from '../../utils/token';
+
+const contracts = vi.hoisted(() => new Map<string, any>());
+
+vi.mock('ethers', async (importOriginal) => {
+	const actual = await importOriginal<typeof import('ethers')>();
+	return {
+		...actual,
+		ethers: {
+			...actual.ethers,
+			Contract: vi.fn((address: string) => contracts.get(address)),
+		},
+	};
+});
+
+vi.mock('../../utils/token', () => ({ getTokenDecimals: vi.fn() }));
+
+const { BigNumber } = ethers;
+
+const FACTORY = '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f';
+const PAIR = '0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc';
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+
+describe('UniswapV2Adapter', () => {
+	const adapter = new UniswapV2Adapter({
+		type: 'uniswap-v2',
+		name: 'Uniswap V2',
+		factoryAddress: FACTORY,
+		routerAddress: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+		feeBps: 30,
+	});
+	const provider = {} as ethers.providers.JsonRpcProvider;
+
+	const state: UniswapV2PoolState = {
+		pool: {
+			dex: 'Uniswap V2',
+			address: PAIR,
+			tokens: [USDC, WETH],
+			feeBps: 30,
+		},
+		reserves: [
+			BigNumber.from('1000000000000'),
+			BigNumber.from('500000000000000000000'),
+		],
+	};
+
+	beforeEach(() => {
+		contracts.clear();
+		vi.mocked(getTokenDecimals).mockImplementation((token) =>
+			Promise.resolve(token === USDC ? 6 : 18)
+		);
+	});
+
+	describe('findPools', () => {
+		it('should return the pair with tokens in V2 sort order', async () => {
+			contracts.set(FACTORY, { getPair: vi.fn().mockResolvedValue(PAIR) });
+
+			expect(await adapter.findPools(WETH, USDC, provider)).toEqual([
+				{
+					dex: 'Uniswap V2',
+					address: PAIR,
+					tokens: [USDC, WETH],
+					feeBps: 30,
+				},
+			]);
+		});
+
+		it('should use the fee configured for the DEX', async () => {
+			const pancakeSwap = new UniswapV2Adapter({
+				type: 'uniswap-v2',
+				name: 'PancakeSwap V2',
+				factoryAddress: FACTORY,
+				routerAddress: '0x10ED43C718714eb63d5aA57B78B54704E256024E',
+				feeBps: 25,
+			});
+			contracts.set(FACTORY, { getPair: vi.fn().mockResolvedValue(PAIR) });
+
+			const [pool] = await pancakeSwap.findPools(WETH, USDC, provider);
+
+			expect(pool.feeBps).toBe(25);
+		});
+
+		it('should return no pools when the pair does not exist', async () => {
+			contracts.set(FACTORY, {
+				getPair: vi.fn().mockResolvedValue(ethers.constants.AddressZero),
+			});
+
+			expect(await adapter.findPools(USDC, WETH, provider)).toEqual([]);
+		});
+	});
+
+	describe('getState', () => {
+		it('should read the pair reserves', async () => {
+			contracts.set(PAIR, {
+				getReserves: vi.fn().mockResolvedValue(state.reserves),
+			});
+
+			expect(await adapter.getState(state.pool, provider)).toEqual(state);
+		});
+
+		it('should reject pools with zero reserves', async () => {
+			contracts.set(PAIR, {
+				getReserves: vi
+					.fn()
+					.mockResolvedValue([BigNumber.from(0), state.reserves[1]]),
+			});
+
+			await expect(adapter.getState(state.pool, provider)).rejects.toThrow(
+				`Liquidity pool for pair ${USDC}/${WETH} has zero reserves`
+			);
+		});
+
+		it('should reject pools too shallow for reliable pricing', async () => {
+			contracts.set(PAIR, {
+				getReserves: vi
+					.fn()
+					.mockResolvedValue([BigNumber.from(100), state.reserves[1]]),
+			});
+
+			await expect(adapter.getState(state.pool, provider)).rejects.toThrow(
+				'Insufficient liquidity for reliable pricing'
+			);
+		});
+	});
+
+	describe('observeCumulativePrices', () => {
+		it('should read at the block and accrue the time since the last swap', async () => {
+			const overrides = { blockTag: 19000000 };
+			const pair = {
+				getReserves: vi.fn().mockResolvedValue([...state.reserves, 1705173431]),
+				price0CumulativeLast: vi.fn().mockResolvedValue(BigNumber.from(0)),
+				price1CumulativeLast: vi.fn().mockResolvedValue(BigNumber.from(0)),
+			};
+			contracts.set(PAIR, pair);
+
+			const observation = await adapter.observeCumulativePrices(
+				state.pool,
+				provider,
+				{ number: 19000000, timestamp: 1705173443 }
+			);
+
+			expect(pair.getReserves).toHaveBeenCalledWith(overrides);
+			expect(pair.price0CumulativeLast).toHaveBeenCalledWith(overrides);
+			expect(observation).toMatchObject({
+				blockNumber: 19000000,
+				timestamp: 1705173443,
+				reserves: state.reserves,
+			});
+			// 12 seconds at 500e18 / 1e12 raw WETH per raw USDC, in UQ112x112
+			expect(
+				observation.priceCumulatives[0].eq(
+					BigNumber.from(2).pow(112).mul(500_000_000).mul(12)
+				)
+			).toBe(true);
+		});
+	});
+
+	describe('quoting', () => {
+		it('should orient reserves by the input token', () => {
+			expect(adapter.toConstantProductHop(state, WETH)).toEqual({
+				reserveIn: state.reserves[1],
+				reserveOut: state.reserves[0],
+				feeBps: 30,
+			});
+			expect(adapter.getReserve(state, WETH).eq(state.reserves[1])).toBe(true);
+		});
+
+		it('should quote exact input and output amounts', () => {
+			const amountOut = adapter.quoteExactIn(
+				state,
+				USDC,
+				BigNumber.from('1000000000')
+			);
+			expect(amountOut.toString()).toBe('498003490519951608');
+			expect(adapter.quoteExactOut(state, USDC, amountOut).toString()).toBe(
+				'1000000000'
+			);
+		});
+
+		it('should report the fee-less spot price', () => {
+			expect(adapter.getSpotPrice(state, USDC)).toEqual({
+				numerator: state.reserves[1],
+				denominator: state.reserves[0],
+			});
+		});
+	});
+});
+
+describe('getDexAdapters', () => {
+	it('should create the configured adapters once per chain', () => {
+		const adapters = getDexAdapters(1);
+
+		expect(adapters).toHaveLength(4);
+		expect(adapters[0]).toBeInstanceOf(UniswapV2Adapter);
+		expect(adapters[0].name).toBe('Uniswap V2');
+		expect(adapters[1]).toBeInstanceOf(UniswapV2Adapter);
+		expect(adapters[1].name).toBe('SushiSwap');
+		expect(adapters[2]).toBeInstanceOf(UniswapV3Adapter);
+		expect(adapters[3]).toBeInstanceOf(CurveAdapter);
+		expect(getDexAdapters(1)).toBe(adapters);
+	});
+
+	it('should throw for unsupported chains', () => {
+		expect(() => getDexAdapters(999)).toThrow('Unsupported chain ID: 999');
+	});
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { UniswapV3Adapter } from '../../adapters/uniswapV3';
+import { Q96 } from '../../utils/concentratedLiquidity';
+
+const contracts = vi.hoisted(() => new Map<string, any>());
+
+vi.mock('ethers', async (importOriginal) => {
+	const actual = await importOriginal<typeof import('ethers')>();
+	return {
+		...actual,
+		ethers: {
+			...actual.ethers,
+			Contract: vi.fn((address: string) => contracts.get(address)),
+		},
+	};
+});
+
+const { BigNumber } = ethers;
+
+const FACTORY = '0x1F98431c8aD98523631AE4a59f267346ea31F984';
+const TICK_LENS = '0xbfd8137f7d1516D3ea5cA83523914859ec47F573';
+const POOL_500 = '0x88e6A0c2dDD26FEEb64F039a2c41296FcB3f5640';
+const POOL_3000 = '0x8ad599c3A0ff1De082011EFDDc58f1908eb6e6D8';
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const LIQUIDITY = BigNumber.from('1000000000000000000000');
+
+describe('UniswapV3Adapter', () => {
+	const adapter = new UniswapV3Adapter({
+		type: 'uniswap-v3',
+		name: 'Uniswap V3',
+		factoryAddress: FACTORY,
+		tickLensAddress: TICK_LENS,
+		feeTiers: [100, 500, 3000],
+	});
+	const provider = {} as ethers.providers.JsonRpcProvider;
+	const pool = {
+		dex: 'Uniswap V3',
+		address: POOL_500,
+		tokens: [USDC, WETH],
+		feeBps: 5,
+		feeTier: 500,
+	};
+	const getPopulatedTicksInWord = vi.fn();
+
+	beforeEach(() => {
+		contracts.clear();
+		getPopulatedTicksInWord.mockReset();
+		getPopulatedTicksInWord.mockImplementation((_pool, word: number) =>
+			Promise.resolve(
+				word === 0
+					? [{ tick: 600, liquidityNet: LIQUIDITY.mul(-1) }]
+					: word === -1
+					? [{ tick: -600, liquidityNet: LIQUIDITY }]
+					: []
+			)
+		);
+		contracts.set(TICK_LENS, { getPopulatedTicksInWord });
+		contracts.set(POOL_500, {
+			slot0: vi.fn().mockResolvedValue({ sqrtPriceX96: Q96, tick: 0 }),
+			liquidity: vi.fn().mockResolvedValue(LIQUIDITY),
+			tickSpacing: vi.fn().mockResolvedValue(10),
+		});
+		contracts.set(USDC, {
+			balanceOf: vi.fn().mockResolvedValue(BigNumber.from(5000)),
+		});
+		contracts.set(WETH, {
+			balanceOf: vi.fn().mockResolvedValue(BigNumber.from(7000)),
+		});
+	});
+
+	it('should discover one pool per existing fee tier', async () => {
+		contracts.set(FACTORY, {
+			getPool: vi.fn((_a, _b, fee: number) =>
+				Promise.resolve(
+					fee === 500
+						? POOL_500
+						: fee === 3000
+						? POOL_3000
+						: ethers.constants.AddressZero
+				)
+			),
+		});
+
+		const pools = await adapter.findPools(WETH, USDC, provider);
+
+		expect(pools).toEqual([
+			pool,
+			{ ...pool, address: POOL_3000, feeBps: 30, feeTier: 3000 },
+		]);
+	});
+
+	it('should read slot0, liquidity and the ticks around the price', async () => {
+		const state = await adapter.getState(pool, provider);
+
+		expect(state).toMatchObject({
+			sqrtPriceX96: Q96,
+			tick: 0,
+			liquidity: LIQUIDITY,
+			tickSpacing: 10,
+			feePips: 500,
+			minWord: -2,
+			maxWord: 2,
+			ticks: [
+				{ tick: -600, liquidityNet: LIQUIDITY },
+				{ tick: 600, liquidityNet: LIQUIDITY.mul(-1) },
+			],
+		});
+		expect(getPopulatedTicksInWord).toHaveBeenCalledTimes(5);
+		expect(adapter.getReserve(state, WETH).toNumber()).toBe(7000);
+	});
+
+	it('should reject pools without liquidity at the current price', async () => {
+		contracts.get(POOL_500).liquidity.mockResolvedValue(BigNumber.from(0));
+
+		await expect(adapter.getState(pool, provider)).rejects.toThrow(
+			`Insufficient liquidity in pool ${POOL_500}`
+		);
+	});
+
+	it('should quote in both directions from the loaded state', async () => {
+		const state = await adapter.getState(pool, provider);
+		const amountIn = BigNumber.from('1000000000000000000');
+
+		const out = adapter.quoteExactIn(state, USDC, amountIn);
+		expect(out.gt(0) && out.lt(amountIn)).toBe(true);
+		expect(adapter.quoteExactOut(state, USDC, out).lte(amountIn)).toBe(true);
+		expect(adapter.getSpotPrice(state, WETH)).toEqual({
+			numerator: Q96.mul(Q96),
+			denominator: Q96.mul(Q96),
+		});
+	});
+});
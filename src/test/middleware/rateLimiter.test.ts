@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { agent } from 'supertest';
+import express from 'express';
+import { limiter } from '../../middleware/rateLimiter';
+import { ERROR_TYPES, RATE_LIMIT_CONFIG } from '../../constants';
+
+describe('rate limiter', () => {
+	it('should share one budget across routers', async () => {
+		const app = express();
+		const first = express.Router();
+		const second = express.Router();
+		first.get('/first', limiter, (req, res) => res.json({}));
+		second.get('/second', limiter, (req, res) => res.json({}));
+		app.use(first);
+		app.use(second);
+
+		const client = agent(app);
+		for (let i = 0; i < RATE_LIMIT_CONFIG.MAX_REQUESTS / 2; i++) {
+			await client.get('/first');
+			await client.get('/second');
+		}
+
+		const response = await client.get('/first');
+
+		expect(response.status).toBe(429);
+		expect(response.body).toEqual({
+			error: ERROR_TYPES.TOO_MANY_REQUESTS,
+			message: 'Please try again later',
+		});
+		expect((await client.get('/second')).status).toBe(429);
+	});
+});
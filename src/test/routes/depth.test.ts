@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { agent } from 'supertest';
+import express from 'express';
+import router from '../../routes/depth';
+import { ERROR_TYPES } from '../../constants';
+import { LiquidityService } from '../../services/liquidityService';
+
+vi.mock('../../services/liquidityService', () => ({
+	LiquidityService: vi.fn().mockImplementation(() => ({
+		getDepthCurve: vi.fn(),
+	})),
+}));
+
+vi.mock('../../config/chains', () => ({
+	CHAIN_CONFIGS: {
+		1: {
+			rpcUrls: ['https://ethereum.publicnode.com'],
+			name: 'Ethereum',
+			baseTokens: [],
+			dexes: [],
+		},
+	},
+}));
+
+const liquidityService = vi.mocked(LiquidityService).mock.results[0].value;
+
+describe('Depth Routes', () => {
+	let app: express.Application;
+
+	const validRequest = {
+		sellToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+		buyToken: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+		chainId: '1',
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		app = express();
+		app.use(express.json());
+		app.use(router);
+	});
+
+	describe('GET /depth', () => {
+		it('should return 400 for missing pair parameters', async () => {
+			const response = await agent(app)
+				.get('/depth')
+				.query({ ...validRequest, sellToken: undefined })
+				.expect(400);
+			expect(response.body.error).toBe(ERROR_TYPES.MISSING_PARAMETERS);
+		});
+
+		it('should return 400 for an invalid point count', async () => {
+			const response = await agent(app)
+				.get('/depth')
+				.query({ ...validRequest, points: '1000' })
+				.expect(400);
+			expect(response.body).toEqual({
+				error: ERROR_TYPES.INVALID_DEPTH_CURVE,
+				message: 'Invalid points: points must be an integer between 2 and 500',
+			});
+			expect(liquidityService.getDepthCurve).not.toHaveBeenCalled();
+		});
+
+		it('should return 400 for an invalid spacing', async () => {
+			const response = await agent(app)
+				.get('/depth')
+				.query({ ...validRequest, spacing: 'cubic' })
+				.expect(400);
+			expect(response.body.error).toBe(ERROR_TYPES.INVALID_DEPTH_CURVE);
+		});
+
+		it('should pass the parsed request to the service', async () => {
+			const curve = { points: [] };
+			liquidityService.getDepthCurve.mockResolvedValue(curve);
+
+			const response = await agent(app)
+				.get('/depth')
+				.query({
+					...validRequest,
+					maxImpact: '200bps',
+					points: '100',
+					spacing: 'log',
+				})
+				.expect(200);
+
+			expect(response.body).toEqual(curve);
+			expect(liquidityService.getDepthCurve).toHaveBeenCalledWith({
+				sellToken: validRequest.sellToken,
+				buyToken: validRequest.buyToken,
+				chainId: 1,
+				maxImpact: 0.02,
+				points: 100,
+				spacing: 'log',
+				blockTag: 'latest',
+			});
+		});
+
+		it('should serve repeated requests from the cache', async () => {
+			liquidityService.getDepthCurve.mockResolvedValue({ points: [] });
+			const query = { ...validRequest, maxImpact: '3', points: '10' };
+
+			await agent(app).get('/depth').query(query).expect(200);
+			await agent(app).get('/depth').query(query).expect(200);
+
+			expect(liquidityService.getDepthCurve).toHaveBeenCalledTimes(1);
+		});
+
+		it('should map service errors to error responses', async () => {
+			liquidityService.getDepthCurve.mockRejectedValue(
+				new Error('No liquidity pool found for pair')
+			);
+
+			const response = await agent(app)
+				.get('/depth')
+				.query({ ...validRequest, points: '20' })
+				.expect(400);
+			expect(response.body).toEqual({
+				error: ERROR_TYPES.INVALID_REQUEST,
+				message: 'No liquidity pool found for pair',
+			});
+		});
+	});
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { agent } from 'supertest';
+import express from 'express';
+import router from '../../routes/history';
+import { ERROR_TYPES } from '../../constants';
+import { SnapshotStore } from '../../utils/snapshotStore';
+
+vi.mock('../../utils/snapshotStore', () => ({
+	SnapshotStore: vi.fn().mockImplementation(() => ({
+		query: vi.fn(),
+	})),
+}));
+
+vi.mock('../../config/chains', () => ({
+	CHAIN_CONFIGS: {
+		1: {
+			rpcUrls: ['https://ethereum.publicnode.com'],
+			name: 'Ethereum',
+			baseTokens: [],
+			dexes: [],
+		},
+	},
+}));
+
+const store = vi.mocked(SnapshotStore).mock.results[0].value;
+
+describe('History Routes', () => {
+	let app: express.Application;
+
+	const validRequest = {
+		sellToken: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+		buyToken: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+		chainId: '1',
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		app = express();
+		app.use(express.json());
+		app.use(router);
+	});
+
+	describe('GET /history', () => {
+		it('should query the normalized pair over the requested range', async () => {
+			store.query.mockResolvedValue([]);
+
+			const response = await agent(app)
+				.get('/history')
+				.query({
+					...validRequest,
+					from: '2024-01-01T00:00:00Z',
+					to: '1704153600',
+				})
+				.expect(200);
+
+			const pair = {
+				chainId: 1,
+				sellToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+				buyToken: validRequest.buyToken,
+			};
+			expect(store.query).toHaveBeenCalledWith(pair, 1704067200, 1704153600);
+			expect(response.body).toEqual({
+				...pair,
+				from: 1704067200,
+				to: 1704153600,
+				interval: null,
+				snapshots: [],
+			});
+		});
+
+		it('should downsample to the requested interval', async () => {
+			store.query.mockResolvedValue(
+				[0, 300, 3600, 3900].map((timestamp) => ({ timestamp }))
+			);
+
+			const response = await agent(app)
+				.get('/history')
+				.query({ ...validRequest, from: '0', to: '7199', interval: '1h' })
+				.expect(200);
+
+			expect(response.body.interval).toBe(3600);
+			expect(response.body.snapshots).toEqual([
+				{ timestamp: 300 },
+				{ timestamp: 3900 },
+			]);
+		});
+
+		it('should default to the last 24 hours', async () => {
+			store.query.mockResolvedValue([]);
+
+			const response = await agent(app)
+				.get('/history')
+				.query(validRequest)
+				.expect(200);
+
+			expect(response.body.to - response.body.from).toBe(86400);
+		});
+
+		it('should return 400 when from is after to', async () => {
+			const response = await agent(app)
+				.get('/history')
+				.query({ ...validRequest, from: '2000', to: '1000' })
+				.expect(400);
+
+			expect(response.body).toEqual({
+				error: ERROR_TYPES.INVALID_HISTORY,
+				message: 'Invalid range: from must not be after to',
+			});
+			expect(store.query).not.toHaveBeenCalled();
+		});
+
+		it('should return 400 for an invalid interval', async () => {
+			const response = await agent(app)
+				.get('/history')
+				.query({ ...validRequest, interval: 'hourly' })
+				.expect(400);
+
+			expect(response.body.error).toBe(ERROR_TYPES.INVALID_HISTORY);
+		});
+	});
+});
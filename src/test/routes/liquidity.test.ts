@@ -2,47 +2,58 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { agent } from 'supertest';
 import express from 'express';
 import router from '../../routes/liquidity';
-import { ethers } from 'ethers';
 import { ERROR_TYPES } from '../../constants';
+import { LiquidityService } from '../../services/liquidityService';
+import { tokenRegistry } from '../../utils/tokenRegistry';
+import { HealthService } from '../../services/healthService';
 
 vi.mock('../../services/liquidityService', () => ({
 	LiquidityService: vi.fn().mockImplementation(() => ({
 		getLiquidityQuotes: vi.fn(),
+		getLiquidityQuotesBatch: vi.fn(),
 	})),
 }));
 
 vi.mock('../../config/chains', () => ({
 	CHAIN_CONFIGS: {
 		1: {
-			rpcUrl: 'https://ethereum.publicnode.com',
+			rpcUrls: ['https://ethereum.publicnode.com'],
 			factoryAddress: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
 			routerAddress: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+			feeBps: 30,
 			name: 'Ethereum',
 		},
 		137: {
-			rpcUrl: 'https://polygon.publicnode.com',
+			rpcUrls: ['https://polygon.publicnode.com'],
 			factoryAddress: '0x5757371414417b8C6CAad45bAeF941aBc7d3Ab32',
 			routerAddress: '0xa5E0829CaCEd8fFDD4De3c43696c57F7D7A678ff',
+			feeBps: 30,
 			name: 'Polygon',
 		},
 	},
 }));
 
-vi.mock('ethers', () => ({
-	ethers: {
-		providers: {
-			JsonRpcProvider: vi.fn().mockImplementation(() => ({
-				getBlockNumber: vi.fn(),
-			})),
-		},
-	},
+vi.mock('../../utils/tokenRegistry', () => ({
+	tokenRegistry: { resolve: vi.fn() },
+}));
+
+vi.mock('../../services/healthService', () => ({
+	HealthService: vi.fn().mockImplementation(() => ({
+		checkChains: vi.fn(),
+	})),
 }));
 
+const liquidityService = vi.mocked(LiquidityService).mock.results[0].value;
+const healthService = vi.mocked(HealthService).mock.results[0].value;
+
 describe('Liquidity Routes', () => {
 	let app: express.Application;
 
 	beforeEach(() => {
 		vi.clearAllMocks();
+		vi.mocked(tokenRegistry.resolve).mockImplementation(
+			async (chainId, token) => token
+		);
 		app = express();
 		app.use(express.json());
 		app.use(router);
@@ -238,6 +249,167 @@ describe('Liquidity Routes', () => {
 			});
 		});
 
+		it('should return 400 for invalid levels', async () => {
+			const response = await agent(app)
+				.get('/liquidity')
+				.query({ ...validRequest, levels: '1,abc' })
+				.expect(400);
+			expect(response.body).toEqual({
+				error: ERROR_TYPES.INVALID_LEVELS,
+				message:
+					'Invalid levels: "abc" is not a percentage (e.g. 0.5 or 0.5%) or bps value (e.g. 50bps)',
+			});
+			expect(liquidityService.getLiquidityQuotes).not.toHaveBeenCalled();
+		});
+
+		it('should return 400 for too many levels', async () => {
+			const response = await agent(app)
+				.get('/liquidity')
+				.query({ ...validRequest, levels: '1,2,3,4,5,6,7,8,9,10,11' })
+				.expect(400);
+			expect(response.body.error).toBe(ERROR_TYPES.INVALID_LEVELS);
+		});
+
+		it('should pass parsed levels to the service', async () => {
+			liquidityService.getLiquidityQuotes.mockResolvedValue({
+				sellToken: validRequest.sellToken,
+				buyToken: validRequest.buyToken,
+				chainId: 1,
+				quotes: {},
+			});
+			await agent(app)
+				.get('/liquidity')
+				.query({ ...validRequest, levels: '0.5,25,10bps' })
+				.expect(200);
+			expect(liquidityService.getLiquidityQuotes).toHaveBeenCalledWith({
+				sellToken: validRequest.sellToken,
+				buyToken: validRequest.buyToken,
+				chainId: 1,
+				levels: [0.001, 0.005, 0.25],
+				mode: 'quotes',
+				blockTag: 'latest',
+			});
+		});
+
+		it('should pass the order book mode to the service', async () => {
+			liquidityService.getLiquidityQuotes.mockResolvedValue({
+				sellToken: validRequest.sellToken,
+				buyToken: validRequest.buyToken,
+				chainId: 1,
+				quotes: {},
+			});
+			await agent(app)
+				.get('/liquidity')
+				.query({ ...validRequest, levels: '2', mode: 'orderbook' })
+				.expect(200);
+			expect(liquidityService.getLiquidityQuotes).toHaveBeenCalledWith(
+				expect.objectContaining({ mode: 'orderbook' })
+			);
+		});
+
+		it('should pass USD notionals to the service', async () => {
+			liquidityService.getLiquidityQuotes.mockResolvedValue({
+				sellToken: validRequest.sellToken,
+				buyToken: validRequest.buyToken,
+				chainId: 1,
+				quotes: {},
+			});
+			await agent(app)
+				.get('/liquidity')
+				.query({ ...validRequest, usdLevels: '$1m,10k' })
+				.expect(200);
+			expect(liquidityService.getLiquidityQuotes).toHaveBeenCalledWith(
+				expect.objectContaining({ usdLevels: [10000, 1000000] })
+			);
+		});
+
+		it('should return 400 for invalid USD levels', async () => {
+			const response = await agent(app)
+				.get('/liquidity')
+				.query({ ...validRequest, usdLevels: '-5' })
+				.expect(400);
+			expect(response.body.error).toBe(ERROR_TYPES.INVALID_LEVELS);
+			expect(response.body.message).toMatch(/^Invalid usdLevels/);
+		});
+
+		it('should resolve token symbols to addresses', async () => {
+			vi.mocked(tokenRegistry.resolve).mockImplementation(
+				async (chainId, token) =>
+					token === 'usdc' ? validRequest.sellToken : token
+			);
+			liquidityService.getLiquidityQuotes.mockResolvedValue({ quotes: {} });
+
+			await agent(app)
+				.get('/liquidity')
+				.query({ ...validRequest, sellToken: 'usdc' })
+				.expect(200);
+
+			expect(tokenRegistry.resolve).toHaveBeenCalledWith(1, 'usdc');
+			expect(liquidityService.getLiquidityQuotes).toHaveBeenCalledWith(
+				expect.objectContaining({
+					sellToken: validRequest.sellToken,
+					buyToken: validRequest.buyToken,
+				})
+			);
+		});
+
+		it('should return 400 listing the candidates of an ambiguous symbol', async () => {
+			const message =
+				'Ambiguous token symbol: "USDC" matches USDC (USD Coin) at 0xaf88d065e77c8cC2239327C5EDb3A432268e5831, USDC (Bridged USDC) at 0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8 on chain 1; pass the address instead';
+			vi.mocked(tokenRegistry.resolve).mockRejectedValue(new Error(message));
+
+			const response = await agent(app)
+				.get('/liquidity')
+				.query({ ...validRequest, sellToken: 'USDC' })
+				.expect(400);
+
+			expect(response.body).toEqual({
+				error: ERROR_TYPES.INVALID_REQUEST,
+				message,
+			});
+			expect(liquidityService.getLiquidityQuotes).not.toHaveBeenCalled();
+		});
+
+		it('should return 400 for an unknown mode', async () => {
+			const response = await agent(app)
+				.get('/liquidity')
+				.query({ ...validRequest, mode: 'depth' })
+				.expect(400);
+			expect(response.body).toEqual({
+				error: ERROR_TYPES.INVALID_MODE,
+				message: 'Invalid mode: mode must be "quotes" or "orderbook"',
+			});
+		});
+
+		it('should pass a historical block number to the service', async () => {
+			liquidityService.getLiquidityQuotes.mockResolvedValue({
+				sellToken: validRequest.sellToken,
+				buyToken: validRequest.buyToken,
+				chainId: 1,
+				blockNumber: 18000000,
+				quotes: {},
+			});
+			await agent(app)
+				.get('/liquidity')
+				.query({ ...validRequest, levels: '3', blockTag: '18000000' })
+				.expect(200);
+			expect(liquidityService.getLiquidityQuotes).toHaveBeenCalledWith(
+				expect.objectContaining({ blockTag: 18000000 })
+			);
+		});
+
+		it('should return 400 for an invalid blockTag', async () => {
+			const response = await agent(app)
+				.get('/liquidity')
+				.query({ ...validRequest, blockTag: 'pending' })
+				.expect(400);
+			expect(response.body).toEqual({
+				error: ERROR_TYPES.INVALID_BLOCK_TAG,
+				message:
+					'Invalid blockTag: blockTag must be a block number, "latest", "safe" or "finalized"',
+			});
+		});
+
 		it('should handle zero chainId', async () => {
 			const response = await agent(app)
 				.get('/liquidity')
@@ -258,46 +430,225 @@ describe('Liquidity Routes', () => {
 		});
 	});
 
-	describe('GET /health', () => {
-		beforeEach(() => {
-			process.env.ETHEREUM_RPC_URL = 'https://ethereum.publicnode.com';
+	describe('POST /liquidity/batch', () => {
+		const item = {
+			sellToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+			buyToken: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+			chainId: 1,
+		};
+
+		it('should quote the valid items and report errors per item', async () => {
+			liquidityService.getLiquidityQuotesBatch.mockResolvedValue([
+				{ status: 'fulfilled', value: { quotes: {} } },
+				{
+					status: 'rejected',
+					reason: new Error(
+						'No liquidity pool found for pair 0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48/0xdAC17F958D2ee523a2206206994597C13D831ec7 on chain Ethereum'
+					),
+				},
+			]);
+
+			const response = await agent(app)
+				.post('/liquidity/batch')
+				.send([
+					{ ...item, levels: [0.5, '1%'] },
+					{ ...item, chainId: '0' },
+					{
+						...item,
+						buyToken: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+					},
+				])
+				.expect(200);
+
+			expect(liquidityService.getLiquidityQuotesBatch).toHaveBeenCalledWith([
+				{ ...item, levels: [0.005, 0.01], mode: 'quotes', blockTag: 'latest' },
+				{
+					...item,
+					buyToken: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+					levels: [0.01, 0.05, 0.1],
+					mode: 'quotes',
+					blockTag: 'latest',
+				},
+			]);
+			expect(response.body.succeeded).toBe(1);
+			expect(response.body.failed).toBe(2);
+			expect(response.body.results).toEqual([
+				{ success: true, status: 200, result: { quotes: {} } },
+				{
+					success: false,
+					status: 400,
+					error: expect.objectContaining({
+						error: ERROR_TYPES.UNSUPPORTED_CHAIN,
+						message: 'Chain ID 0 is not supported',
+					}),
+				},
+				{
+					success: false,
+					status: 400,
+					error: {
+						error: ERROR_TYPES.INVALID_REQUEST,
+						message: expect.stringContaining('No liquidity pool found'),
+					},
+				},
+			]);
 		});
-		afterEach(() => {
-			delete process.env.ETHEREUM_RPC_URL;
+
+		it('should report invalid levels and unknown symbols per item', async () => {
+			vi.mocked(tokenRegistry.resolve).mockImplementation(
+				async (chainId, token) => {
+					if (token === 'NOPE') {
+						throw new Error(
+							'Unknown token symbol: "NOPE" is not an address or a listed token on chain 1'
+						);
+					}
+					return token;
+				}
+			);
+			liquidityService.getLiquidityQuotesBatch.mockResolvedValue([]);
+
+			const response = await agent(app)
+				.post('/liquidity/batch')
+				.send([
+					{ ...item, levels: ['200%'] },
+					{ ...item, sellToken: 'NOPE' },
+					'WETH',
+				])
+				.expect(200);
+
+			expect(liquidityService.getLiquidityQuotesBatch).toHaveBeenCalledWith([]);
+			expect(
+				response.body.results.map(({ error }: any) => error.error)
+			).toEqual([
+				ERROR_TYPES.INVALID_LEVELS,
+				ERROR_TYPES.INVALID_REQUEST,
+				ERROR_TYPES.INVALID_BATCH,
+			]);
+		});
+
+		it('should return 503 status for items that failed on the network', async () => {
+			liquidityService.getLiquidityQuotesBatch.mockResolvedValue([
+				{
+					status: 'rejected',
+					reason: new Error(
+						'RPC call failed: Cannot connect to Ethereum network'
+					),
+				},
+			]);
+
+			const response = await agent(app)
+				.post('/liquidity/batch')
+				.send([item])
+				.expect(200);
+
+			expect(response.body.results[0]).toEqual({
+				success: false,
+				status: 503,
+				error: {
+					error: ERROR_TYPES.SERVICE_UNAVAILABLE,
+					message: 'RPC call failed: Cannot connect to Ethereum network',
+				},
+			});
+		});
+
+		it('should return 400 when the body is not a non-empty array', async () => {
+			for (const body of [{ items: [item] }, []]) {
+				const response = await agent(app)
+					.post('/liquidity/batch')
+					.send(body)
+					.expect(400);
+				expect(response.body.error).toBe(ERROR_TYPES.INVALID_BATCH);
+			}
+			expect(liquidityService.getLiquidityQuotesBatch).not.toHaveBeenCalled();
+		});
+
+		it('should return 400 for batches over the item limit', async () => {
+			const response = await agent(app)
+				.post('/liquidity/batch')
+				.send(Array.from({ length: 501 }, () => item))
+				.expect(400);
+
+			expect(response.body.message).toBe(
+				'Invalid batch: body must be an array of 1 to 500 items'
+			);
+		});
+	});
+
+	describe('GET /health', () => {
+		const chainHealth = (chainId: number, status: string) => ({
+			chainId,
+			name: chainId === 1 ? 'Ethereum' : 'Polygon',
+			status,
+			latestBlock: 19000000,
+			blockAgeSeconds: 4,
+			endpoints: [],
 		});
 
 		it('should return health endpoint structure', async () => {
-			const response = await agent(app).get('/health');
+			const chains = [chainHealth(1, 'healthy'), chainHealth(137, 'healthy')];
+			healthService.checkChains.mockResolvedValue(chains);
+			const response = await agent(app).get('/health').expect(200);
 			expect(response.body).toHaveProperty('status');
 			expect(response.body).toHaveProperty('timestamp');
 			expect(response.body).toHaveProperty('service');
 			expect(response.body).toHaveProperty('rpcConnectivity');
 			expect(response.body).toHaveProperty('cacheSize');
 			expect(response.body.service).toBe('liquidity-service');
+			expect(response.body.status).toBe('ok');
+			expect(response.body.chains).toEqual(chains);
 		});
 
-		it('should use default RPC URL when environment variable is not set', async () => {
-			delete process.env.ETHEREUM_RPC_URL;
-			await agent(app).get('/health');
-			expect(ethers.providers.JsonRpcProvider).toHaveBeenCalledWith(
-				'https://ethereum.publicnode.com'
-			);
+		it('should report degraded while every chain can still be served', async () => {
+			healthService.checkChains.mockResolvedValue([
+				chainHealth(1, 'healthy'),
+				chainHealth(137, 'degraded'),
+			]);
+			const response = await agent(app).get('/health').expect(200);
+			expect(response.body).toMatchObject({
+				status: 'degraded',
+				rpcConnectivity: 'healthy',
+			});
 		});
 
-		it('should use custom RPC URL from environment variable', async () => {
-			process.env.ETHEREUM_RPC_URL = 'https://custom-rpc.com';
-			await agent(app).get('/health');
-			expect(ethers.providers.JsonRpcProvider).toHaveBeenCalledWith(
-				'https://custom-rpc.com'
-			);
+		it('should return 503 when a chain has no healthy endpoint', async () => {
+			healthService.checkChains.mockResolvedValue([
+				chainHealth(1, 'healthy'),
+				chainHealth(137, 'unhealthy'),
+			]);
+			const response = await agent(app).get('/health').expect(503);
+			expect(response.body).toMatchObject({
+				status: 'unhealthy',
+				rpcConnectivity: 'unhealthy',
+			});
 		});
+	});
 
-		it('should handle empty environment variable', async () => {
-			process.env.ETHEREUM_RPC_URL = '';
-			await agent(app).get('/health');
-			expect(ethers.providers.JsonRpcProvider).toHaveBeenCalledWith(
-				'https://ethereum.publicnode.com'
-			);
+	describe('GET /health/live', () => {
+		it('should succeed without probing the chains', async () => {
+			const response = await agent(app).get('/health/live').expect(200);
+			expect(response.body.status).toBe('ok');
+			expect(healthService.checkChains).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('GET /health/ready', () => {
+		it('should be ready when every chain can be served', async () => {
+			healthService.checkChains.mockResolvedValue([
+				{ chainId: 1, name: 'Ethereum', status: 'degraded', endpoints: [] },
+			]);
+			const response = await agent(app).get('/health/ready').expect(200);
+			expect(response.body.ready).toBe(true);
+			expect(response.body.chains).toEqual([
+				{ chainId: 1, name: 'Ethereum', status: 'degraded' },
+			]);
+		});
+
+		it('should return 503 while a chain is unhealthy', async () => {
+			healthService.checkChains.mockResolvedValue([
+				{ chainId: 1, name: 'Ethereum', status: 'healthy', endpoints: [] },
+				{ chainId: 137, name: 'Polygon', status: 'unhealthy', endpoints: [] },
+			]);
+			const response = await agent(app).get('/health/ready').expect(503);
+			expect(response.body.ready).toBe(false);
 		});
 	});
 });
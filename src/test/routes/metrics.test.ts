@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { agent } from 'supertest';
+import express from 'express';
+import router from '../../routes/metrics';
+import { metricsMiddleware } from '../../middleware/metrics';
+import { limiter } from '../../middleware/rateLimiter';
+import { ERROR_TYPES, RATE_LIMIT_CONFIG } from '../../constants';
+
+vi.mock('../../config/chains', () => ({
+	CHAIN_CONFIGS: {
+		1: {
+			rpcUrls: ['https://ethereum.publicnode.com'],
+			name: 'Ethereum',
+			baseTokens: [],
+			dexes: [],
+		},
+	},
+}));
+
+describe('Metrics Routes', () => {
+	let app: express.Application;
+
+	beforeEach(() => {
+		app = express();
+		app.use(metricsMiddleware);
+		app.get('/limited', limiter, (req, res) => {
+			res.json({});
+		});
+		app.get('/pairs/:id', (req, res) => {
+			res.status(req.params.id === 'missing' ? 404 : 200).json({});
+		});
+		app.use(router);
+	});
+
+	it('should serve metrics in the Prometheus text format', async () => {
+		const response = await agent(app).get('/metrics');
+
+		expect(response.status).toBe(200);
+		expect(response.headers['content-type']).toContain('text/plain');
+		expect(response.text).toContain('# TYPE http_requests_total counter');
+		expect(response.text).toContain(
+			'# TYPE rpc_request_duration_seconds histogram'
+		);
+		expect(response.text).toContain('# TYPE cache_hits_total counter');
+		expect(response.text).toContain(
+			'# TYPE rate_limit_rejections_total counter'
+		);
+		expect(response.text).toContain(
+			'# TYPE slippage_bisection_iterations histogram'
+		);
+	});
+
+	it('should count requests by route pattern, chain and status', async () => {
+		await agent(app).get('/pairs/abc?chainId=1');
+		await agent(app).get('/pairs/missing?chainId=999');
+		await agent(app).get('/pairs/abc?chainId=toString');
+		await agent(app).get('/pairs/abc?chainId=constructor');
+
+		const { text } = await agent(app).get('/metrics');
+
+		expect(text).toContain(
+			'http_requests_total{method="GET",route="/pairs/:id",chain="1",status="200"} 1'
+		);
+		expect(text).toContain(
+			'http_requests_total{method="GET",route="/pairs/:id",chain="none",status="404"} 1'
+		);
+		expect(text).toContain(
+			'http_requests_total{method="GET",route="/pairs/:id",chain="none",status="200"} 2'
+		);
+		expect(text).not.toMatch(/chain="(toString|constructor)"/);
+		expect(text).toMatch(
+			/http_request_duration_seconds_count\{method="GET",route="\/pairs\/:id",chain="1",status="200"\} 1/
+		);
+	});
+
+	it('should not create a series per unknown path', async () => {
+		await agent(app).get('/unknown/path');
+
+		const { text } = await agent(app).get('/metrics');
+
+		expect(text).toContain(
+			'http_requests_total{method="GET",route="unmatched",chain="none",status="404"} 1'
+		);
+		expect(text).not.toContain('/unknown/path');
+	});
+
+	it('should count rate-limited requests', async () => {
+		const client = agent(app);
+		for (let i = 0; i < RATE_LIMIT_CONFIG.MAX_REQUESTS; i++) {
+			await client.get('/limited');
+		}
+
+		const response = await client.get('/limited');
+		const { text } = await client.get('/metrics');
+
+		expect(response.status).toBe(429);
+		expect(response.body.error).toBe(ERROR_TYPES.TOO_MANY_REQUESTS);
+		expect(text).toContain('rate_limit_rejections_total{route="/limited"} 1');
+	});
+});
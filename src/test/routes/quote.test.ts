@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { agent } from 'supertest';
+import express from 'express';
+import router from '../../routes/quote';
+import { ERROR_TYPES } from '../../constants';
+import { LiquidityService } from '../../services/liquidityService';
+
+vi.mock('../../services/liquidityService', () => ({
+	LiquidityService: vi.fn().mockImplementation(() => ({
+		getExactInputQuote: vi.fn(),
+		getExactOutputQuote: vi.fn(),
+	})),
+}));
+
+vi.mock('../../config/chains', () => ({
+	CHAIN_CONFIGS: {
+		1: {
+			rpcUrls: ['https://ethereum.publicnode.com'],
+			factoryAddress: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
+			routerAddress: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+			feeBps: 30,
+			name: 'Ethereum',
+		},
+	},
+}));
+
+const liquidityService = vi.mocked(LiquidityService).mock.results[0].value;
+
+describe('Quote Routes', () => {
+	let app: express.Application;
+
+	const validRequest = {
+		sellToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+		buyToken: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+		chainId: '1',
+		sellAmount: '1000',
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		app = express();
+		app.use(express.json());
+		app.use(router);
+	});
+
+	describe('GET /quote', () => {
+		it('should return 400 when no amount is provided', async () => {
+			const response = await agent(app)
+				.get('/quote')
+				.query({ ...validRequest, sellAmount: undefined })
+				.expect(400);
+			expect(response.body).toEqual({
+				error: ERROR_TYPES.MISSING_PARAMETERS,
+				message:
+					'Exactly one of sellAmount or buyAmount is required and must be a string',
+				example:
+					'/quote?sellToken=0x...&buyToken=0x...&chainId=1&sellAmount=1000',
+			});
+		});
+
+		it('should return 400 when both amounts are provided', async () => {
+			const response = await agent(app)
+				.get('/quote')
+				.query({ ...validRequest, buyAmount: '1' })
+				.expect(400);
+			expect(response.body.error).toBe(ERROR_TYPES.MISSING_PARAMETERS);
+			expect(liquidityService.getExactInputQuote).not.toHaveBeenCalled();
+			expect(liquidityService.getExactOutputQuote).not.toHaveBeenCalled();
+		});
+
+		it('should return 400 for missing pair parameters', async () => {
+			const response = await agent(app)
+				.get('/quote')
+				.query({ ...validRequest, buyToken: undefined })
+				.expect(400);
+			expect(response.body.message).toBe(
+				'sellToken, buyToken, and chainId are required and must be strings'
+			);
+		});
+
+		it('should return 400 for unsupported chainId', async () => {
+			const response = await agent(app)
+				.get('/quote')
+				.query({ ...validRequest, chainId: '56' })
+				.expect(400);
+			expect(response.body.error).toBe(ERROR_TYPES.UNSUPPORTED_CHAIN);
+		});
+
+		it('should return 400 for an invalid unit', async () => {
+			const response = await agent(app)
+				.get('/quote')
+				.query({ ...validRequest, unit: 'gwei' })
+				.expect(400);
+			expect(response.body).toEqual({
+				error: ERROR_TYPES.INVALID_AMOUNT,
+				message: 'Invalid amount: unit must be "token" or "wei"',
+			});
+		});
+
+		it('should return 400 for a fractional wei amount', async () => {
+			const response = await agent(app)
+				.get('/quote')
+				.query({ ...validRequest, sellAmount: '1.5', unit: 'wei' })
+				.expect(400);
+			expect(response.body).toEqual({
+				error: ERROR_TYPES.INVALID_AMOUNT,
+				message: 'Invalid amount: 1.5 is not a valid integer wei amount',
+			});
+		});
+
+		it('should pass the parsed request to the service', async () => {
+			const quote = { buyAmount: '0.42' };
+			liquidityService.getExactInputQuote.mockResolvedValue(quote);
+
+			const response = await agent(app)
+				.get('/quote')
+				.query({ ...validRequest, unit: 'token' })
+				.expect(200);
+
+			expect(response.body).toEqual(quote);
+			expect(liquidityService.getExactInputQuote).toHaveBeenCalledWith({
+				sellToken: validRequest.sellToken,
+				buyToken: validRequest.buyToken,
+				chainId: 1,
+				sellAmount: '1000',
+				unit: 'token',
+				blockTag: 'latest',
+			});
+		});
+
+		it('should route buyAmount requests to the exact-output quote', async () => {
+			const quote = { sellAmount: '1000.0' };
+			liquidityService.getExactOutputQuote.mockResolvedValue(quote);
+
+			const response = await agent(app)
+				.get('/quote')
+				.query({
+					...validRequest,
+					sellAmount: undefined,
+					buyAmount: '500000000000000000',
+					unit: 'wei',
+				})
+				.expect(200);
+
+			expect(response.body).toEqual(quote);
+			expect(liquidityService.getExactOutputQuote).toHaveBeenCalledWith({
+				sellToken: validRequest.sellToken,
+				buyToken: validRequest.buyToken,
+				chainId: 1,
+				buyAmount: '500000000000000000',
+				unit: 'wei',
+				blockTag: 'latest',
+			});
+			expect(liquidityService.getExactInputQuote).not.toHaveBeenCalled();
+		});
+
+		it('should return 400 when the output exceeds the reserve', async () => {
+			liquidityService.getExactOutputQuote.mockRejectedValue(
+				new Error(
+					'Insufficient liquidity: requested 600.0 exceeds the 500.0 available for pair 0x'
+				)
+			);
+			const response = await agent(app)
+				.get('/quote')
+				.query({ ...validRequest, sellAmount: undefined, buyAmount: '600' })
+				.expect(400);
+			expect(response.body.error).toBe(ERROR_TYPES.INVALID_REQUEST);
+		});
+
+		it('should map client errors from the service to 400', async () => {
+			liquidityService.getExactInputQuote.mockRejectedValue(
+				new Error('No liquidity pool found for pair')
+			);
+			const response = await agent(app)
+				.get('/quote')
+				.query(validRequest)
+				.expect(400);
+			expect(response.body.error).toBe(ERROR_TYPES.INVALID_REQUEST);
+		});
+	});
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { agent } from 'supertest';
+import express from 'express';
+import router from '../../routes/tokens';
+import { ERROR_TYPES } from '../../constants';
+import { tokenRegistry } from '../../utils/tokenRegistry';
+
+vi.mock('../../utils/tokenRegistry', () => ({
+	tokenRegistry: { search: vi.fn() },
+}));
+
+vi.mock('../../config/chains', () => ({
+	CHAIN_CONFIGS: {
+		1: {
+			rpcUrls: ['https://ethereum.publicnode.com'],
+			name: 'Ethereum',
+			baseTokens: [],
+			dexes: [],
+		},
+	},
+}));
+
+describe('Token Routes', () => {
+	let app: express.Application;
+
+	const usdc = {
+		chainId: 1,
+		address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+		symbol: 'USDC',
+		name: 'USD Coin',
+		decimals: 6,
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		app = express();
+		app.use(express.json());
+		app.use(router);
+	});
+
+	describe('GET /tokens', () => {
+		it('should search the chain with the query and limit', async () => {
+			vi.mocked(tokenRegistry.search).mockResolvedValue([usdc]);
+
+			const response = await agent(app)
+				.get('/tokens')
+				.query({ chainId: '1', query: 'usd', limit: '5' })
+				.expect(200);
+
+			expect(response.body).toEqual({ chainId: 1, tokens: [usdc] });
+			expect(tokenRegistry.search).toHaveBeenCalledWith(1, 'usd', 5);
+		});
+
+		it('should list the chain with the default limit without a query', async () => {
+			vi.mocked(tokenRegistry.search).mockResolvedValue([]);
+
+			await agent(app).get('/tokens').query({ chainId: '1' }).expect(200);
+
+			expect(tokenRegistry.search).toHaveBeenCalledWith(1, '', 20);
+		});
+
+		it('should return 400 for an unsupported chain', async () => {
+			const response = await agent(app)
+				.get('/tokens')
+				.query({ chainId: '10' })
+				.expect(400);
+
+			expect(response.body.error).toBe(ERROR_TYPES.UNSUPPORTED_CHAIN);
+			expect(tokenRegistry.search).not.toHaveBeenCalled();
+		});
+
+		it('should return 400 for an invalid limit', async () => {
+			const response = await agent(app)
+				.get('/tokens')
+				.query({ chainId: '1', limit: '500' })
+				.expect(400);
+
+			expect(response.body).toEqual({
+				error: ERROR_TYPES.INVALID_TOKEN_SEARCH,
+				message: 'Invalid limit: limit must be an integer between 1 and 100',
+			});
+		});
+	});
+});
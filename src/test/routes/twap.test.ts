@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { agent } from 'supertest';
+import express from 'express';
+import router from '../../routes/twap';
+import { ERROR_TYPES } from '../../constants';
+import { LiquidityService } from '../../services/liquidityService';
+
+vi.mock('../../services/liquidityService', () => ({
+	LiquidityService: vi.fn().mockImplementation(() => ({
+		getTwap: vi.fn(),
+	})),
+}));
+
+vi.mock('../../config/chains', () => ({
+	CHAIN_CONFIGS: {
+		1: {
+			rpcUrls: ['https://ethereum.publicnode.com'],
+			name: 'Ethereum',
+			baseTokens: [],
+			dexes: [],
+		},
+	},
+}));
+
+const liquidityService = vi.mocked(LiquidityService).mock.results[0].value;
+
+describe('TWAP Routes', () => {
+	let app: express.Application;
+
+	const validRequest = {
+		sellToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+		buyToken: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+		chainId: '1',
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		app = express();
+		app.use(express.json());
+		app.use(router);
+	});
+
+	describe('GET /twap', () => {
+		it('should pass the parsed window and block to the service', async () => {
+			const twap = { window: 3600, pools: [] };
+			liquidityService.getTwap.mockResolvedValue(twap);
+
+			const response = await agent(app)
+				.get('/twap')
+				.query({ ...validRequest, window: '1h', blockTag: '18000000' })
+				.expect(200);
+
+			expect(response.body).toEqual(twap);
+			expect(liquidityService.getTwap).toHaveBeenCalledWith({
+				sellToken: validRequest.sellToken,
+				buyToken: validRequest.buyToken,
+				chainId: 1,
+				window: 3600,
+				blockTag: 18000000,
+			});
+		});
+
+		it('should return 400 for a window outside the supported range', async () => {
+			const response = await agent(app)
+				.get('/twap')
+				.query({ ...validRequest, window: '10s' })
+				.expect(400);
+
+			expect(response.body).toEqual({
+				error: ERROR_TYPES.INVALID_TWAP_WINDOW,
+				message: 'Invalid window: window must be between 60 and 604800 seconds',
+			});
+			expect(liquidityService.getTwap).not.toHaveBeenCalled();
+		});
+
+		it('should return 400 when the pair has no V2-style pool', async () => {
+			liquidityService.getTwap.mockRejectedValue(
+				new Error('No liquidity pool found for pair')
+			);
+
+			const response = await agent(app)
+				.get('/twap')
+				.query({ ...validRequest, window: '2h' })
+				.expect(400);
+
+			expect(response.body.error).toBe(ERROR_TYPES.INVALID_REQUEST);
+		});
+	});
+});
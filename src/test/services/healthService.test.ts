@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HealthService } from '../../services/healthService';
+import { providerManager } from '../../utils/providerManager';
+
+vi.mock('../../config/chains', () => {
+	const CHAIN_CONFIGS = {
+		1: {
+			rpcUrls: [
+				'https://eth-mainnet.example.com/v2/secret-key',
+				'https://backup.example.com',
+			],
+			name: 'Ethereum',
+		},
+		137: { rpcUrls: ['https://polygon.example.com'], name: 'Polygon' },
+	};
+	return {
+		CHAIN_CONFIGS,
+		getChainConfig: (chainId: keyof typeof CHAIN_CONFIGS) =>
+			CHAIN_CONFIGS[chainId],
+	};
+});
+
+const now = 1_700_000_000;
+
+/** Serves `latestBlock` from each endpoint of the chain, or fails with an error. */
+const mockEndpoints = (
+	chainId: number,
+	blocks: ({ number: number; timestamp: number } | Error)[]
+) =>
+	providerManager.getProvider(chainId).endpoints.map((endpoint, index) => {
+		const block = blocks[index];
+		return vi
+			.spyOn(endpoint.provider, 'getBlock')
+			.mockImplementation(async () =>
+				block instanceof Error ? Promise.reject(block) : (block as any)
+			);
+	});
+
+describe('HealthService', () => {
+	let healthService: HealthService;
+
+	beforeEach(() => {
+		vi.useFakeTimers({ now: now * 1000 });
+		healthService = new HealthService();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it('should report latency, latest block and block age of every endpoint', async () => {
+		mockEndpoints(1, [
+			{ number: 19000000, timestamp: now - 12 },
+			{ number: 18999999, timestamp: now - 24 },
+		]);
+		mockEndpoints(137, [{ number: 55000000, timestamp: now - 2 }]);
+
+		const [ethereum, polygon] = await healthService.checkChains();
+
+		expect(ethereum).toEqual({
+			chainId: 1,
+			name: 'Ethereum',
+			status: 'healthy',
+			latestBlock: 19000000,
+			blockAgeSeconds: 12,
+			endpoints: [
+				{
+					url: 'https://eth-mainnet.example.com',
+					healthy: true,
+					latencyMs: 0,
+					latestBlock: 19000000,
+					blockAgeSeconds: 12,
+				},
+				{
+					url: 'https://backup.example.com',
+					healthy: true,
+					latencyMs: 0,
+					latestBlock: 18999999,
+					blockAgeSeconds: 24,
+				},
+			],
+		});
+		expect(polygon.status).toBe('healthy');
+	});
+
+	it('should mark a chain degraded when some endpoints fail or lag', async () => {
+		mockEndpoints(1, [
+			new Error('missing response'),
+			{ number: 19000000, timestamp: now - 12 },
+		]);
+		mockEndpoints(137, [{ number: 54990000, timestamp: now - 600 }]);
+
+		const [ethereum, polygon] = await healthService.checkChains();
+
+		expect(ethereum.status).toBe('degraded');
+		expect(ethereum.endpoints[0]).toEqual({
+			url: 'https://eth-mainnet.example.com',
+			healthy: false,
+			latencyMs: null,
+			latestBlock: null,
+			blockAgeSeconds: null,
+			error: 'missing response',
+		});
+		expect(polygon.status).toBe('unhealthy');
+		expect(polygon.endpoints[0].error).toBe('Latest block is 600s old');
+	});
+
+	it('should feed probe results into the endpoint scores', async () => {
+		mockEndpoints(1, [
+			new Error('missing response'),
+			{ number: 19000000, timestamp: now - 12 },
+		]);
+		mockEndpoints(137, [{ number: 55000000, timestamp: now - 2 }]);
+
+		await healthService.checkChains();
+
+		const [failing, working] = providerManager.getProvider(1).endpoints;
+		expect(failing.errorRate).toBeGreaterThan(working.errorRate);
+	});
+
+	it('should reuse a recent probe', async () => {
+		const [getBlock] = mockEndpoints(1, [
+			{ number: 19000000, timestamp: now - 12 },
+			{ number: 19000000, timestamp: now - 12 },
+		]);
+		mockEndpoints(137, [{ number: 55000000, timestamp: now - 2 }]);
+
+		await healthService.checkChains();
+		await healthService.checkChains();
+		expect(getBlock).toHaveBeenCalledTimes(1);
+
+		vi.advanceTimersByTime(5000);
+		await healthService.checkChains();
+		expect(getBlock).toHaveBeenCalledTimes(2);
+	});
+});
@@ -1,12 +1,48 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BigNumber } from 'ethers';
 import { LiquidityService } from '../../services/liquidityService';
 import { LiquidityRequest } from '../../types';
 import { validateAndNormalizeAddresses } from '../../utils/address';
 import { getChainConfig } from '../../config/chains';
-import { calculateSlippageQuote } from '../../utils/slippage';
+import { calculateSlippageQuote, solveSlippage } from '../../utils/slippage';
+import { getTokenDecimals } from '../../utils/token';
+import { simulateTokenRisk } from '../../utils/tokenRisk';
+import {
+	BlockPinnedProvider,
+	findBlockAtTimestamp,
+	resolveBlock,
+} from '../../utils/block';
+import { getDexAdapters } from '../../adapters';
+import { UniswapV2Adapter } from '../../adapters/uniswapV2';
+import { UniswapV3Adapter } from '../../adapters/uniswapV3';
+import { sortTokens } from '../../adapters/types';
+import { Q96 } from '../../utils/concentratedLiquidity';
 
 vi.mock('../../config/chains', () => ({ getChainConfig: vi.fn() }));
 
+vi.mock('../../adapters', () => ({ getDexAdapters: vi.fn() }));
+
+vi.mock('../../utils/token', () => {
+	const getTokenDecimals = vi.fn();
+	return {
+		getTokenDecimals,
+		getTokenMetadata: vi.fn(async (address, provider) => ({
+			address,
+			symbol: 'TKN',
+			name: 'Token',
+			decimals: await getTokenDecimals(address, provider),
+		})),
+	};
+});
+
+vi.mock('../../utils/tokenRisk', () => ({ simulateTokenRisk: vi.fn() }));
+
+vi.mock('../../utils/block', async (importOriginal) => ({
+	...(await importOriginal<typeof import('../../utils/block')>()),
+	resolveBlock: vi.fn(),
+	findBlockAtTimestamp: vi.fn(),
+}));
+
 vi.mock('../../utils/address', () => ({
 	validateAndNormalizeAddresses: vi.fn(),
 }));
@@ -15,7 +51,93 @@ vi.mock('../../utils/error', () => ({
 	getErrorMessage: vi.fn((error, message) => `${message}: ${error.message}`),
 }));
 
-vi.mock('../../utils/slippage', () => ({ calculateSlippageQuote: vi.fn() }));
+vi.mock('../../utils/slippage', async (importOriginal) => ({
+	...(await importOriginal<typeof import('../../utils/slippage')>()),
+	calculateSlippageQuote: vi.fn(),
+}));
+
+const adapter = new UniswapV2Adapter({
+	type: 'uniswap-v2',
+	name: 'Uniswap V2',
+	factoryAddress: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
+	routerAddress: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+	feeBps: 30,
+});
+
+const sushiswap = new UniswapV2Adapter({
+	type: 'uniswap-v2',
+	name: 'SushiSwap',
+	factoryAddress: '0xC0AEe478e3658e2610c5F7A4A2E1777cE9e4f2Ac',
+	routerAddress: '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F',
+	feeBps: 30,
+});
+
+/** Serves pools keyed by `${tokenA}-${tokenB}` with reserves in that order. */
+const mockPools = (
+	pools: Record<string, [string, string, string]>,
+	target: UniswapV2Adapter = adapter
+) => {
+	vi.spyOn(target, 'findPools').mockImplementation(async (tokenA, tokenB) => {
+		const pool = pools[`${tokenA}-${tokenB}`];
+		return pool
+			? [
+					{
+						dex: target.name,
+						address: pool[0],
+						tokens: [tokenA, tokenB],
+						feeBps: 30,
+					},
+			  ]
+			: [];
+	});
+	vi.spyOn(target, 'getState').mockImplementation(async (pool) => {
+		const [, reserve0, reserve1] = pools[`${pool.tokens[0]}-${pool.tokens[1]}`];
+		return {
+			pool,
+			reserves: [BigNumber.from(reserve0), BigNumber.from(reserve1)],
+		};
+	});
+};
+
+const uniswapV3 = new UniswapV3Adapter({
+	type: 'uniswap-v3',
+	name: 'Uniswap V3',
+	factoryAddress: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+	tickLensAddress: '0xbfd8137f7d1516D3ea5cA83523914859ec47F573',
+	feeTiers: [3000],
+});
+
+/**
+ * Serves one V3 pool per pair at price 1 with `liquidity` between ticks
+ * -6000 and 6000 and none beyond, so large trades leave the loaded ticks.
+ */
+const mockV3Pool = (tokenA: string, tokenB: string, liquidity: string) => {
+	const pool = {
+		dex: uniswapV3.name,
+		address: '0x8ad599c3A0ff1De082011EFDDc58f1908eb6e6D8',
+		tokens: sortTokens(tokenA, tokenB),
+		feeBps: 30,
+		feeTier: 3000,
+	};
+	vi.spyOn(uniswapV3, 'findPools').mockImplementation(async (a, b) =>
+		sortTokens(a, b).join() === pool.tokens.join() ? [pool] : []
+	);
+	vi.spyOn(uniswapV3, 'getState').mockResolvedValue({
+		pool,
+		sqrtPriceX96: Q96,
+		tick: 0,
+		liquidity: BigNumber.from(liquidity),
+		tickSpacing: 60,
+		feePips: 3000,
+		ticks: [
+			{ tick: -6000, liquidityNet: BigNumber.from(liquidity) },
+			{ tick: 6000, liquidityNet: BigNumber.from(liquidity).mul(-1) },
+		],
+		minWord: -1,
+		maxWord: 1,
+		balances: [BigNumber.from(liquidity), BigNumber.from(liquidity)],
+	});
+};
 
 describe('LiquidityService', () => {
 	let liquidityService: LiquidityService;
@@ -24,9 +146,12 @@ describe('LiquidityService', () => {
 		buyToken: '0xA0b86a33e6c0c8c4C8C4C8c4c8c4C8C4C8C4C8C4',
 		chainId: 1,
 	};
+	const block = { number: 19_000_000, timestamp: 1_705_173_443 };
 
 	beforeEach(() => {
 		vi.clearAllMocks();
+		vi.mocked(getDexAdapters).mockReturnValue([adapter]);
+		vi.mocked(resolveBlock).mockResolvedValue(block);
 		liquidityService = new LiquidityService();
 	});
 
@@ -73,50 +198,257 @@ describe('LiquidityService', () => {
 			validRequest.buyToken,
 		]);
 		vi.mocked(getChainConfig).mockReturnValue({
-			rpcUrl: 'https://ethereum.publicnode.com',
-			factoryAddress: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
-			routerAddress: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+			rpcUrls: ['https://ethereum.publicnode.com'],
 			name: 'Ethereum',
+			baseTokens: [],
+			stablecoins: [],
+			dexes: [],
 		});
 		vi.mocked(calculateSlippageQuote).mockImplementation((params) => {
-			const sellAmount = params.reserveSell.toString();
-			const buyAmount = params.reserveBuy.toString();
-			return Promise.resolve({ sellAmount, buyAmount });
+			const [{ state, tokenIn, tokenOut }] = params.steps;
+			const sellAmount = adapter.getReserve(state as any, tokenIn).toString();
+			const buyAmount = adapter.getReserve(state as any, tokenOut).toString();
+			return Promise.resolve({ sellAmount, buyAmount, path: params.path });
 		});
-		const mockGetTokenReserves = vi.spyOn(
-			liquidityService as any,
-			'getTokenReserves'
-		);
-		const mockGetTokenDecimals = vi.spyOn(
-			liquidityService as any,
-			'getTokenDecimals'
-		);
-		mockGetTokenReserves.mockResolvedValue({
-			reserveSell: '500000000000000000000',
-			reserveBuy: '3000000000000000000000',
-			token0: validRequest.sellToken,
-			token1: validRequest.buyToken,
+		mockPools({
+			[`${validRequest.sellToken}-${validRequest.buyToken}`]: [
+				'0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+				'500000000000000000000',
+				'3000000000000000000000',
+			],
 		});
-		mockGetTokenDecimals.mockResolvedValue(18);
+		vi.mocked(getTokenDecimals).mockResolvedValue(18);
 		const result = await liquidityService.getLiquidityQuotes(validRequest);
+		const quote = {
+			sellAmount: '500000000000000000000',
+			buyAmount: '3000000000000000000000',
+			path: [validRequest.sellToken, validRequest.buyToken],
+		};
+		const quotes = { '1%': quote, '5%': quote, '10%': quote };
 		expect(result).toEqual({
 			sellToken: validRequest.sellToken,
 			buyToken: validRequest.buyToken,
 			chainId: validRequest.chainId,
-			quotes: {
-				'1%': {
-					sellAmount: '500000000000000000000',
-					buyAmount: '3000000000000000000000',
-				},
-				'5%': {
-					sellAmount: '500000000000000000000',
-					buyAmount: '3000000000000000000000',
+			blockNumber: 19_000_000,
+			blockTimestamp: 1_705_173_443,
+			usdPrices: { sellToken: null, buyToken: null },
+			quotes,
+			venues: [{ dex: 'Uniswap V2', quotes }],
+			aggregated: expect.any(Object),
+			tokens: {
+				sellToken: {
+					address: validRequest.sellToken,
+					symbol: 'TKN',
+					name: 'Token',
+					decimals: 18,
 				},
-				'10%': {
-					sellAmount: '500000000000000000000',
-					buyAmount: '3000000000000000000000',
+				buyToken: {
+					address: validRequest.buyToken,
+					symbol: 'TKN',
+					name: 'Token',
+					decimals: 18,
 				},
 			},
+			tokenRisk: {
+				sellToken: expect.objectContaining({ simulated: false }),
+				buyToken: expect.objectContaining({ simulated: false }),
+			},
+		});
+	});
+
+	describe('token risk', () => {
+		const routerAddress = '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D';
+		const risk = {
+			simulated: true,
+			isHoneypot: false,
+			buyTaxPercent: 5,
+			sellTaxPercent: 5,
+		};
+
+		beforeEach(() => {
+			vi.mocked(validateAndNormalizeAddresses).mockReturnValue([
+				validRequest.sellToken,
+				validRequest.buyToken,
+			]);
+			vi.mocked(getChainConfig).mockReturnValue({
+				rpcUrls: ['https://ethereum.publicnode.com'],
+				name: 'Ethereum',
+				baseTokens: [],
+				stablecoins: [],
+				dexes: [
+					{
+						type: 'uniswap-v3',
+						name: 'Uniswap V3',
+						factoryAddress: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+						tickLensAddress: '0xbfd8137f7d1516D3ea5cA83523914859ec47F573',
+						feeTiers: [3000],
+					},
+					{
+						type: 'uniswap-v2',
+						name: 'Uniswap V2',
+						factoryAddress: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
+						routerAddress,
+					},
+				],
+			});
+			vi.mocked(calculateSlippageQuote).mockImplementation((params) =>
+				Promise.resolve({
+					dex: 'Uniswap V2',
+					sellAmount: '1.0',
+					buyAmount: '1.0',
+					path: params.path,
+					pools: [],
+				})
+			);
+			vi.mocked(simulateTokenRisk).mockResolvedValue(risk);
+			mockPools({
+				[`${validRequest.sellToken}-${validRequest.buyToken}`]: [
+					'0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+					'500000000000000000000',
+					'3000000000000000000000',
+				],
+			});
+			vi.mocked(getTokenDecimals).mockResolvedValue(18);
+		});
+
+		it('should simulate both tokens through the first V2 router', async () => {
+			const result = await liquidityService.getLiquidityQuotes(validRequest);
+
+			expect(result.tokenRisk).toEqual({ sellToken: risk, buyToken: risk });
+			expect(
+				vi
+					.mocked(simulateTokenRisk)
+					.mock.calls.map(([token, router, , blockTag]) => [
+						token,
+						router,
+						blockTag,
+					])
+			).toEqual([
+				[validRequest.sellToken, routerAddress, block.number],
+				[validRequest.buyToken, routerAddress, block.number],
+			]);
+		});
+
+		it('should simulate each token once per block', async () => {
+			const results = await liquidityService.getLiquidityQuotesBatch([
+				validRequest,
+				validRequest,
+			]);
+			await liquidityService.getLiquidityQuotes(validRequest);
+
+			expect(results.map(({ status }) => status)).toEqual([
+				'fulfilled',
+				'fulfilled',
+			]);
+			expect(simulateTokenRisk).toHaveBeenCalledTimes(2);
+
+			vi.mocked(resolveBlock).mockResolvedValue({
+				...block,
+				number: block.number + 1,
+			});
+			await liquidityService.getLiquidityQuotes(validRequest);
+
+			expect(simulateTokenRisk).toHaveBeenCalledTimes(4);
+		});
+	});
+
+	it('should pin all reads to the block resolved for the requested tag', async () => {
+		vi.mocked(validateAndNormalizeAddresses).mockReturnValue([
+			validRequest.sellToken,
+			validRequest.buyToken,
+		]);
+		vi.mocked(getChainConfig).mockReturnValue({
+			rpcUrls: ['https://ethereum.publicnode.com'],
+			name: 'Ethereum',
+			baseTokens: [],
+			stablecoins: [],
+			dexes: [],
+		});
+		vi.mocked(calculateSlippageQuote).mockImplementation((params) =>
+			Promise.resolve({
+				sellAmount: '1.0',
+				buyAmount: '1.0',
+				path: params.path,
+			})
+		);
+		mockPools({
+			[`${validRequest.sellToken}-${validRequest.buyToken}`]: [
+				'0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+				'500000000000000000000',
+				'3000000000000000000000',
+			],
+		});
+		vi.mocked(getTokenDecimals).mockResolvedValue(18);
+
+		const result = await liquidityService.getLiquidityQuotes({
+			...validRequest,
+			blockTag: 18_000_000,
+		});
+
+		expect(vi.mocked(resolveBlock).mock.calls[0][1]).toBe(18_000_000);
+		expect(result).toMatchObject({
+			blockNumber: block.number,
+			blockTimestamp: block.timestamp,
+		});
+		const [, provider] = vi.mocked(getTokenDecimals).mock.calls[0];
+		expect(provider).toBeInstanceOf(BlockPinnedProvider);
+		expect((provider as BlockPinnedProvider).pinnedBlockNumber).toBe(
+			block.number
+		);
+	});
+
+	it('should return quotes keyed by requested levels', async () => {
+		vi.mocked(validateAndNormalizeAddresses).mockReturnValue([
+			validRequest.sellToken,
+			validRequest.buyToken,
+		]);
+		vi.mocked(getChainConfig).mockReturnValue({
+			rpcUrls: ['https://ethereum.publicnode.com'],
+			name: 'Ethereum',
+			baseTokens: [],
+			stablecoins: [],
+			dexes: [],
+		});
+		vi.mocked(calculateSlippageQuote).mockImplementation((params) =>
+			Promise.resolve({
+				sellAmount: String(params.targetSlippage),
+				buyAmount: '1.0',
+				path: params.path,
+			})
+		);
+		mockPools({
+			[`${validRequest.sellToken}-${validRequest.buyToken}`]: [
+				'0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+				'500000000000000000000',
+				'3000000000000000000000',
+			],
+		});
+		vi.mocked(getTokenDecimals).mockResolvedValue(18);
+		const result = await liquidityService.getLiquidityQuotes({
+			...validRequest,
+			levels: [0.001, 0.005, 0.02, 0.25],
+		});
+		expect(result.quotes).toEqual({
+			'0.1%': {
+				sellAmount: '0.001',
+				buyAmount: '1.0',
+				path: [validRequest.sellToken, validRequest.buyToken],
+			},
+			'0.5%': {
+				sellAmount: '0.005',
+				buyAmount: '1.0',
+				path: [validRequest.sellToken, validRequest.buyToken],
+			},
+			'2%': {
+				sellAmount: '0.02',
+				buyAmount: '1.0',
+				path: [validRequest.sellToken, validRequest.buyToken],
+			},
+			'25%': {
+				sellAmount: '0.25',
+				buyAmount: '1.0',
+				path: [validRequest.sellToken, validRequest.buyToken],
+			},
 		});
 	});
 
@@ -126,33 +458,887 @@ describe('LiquidityService', () => {
 			validRequest.buyToken,
 		]);
 		vi.mocked(getChainConfig).mockReturnValue({
-			rpcUrl: 'https://ethereum.publicnode.com',
-			factoryAddress: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
-			routerAddress: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+			rpcUrls: ['https://ethereum.publicnode.com'],
 			name: 'Ethereum',
+			baseTokens: [],
+			stablecoins: [],
+			dexes: [],
 		});
 		vi.mocked(calculateSlippageQuote).mockRejectedValue(
 			new Error('Slippage calculation failed')
 		);
-		const mockGetTokenReserves = vi.spyOn(
-			liquidityService as any,
-			'getTokenReserves'
-		);
-		const mockGetTokenDecimals = vi.spyOn(
-			liquidityService as any,
-			'getTokenDecimals'
-		);
-		mockGetTokenReserves.mockResolvedValue({
-			reserveSell: '1000000000000000000000',
-			reserveBuy: '2000000000000000000000',
-			token0: validRequest.sellToken,
-			token1: validRequest.buyToken,
+		mockPools({
+			[`${validRequest.sellToken}-${validRequest.buyToken}`]: [
+				'0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+				'1000000000000000000000',
+				'2000000000000000000000',
+			],
 		});
-		mockGetTokenDecimals.mockResolvedValue(18);
+		vi.mocked(getTokenDecimals).mockResolvedValue(18);
 		await expect(
 			liquidityService.getLiquidityQuotes(validRequest)
 		).rejects.toThrow(
 			'Failed to calculate slippage quotes. Errors: 1%: Slippage calculation failed, 5%: Slippage calculation failed, 10%: Slippage calculation failed'
 		);
 	});
+
+	describe('getDepthCurve', () => {
+		beforeEach(() => {
+			vi.mocked(validateAndNormalizeAddresses).mockReturnValue([
+				validRequest.sellToken,
+				validRequest.buyToken,
+			]);
+			vi.mocked(getChainConfig).mockReturnValue({
+				rpcUrls: ['https://ethereum.publicnode.com'],
+				name: 'Ethereum',
+				baseTokens: [],
+				stablecoins: [],
+				dexes: [],
+			});
+			mockPools({
+				[`${validRequest.sellToken}-${validRequest.buyToken}`]: [
+					'0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+					'1000000000000',
+					'500000000000000000000',
+				],
+			});
+			vi.mocked(getTokenDecimals).mockImplementation((token) =>
+				Promise.resolve(token === validRequest.sellToken ? 6 : 18)
+			);
+		});
+
+		it('should sample the curve from zero up to the max impact', async () => {
+			const result = await liquidityService.getDepthCurve({
+				...validRequest,
+				maxImpact: 0.05,
+				points: 20,
+				spacing: 'linear',
+			});
+
+			expect(result).toMatchObject({
+				dex: 'Uniswap V2',
+				path: [validRequest.sellToken, validRequest.buyToken],
+				pools: [
+					{
+						dex: 'Uniswap V2',
+						address: '0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+						feeBps: 30,
+					},
+				],
+				spacing: 'linear',
+			});
+			expect(result.points).toHaveLength(20);
+			expect(result.points[0]).toEqual({
+				sellAmount: '0.0',
+				buyAmount: '0.0',
+				priceImpactBps: 0,
+			});
+			for (let i = 1; i < result.points.length; i++) {
+				expect(parseFloat(result.points[i].sellAmount)).toBeGreaterThan(
+					parseFloat(result.points[i - 1].sellAmount)
+				);
+				expect(result.points[i].priceImpactBps).toBeGreaterThan(
+					result.points[i - 1].priceImpactBps
+				);
+			}
+			expect(result.points[19].priceImpactBps).toBeCloseTo(500, 1);
+		});
+
+		it('should start a log-spaced curve near zero impact', async () => {
+			const result = await liquidityService.getDepthCurve({
+				...validRequest,
+				maxImpact: 0.05,
+				points: 20,
+				spacing: 'log',
+			});
+
+			// The smallest trade only pays the LP fee
+			expect(result.points[1].priceImpactBps).toBeCloseTo(30, 0);
+			expect(result.points[19].priceImpactBps).toBeCloseTo(500, 1);
+		});
+	});
+
+	describe('getLiquiditySnapshot', () => {
+		it('should record the direct pool reserves and depth per level', async () => {
+			vi.mocked(validateAndNormalizeAddresses).mockReturnValue([
+				validRequest.sellToken,
+				validRequest.buyToken,
+			]);
+			vi.mocked(getChainConfig).mockReturnValue({
+				rpcUrls: ['https://ethereum.publicnode.com'],
+				name: 'Ethereum',
+				baseTokens: [],
+				stablecoins: [],
+				dexes: [],
+			});
+			mockPools({
+				[`${validRequest.sellToken}-${validRequest.buyToken}`]: [
+					'0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+					'1000000000000',
+					'500000000000000000000',
+				],
+			});
+			vi.mocked(getTokenDecimals).mockImplementation((token) =>
+				Promise.resolve(token === validRequest.sellToken ? 6 : 18)
+			);
+
+			const result = await liquidityService.getLiquiditySnapshot(validRequest);
+
+			expect(result).toMatchObject({
+				sellToken: validRequest.sellToken,
+				buyToken: validRequest.buyToken,
+				chainId: 1,
+				blockNumber: block.number,
+				blockTimestamp: block.timestamp,
+				reserves: [
+					{
+						dex: 'Uniswap V2',
+						address: '0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+						feeBps: 30,
+						sellReserve: '1000000.0',
+						buyReserve: '500.0',
+					},
+				],
+			});
+			expect(Object.keys(result.quotes)).toEqual(['1%', '5%', '10%']);
+			expect(result.quotes['1%'].dex).toBe('Uniswap V2');
+			expect(parseFloat(result.quotes['10%'].sellAmount)).toBeGreaterThan(
+				parseFloat(result.quotes['1%'].sellAmount)
+			);
+			expect(result.timestamp).toBeCloseTo(Date.now() / 1000, -1);
+		});
+	});
+
+	describe('USD valuation', () => {
+		const weth = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+		const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+		const dai = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+		// $2000 per WETH, $1 per DAI
+		const pools: Record<string, [string, string, string]> = {
+			[`${weth}-${usdc}`]: [
+				'0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+				'1000000000000000000000',
+				'2000000000000',
+			],
+			[`${weth}-${dai}`]: [
+				'0xA478c2975Ab1Ea89e8196811F51A7B7Ade33eB11',
+				'1000000000000000000000',
+				'2000000000000000000000000',
+			],
+			[`${dai}-${usdc}`]: [
+				'0xAE461cA67B15dc8dc81CE7615e0320dA1A9aB8D5',
+				'5000000000000000000000000',
+				'5000000000000',
+			],
+		};
+
+		beforeEach(() => {
+			vi.mocked(getChainConfig).mockReturnValue({
+				rpcUrls: ['https://ethereum.publicnode.com'],
+				name: 'Ethereum',
+				baseTokens: [],
+				stablecoins: [usdc],
+				dexes: [],
+			});
+			vi.mocked(getTokenDecimals).mockImplementation(async (token) =>
+				token === usdc ? 6 : 18
+			);
+			vi.mocked(calculateSlippageQuote).mockImplementation(
+				async (params) =>
+					({ path: params.path, usdPrices: params.usdPrices } as any)
+			);
+			mockPools(pools);
+		});
+
+		const requestFor = (sellToken: string, buyToken: string) => {
+			vi.mocked(validateAndNormalizeAddresses).mockReturnValue([
+				sellToken,
+				buyToken,
+			]);
+			return { sellToken, buyToken, chainId: 1 };
+		};
+
+		it('should price the sell token through the pair when buying a stablecoin', async () => {
+			const result = await liquidityService.getLiquidityQuotes(
+				requestFor(weth, usdc)
+			);
+
+			expect(result.usdPrices).toEqual({
+				sellToken: '2000.0',
+				buyToken: '1.0',
+			});
+			expect(adapter.findPools).toHaveBeenCalledTimes(1);
+			expect(
+				vi.mocked(calculateSlippageQuote).mock.calls[0][0].usdPrices
+			).toEqual({
+				sellToken: {
+					numerator: BigNumber.from('2000000000000'),
+					denominator: BigNumber.from('1000000000000000000000'),
+					decimals: 6,
+				},
+				buyToken: {
+					numerator: BigNumber.from(1),
+					denominator: BigNumber.from(1),
+					decimals: 6,
+				},
+			});
+		});
+
+		it('should price other tokens along their route to a stablecoin', async () => {
+			const result = await liquidityService.getLiquidityQuotes(
+				requestFor(weth, dai)
+			);
+
+			expect(result.usdPrices).toEqual({
+				sellToken: '2000.0',
+				buyToken: '1.0',
+			});
+		});
+
+		it('should leave tokens without a stablecoin route unpriced', async () => {
+			mockPools({ [`${weth}-${dai}`]: pools[`${weth}-${dai}`] });
+
+			const result = await liquidityService.getLiquidityQuotes(
+				requestFor(weth, dai)
+			);
+
+			expect(result.usdPrices).toEqual({ sellToken: null, buyToken: null });
+		});
+
+		it('should quote USD notionals of the sell token', async () => {
+			const result = await liquidityService.getLiquidityQuotes({
+				...requestFor(weth, usdc),
+				usdLevels: [10000],
+			});
+
+			const quote = (result.usdQuotes as Record<string, any>)['$10000'];
+			expect(quote.sellAmount).toBe('5.0');
+			expect(quote.sellAmountUsd).toBe('10000.0');
+			// 0.3% fee plus 0.5% curve impact, rounded down to the cent
+			expect(quote.buyAmount).toBe('9920.546077');
+			expect(quote.buyAmountUsd).toBe('9920.54');
+		});
+
+		it('should leave out USD notionals that no route can fill', async () => {
+			vi.mocked(getDexAdapters).mockReturnValue([uniswapV3, adapter]);
+			mockPools({ [`${weth}-${usdc}`]: pools[`${weth}-${usdc}`] });
+			mockV3Pool(weth, dai, '1000000000000000000000');
+
+			const result = await liquidityService.getLiquidityQuotes({
+				...requestFor(weth, dai),
+				usdLevels: [10000, 1000000000],
+			});
+
+			expect(Object.keys(result.usdQuotes as object)).toEqual(['$10000']);
+			expect((result.usdQuotes as Record<string, any>)['$10000'].pools).toEqual(
+				[expect.objectContaining({ dex: 'Uniswap V3' })]
+			);
+		});
+
+		it('should reject USD notionals when the sell token is unpriced', async () => {
+			mockPools({ [`${weth}-${dai}`]: pools[`${weth}-${dai}`] });
+
+			await expect(
+				liquidityService.getLiquidityQuotes({
+					...requestFor(weth, dai),
+					usdLevels: [10000],
+				})
+			).rejects.toThrow('Could not calculate quote for usdLevels');
+		});
+
+		it('should share the block and pool reads across a batch', async () => {
+			vi.mocked(validateAndNormalizeAddresses).mockImplementation(
+				(sellToken, buyToken) => {
+					if (sellToken === 'WETH') {
+						throw new Error('Invalid address');
+					}
+					return [sellToken, buyToken];
+				}
+			);
+
+			const results = await liquidityService.getLiquidityQuotesBatch([
+				{ sellToken: weth, buyToken: dai, chainId: 1 },
+				{ sellToken: dai, buyToken: weth, chainId: 1 },
+				{ sellToken: 'WETH', buyToken: dai, chainId: 1 },
+			]);
+
+			expect(results.map(({ status }) => status)).toEqual([
+				'fulfilled',
+				'fulfilled',
+				'rejected',
+			]);
+			expect(
+				(results[1] as PromiseFulfilledResult<any>).value.usdPrices
+			).toEqual({ sellToken: '1.0', buyToken: '2000.0' });
+			expect((results[2] as PromiseRejectedResult).reason.message).toBe(
+				'Invalid token addresses: Invalid address'
+			);
+			// WETH/DAI, WETH/USDC and DAI/USDC, each read once for both pairs
+			expect(resolveBlock).toHaveBeenCalledTimes(1);
+			expect(adapter.findPools).toHaveBeenCalledTimes(3);
+		});
+	});
+
+	describe('getTwap', () => {
+		const Q112 = BigNumber.from(2).pow(112);
+		const startBlock = { number: 18999850, timestamp: 1705171643 };
+
+		beforeEach(() => {
+			vi.mocked(validateAndNormalizeAddresses).mockReturnValue([
+				validRequest.sellToken,
+				validRequest.buyToken,
+			]);
+			vi.mocked(getChainConfig).mockReturnValue({
+				rpcUrls: ['https://ethereum.publicnode.com'],
+				name: 'Ethereum',
+				baseTokens: [],
+				stablecoins: [],
+				dexes: [],
+			});
+			vi.mocked(getDexAdapters).mockReturnValue([adapter, sushiswap]);
+			vi.mocked(findBlockAtTimestamp).mockResolvedValue(startBlock);
+			vi.mocked(getTokenDecimals).mockResolvedValue(18);
+			mockPools({
+				[`${validRequest.sellToken}-${validRequest.buyToken}`]: [
+					'0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+					'1000000000000000000000',
+					'2100000000000000000000',
+				],
+			});
+			mockPools({}, sushiswap);
+		});
+
+		it('should compare the spot price with the average over the window', async () => {
+			// Price 2 for the 1800 seconds of the window; spot has since moved to 2.1
+			vi.spyOn(adapter, 'observeCumulativePrices').mockImplementation(
+				async (pool, provider, observed) => ({
+					blockNumber: observed.number,
+					timestamp: observed.timestamp,
+					reserves: [
+						BigNumber.from('1000000000000000000000'),
+						BigNumber.from('2100000000000000000000'),
+					],
+					priceCumulatives:
+						observed === startBlock
+							? [Q112.mul(1000), Q112.mul(500)]
+							: [Q112.mul(1000 + 2 * 1800), Q112.mul(500 + 900)],
+				})
+			);
+
+			const result = await liquidityService.getTwap({
+				...validRequest,
+				window: 1800,
+			});
+
+			expect(vi.mocked(findBlockAtTimestamp).mock.calls[0].slice(1)).toEqual([
+				block.timestamp - 1800,
+				block,
+			]);
+			expect(result).toEqual({
+				sellToken: validRequest.sellToken,
+				buyToken: validRequest.buyToken,
+				chainId: 1,
+				blockNumber: block.number,
+				blockTimestamp: block.timestamp,
+				window: 1800,
+				startBlockNumber: startBlock.number,
+				startBlockTimestamp: startBlock.timestamp,
+				pools: [
+					{
+						dex: 'Uniswap V2',
+						address: '0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+						feeBps: 30,
+						twap: '2.0',
+						spotPrice: '2.1',
+						deviationBps: 500,
+					},
+				],
+			});
+		});
+
+		it('should fail when the pair has no V2-style pool', async () => {
+			mockPools({});
+
+			await expect(
+				liquidityService.getTwap({ ...validRequest, window: 1800 })
+			).rejects.toThrow('No liquidity pool found for pair');
+		});
+	});
+
+	describe('order book mode', () => {
+		beforeEach(() => {
+			vi.mocked(validateAndNormalizeAddresses).mockReturnValue([
+				validRequest.sellToken,
+				validRequest.buyToken,
+			]);
+			vi.mocked(getChainConfig).mockReturnValue({
+				rpcUrls: ['https://ethereum.publicnode.com'],
+				name: 'Ethereum',
+				baseTokens: [],
+				stablecoins: [],
+				dexes: [],
+			});
+			vi.mocked(calculateSlippageQuote).mockImplementation((params) =>
+				Promise.resolve({
+					dex: 'Uniswap V2',
+					sellAmount: '1.0',
+					buyAmount: '1.0',
+					path: params.path,
+					pools: [],
+					priceImpactBps: 100,
+					lpFeeBps: 30,
+					curveImpactBps: 70,
+				})
+			);
+			mockPools({
+				[`${validRequest.sellToken}-${validRequest.buyToken}`]: [
+					'0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+					'1000000000000',
+					'500000000000000000000',
+				],
+			});
+			vi.mocked(getTokenDecimals).mockImplementation((token) =>
+				Promise.resolve(token === validRequest.sellToken ? 6 : 18)
+			);
+		});
+
+		it('should leave out the order book by default', async () => {
+			const result = await liquidityService.getLiquidityQuotes({
+				...validRequest,
+				levels: [0.01],
+			});
+
+			expect(result.orderBook).toBeUndefined();
+		});
+
+		it('should quote both sides of the pool around the mid price', async () => {
+			const result = await liquidityService.getLiquidityQuotes({
+				...validRequest,
+				levels: [0.01],
+				mode: 'orderbook',
+			});
+			const orderBook = result.orderBook!;
+
+			// 0.0005 WETH per USDC, less or plus the 0.3% fee
+			expect(orderBook.bestBid).toBe('0.0004985');
+			expect(parseFloat(orderBook.bestAsk)).toBeCloseTo(0.0005 / 0.997, 12);
+			expect(parseFloat(orderBook.midPrice)).toBeCloseTo(0.0005, 8);
+			// 2 * (1/0.997 - 0.997) / (1/0.997 + 0.997) = 60.0899 bps, rounded down
+			expect(orderBook.spreadBps).toBe(60.08);
+
+			const bid = orderBook.bids['1%'];
+			const ask = orderBook.asks['1%'];
+			expect(bid.path).toEqual([validRequest.sellToken, validRequest.buyToken]);
+			expect(ask.path).toEqual([validRequest.buyToken, validRequest.sellToken]);
+			// Bids fill below the mid price and asks above it
+			expect(parseFloat(bid.price)).toBeLessThan(parseFloat(orderBook.bestBid));
+			expect(parseFloat(ask.price)).toBeGreaterThan(
+				parseFloat(orderBook.bestAsk)
+			);
+			// Same reserves on both sides, so their depths differ by about the level
+			const depthRatio =
+				parseFloat(bid.baseAmount) / parseFloat(ask.baseAmount);
+			expect(depthRatio).toBeGreaterThan(1);
+			expect(depthRatio).toBeLessThan(1.02);
+		});
+	});
+
+	describe('getExactInputQuote', () => {
+		beforeEach(() => {
+			vi.mocked(validateAndNormalizeAddresses).mockReturnValue([
+				validRequest.sellToken,
+				validRequest.buyToken,
+			]);
+			vi.mocked(getChainConfig).mockReturnValue({
+				rpcUrls: ['https://ethereum.publicnode.com'],
+				name: 'Ethereum',
+				baseTokens: [],
+				stablecoins: [],
+				dexes: [],
+			});
+			mockPools({
+				[`${validRequest.sellToken}-${validRequest.buyToken}`]: [
+					'0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+					'1000000000000',
+					'500000000000000000000',
+				],
+			});
+			vi.mocked(getTokenDecimals).mockImplementation((token) =>
+				Promise.resolve(token === validRequest.sellToken ? 6 : 18)
+			);
+		});
+
+		it('should quote an exact input amount from reserves', async () => {
+			const result = await liquidityService.getExactInputQuote({
+				...validRequest,
+				sellAmount: '1000',
+				unit: 'token',
+			});
+
+			expect(result).toEqual({
+				sellToken: validRequest.sellToken,
+				buyToken: validRequest.buyToken,
+				chainId: 1,
+				blockNumber: 19_000_000,
+				blockTimestamp: 1_705_173_443,
+				path: [validRequest.sellToken, validRequest.buyToken],
+				pairAddresses: ['0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc'],
+				pools: [
+					{
+						dex: 'Uniswap V2',
+						address: '0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+						feeBps: 30,
+					},
+				],
+				sellAmount: '1000.0',
+				sellAmountWei: '1000000000',
+				buyAmount: '0.498003490519951608',
+				buyAmountWei: '498003490519951608',
+				effectivePrice: '0.000498003490519951',
+				spotPrice: '0.0005',
+				priceImpactBps: 39.94,
+				lpFeeBps: 30,
+				curveImpactBps: 9.94,
+			});
+		});
+
+		it('should accept amounts in wei', async () => {
+			const result = await liquidityService.getExactInputQuote({
+				...validRequest,
+				sellAmount: '1000000000',
+				unit: 'wei',
+			});
+			expect(result.sellAmount).toBe('1000.0');
+			expect(result.buyAmountWei).toBe('498003490519951608');
+		});
+
+		it('should reject amounts with too many decimals', async () => {
+			await expect(
+				liquidityService.getExactInputQuote({
+					...validRequest,
+					sellAmount: '1.0000001',
+					unit: 'token',
+				})
+			).rejects.toThrow(
+				'Invalid amount: 1.0000001 has more than 6 decimal places'
+			);
+		});
+
+		it('should skip V3 pools that cannot fill the trade', async () => {
+			vi.mocked(getDexAdapters).mockReturnValue([uniswapV3, adapter]);
+			mockV3Pool(validRequest.sellToken, validRequest.buyToken, '1000000');
+
+			const result = await liquidityService.getExactInputQuote({
+				...validRequest,
+				sellAmount: '1000',
+				unit: 'token',
+			});
+
+			expect(result.pools.map(({ dex }) => dex)).toEqual(['Uniswap V2']);
+			expect(result.buyAmountWei).toBe('498003490519951608');
+		});
+
+		it('should reject trades that no route can fill', async () => {
+			vi.mocked(getDexAdapters).mockReturnValue([uniswapV3]);
+			mockV3Pool(validRequest.sellToken, validRequest.buyToken, '1000000');
+
+			await expect(
+				liquidityService.getExactInputQuote({
+					...validRequest,
+					sellAmount: '1000',
+					unit: 'token',
+				})
+			).rejects.toThrow(
+				'Insufficient liquidity: no route can fill a sale of 1000.0 for pair 0x742d35Cc6634C0532925A3B8D4C9dB96C4B4d8B6/0xA0b86a33e6c0c8c4C8C4C8c4c8c4C8C4C8C4C8C4'
+			);
+		});
+	});
+
+	describe('getExactOutputQuote', () => {
+		beforeEach(() => {
+			vi.mocked(validateAndNormalizeAddresses).mockReturnValue([
+				validRequest.sellToken,
+				validRequest.buyToken,
+			]);
+			vi.mocked(getChainConfig).mockReturnValue({
+				rpcUrls: ['https://ethereum.publicnode.com'],
+				name: 'Ethereum',
+				baseTokens: [],
+				stablecoins: [],
+				dexes: [],
+			});
+			mockPools({
+				[`${validRequest.sellToken}-${validRequest.buyToken}`]: [
+					'0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+					'1000000000000',
+					'500000000000000000000',
+				],
+			});
+			vi.mocked(getTokenDecimals).mockImplementation((token) =>
+				Promise.resolve(token === validRequest.sellToken ? 6 : 18)
+			);
+		});
+
+		it('should round-trip an exact input quote', async () => {
+			const result = await liquidityService.getExactOutputQuote({
+				...validRequest,
+				buyAmount: '498003490519951608',
+				unit: 'wei',
+			});
+
+			expect(result.sellAmountWei).toBe('1000000000');
+			expect(result.buyAmount).toBe('0.498003490519951608');
+			expect(result.pairAddresses).toEqual([
+				'0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+			]);
+		});
+
+		it('should reject outputs that exceed the buy reserve', async () => {
+			await expect(
+				liquidityService.getExactOutputQuote({
+					...validRequest,
+					buyAmount: '500',
+					unit: 'token',
+				})
+			).rejects.toThrow(
+				'Insufficient liquidity: requested 500.0 exceeds the 500.0 available for pair 0x742d35Cc6634C0532925A3B8D4C9dB96C4B4d8B6/0xA0b86a33e6c0c8c4C8C4C8c4c8c4C8C4C8C4C8C4'
+			);
+		});
+	});
+
+	describe('multi-hop routing', () => {
+		const weth = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+		const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+		const pools: Record<string, [string, string, string]> = {
+			[`${validRequest.sellToken}-${weth}`]: [
+				'0x0000000000000000000000000000000000000001',
+				'1000000000000000000000',
+				'10000000000000000000',
+			],
+			[`${weth}-${validRequest.buyToken}`]: [
+				'0x0000000000000000000000000000000000000002',
+				'10000000000000000000',
+				'20000000000',
+			],
+			[`${validRequest.sellToken}-${usdc}`]: [
+				'0x0000000000000000000000000000000000000003',
+				'1000000000000000000000',
+				'1000000000',
+			],
+			[`${usdc}-${validRequest.buyToken}`]: [
+				'0x0000000000000000000000000000000000000004',
+				'1000000000',
+				'2000000000',
+			],
+		};
+
+		beforeEach(() => {
+			vi.mocked(validateAndNormalizeAddresses).mockReturnValue([
+				validRequest.sellToken,
+				validRequest.buyToken,
+			]);
+			vi.mocked(getChainConfig).mockReturnValue({
+				rpcUrls: ['https://ethereum.publicnode.com'],
+				name: 'Ethereum',
+				baseTokens: [weth, usdc],
+				stablecoins: [],
+				dexes: [],
+			});
+			mockPools(pools);
+			vi.mocked(getTokenDecimals).mockImplementation((token) =>
+				Promise.resolve(token === validRequest.buyToken ? 6 : 18)
+			);
+		});
+
+		it('should route through the base token with the best output', async () => {
+			const result = await liquidityService.getExactInputQuote({
+				...validRequest,
+				sellAmount: '1',
+				unit: 'token',
+			});
+
+			expect(result.path).toEqual([
+				validRequest.sellToken,
+				weth,
+				validRequest.buyToken,
+			]);
+			expect(result.pairAddresses).toEqual([
+				'0x0000000000000000000000000000000000000001',
+				'0x0000000000000000000000000000000000000002',
+			]);
+			expect(result.spotPrice).toBe('20.0');
+		});
+
+		it('should report the chosen path for each slippage level', async () => {
+			vi.mocked(calculateSlippageQuote).mockImplementation((params) =>
+				Promise.resolve({
+					sellAmount: '1.0',
+					buyAmount: '1.0',
+					path: params.path,
+				})
+			);
+
+			const result = await liquidityService.getLiquidityQuotes(validRequest);
+
+			expect(result.quotes['1%'].path).toEqual([
+				validRequest.sellToken,
+				weth,
+				validRequest.buyToken,
+			]);
+			expect(
+				vi.mocked(calculateSlippageQuote).mock.calls[0][0].steps
+			).toHaveLength(2);
+			expect(result.aggregated).toBeUndefined();
+		});
+
+		it('should surface the direct pair error when no route exists', async () => {
+			vi.mocked(getChainConfig).mockReturnValue({
+				rpcUrls: ['https://ethereum.publicnode.com'],
+				name: 'Ethereum',
+				baseTokens: [],
+				stablecoins: [],
+				dexes: [],
+			});
+
+			await expect(
+				liquidityService.getLiquidityQuotes(validRequest)
+			).rejects.toThrow(
+				`No liquidity pool found for pair ${validRequest.sellToken}/${validRequest.buyToken} on chain Ethereum`
+			);
+		});
+	});
+
+	describe('multi-DEX venues', () => {
+		const pairKey = `${validRequest.sellToken}-${validRequest.buyToken}`;
+
+		beforeEach(() => {
+			vi.mocked(getDexAdapters).mockReturnValue([adapter, sushiswap]);
+			vi.mocked(validateAndNormalizeAddresses).mockReturnValue([
+				validRequest.sellToken,
+				validRequest.buyToken,
+			]);
+			vi.mocked(getChainConfig).mockReturnValue({
+				rpcUrls: ['https://ethereum.publicnode.com'],
+				name: 'Ethereum',
+				baseTokens: [],
+				stablecoins: [],
+				dexes: [],
+			});
+			vi.mocked(getTokenDecimals).mockResolvedValue(18);
+			vi.mocked(calculateSlippageQuote).mockImplementation((params) =>
+				Promise.resolve({
+					dex: params.steps[0].adapter.name,
+					sellAmount: String(params.targetSlippage),
+					buyAmount: '1.0',
+					path: params.path,
+					pools: [],
+				})
+			);
+			mockPools({
+				[pairKey]: [
+					'0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+					'500000000000000000000',
+					'3000000000000000000000',
+				],
+			});
+			mockPools(
+				{
+					[pairKey]: [
+						'0x397FF1542f962076d0BFE58eA045FfA2d347ACa0',
+						'5000000000000000000000',
+						'30000000000000000000000',
+					],
+				},
+				sushiswap
+			);
+		});
+
+		it('should return the deepest venue for each level', async () => {
+			const result = await liquidityService.getLiquidityQuotes(validRequest);
+
+			expect(Object.values(result.quotes).map((quote) => quote.dex)).toEqual([
+				'SushiSwap',
+				'SushiSwap',
+				'SushiSwap',
+			]);
+		});
+
+		it('should reuse the trade sizes solved to pick the routes', async () => {
+			await liquidityService.getLiquidityQuotes({
+				...validRequest,
+				levels: [0.01],
+			});
+
+			for (const [params] of vi.mocked(calculateSlippageQuote).mock.calls) {
+				expect(params.solution).toEqual(
+					solveSlippage(params.steps, params.targetSlippage)
+				);
+			}
+			expect(calculateSlippageQuote).toHaveBeenCalledTimes(2);
+		});
+
+		it('should break quotes down per venue', async () => {
+			const result = await liquidityService.getLiquidityQuotes({
+				...validRequest,
+				levels: [0.01],
+			});
+
+			expect(result.venues).toEqual([
+				{
+					dex: 'Uniswap V2',
+					quotes: {
+						'1%': expect.objectContaining({ dex: 'Uniswap V2' }),
+					},
+				},
+				{
+					dex: 'SushiSwap',
+					quotes: {
+						'1%': expect.objectContaining({ dex: 'SushiSwap' }),
+					},
+				},
+			]);
+		});
+
+		it('should leave out levels a venue cannot quote', async () => {
+			vi.mocked(calculateSlippageQuote).mockImplementation((params) =>
+				params.steps[0].adapter === adapter
+					? Promise.reject(new Error('Could not calculate quote'))
+					: Promise.resolve({
+							dex: 'SushiSwap',
+							sellAmount: '1.0',
+							buyAmount: '1.0',
+							path: params.path,
+							pools: [],
+					  })
+			);
+
+			const result = await liquidityService.getLiquidityQuotes(validRequest);
+
+			expect(result.venues[0]).toEqual({ dex: 'Uniswap V2', quotes: {} });
+			expect(Object.keys(result.venues[1].quotes)).toEqual(['1%', '5%', '10%']);
+		});
+
+		it('should split the aggregated depth across the pools of every venue', async () => {
+			const result = await liquidityService.getLiquidityQuotes({
+				...validRequest,
+				levels: [0.05],
+			});
+
+			const { allocations } = result.aggregated!['5%'];
+			expect(allocations.map(({ pool }) => pool.dex)).toEqual([
+				'Uniswap V2',
+				'SushiSwap',
+			]);
+			expect(allocations[1].share).toBeCloseTo(10 / 11, 2);
+		});
+
+		it('should only use venues that have a pool for the pair', async () => {
+			mockPools({}, sushiswap);
+
+			const result = await liquidityService.getLiquidityQuotes(validRequest);
+
+			expect(result.venues.map((venue) => venue.dex)).toEqual(['Uniswap V2']);
+			expect(result.quotes['1%'].dex).toBe('Uniswap V2');
+		});
+	});
 });
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SnapshotRecorder } from '../../services/snapshotRecorder';
+import { LiquidityService } from '../../services/liquidityService';
+import { SnapshotStore } from '../../utils/snapshotStore';
+import { LiquiditySnapshot } from '../../types';
+
+vi.mock('../../utils/logger', () => ({ logInfo: vi.fn(), logError: vi.fn() }));
+
+const usdcWeth = {
+	chainId: 1,
+	sellToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+	buyToken: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+};
+const daiWeth = {
+	chainId: 1,
+	sellToken: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+	buyToken: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+};
+
+const createRecorder = (
+	getLiquiditySnapshot: LiquidityService['getLiquiditySnapshot']
+) => {
+	const store = { append: vi.fn().mockResolvedValue(undefined) };
+	const recorder = new SnapshotRecorder(
+		{ getLiquiditySnapshot } as LiquidityService,
+		store as unknown as SnapshotStore,
+		[usdcWeth, daiWeth],
+		60_000
+	);
+	return { recorder, store };
+};
+
+describe('SnapshotRecorder', () => {
+	it('should store a snapshot of every pair', async () => {
+		const { recorder, store } = createRecorder(async (pair) => ({
+			...pair,
+			timestamp: 1704067200,
+			blockNumber: 18908895,
+			blockTimestamp: 1704067199,
+			reserves: [],
+			quotes: {},
+		}));
+
+		await recorder.recordAll();
+
+		expect(
+			store.append.mock.calls.map(
+				([snapshot]: [LiquiditySnapshot]) => snapshot.sellToken
+			)
+		).toEqual([usdcWeth.sellToken, daiWeth.sellToken]);
+	});
+
+	it('should keep recording other pairs when one fails', async () => {
+		const { recorder, store } = createRecorder(async (pair) => {
+			if (pair === usdcWeth) {
+				throw new Error('No liquidity pool found');
+			}
+			return { ...pair, timestamp: 1 } as LiquiditySnapshot;
+		});
+
+		await recorder.recordAll();
+
+		expect(store.append).toHaveBeenCalledTimes(1);
+		expect(store.append.mock.calls[0][0].sellToken).toBe(daiWeth.sellToken);
+	});
+
+	it('should not overlap a run that is still in progress', async () => {
+		const pending: (() => void)[] = [];
+		const getLiquiditySnapshot = vi.fn(
+			(pair) =>
+				new Promise<LiquiditySnapshot>((resolve) => {
+					pending.push(() => resolve({ ...pair, timestamp: 1 }));
+				})
+		);
+		const { recorder } = createRecorder(getLiquiditySnapshot);
+
+		const running = recorder.recordAll();
+		await recorder.recordAll();
+		pending.forEach((finish) => finish());
+		await running;
+
+		expect(getLiquiditySnapshot).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { parseAmountUnit, parseTokenAmount } from '../../utils/amount';
+
+describe('parseAmountUnit', () => {
+	it('should default to token units', () => {
+		expect(parseAmountUnit(undefined)).toBe('token');
+	});
+
+	it('should accept token and wei', () => {
+		expect(parseAmountUnit('token')).toBe('token');
+		expect(parseAmountUnit('wei')).toBe('wei');
+	});
+
+	it('should reject other units', () => {
+		expect(() => parseAmountUnit('gwei')).toThrow(
+			'Invalid amount: unit must be "token" or "wei"'
+		);
+	});
+});
+
+describe('parseTokenAmount', () => {
+	it('should parse human amounts with token decimals', () => {
+		expect(parseTokenAmount('1.5', 'token', 6).toString()).toBe('1500000');
+		expect(parseTokenAmount('.5', 'token', 18).toString()).toBe(
+			'500000000000000000'
+		);
+		expect(parseTokenAmount('1.', 'token', 6).toString()).toBe('1000000');
+	});
+
+	it('should parse wei amounts as-is', () => {
+		expect(parseTokenAmount('1500000', 'wei', 6).toString()).toBe('1500000');
+	});
+
+	it('should reject too many decimal places', () => {
+		expect(() => parseTokenAmount('1.1234567', 'token', 6)).toThrow(
+			'Invalid amount: 1.1234567 has more than 6 decimal places'
+		);
+	});
+
+	it('should reject malformed amounts', () => {
+		expect(() => parseTokenAmount('1e18', 'token', 18)).toThrow(
+			'Invalid amount: 1e18 is not a valid decimal token amount'
+		);
+		expect(() => parseTokenAmount('-1', 'wei', 18)).toThrow(
+			'Invalid amount: -1 is not a valid integer wei amount'
+		);
+	});
+
+	it('should reject zero', () => {
+		expect(() => parseTokenAmount('0.0', 'token', 18)).toThrow(
+			'Invalid amount: amount must be greater than zero'
+		);
+	});
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ethers } from 'ethers';
+import { MULTICALL3_ABI } from '../../abis';
+import {
+	BlockPinnedProvider,
+	findBlockAtTimestamp,
+	resolveBlock,
+} from '../../utils/block';
+
+const transaction = {
+	to: '0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc',
+	data: '0x0902f1ac',
+};
+
+describe('block pinning', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should run calls without a block tag against the pinned block', async () => {
+		const call = vi
+			.spyOn(ethers.providers.JsonRpcProvider.prototype, 'call')
+			.mockResolvedValue('0x');
+		const provider = new BlockPinnedProvider(
+			new ethers.providers.JsonRpcProvider('http://127.0.0.1:8545'),
+			18000000
+		);
+
+		await provider.call(transaction);
+		await provider.call(transaction, 17000000);
+
+		expect(call.mock.calls.map(([, blockTag]) => blockTag)).toEqual([
+			18000000, 17000000,
+		]);
+	});
+
+	it('should batch pinned reads through Multicall3 when configured', async () => {
+		const multicall3Address = '0xcA11bde05977b3631167028862bE2a173976CA11';
+		const multicall3 = new ethers.utils.Interface(MULTICALL3_ABI);
+		const call = vi
+			.spyOn(ethers.providers.JsonRpcProvider.prototype, 'call')
+			.mockResolvedValue(
+				multicall3.encodeFunctionResult('aggregate3', [
+					[
+						[true, '0x01'],
+						[true, '0x02'],
+					],
+				])
+			);
+		const provider = new BlockPinnedProvider(
+			new ethers.providers.JsonRpcProvider('http://127.0.0.1:8545'),
+			18000000,
+			multicall3Address
+		);
+
+		expect(
+			await Promise.all([
+				provider.call(transaction),
+				provider.call({ ...transaction, data: '0x313ce567' }),
+			])
+		).toEqual(['0x01', '0x02']);
+		expect(call).toHaveBeenCalledTimes(1);
+		expect(call.mock.calls[0][0].to).toBe(multicall3Address);
+		expect(call.mock.calls[0][1]).toBe(18000000);
+	});
+
+	it('should send requests through the upstream provider', async () => {
+		const upstream = new ethers.providers.StaticJsonRpcProvider(
+			'http://127.0.0.1:8545',
+			1
+		);
+		const send = vi.spyOn(upstream, 'send').mockResolvedValue('0x01');
+		const provider = new BlockPinnedProvider(upstream, 18000000);
+
+		expect(await provider.call(transaction)).toBe('0x01');
+		expect(send).toHaveBeenCalledWith('eth_call', [
+			expect.objectContaining({ data: transaction.data }),
+			'0x112a880',
+		]);
+	});
+
+	it('should not check the chain before each tick of reads', async () => {
+		const upstream = new ethers.providers.StaticJsonRpcProvider(
+			'http://127.0.0.1:8545',
+			1
+		);
+		const send = vi.spyOn(upstream, 'send').mockResolvedValue('0x01');
+		const provider = new BlockPinnedProvider(upstream, 18000000);
+
+		await Promise.all([provider.call(transaction), provider.getNetwork()]);
+		await provider.call(transaction);
+
+		expect(send.mock.calls.map(([method]) => method)).toEqual([
+			'eth_call',
+			'eth_call',
+		]);
+	});
+
+	it('should resolve the number and timestamp of a block tag', async () => {
+		const provider = new ethers.providers.JsonRpcProvider();
+		const getBlock = vi
+			.spyOn(provider, 'getBlock')
+			.mockResolvedValue({ number: 18000000, timestamp: 1693066895 } as any);
+
+		expect(await resolveBlock(provider, 'finalized')).toEqual({
+			number: 18000000,
+			timestamp: 1693066895,
+		});
+		expect(getBlock).toHaveBeenCalledWith('finalized');
+	});
+
+	it('should reject a block the node does not know', async () => {
+		const provider = new ethers.providers.JsonRpcProvider();
+		vi.spyOn(provider, 'getBlock').mockResolvedValue(null as any);
+
+		await expect(resolveBlock(provider, 999999999)).rejects.toThrow(
+			'Invalid blockTag: block 999999999 not found'
+		);
+	});
+
+	describe('findBlockAtTimestamp', () => {
+		// 12 second blocks up to block 1000, then 2 second blocks
+		const timestampOf = (number: number) =>
+			number <= 1000 ? number * 12 : 12000 + (number - 1000) * 2;
+		const latest = { number: 20000, timestamp: timestampOf(20000) };
+
+		const createChain = () => {
+			const provider = new ethers.providers.JsonRpcProvider();
+			const getBlock = vi.spyOn(provider, 'getBlock').mockImplementation(
+				async (number) =>
+					({
+						number,
+						timestamp: timestampOf(number as number),
+					} as any)
+			);
+			return { provider, getBlock };
+		};
+
+		it('should find the last block at or before the timestamp', async () => {
+			const { provider, getBlock } = createChain();
+
+			expect(await findBlockAtTimestamp(provider, 49999, latest)).toEqual({
+				number: 19999,
+				timestamp: 49998,
+			});
+			expect(await findBlockAtTimestamp(provider, 6005, latest)).toEqual({
+				number: 500,
+				timestamp: 6000,
+			});
+			expect(getBlock.mock.calls.length).toBeLessThan(40);
+		});
+
+		it('should return the latest block for a timestamp after it', async () => {
+			const { provider, getBlock } = createChain();
+
+			expect(await findBlockAtTimestamp(provider, 60000, latest)).toBe(latest);
+			expect(getBlock).not.toHaveBeenCalled();
+		});
+
+		it('should reject a timestamp before the first block', async () => {
+			const { provider } = createChain();
+
+			await expect(findBlockAtTimestamp(provider, -1, latest)).rejects.toThrow(
+				'Invalid window: no block was mined before -1'
+			);
+		});
+	});
+});
@@ -1,5 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SimpleCache } from '../../utils/cache';
+import {
+	cacheEvictionsTotal,
+	cacheHitsTotal,
+	cacheMissesTotal,
+} from '../../utils/metrics';
 
 let cache: SimpleCache<string>;
 const maxSize = 3;
@@ -179,3 +184,49 @@ describe('SimpleCache constructor', () => {
 		expect(largeCache.get('key50')).toBe('value50');
 	});
 });
+
+describe('SimpleCache metrics', () => {
+	const countOf = async (
+		counter: typeof cacheHitsTotal,
+		labels: Record<string, string>
+	) =>
+		(await counter.get()).values
+			.filter((value) =>
+				Object.entries(labels).every(
+					([name, label]) => value.labels[name] === label
+				)
+			)
+			.reduce((sum, value) => sum + value.value, 0);
+
+	it('should count hits and misses under the cache name', async () => {
+		const namedCache = new SimpleCache<string>(maxSize, ttl, 'lookups');
+		namedCache.set('key1', 'value1');
+		namedCache.get('key1');
+		namedCache.get('key2');
+		vi.advanceTimersByTime(ttl + 100);
+		namedCache.get('key1');
+
+		expect(await countOf(cacheHitsTotal, { cache: 'lookups' })).toBe(1);
+		expect(await countOf(cacheMissesTotal, { cache: 'lookups' })).toBe(2);
+		expect(
+			await countOf(cacheEvictionsTotal, {
+				cache: 'lookups',
+				reason: 'expired',
+			})
+		).toBe(1);
+	});
+
+	it('should count entries evicted to make room', async () => {
+		const namedCache = new SimpleCache<string>(4, ttl, 'evictions');
+		for (let i = 0; i < 5; i++) {
+			namedCache.set(`key${i}`, `value${i}`);
+		}
+
+		expect(
+			await countOf(cacheEvictionsTotal, {
+				cache: 'evictions',
+				reason: 'capacity',
+			})
+		).toBe(1);
+	});
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+	ConcentratedLiquidityState,
+	MAX_SQRT_RATIO,
+	MAX_TICK,
+	MIN_SQRT_RATIO,
+	MIN_TICK,
+	Q96,
+	getSqrtRatioAtTick,
+	getTickWord,
+	simulateSwap,
+} from '../../utils/concentratedLiquidity';
+import { getAmountOut } from '../../utils/constantProduct';
+
+const { BigNumber } = ethers;
+
+const LIQUIDITY = BigNumber.from('1000000000000000000000');
+
+const createState = (
+	overrides: Partial<ConcentratedLiquidityState> = {}
+): ConcentratedLiquidityState => ({
+	sqrtPriceX96: Q96,
+	tick: 0,
+	liquidity: LIQUIDITY,
+	tickSpacing: 60,
+	feePips: 3000,
+	ticks: [
+		{ tick: -600, liquidityNet: LIQUIDITY },
+		{ tick: 600, liquidityNet: LIQUIDITY.mul(-1) },
+	],
+	minWord: -1,
+	maxWord: 1,
+	...overrides,
+});
+
+const relativeDifference = (
+	actual: ethers.BigNumber,
+	expected: ethers.BigNumber
+): number =>
+	actual.sub(expected).abs().mul(1_000_000_000).div(expected).toNumber() / 1e9;
+
+describe('getSqrtRatioAtTick', () => {
+	it('should match the TickMath bounds', () => {
+		expect(getSqrtRatioAtTick(0).eq(Q96)).toBe(true);
+		expect(getSqrtRatioAtTick(MIN_TICK).eq(MIN_SQRT_RATIO)).toBe(true);
+		expect(getSqrtRatioAtTick(MAX_TICK).eq(MAX_SQRT_RATIO)).toBe(true);
+	});
+
+	it.each([-200_000, -887, -1, 1, 60, 50_000, 300_000])(
+		'should approximate sqrt(1.0001^tick) at tick %s',
+		(tick) => {
+			const expected = Math.sqrt(Math.pow(1.0001, tick));
+			const actual =
+				parseFloat(getSqrtRatioAtTick(tick).toString()) /
+				parseFloat(Q96.toString());
+			expect(actual / expected).toBeCloseTo(1, 10);
+		}
+	);
+
+	it('should reject ticks outside the valid range', () => {
+		expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).toThrow('out of range');
+	});
+});
+
+describe('getTickWord', () => {
+	it('should compress ticks by spacing and round towards negative infinity', () => {
+		expect(getTickWord(0, 60)).toBe(0);
+		expect(getTickWord(15_359, 60)).toBe(0);
+		expect(getTickWord(15_360, 60)).toBe(1);
+		expect(getTickWord(-1, 60)).toBe(-1);
+		expect(getTickWord(-15_361, 60)).toBe(-2);
+	});
+});
+
+describe('simulateSwap', () => {
+	const amountIn = BigNumber.from('1000000000000000000');
+
+	it('should behave like a constant-product pool within one range', () => {
+		const state = createState();
+
+		expect(
+			relativeDifference(
+				simulateSwap(state, true, amountIn),
+				getAmountOut(amountIn, LIQUIDITY, LIQUIDITY, 30)
+			)
+		).toBeLessThan(1e-9);
+		expect(
+			relativeDifference(
+				simulateSwap(state, false, amountIn),
+				getAmountOut(amountIn, LIQUIDITY, LIQUIDITY, 30)
+			)
+		).toBeLessThan(1e-9);
+	});
+
+	it('should round-trip exact input and exact output amounts', () => {
+		const state = createState();
+		const amountOut = simulateSwap(state, true, amountIn);
+		const requiredIn = simulateSwap(state, true, amountOut.mul(-1));
+
+		expect(requiredIn.lte(amountIn)).toBe(true);
+		expect(relativeDifference(requiredIn, amountIn)).toBeLessThan(1e-9);
+	});
+
+	it('should apply liquidityNet when crossing initialized ticks', () => {
+		const deeper = createState({
+			ticks: [
+				{ tick: -1200, liquidityNet: LIQUIDITY.mul(2) },
+				{ tick: -120, liquidityNet: LIQUIDITY.mul(-1) },
+				{ tick: 600, liquidityNet: LIQUIDITY.mul(-1) },
+			],
+		});
+		const largeTrade = LIQUIDITY.div(50);
+
+		expect(
+			simulateSwap(deeper, true, largeTrade).gt(
+				simulateSwap(createState(), true, largeTrade)
+			)
+		).toBe(true);
+	});
+
+	it('should refuse swaps that leave the loaded ticks', () => {
+		expect(() => simulateSwap(createState(), true, LIQUIDITY)).toThrow(
+			'Insufficient liquidity: swap moves the price beyond the loaded ticks'
+		);
+	});
+
+	it('should refuse outputs larger than the liquidity in range', () => {
+		expect(() => simulateSwap(createState(), true, LIQUIDITY.mul(-1))).toThrow(
+			'Insufficient liquidity'
+		);
+	});
+});
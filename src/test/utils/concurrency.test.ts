@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { settleWithConcurrency } from '../../utils/concurrency';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('settleWithConcurrency', () => {
+	it('should keep at most the limit of calls in flight', async () => {
+		let inFlight = 0;
+		let maxInFlight = 0;
+
+		const results = await settleWithConcurrency(
+			[5, 1, 3, 2, 4],
+			2,
+			async (ms) => {
+				inFlight++;
+				maxInFlight = Math.max(maxInFlight, inFlight);
+				await delay(ms);
+				inFlight--;
+				return ms * 10;
+			}
+		);
+
+		expect(maxInFlight).toBe(2);
+		expect(results).toEqual(
+			[50, 10, 30, 20, 40].map((value) => ({ status: 'fulfilled', value }))
+		);
+	});
+
+	it('should settle failures without stopping the other items', async () => {
+		const error = new Error('No liquidity pool found');
+
+		const results = await settleWithConcurrency(
+			['a', 'b', 'c'],
+			1,
+			async (item, index) => {
+				if (item === 'b') {
+					throw error;
+				}
+				return `${item}${index}`;
+			}
+		);
+
+		expect(results).toEqual([
+			{ status: 'fulfilled', value: 'a0' },
+			{ status: 'rejected', reason: error },
+			{ status: 'fulfilled', value: 'c2' },
+		]);
+	});
+
+	it('should resolve an empty list', async () => {
+		expect(await settleWithConcurrency([], 4, async () => 1)).toEqual([]);
+	});
+});
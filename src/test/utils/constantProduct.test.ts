@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+	PoolHop,
+	getAmountIn,
+	getAmountInAlongPath,
+	getAmountOut,
+	getAmountOutAlongPath,
+	getSpotPrice,
+	solveAmountInForImpact,
+} from '../../utils/constantProduct';
+import { calculatePriceImpactBps } from '../../utils/price';
+
+const { BigNumber } = ethers;
+
+const impactOf = (amountIn: ethers.BigNumber, hops: PoolHop[]): number => {
+	const amountOut = getAmountOutAlongPath(amountIn, hops);
+	const reserveInProduct = hops.reduce(
+		(product, hop) => product.mul(hop.reserveIn),
+		BigNumber.from(1)
+	);
+	const reserveOutProduct = hops.reduce(
+		(product, hop) => product.mul(hop.reserveOut),
+		BigNumber.from(1)
+	);
+	const executed = amountOut
+		.mul(reserveInProduct)
+		.mul(1e9)
+		.div(amountIn.mul(reserveOutProduct));
+	return 1 - executed.toNumber() / 1e9;
+};
+
+describe('getAmountOut', () => {
+	it('should match the Uniswap V2 formula for a 0.3% fee', () => {
+		const reserveIn = BigNumber.from('1000000000000000000000');
+		const reserveOut = BigNumber.from('2000000000000000000000');
+		const amountIn = BigNumber.from('1000000000000000000');
+
+		const expected = amountIn
+			.mul(997)
+			.mul(reserveOut)
+			.div(reserveIn.mul(1000).add(amountIn.mul(997)));
+
+		expect(getAmountOut(amountIn, reserveIn, reserveOut, 30).eq(expected)).toBe(
+			true
+		);
+	});
+
+	it('should return zero for zero input', () => {
+		expect(
+			getAmountOut(
+				BigNumber.from(0),
+				BigNumber.from(1000),
+				BigNumber.from(1000),
+				30
+			).eq(0)
+		).toBe(true);
+	});
+});
+
+describe('getAmountIn', () => {
+	const reserveIn = BigNumber.from('1000000000000');
+	const reserveOut = BigNumber.from('500000000000000000000');
+
+	it('should return the minimal input for an exact output', () => {
+		const amountOut = BigNumber.from('1000000000000000000');
+		const amountIn = getAmountIn(amountOut, reserveIn, reserveOut, 30);
+
+		expect(
+			getAmountOut(amountIn, reserveIn, reserveOut, 30).gte(amountOut)
+		).toBe(true);
+		expect(
+			getAmountOut(amountIn.sub(1), reserveIn, reserveOut, 30).lt(amountOut)
+		).toBe(true);
+	});
+
+	it('should throw when the output is not below the reserve', () => {
+		expect(() => getAmountIn(reserveOut, reserveIn, reserveOut, 30)).toThrow(
+			'Insufficient liquidity'
+		);
+	});
+});
+
+describe('path helpers', () => {
+	const hops: PoolHop[] = [
+		{
+			reserveIn: BigNumber.from('1000000000000000000000'),
+			reserveOut: BigNumber.from('2000000000000'),
+			feeBps: 30,
+		},
+		{
+			reserveIn: BigNumber.from('5000000000000'),
+			reserveOut: BigNumber.from('5000000000000000000000'),
+			feeBps: 30,
+		},
+	];
+
+	it('should chain outputs through every hop', () => {
+		const amountIn = BigNumber.from('1000000000000000000');
+		const intermediate = getAmountOut(
+			amountIn,
+			hops[0].reserveIn,
+			hops[0].reserveOut,
+			30
+		);
+		const expected = getAmountOut(
+			intermediate,
+			hops[1].reserveIn,
+			hops[1].reserveOut,
+			30
+		);
+
+		expect(getAmountOutAlongPath(amountIn, hops).eq(expected)).toBe(true);
+	});
+
+	it('should return an input that covers the requested output', () => {
+		const amountOut = BigNumber.from('1000000000000000000');
+		const amountIn = getAmountInAlongPath(amountOut, hops);
+
+		expect(getAmountOutAlongPath(amountIn, hops).gte(amountOut)).toBe(true);
+	});
+
+	it('should measure price impact against the path spot price', () => {
+		const amountIn = BigNumber.from('1000000000000000000');
+		const amountOut = getAmountOutAlongPath(amountIn, hops);
+
+		expect(
+			calculatePriceImpactBps(amountIn, amountOut, getSpotPrice(hops))
+		).toBeCloseTo(impactOf(amountIn, hops) * 10_000, 1);
+	});
+});
+
+describe('solveAmountInForImpact', () => {
+	const reserveIn = BigNumber.from('1000000000000000000000000');
+	const reserveOut = BigNumber.from('2500000000000');
+	const hop = (feeBps = 30): PoolHop => ({ reserveIn, reserveOut, feeBps });
+
+	it.each([0.01, 0.05, 0.1, 0.25])(
+		'should hit a %s price impact exactly',
+		(target) => {
+			const amountIn = solveAmountInForImpact([hop()], target);
+			expect(impactOf(amountIn, [hop()])).toBeCloseTo(target, 6);
+		}
+	);
+
+	it('should account for a custom fee', () => {
+		const withLowerFee = solveAmountInForImpact([hop(25)], 0.01);
+		const withDefaultFee = solveAmountInForImpact([hop(30)], 0.01);
+		expect(withLowerFee.gt(withDefaultFee)).toBe(true);
+		expect(impactOf(withLowerFee, [hop(25)])).toBeCloseTo(0.01, 6);
+	});
+
+	it('should return zero when the target is not above the fee', () => {
+		expect(solveAmountInForImpact([hop()], 0.003).eq(0)).toBe(true);
+		expect(solveAmountInForImpact([hop()], 0.001).eq(0)).toBe(true);
+	});
+
+	it('should scale linearly with the input reserve', () => {
+		const single = solveAmountInForImpact([hop()], 0.05);
+		const double = solveAmountInForImpact(
+			[{ ...hop(), reserveIn: reserveIn.mul(2) }],
+			0.05
+		);
+		expect(double.sub(single.mul(2)).abs().lte(1)).toBe(true);
+	});
+
+	it.each([0.01, 0.05, 0.1])(
+		'should hit a %s price impact exactly across multiple hops',
+		(target) => {
+			const hops: PoolHop[] = [
+				hop(),
+				{
+					reserveIn: BigNumber.from('4000000000000'),
+					reserveOut: BigNumber.from('2000000000000000000000'),
+					feeBps: 30,
+				},
+				{
+					reserveIn: BigNumber.from('3000000000000000000000'),
+					reserveOut: BigNumber.from('9000000000000000000000'),
+					feeBps: 25,
+				},
+			];
+
+			const amountIn = solveAmountInForImpact(hops, target);
+			expect(impactOf(amountIn, hops)).toBeCloseTo(target, 6);
+		}
+	);
+
+	it('should treat the combined fee of all hops as zero depth', () => {
+		expect(solveAmountInForImpact([hop(), hop()], 0.0059).eq(0)).toBe(true);
+		expect(solveAmountInForImpact([hop(), hop()], 0.0061).gt(0)).toBe(true);
+	});
+});
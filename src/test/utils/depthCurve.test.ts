@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+	getDepthCurveAmounts,
+	parseDepthSpacing,
+	parseMaxImpact,
+	parsePointCount,
+} from '../../utils/depthCurve';
+
+describe('depth curve parameters', () => {
+	it('should apply defaults when parameters are missing', () => {
+		expect(parseMaxImpact(undefined)).toBe(0.1);
+		expect(parsePointCount(undefined)).toBe(50);
+		expect(parseDepthSpacing(undefined)).toBe('linear');
+	});
+
+	it('should parse the max impact as a percentage or bps', () => {
+		expect(parseMaxImpact('5')).toBe(0.05);
+		expect(parseMaxImpact('250bps')).toBe(0.025);
+		expect(() => parseMaxImpact('abc')).toThrow('Invalid maxImpact');
+		expect(() => parseMaxImpact(['1', '2'])).toThrow('Invalid maxImpact');
+	});
+
+	it('should reject point counts outside the allowed range', () => {
+		expect(parsePointCount('200')).toBe(200);
+		expect(() => parsePointCount('1')).toThrow(
+			'Invalid points: points must be an integer between 2 and 500'
+		);
+		expect(() => parsePointCount('501')).toThrow('Invalid points');
+		expect(() => parsePointCount('10.5')).toThrow('Invalid points');
+	});
+
+	it('should reject unknown spacings', () => {
+		expect(parseDepthSpacing('log')).toBe('log');
+		expect(() => parseDepthSpacing('quadratic')).toThrow(
+			'Invalid spacing: spacing must be "linear" or "log"'
+		);
+	});
+});
+
+describe('getDepthCurveAmounts', () => {
+	const maxAmount = ethers.BigNumber.from('1000000000000000000000');
+
+	it('should space amounts evenly from zero to the maximum', () => {
+		const amounts = getDepthCurveAmounts(maxAmount, 5, 'linear');
+
+		expect(amounts.map(String)).toEqual([
+			'0',
+			'250000000000000000000',
+			'500000000000000000000',
+			'750000000000000000000',
+			'1000000000000000000000',
+		]);
+	});
+
+	it('should space amounts geometrically over four decades', () => {
+		const amounts = getDepthCurveAmounts(maxAmount, 6, 'log');
+
+		expect(amounts.map(String)).toEqual([
+			'0',
+			'100000000000000000',
+			'1000000000000000000',
+			'10000000000000000000',
+			'100000000000000000000',
+			'1000000000000000000000',
+		]);
+	});
+
+	it('should return just the origin and maximum for two points', () => {
+		expect(getDepthCurveAmounts(maxAmount, 2, 'log').map(String)).toEqual([
+			'0',
+			'1000000000000000000000',
+		]);
+	});
+});
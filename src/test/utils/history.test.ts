@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+	downsampleSnapshots,
+	getHistoryInterval,
+	parseHistoryInterval,
+	parseHistoryTime,
+} from '../../utils/history';
+import { LiquiditySnapshot } from '../../types';
+
+const snapshotAt = (timestamp: number) => ({ timestamp } as LiquiditySnapshot);
+
+describe('history utils', () => {
+	describe('parseHistoryTime', () => {
+		it('should accept Unix seconds and ISO 8601 dates', () => {
+			expect(parseHistoryTime('1704067200', 'from', 0)).toBe(1704067200);
+			expect(parseHistoryTime('2024-01-01T00:00:00Z', 'from', 0)).toBe(
+				1704067200
+			);
+		});
+
+		it('should fall back when the parameter is missing', () => {
+			expect(parseHistoryTime(undefined, 'to', 42)).toBe(42);
+		});
+
+		it('should reject anything else', () => {
+			expect(() => parseHistoryTime('yesterday', 'from', 0)).toThrow(
+				'Invalid from: from must be a Unix timestamp in seconds or an ISO 8601 date'
+			);
+		});
+	});
+
+	describe('parseHistoryInterval', () => {
+		it('should parse seconds and unit suffixes', () => {
+			expect(parseHistoryInterval('300')).toBe(300);
+			expect(parseHistoryInterval('15m')).toBe(900);
+			expect(parseHistoryInterval('1h')).toBe(3600);
+			expect(parseHistoryInterval('2d')).toBe(172800);
+			expect(parseHistoryInterval(undefined)).toBeNull();
+		});
+
+		it('should reject zero and unknown units', () => {
+			expect(() => parseHistoryInterval('0')).toThrow('Invalid interval');
+			expect(() => parseHistoryInterval('1w')).toThrow('Invalid interval');
+		});
+	});
+
+	describe('downsampleSnapshots', () => {
+		it('should keep the last snapshot of each bucket', () => {
+			const snapshots = [0, 100, 3599, 3600, 7300, 7400].map(snapshotAt);
+
+			expect(
+				downsampleSnapshots(snapshots, 3600).map(({ timestamp }) => timestamp)
+			).toEqual([3599, 3600, 7400]);
+		});
+	});
+
+	describe('getHistoryInterval', () => {
+		it('should leave small results as recorded', () => {
+			expect(getHistoryInterval(288, 0, 86400, null)).toBeNull();
+		});
+
+		it('should keep a requested interval that fits', () => {
+			expect(getHistoryInterval(288, 0, 86400, 3600)).toBe(3600);
+		});
+
+		it('should widen the interval of results over the point limit', () => {
+			const interval = getHistoryInterval(5000, 0, 998000, 60) as number;
+			const snapshots = Array.from({ length: 5000 }, (_, index) =>
+				snapshotAt(index * 200)
+			);
+
+			expect(interval).toBe(1000);
+			expect(
+				downsampleSnapshots(snapshots, interval).length
+			).toBeLessThanOrEqual(1000);
+		});
+	});
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+	getAmountOut,
+	solveAmountInForImpact,
+} from '../../utils/constantProduct';
+import { searchAmountInForImpact } from '../../utils/impactSearch';
+
+const { BigNumber } = ethers;
+
+describe('searchAmountInForImpact', () => {
+	const reserveIn = BigNumber.from('1000000000000000000000000');
+	const reserveOut = BigNumber.from('2500000000000');
+	const quote = (amountIn: ethers.BigNumber) =>
+		getAmountOut(amountIn, reserveIn, reserveOut, 30);
+	const spotPrice = { numerator: reserveOut, denominator: reserveIn };
+
+	it.each([0.01, 0.05, 0.1, 0.5])(
+		'should agree with the closed form at %s impact',
+		(target) => {
+			const expected = solveAmountInForImpact(
+				[{ reserveIn, reserveOut, feeBps: 30 }],
+				target
+			);
+			const found = searchAmountInForImpact(quote, spotPrice, target);
+
+			expect(found.sub(expected).abs().mul(1_000_000).lte(expected)).toBe(true);
+		}
+	);
+
+	it('should return zero when the target is below the fee', () => {
+		expect(searchAmountInForImpact(quote, spotPrice, 0.002).eq(0)).toBe(true);
+	});
+
+	it('should stay below the size a pool can fill', () => {
+		const limit = BigNumber.from('1000000000000000000000');
+		const limited = (amountIn: ethers.BigNumber) => {
+			if (amountIn.gt(limit)) {
+				throw new Error('Insufficient liquidity');
+			}
+			return quote(amountIn);
+		};
+
+		const found = searchAmountInForImpact(limited, spotPrice, 0.5);
+		expect(found.lte(limit)).toBe(true);
+		expect(limit.sub(found).mul(1_000_000).lte(limit)).toBe(true);
+	});
+});
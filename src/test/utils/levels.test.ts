@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+	formatSlippageLevel,
+	formatUsdLevel,
+	parseSlippageLevels,
+	parseUsdLevels,
+} from '../../utils/levels';
+
+describe('parseSlippageLevels', () => {
+	it('should return default levels when parameter is missing', () => {
+		expect(parseSlippageLevels(undefined)).toEqual([0.01, 0.05, 0.1]);
+	});
+
+	it('should parse comma-separated percentages', () => {
+		expect(parseSlippageLevels('0.1,0.5,2,25')).toEqual([
+			0.001, 0.005, 0.02, 0.25,
+		]);
+	});
+
+	it('should parse percent and bps suffixes', () => {
+		expect(parseSlippageLevels('50bps,2%,10BPS')).toEqual([0.001, 0.005, 0.02]);
+	});
+
+	it('should accept repeated parameters', () => {
+		expect(parseSlippageLevels(['5', '1,10'])).toEqual([0.01, 0.05, 0.1]);
+	});
+
+	it('should sort and de-duplicate levels', () => {
+		expect(parseSlippageLevels('5,1,100bps,1%')).toEqual([0.01, 0.05]);
+		expect(parseSlippageLevels('0.7,70bps').map(formatSlippageLevel)).toEqual([
+			'0.7%',
+		]);
+		expect(parseSlippageLevels('1,2,3,4,5,6,7,8,9,0.7,70bps')).toHaveLength(10);
+	});
+
+	it('should reject malformed values', () => {
+		expect(() => parseSlippageLevels('abc')).toThrow(
+			'Invalid levels: "abc" is not a percentage'
+		);
+		expect(() => parseSlippageLevels('-1')).toThrow('Invalid levels');
+		expect(() => parseSlippageLevels('1pct')).toThrow('Invalid levels');
+	});
+
+	it('should reject levels outside the allowed range', () => {
+		expect(() => parseSlippageLevels('100')).toThrow(
+			'Invalid levels: "100" must be between 0.01% and 99%'
+		);
+		expect(() => parseSlippageLevels('0')).toThrow('must be between');
+		expect(() => parseSlippageLevels('0.5bps')).toThrow('must be between');
+	});
+
+	it('should reject empty lists', () => {
+		expect(() => parseSlippageLevels('')).toThrow(
+			'Invalid levels: at least one level is required'
+		);
+		expect(() => parseSlippageLevels(' , ')).toThrow(
+			'Invalid levels: at least one level is required'
+		);
+	});
+
+	it('should reject more than the maximum number of levels', () => {
+		expect(() => parseSlippageLevels('1,2,3,4,5,6,7,8,9,10,11')).toThrow(
+			'Invalid levels: at most 10 levels can be requested'
+		);
+	});
+
+	it('should reject non-string values', () => {
+		expect(() => parseSlippageLevels({ a: '1' })).toThrow(
+			'Invalid levels: levels must be a list of strings'
+		);
+	});
+});
+
+describe('formatSlippageLevel', () => {
+	it('should format levels as percentage keys', () => {
+		expect(formatSlippageLevel(0.01)).toBe('1%');
+		expect(formatSlippageLevel(0.001)).toBe('0.1%');
+		expect(formatSlippageLevel(0.0015)).toBe('0.15%');
+		expect(formatSlippageLevel(0.25)).toBe('25%');
+		expect(formatSlippageLevel(0.07)).toBe('7%');
+	});
+});
+
+describe('parseUsdLevels', () => {
+	it('should leave USD levels out when not requested', () => {
+		expect(parseUsdLevels(undefined)).toBeUndefined();
+	});
+
+	it('should parse dollar amounts with thousand and million suffixes', () => {
+		expect(parseUsdLevels(['1m,$50k', '1000', '$1000'])).toEqual([
+			1000, 50000, 1000000,
+		]);
+	});
+
+	it('should reject amounts that are not positive', () => {
+		expect(() => parseUsdLevels('0')).toThrow(
+			'Invalid usdLevels: "0" is not a USD amount'
+		);
+		expect(() => parseUsdLevels('ten')).toThrow('Invalid usdLevels');
+	});
+});
+
+describe('formatUsdLevel', () => {
+	it('should format notionals as dollar keys', () => {
+		expect(formatUsdLevel(10000)).toBe('$10000');
+		expect(formatUsdLevel(0.5)).toBe('$0.5');
+	});
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { MULTICALL3_ABI } from '../../abis';
+import { MulticallBatcher, isBatchableCall } from '../../utils/multicall';
+
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+const multicall3 = new ethers.utils.Interface(MULTICALL3_ABI);
+
+const pair = '0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc';
+const token = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const getReserves = { to: pair, data: '0x0902f1ac' };
+const decimals = { to: token, data: '0x313ce567' };
+
+type Result = [boolean, string];
+
+/** Answers aggregate3 with `results` and other calls with their calldata. */
+const createSend = (results: (calls: any[]) => Result[]) =>
+	vi.fn(async (transaction: { to: string; data: string }) => {
+		if (transaction.to !== MULTICALL3_ADDRESS) {
+			return transaction.data;
+		}
+		const [calls] = multicall3.decodeFunctionData(
+			'aggregate3',
+			transaction.data
+		);
+		return multicall3.encodeFunctionResult('aggregate3', [results(calls)]);
+	});
+
+describe('multicall', () => {
+	describe('MulticallBatcher', () => {
+		it('should send the calls of one tick as a single aggregate3', async () => {
+			const send = createSend((calls) =>
+				calls.map(({ callData }) => [true, `${callData}00`])
+			);
+			const batcher = new MulticallBatcher(MULTICALL3_ADDRESS, send);
+
+			const results = await Promise.all([
+				batcher.call(getReserves, 18000000),
+				batcher.call(decimals, 18000000),
+			]);
+
+			expect(results).toEqual(['0x0902f1ac00', '0x313ce56700']);
+			expect(send).toHaveBeenCalledTimes(1);
+			expect(send.mock.calls[0][0].to).toBe(MULTICALL3_ADDRESS);
+			expect(send.mock.calls[0][1]).toBe(18000000);
+			const [calls] = multicall3.decodeFunctionData(
+				'aggregate3',
+				send.mock.calls[0][0].data
+			);
+			expect(calls.map(({ allowFailure }: any) => allowFailure)).toEqual([
+				true,
+				true,
+			]);
+		});
+
+		it('should batch each block separately and send lone calls directly', async () => {
+			const send = createSend((calls) =>
+				calls.map(({ callData }) => [true, callData])
+			);
+			const batcher = new MulticallBatcher(MULTICALL3_ADDRESS, send);
+
+			await Promise.all([
+				batcher.call(getReserves, 18000000),
+				batcher.call(decimals, 18000000),
+				batcher.call(getReserves, 17000000),
+			]);
+
+			expect(
+				send.mock.calls.map(([{ to }, blockTag]) => [to, blockTag])
+			).toEqual(
+				expect.arrayContaining([
+					[MULTICALL3_ADDRESS, 18000000],
+					[pair, 17000000],
+				])
+			);
+			expect(send).toHaveBeenCalledTimes(2);
+		});
+
+		it('should fail only the calls that reverted', async () => {
+			const revertData = ethers.utils.id('Error(string)').slice(0, 10);
+			const send = createSend(() => [
+				[false, '0x'],
+				[false, revertData],
+			]);
+			const batcher = new MulticallBatcher(MULTICALL3_ADDRESS, send);
+
+			const [reserves, decimalsData] = await Promise.allSettled([
+				batcher.call(getReserves, 18000000),
+				batcher.call(decimals, 18000000),
+			]);
+
+			expect(reserves.status).toBe('rejected');
+			expect((reserves as PromiseRejectedResult).reason.code).toBe(
+				ethers.errors.CALL_EXCEPTION
+			);
+			// Revert data is returned for the caller to decode, as eth_call does
+			expect(decimalsData).toEqual({ status: 'fulfilled', value: revertData });
+		});
+
+		it('should send the calls one by one when aggregate3 fails', async () => {
+			const send = vi.fn(async (transaction: { to: string; data: string }) => {
+				if (transaction.to === MULTICALL3_ADDRESS) {
+					throw new Error('execution reverted: out of gas');
+				}
+				return transaction.data;
+			});
+			const batcher = new MulticallBatcher(MULTICALL3_ADDRESS, send);
+
+			expect(
+				await Promise.all([
+					batcher.call(getReserves, 18000000),
+					batcher.call(decimals, 18000000),
+				])
+			).toEqual([getReserves.data, decimals.data]);
+			expect(send).toHaveBeenCalledTimes(3);
+		});
+
+		it('should stop batching on chains without Multicall3', async () => {
+			const send = vi.fn(async (transaction: { to: string; data: string }) =>
+				transaction.to === MULTICALL3_ADDRESS ? '0x' : transaction.data
+			);
+			const batcher = new MulticallBatcher(MULTICALL3_ADDRESS, send);
+
+			await Promise.all([
+				batcher.call(getReserves, 18000000),
+				batcher.call(decimals, 18000000),
+			]);
+			send.mockClear();
+			await Promise.all([
+				batcher.call(getReserves, 18000000),
+				batcher.call(decimals, 18000000),
+			]);
+
+			expect(send.mock.calls.map(([{ to }]) => to)).toEqual([pair, token]);
+		});
+	});
+
+	describe('isBatchableCall', () => {
+		it('should accept plain reads only', () => {
+			expect(isBatchableCall(getReserves)).toBe(true);
+			expect(isBatchableCall({ ...getReserves, from: undefined })).toBe(true);
+			expect(isBatchableCall({ ...getReserves, value: 1 })).toBe(false);
+			expect(isBatchableCall({ to: Promise.resolve(pair), data: '0x' })).toBe(
+				false
+			);
+		});
+	});
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { getMidPrice, getSpreadBps, invertPrice } from '../../utils/orderBook';
+import { PriceRatio } from '../../utils/price';
+
+const price = (numerator: number, denominator: number): PriceRatio => ({
+	numerator: ethers.BigNumber.from(numerator),
+	denominator: ethers.BigNumber.from(denominator),
+});
+
+const toNumber = ({ numerator, denominator }: PriceRatio) =>
+	numerator.toNumber() / denominator.toNumber();
+
+describe('order book prices', () => {
+	it('should take the midpoint of the bid and ask', () => {
+		expect(toNumber(getMidPrice(price(99, 100), price(101, 100)))).toBe(1);
+	});
+
+	it('should measure the spread against the mid price', () => {
+		expect(getSpreadBps(price(99, 100), price(101, 100))).toBe(200);
+	});
+
+	it('should report a crossed book as a negative spread', () => {
+		expect(getSpreadBps(price(101, 100), price(99, 100))).toBe(-200);
+	});
+
+	it('should invert a price', () => {
+		expect(toNumber(invertPrice(price(1, 4)))).toBe(4);
+	});
+});
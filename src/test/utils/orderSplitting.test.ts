@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+	PoolHop,
+	getAmountOut,
+	getSpotPrice,
+	solveAmountInForImpact,
+} from '../../utils/constantProduct';
+import {
+	getBestSpotPrice,
+	sampleDepthCurve,
+	splitAmountInForImpact,
+} from '../../utils/orderSplitting';
+
+const { BigNumber } = ethers;
+
+const hop = (reserveIn: string, reserveOut: string, feeBps = 30): PoolHop => ({
+	reserveIn: BigNumber.from(reserveIn),
+	reserveOut: BigNumber.from(reserveOut),
+	feeBps,
+});
+
+const quoteFor = (pool: PoolHop) => (amountIn: ethers.BigNumber) =>
+	getAmountOut(amountIn, pool.reserveIn, pool.reserveOut, pool.feeBps);
+
+const split = (pools: PoolHop[], targetImpact: number) => {
+	const spotPrice = getBestSpotPrice(pools.map((pool) => getSpotPrice([pool])));
+	const legs = pools.map((pool) => ({
+		quote: quoteFor(pool),
+		curve: sampleDepthCurve(quoteFor(pool), spotPrice),
+	}));
+	return splitAmountInForImpact(legs, spotPrice, targetImpact).amountsIn;
+};
+
+const relativeDifference = (a: ethers.BigNumber, b: ethers.BigNumber) =>
+	Math.abs(a.sub(b).mul(1_000_000).div(b).toNumber()) / 1_000_000;
+
+describe('order splitting', () => {
+	const pool = hop('1000000000000000000000', '2000000000000');
+
+	it('should sample a concave curve up to the marginal floor', () => {
+		const curve = sampleDepthCurve(quoteFor(pool), getSpotPrice([pool]));
+
+		expect(curve[0].amountIn.eq(0)).toBe(true);
+		for (let i = 2; i < curve.length; i++) {
+			const previousSlope = curve[i - 1].amountOut
+				.sub(curve[i - 2].amountOut)
+				.mul(curve[i].amountIn.sub(curve[i - 1].amountIn));
+			const slope = curve[i].amountOut
+				.sub(curve[i - 1].amountOut)
+				.mul(curve[i - 1].amountIn.sub(curve[i - 2].amountIn));
+			expect(slope.lt(previousSlope)).toBe(true);
+		}
+		expect(curve[curve.length - 1].amountIn.gt(pool.reserveIn)).toBe(true);
+	});
+
+	it('should stop sampling where the quote throws', () => {
+		const limit = BigNumber.from('5000000000000000000');
+		const curve = sampleDepthCurve((amountIn) => {
+			if (amountIn.gt(limit)) {
+				throw new Error('Insufficient liquidity');
+			}
+			return quoteFor(pool)(amountIn);
+		}, getSpotPrice([pool]));
+
+		expect(curve[curve.length - 1].amountIn.lte(limit)).toBe(true);
+	});
+
+	it('should match a single pool of the combined reserves for identical pools', () => {
+		const allocations = split([pool, pool], 0.05);
+		const combined = solveAmountInForImpact(
+			[
+				hop(
+					pool.reserveIn.mul(2).toString(),
+					pool.reserveOut.mul(2).toString()
+				),
+			],
+			0.05
+		);
+
+		expect(relativeDifference(allocations[0], allocations[1])).toBeLessThan(
+			1e-9
+		);
+		expect(
+			relativeDifference(allocations[0].add(allocations[1]), combined)
+		).toBeLessThan(0.01);
+	});
+
+	it('should allocate in proportion to depth for pools at the same price', () => {
+		const deep = hop('3000000000000000000000', '6000000000000');
+		const [shallowIn, deepIn] = split([pool, deep], 0.05);
+
+		expect(relativeDifference(deepIn, shallowIn.mul(3))).toBeLessThan(0.02);
+	});
+
+	it('should stay within the target impact', () => {
+		const other = hop('500000000000000000000', '990000000000', 5);
+		const pools = [pool, other];
+		const allocations = split(pools, 0.02);
+		const spotPrice = getBestSpotPrice(pools.map((p) => getSpotPrice([p])));
+
+		const amountIn = allocations[0].add(allocations[1]);
+		const amountOut = quoteFor(pool)(allocations[0]).add(
+			quoteFor(other)(allocations[1])
+		);
+		// Execution price as a fraction of spot, in millionths
+		const executed = amountOut
+			.mul(spotPrice.denominator)
+			.mul(1_000_000)
+			.div(amountIn.mul(spotPrice.numerator))
+			.toNumber();
+
+		expect(executed).toBeGreaterThanOrEqual(980_000);
+		expect(executed).toBeLessThan(980_100);
+	});
+
+	it('should skip a pool whose price is worse than the target allows', () => {
+		const worse = hop('1000000000000000000000', '1900000000000');
+		const [best, skipped] = split([pool, worse], 0.01);
+
+		expect(best.gt(0)).toBe(true);
+		expect(skipped.eq(0)).toBe(true);
+	});
+
+	it('should return zero allocations when the target is below the fee', () => {
+		const allocations = split([pool, pool], 0.002);
+
+		expect(allocations.every((amount) => amount.eq(0))).toBe(true);
+	});
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ethers } from 'ethers';
+import { getChainConfig, parseRpcUrls } from '../../config/chains';
+import {
+	FailoverProvider,
+	ProviderManager,
+	RpcEndpoint,
+	isEndpointError,
+} from '../../utils/providerManager';
+import { rpcRequestDuration, rpcRequestsTotal } from '../../utils/metrics';
+
+const timeoutError = () =>
+	ethers.logger.makeError('timeout', ethers.errors.TIMEOUT, {});
+const rpcError = (message: string) =>
+	ethers.logger.makeError(
+		'processing response error',
+		ethers.errors.SERVER_ERROR,
+		{
+			error: new Error(message),
+		}
+	);
+
+const createProvider = (count: number) => {
+	const endpoints = Array.from(
+		{ length: count },
+		(_, index) => new RpcEndpoint(`https://rpc${index}.example.com`, 1)
+	);
+	const sends = endpoints.map((endpoint) =>
+		vi.spyOn(endpoint.provider, 'send')
+	);
+	return { provider: new FailoverProvider(endpoints, 1), endpoints, sends };
+};
+
+describe('provider manager', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('isEndpointError', () => {
+		it('should accept transport failures and overloaded nodes', () => {
+			expect(isEndpointError(timeoutError())).toBe(true);
+			expect(
+				isEndpointError(
+					ethers.logger.makeError('bad response', ethers.errors.SERVER_ERROR, {
+						status: 429,
+					})
+				)
+			).toBe(true);
+			expect(isEndpointError(rpcError('daily request limit exceeded'))).toBe(
+				true
+			);
+			expect(isEndpointError(rpcError('missing trie node abc'))).toBe(true);
+		});
+
+		it('should reject errors of the request itself', () => {
+			expect(isEndpointError(rpcError('execution reverted'))).toBe(false);
+			expect(isEndpointError(new Error('Invalid address'))).toBe(false);
+			expect(isEndpointError(null)).toBe(false);
+			expect(isEndpointError('timeout')).toBe(false);
+		});
+	});
+
+	describe('FailoverProvider', () => {
+		it('should retry a failed request on the next endpoint', async () => {
+			const { provider, endpoints, sends } = createProvider(2);
+			sends[0].mockRejectedValue(timeoutError());
+			sends[1].mockResolvedValue('0x112a880');
+
+			expect(await provider.send('eth_blockNumber', [])).toBe('0x112a880');
+			expect(sends[0]).toHaveBeenCalledTimes(1);
+			expect(sends[1]).toHaveBeenCalledWith('eth_blockNumber', []);
+			expect(endpoints[0].errorRate).toBeGreaterThan(0);
+			expect(endpoints[1].latencyMs).not.toBeNull();
+		});
+
+		it('should record every attempt by chain, method and outcome', async () => {
+			const { provider, sends } = createProvider(2);
+			sends[0].mockRejectedValue(timeoutError());
+			sends[1].mockResolvedValue('0x');
+
+			await provider.send('eth_getCode', []);
+
+			const counts = (await rpcRequestsTotal.get()).values.filter(
+				({ labels }) => labels.method === 'eth_getCode'
+			);
+			expect(
+				counts.map(({ labels, value }) => [labels.chain, labels.status, value])
+			).toEqual([
+				['1', 'error', 1],
+				['1', 'ok', 1],
+			]);
+			const durations = (await rpcRequestDuration.get()).values.find(
+				({ labels, metricName }) =>
+					labels.method === 'eth_getCode' &&
+					metricName === 'rpc_request_duration_seconds_count'
+			);
+			expect(durations?.value).toBe(2);
+		});
+
+		it('should not retry errors of the request itself', async () => {
+			const { provider, endpoints, sends } = createProvider(2);
+			const error = rpcError('execution reverted');
+			sends[0].mockRejectedValue(error);
+
+			await expect(provider.send('eth_call', [])).rejects.toBe(error);
+			expect(sends[1]).not.toHaveBeenCalled();
+			expect(endpoints[0].errorRate).toBe(0);
+		});
+
+		it('should throw the last error once every attempt failed', async () => {
+			const { provider, sends } = createProvider(1);
+			sends[0].mockRejectedValue(timeoutError());
+
+			await expect(provider.send('eth_blockNumber', [])).rejects.toMatchObject({
+				code: ethers.errors.TIMEOUT,
+			});
+			expect(sends[0]).toHaveBeenCalledTimes(3);
+		});
+
+		it('should prefer the endpoint with the best score', () => {
+			const { provider, endpoints } = createProvider(3);
+			endpoints[0].recordSuccess(400);
+			endpoints[1].recordSuccess(100);
+			endpoints[2].recordSuccess(50);
+			endpoints[2].recordFailure();
+
+			// 50ms with a 20% error rate scores as 150ms
+			expect(provider.selectEndpoint()).toBe(endpoints[1]);
+			expect(provider.selectEndpoint(new Set([endpoints[1]]))).toBe(
+				endpoints[2]
+			);
+		});
+
+		it('should rest an endpoint after consecutive failures', () => {
+			const { provider, endpoints } = createProvider(2);
+			endpoints[0].recordSuccess(10);
+			endpoints[1].recordSuccess(1000);
+			for (let i = 0; i < 3; i++) {
+				endpoints[0].recordFailure();
+			}
+
+			expect(endpoints[0].isAvailable()).toBe(false);
+			expect(provider.selectEndpoint()).toBe(endpoints[1]);
+			expect(endpoints[0].isAvailable(Date.now() + 30000)).toBe(true);
+		});
+	});
+
+	describe('ProviderManager', () => {
+		it('should reuse one provider per chain over its configured endpoints', () => {
+			const manager = new ProviderManager();
+			const provider = manager.getProvider(1);
+
+			expect(manager.getProvider(1)).toBe(provider);
+			expect(provider.endpoints.map(({ url }) => url)).toEqual(
+				getChainConfig(1).rpcUrls
+			);
+			expect(manager.getProvider(137)).not.toBe(provider);
+		});
+	});
+
+	describe('parseRpcUrls', () => {
+		it('should split comma-separated URLs', () => {
+			expect(
+				parseRpcUrls(' https://a.example.com, https://b.example.com,', [])
+			).toEqual(['https://a.example.com', 'https://b.example.com']);
+		});
+
+		it('should fall back to the defaults when unset or empty', () => {
+			const defaults = ['https://ethereum.publicnode.com'];
+			expect(parseRpcUrls(undefined, defaults)).toBe(defaults);
+			expect(parseRpcUrls('', defaults)).toBe(defaults);
+		});
+	});
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { buildCandidatePaths, getPairKey } from '../../utils/routing';
+
+describe('buildCandidatePaths', () => {
+	const bases = ['0xWETH', '0xUSDC', '0xDAI'];
+
+	it('should start with the direct pair', () => {
+		expect(buildCandidatePaths('0xA', '0xB', bases, 3)[0]).toEqual([
+			'0xA',
+			'0xB',
+		]);
+	});
+
+	it('should only return the direct pair for one hop', () => {
+		expect(buildCandidatePaths('0xA', '0xB', bases, 1)).toEqual([
+			['0xA', '0xB'],
+		]);
+	});
+
+	it('should add a two-hop path through each base token', () => {
+		expect(buildCandidatePaths('0xA', '0xB', bases, 2)).toEqual([
+			['0xA', '0xB'],
+			['0xA', '0xWETH', '0xB'],
+			['0xA', '0xUSDC', '0xB'],
+			['0xA', '0xDAI', '0xB'],
+		]);
+	});
+
+	it('should add three-hop paths through ordered pairs of base tokens', () => {
+		const paths = buildCandidatePaths('0xA', '0xB', bases, 3);
+
+		expect(paths).toHaveLength(1 + 3 + 6);
+		expect(paths).toContainEqual(['0xA', '0xWETH', '0xUSDC', '0xB']);
+		expect(paths).toContainEqual(['0xA', '0xUSDC', '0xWETH', '0xB']);
+	});
+
+	it('should skip base tokens that are an endpoint', () => {
+		const paths = buildCandidatePaths('0xweth', '0xB', bases, 3);
+
+		expect(paths).toEqual([
+			['0xweth', '0xB'],
+			['0xweth', '0xUSDC', '0xB'],
+			['0xweth', '0xDAI', '0xB'],
+			['0xweth', '0xUSDC', '0xDAI', '0xB'],
+			['0xweth', '0xDAI', '0xUSDC', '0xB'],
+		]);
+	});
+});
+
+describe('getPairKey', () => {
+	it('should not depend on token order or case', () => {
+		expect(getPairKey('0xAB', '0xcd')).toBe(getPairKey('0xCD', '0xab'));
+	});
+});
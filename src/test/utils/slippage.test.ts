@@ -1,9 +1,22 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ethers } from 'ethers';
 import {
+	buildAggregatedDepth,
+	calculateAggregatedQuote,
+	calculateNotionalQuote,
 	calculateSlippageQuote,
 	SlippageCalculationParams,
 } from '../../utils/slippage';
+import {
+	PoolHop,
+	getAmountOutAlongPath,
+	solveAmountInForImpact,
+} from '../../utils/constantProduct';
+import { UniswapV2Adapter } from '../../adapters/uniswapV2';
+import { UniswapV3Adapter, UniswapV3PoolState } from '../../adapters/uniswapV3';
+import { Q96 } from '../../utils/concentratedLiquidity';
+import { SwapStep } from '../../adapters/types';
+import { slippageBisectionIterations } from '../../utils/metrics';
 
 vi.mock('../../utils/timeout', () => ({
 	withTimeout: vi.fn((promise) => promise),
@@ -11,158 +24,433 @@ vi.mock('../../utils/timeout', () => ({
 
 vi.mock('../../constants', () => ({
 	TIMEOUT_CONFIG: { RPC_CALL_TIMEOUT: 5000 },
+	SLIPPAGE_CONFIG: { ROUTER_TOLERANCE_BPS: 1 },
+	TOKEN_METADATA_CONFIG: {},
 }));
 
-vi.mock('ethers', async () => {
-	const actual = await vi.importActual('ethers');
-	return {
-		...actual,
-		Contract: vi.fn().mockImplementation(() => ({ getAmountsOut: vi.fn() })),
-	};
-});
+vi.mock('../../utils/metrics', () => ({
+	slippageBisectionIterations: { observe: vi.fn() },
+}));
 
 describe('calculateSlippageQuote', () => {
 	let mockRouter: ethers.Contract;
+	const hop = (
+		reserveIn: string,
+		reserveOut: string,
+		feeBps = 30
+	): PoolHop => ({
+		reserveIn: ethers.BigNumber.from(reserveIn),
+		reserveOut: ethers.BigNumber.from(reserveOut),
+		feeBps,
+	});
+
+	const adapter = new UniswapV2Adapter({
+		type: 'uniswap-v2',
+		name: 'Uniswap V2',
+		factoryAddress: '0xFactory',
+		routerAddress: '0xRouter',
+		feeBps: 30,
+	});
+
+	const toSteps = (path: string[], hops: PoolHop[]): SwapStep[] =>
+		hops.map((hop, index) => ({
+			adapter,
+			tokenIn: path[index],
+			tokenOut: path[index + 1],
+			state: {
+				pool: {
+					dex: 'Uniswap V2',
+					address: `0xPair${index}`,
+					tokens: [path[index], path[index + 1]],
+					feeBps: hop.feeBps,
+				},
+				reserves: [hop.reserveIn, hop.reserveOut],
+			},
+		}));
+
+	const paramsFor = (
+		hops: PoolHop[],
+		path = ['0xTokenA', '0xTokenB']
+	): SlippageCalculationParams => ({
+		path,
+		steps: toSteps(path, hops),
+		targetSlippage: 0.01,
+		sellTokenDecimals: 18,
+		buyTokenDecimals: 18,
+	});
+
+	const baseHops = [hop('1000000000000000000000', '2000000000000000000000')];
+	const baseParams = paramsFor(baseHops);
+
+	const expectedAmounts = (hops: PoolHop[], targetSlippage = 0.01) => {
+		const sellAmount = solveAmountInForImpact(hops, targetSlippage);
+		const buyAmount = getAmountOutAlongPath(sellAmount, hops);
+		return { sellAmount, buyAmount };
+	};
 
 	beforeEach(() => {
 		mockRouter = {
 			getAmountsOut: vi.fn(),
 		} as any;
+		vi.mocked(slippageBisectionIterations.observe).mockClear();
 	});
 
-	it('should calculate slippage quote successfully', async () => {
-		const mockAmountsOut = [
-			ethers.BigNumber.from('1000000000000000000'),
-			ethers.BigNumber.from('2000000000000000000'),
-		];
-		vi.spyOn(mockRouter, 'getAmountsOut').mockResolvedValue(mockAmountsOut);
-		const params: SlippageCalculationParams = {
-			router: mockRouter,
+	it('should calculate slippage quote locally without router calls', async () => {
+		const result = await calculateSlippageQuote(baseParams);
+		const { sellAmount, buyAmount } = expectedAmounts(baseHops);
+
+		expect(result).toEqual({
+			dex: 'Uniswap V2',
+			sellAmount: ethers.utils.formatUnits(sellAmount, 18),
+			buyAmount: ethers.utils.formatUnits(buyAmount, 18),
+			sellAmountUsd: null,
+			buyAmountUsd: null,
 			path: ['0xTokenA', '0xTokenB'],
-			reserveSell: ethers.BigNumber.from('1000000000000000000000'),
-			reserveBuy: ethers.BigNumber.from('2000000000000000000000'),
-			targetSlippage: 0.01,
-			sellTokenDecimals: 18,
-			buyTokenDecimals: 18,
-		};
-		const result = await calculateSlippageQuote(params);
-		expect(result).toHaveProperty('sellAmount');
-		expect(result).toHaveProperty('buyAmount');
-		expect(typeof result.sellAmount).toBe('string');
-		expect(typeof result.buyAmount).toBe('string');
+			pools: [{ dex: 'Uniswap V2', address: '0xPair0', feeBps: 30 }],
+			priceImpactBps: expect.any(Number),
+			lpFeeBps: 30,
+			curveImpactBps: expect.any(Number),
+		});
+		expect(mockRouter.getAmountsOut).not.toHaveBeenCalled();
+		expect(slippageBisectionIterations.observe).toHaveBeenCalledWith(0);
+	});
+
+	it('should quote a trade size that was already solved', async () => {
+		const sellAmount = ethers.utils.parseUnits('1', 18);
+
+		const result = await calculateSlippageQuote({
+			...baseParams,
+			solution: { sellAmount, iterations: 7 },
+		});
+
+		expect(result.sellAmount).toBe('1.0');
+		expect(slippageBisectionIterations.observe).toHaveBeenCalledWith(7);
+	});
+
+	it('should split the price impact into the LP fee and curve impact', async () => {
+		const result = await calculateSlippageQuote(baseParams);
+
+		expect(result.priceImpactBps).toBeCloseTo(100, 1);
+		expect(result.lpFeeBps).toBe(30);
+		expect(result.curveImpactBps).toBeCloseTo(result.priceImpactBps - 30, 2);
+	});
+
+	it('should format amounts with token decimals', async () => {
+		const hops = [hop('5000000000000', '2000000000000000000000')];
+		const result = await calculateSlippageQuote({
+			...paramsFor(hops),
+			sellTokenDecimals: 6,
+		});
+		const { sellAmount } = expectedAmounts(hops);
+
+		expect(result.sellAmount).toBe(ethers.utils.formatUnits(sellAmount, 6));
 		expect(parseFloat(result.sellAmount)).toBeGreaterThan(0);
 		expect(parseFloat(result.buyAmount)).toBeGreaterThan(0);
 	});
 
-	it('should throw error when reserveSell is zero', async () => {
-		const params: SlippageCalculationParams = {
-			router: mockRouter,
-			path: ['0xTokenA', '0xTokenB'],
-			reserveSell: ethers.BigNumber.from('0'),
-			reserveBuy: ethers.BigNumber.from('2000000000000000000000'),
-			targetSlippage: 0.01,
-			sellTokenDecimals: 18,
-			buyTokenDecimals: 18,
-		};
-		await expect(calculateSlippageQuote(params)).rejects.toThrow(
-			'Reserve amounts are zero - cannot calculate price'
+	it('should use a custom fee when provided', async () => {
+		const hops = [hop('1000000000000000000000', '2000000000000000000000', 25)];
+		const result = await calculateSlippageQuote(paramsFor(hops));
+		const { sellAmount } = expectedAmounts(hops);
+
+		expect(result.sellAmount).toBe(ethers.utils.formatUnits(sellAmount, 18));
+	});
+
+	it('should value both amounts in USD when prices are given', async () => {
+		const result = await calculateSlippageQuote({
+			...baseParams,
+			usdPrices: {
+				// $2 per token A, token B unpriced
+				sellToken: {
+					numerator: ethers.BigNumber.from(2),
+					denominator: ethers.BigNumber.from(10).pow(12),
+					decimals: 6,
+				},
+				buyToken: null,
+			},
+		});
+		const { sellAmount } = expectedAmounts(baseHops);
+
+		expect(result.sellAmountUsd).toBe(
+			ethers.utils.formatUnits(
+				sellAmount.mul(2).div(ethers.BigNumber.from(10).pow(16)),
+				2
+			)
 		);
+		expect(result.buyAmountUsd).toBeNull();
 	});
 
-	it('should throw error when reserveBuy is zero', async () => {
-		const params: SlippageCalculationParams = {
-			router: mockRouter,
-			path: ['0xTokenA', '0xTokenB'],
-			reserveSell: ethers.BigNumber.from('1000000000000000000000'),
-			reserveBuy: ethers.BigNumber.from('0'),
-			targetSlippage: 0.01,
-			sellTokenDecimals: 18,
-			buyTokenDecimals: 18,
-		};
-		await expect(calculateSlippageQuote(params)).rejects.toThrow(
-			'Reserve amounts are zero - cannot calculate price'
+	it('should quote a fixed sell amount', async () => {
+		const sellAmount = ethers.utils.parseEther('5');
+		const result = await calculateNotionalQuote({
+			...baseParams,
+			sellAmount,
+			level: '$10',
+		});
+
+		expect(result.sellAmount).toBe('5.0');
+		expect(result.buyAmount).toBe(
+			ethers.utils.formatUnits(getAmountOutAlongPath(sellAmount, baseHops), 18)
 		);
 	});
 
-	it('should handle RPC call failures gracefully', async () => {
-		vi.spyOn(mockRouter, 'getAmountsOut').mockRejectedValue(
-			new Error('RPC Error')
+	it('should name the level when a fixed amount fails router verification', async () => {
+		vi.spyOn(mockRouter, 'getAmountsOut').mockResolvedValue([
+			ethers.utils.parseEther('5'),
+			ethers.constants.Zero,
+		]);
+
+		await expect(
+			calculateNotionalQuote({
+				...baseParams,
+				sellAmount: ethers.utils.parseEther('5'),
+				level: '$10',
+				verification: { router: mockRouter, path: ['0xTokenA', '0xTokenB'] },
+			})
+		).rejects.toThrow(
+			'Could not calculate quote for $10: Router verification failed'
 		);
-		const params: SlippageCalculationParams = {
-			router: mockRouter,
+	});
+
+	it('should return zero depth when the target is below the fee', async () => {
+		const result = await calculateSlippageQuote({
+			...baseParams,
+			targetSlippage: 0.002,
+		});
+		expect(result).toEqual({
+			dex: 'Uniswap V2',
+			sellAmount: '0.0',
+			buyAmount: '0.0',
+			sellAmountUsd: null,
+			buyAmountUsd: null,
 			path: ['0xTokenA', '0xTokenB'],
-			reserveSell: ethers.BigNumber.from('1000000000000000000000'),
-			reserveBuy: ethers.BigNumber.from('2000000000000000000000'),
-			targetSlippage: 0.01,
-			sellTokenDecimals: 18,
-			buyTokenDecimals: 18,
-		};
-		await expect(calculateSlippageQuote(params)).rejects.toThrow(
-			'Could not calculate quote for 1% slippage'
-		);
+			pools: [{ dex: 'Uniswap V2', address: '0xPair0', feeBps: 30 }],
+			priceImpactBps: 0,
+			lpFeeBps: 30,
+			curveImpactBps: 0,
+		});
 	});
 
-	it('should handle zero amount out from router', async () => {
-		const mockAmountsOut = [
-			ethers.BigNumber.from('1000000000000000000'),
-			ethers.BigNumber.from('0'),
+	it('should solve across every hop of a multi-hop path', async () => {
+		const hops = [
+			hop('1000000000000000000000', '3000000000000'),
+			hop('4000000000000', '2000000000000000000000'),
 		];
-		vi.spyOn(mockRouter, 'getAmountsOut').mockResolvedValue(mockAmountsOut);
-		const params: SlippageCalculationParams = {
-			router: mockRouter,
-			path: ['0xTokenA', '0xTokenB'],
-			reserveSell: ethers.BigNumber.from('1000000000000000000000'),
-			reserveBuy: ethers.BigNumber.from('2000000000000000000000'),
-			targetSlippage: 0.01,
-			sellTokenDecimals: 18,
-			buyTokenDecimals: 18,
-		};
-		await expect(calculateSlippageQuote(params)).rejects.toThrow(
-			'Could not calculate quote for 1% slippage'
+		const result = await calculateSlippageQuote({
+			...paramsFor(hops, ['0xTokenA', '0xTokenC', '0xTokenB']),
+			targetSlippage: 0.05,
+		});
+		const { sellAmount, buyAmount } = expectedAmounts(hops, 0.05);
+
+		expect(result).toEqual({
+			dex: 'Uniswap V2',
+			sellAmount: ethers.utils.formatUnits(sellAmount, 18),
+			buyAmount: ethers.utils.formatUnits(buyAmount, 18),
+			sellAmountUsd: null,
+			buyAmountUsd: null,
+			path: ['0xTokenA', '0xTokenC', '0xTokenB'],
+			pools: [
+				{ dex: 'Uniswap V2', address: '0xPair0', feeBps: 30 },
+				{ dex: 'Uniswap V2', address: '0xPair1', feeBps: 30 },
+			],
+			priceImpactBps: expect.any(Number),
+			// 1 - 0.997^2
+			lpFeeBps: 59.91,
+			curveImpactBps: expect.any(Number),
+		});
+	});
+
+	it('should throw error when there are no hops', async () => {
+		await expect(
+			calculateSlippageQuote({ ...baseParams, steps: [] })
+		).rejects.toThrow('Reserve amounts are zero - cannot calculate price');
+	});
+
+	it('should throw error when reserveSell is zero', async () => {
+		await expect(
+			calculateSlippageQuote(paramsFor([hop('0', '2000000000000000000000')]))
+		).rejects.toThrow('Reserve amounts are zero - cannot calculate price');
+	});
+
+	it('should throw error when reserveBuy is zero', async () => {
+		await expect(
+			calculateSlippageQuote(paramsFor([hop('1000000000000000000000', '0')]))
+		).rejects.toThrow('Reserve amounts are zero - cannot calculate price');
+	});
+
+	it('should throw error for an out of range target', async () => {
+		await expect(
+			calculateSlippageQuote({ ...baseParams, targetSlippage: 1 })
+		).rejects.toThrow('Could not calculate quote for 100% slippage');
+	});
+
+	it('should verify the local quote against the router when requested', async () => {
+		const { sellAmount, buyAmount } = expectedAmounts(baseHops);
+		vi.spyOn(mockRouter, 'getAmountsOut').mockResolvedValue([
+			sellAmount,
+			buyAmount,
+		]);
+
+		await calculateSlippageQuote({
+			...baseParams,
+			verification: { router: mockRouter, path: ['0xTokenA', '0xTokenB'] },
+		});
+
+		expect(mockRouter.getAmountsOut).toHaveBeenCalledTimes(1);
+		expect(mockRouter.getAmountsOut).toHaveBeenCalledWith(sellAmount, [
+			'0xTokenA',
+			'0xTokenB',
+		]);
+	});
+
+	it('should reject when the router disagrees with the local quote', async () => {
+		const { sellAmount, buyAmount } = expectedAmounts(baseHops);
+		vi.spyOn(mockRouter, 'getAmountsOut').mockResolvedValue([
+			sellAmount,
+			buyAmount.mul(99).div(100),
+		]);
+
+		await expect(
+			calculateSlippageQuote({
+				...baseParams,
+				verification: { router: mockRouter, path: ['0xTokenA', '0xTokenB'] },
+			})
+		).rejects.toThrow(
+			'Could not calculate quote for 1% slippage: Router verification failed'
+		);
+	});
+
+	it('should handle RPC call failures gracefully', async () => {
+		vi.spyOn(mockRouter, 'getAmountsOut').mockRejectedValue(
+			new Error('RPC Error')
 		);
+
+		await expect(
+			calculateSlippageQuote({
+				...baseParams,
+				verification: { router: mockRouter, path: ['0xTokenA', '0xTokenB'] },
+			})
+		).rejects.toThrow('Could not calculate quote for 1% slippage');
 	});
 
 	it('should handle very small reserves', async () => {
-		const mockAmountsOut = [
-			ethers.BigNumber.from('1000'),
-			ethers.BigNumber.from('2000'),
-		];
-		vi.spyOn(mockRouter, 'getAmountsOut').mockResolvedValue(mockAmountsOut);
-		const params: SlippageCalculationParams = {
-			router: mockRouter,
-			path: ['0xTokenA', '0xTokenB'],
-			reserveSell: ethers.BigNumber.from('1000000000000000000'),
-			reserveBuy: ethers.BigNumber.from('2000000000000000000'),
-			targetSlippage: 0.01,
-			sellTokenDecimals: 18,
-			buyTokenDecimals: 18,
-		};
-		const result = await calculateSlippageQuote(params);
-		expect(result).toHaveProperty('sellAmount');
-		expect(result).toHaveProperty('buyAmount');
+		const result = await calculateSlippageQuote(
+			paramsFor([hop('1000000000000000000', '2000000000000000000')])
+		);
 		expect(parseFloat(result.sellAmount)).toBeGreaterThan(0);
 		expect(parseFloat(result.buyAmount)).toBeGreaterThan(0);
 	});
 
 	it('should handle very large reserves', async () => {
-		const mockAmountsOut = [
-			ethers.BigNumber.from('1000000000000000000000000'),
-			ethers.BigNumber.from('2000000000000000000000000'),
-		];
-		vi.spyOn(mockRouter, 'getAmountsOut').mockResolvedValue(mockAmountsOut);
-		const params: SlippageCalculationParams = {
-			router: mockRouter,
-			path: ['0xTokenA', '0xTokenB'],
-			reserveSell: ethers.BigNumber.from('1000000000000000000000000000'),
-			reserveBuy: ethers.BigNumber.from('2000000000000000000000000000'),
-			targetSlippage: 0.01,
-			sellTokenDecimals: 18,
-			buyTokenDecimals: 18,
-		};
-		const result = await calculateSlippageQuote(params);
-		expect(result).toHaveProperty('sellAmount');
-		expect(result).toHaveProperty('buyAmount');
+		const result = await calculateSlippageQuote(
+			paramsFor([
+				hop('1000000000000000000000000000', '2000000000000000000000000000'),
+			])
+		);
 		expect(parseFloat(result.sellAmount)).toBeGreaterThan(0);
 		expect(parseFloat(result.buyAmount)).toBeGreaterThan(0);
 	});
+
+	it('should solve concentrated-liquidity pools by bisection', async () => {
+		const liquidity = ethers.BigNumber.from('1000000000000000000000');
+		const state: UniswapV3PoolState = {
+			pool: {
+				dex: 'Uniswap V3',
+				address: '0xPool',
+				tokens: ['0xTokenA', '0xTokenB'],
+				feeBps: 30,
+				feeTier: 3000,
+			},
+			sqrtPriceX96: Q96,
+			tick: 0,
+			liquidity,
+			tickSpacing: 60,
+			feePips: 3000,
+			ticks: [
+				{ tick: -6000, liquidityNet: liquidity },
+				{ tick: 6000, liquidityNet: liquidity.mul(-1) },
+			],
+			minWord: -1,
+			maxWord: 1,
+			balances: [liquidity, liquidity],
+		};
+		const adapter = new UniswapV3Adapter({
+			type: 'uniswap-v3',
+			name: 'Uniswap V3',
+			factoryAddress: '0xFactory',
+			tickLensAddress: '0xTickLens',
+			feeTiers: [3000],
+		});
+
+		const result = await calculateSlippageQuote({
+			...baseParams,
+			steps: [{ adapter, state, tokenIn: '0xTokenA', tokenOut: '0xTokenB' }],
+			targetSlippage: 0.05,
+		});
+
+		const executedPrice =
+			parseFloat(result.buyAmount) / parseFloat(result.sellAmount);
+		expect(1 - executedPrice).toBeCloseTo(0.05, 6);
+		expect(result.pools).toEqual([
+			{ dex: 'Uniswap V3', address: '0xPool', feeBps: 30, feeTier: 3000 },
+		]);
+		const [[iterations]] = vi.mocked(slippageBisectionIterations.observe).mock
+			.calls;
+		expect(iterations).toBeGreaterThan(0);
+	});
+
+	describe('calculateAggregatedQuote', () => {
+		const pools = [
+			...toSteps(['0xTokenA', '0xTokenB'], baseHops),
+			...toSteps(
+				['0xTokenA', '0xTokenB'],
+				[hop('3000000000000000000000', '6000000000000000000000')]
+			).map((step) => ({
+				...step,
+				state: {
+					...step.state,
+					pool: { ...step.state.pool, address: '0xDeep' },
+				},
+			})),
+		];
+
+		it('should split the depth across pools by their liquidity', () => {
+			const result = calculateAggregatedQuote(
+				buildAggregatedDepth(pools),
+				0.05,
+				18,
+				18
+			);
+			const single = expectedAmounts(baseHops, 0.05);
+
+			expect(parseFloat(result.sellAmount)).toBeCloseTo(
+				parseFloat(ethers.utils.formatUnits(single.sellAmount, 18)) * 4,
+				0
+			);
+			expect(result.allocations.map(({ pool }) => pool.address)).toEqual([
+				'0xPair0',
+				'0xDeep',
+			]);
+			expect(result.allocations[0].share).toBeCloseTo(0.25, 2);
+			expect(result.allocations[1].share).toBeCloseTo(0.75, 2);
+		});
+
+		it('should return zero depth when the target is below the fee', () => {
+			const result = calculateAggregatedQuote(
+				buildAggregatedDepth(pools),
+				0.002,
+				18,
+				18
+			);
+
+			expect(result.sellAmount).toBe('0.0');
+			expect(result.allocations.every(({ share }) => share === 0)).toBe(true);
+		});
+
+		it('should reject levels outside (0, 1)', () => {
+			expect(() =>
+				calculateAggregatedQuote(buildAggregatedDepth(pools), 1, 18, 18)
+			).toThrow('Could not calculate quote for 100% slippage');
+		});
+	});
 });
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SnapshotStore } from '../../utils/snapshotStore';
+import { LiquiditySnapshot } from '../../types';
+
+const pair = {
+	chainId: 1,
+	sellToken: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+	buyToken: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+};
+
+const snapshotAt = (timestamp: number): LiquiditySnapshot => ({
+	...pair,
+	timestamp,
+	blockNumber: timestamp / 12,
+	blockTimestamp: timestamp,
+	reserves: [],
+	quotes: { '1%': { dex: 'Uniswap V2', sellAmount: '1.0', buyAmount: '2.0' } },
+});
+
+describe('SnapshotStore', () => {
+	let dataDir: string;
+	let store: SnapshotStore;
+
+	beforeEach(async () => {
+		dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshots-'));
+		store = new SnapshotStore(path.join(dataDir, 'nested'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(dataDir, { recursive: true, force: true });
+	});
+
+	it('should return appended snapshots within the range', async () => {
+		for (const timestamp of [1200, 2400, 3600]) {
+			await store.append(snapshotAt(timestamp));
+		}
+
+		expect(await store.query(pair, 2400, 3600)).toEqual([
+			snapshotAt(2400),
+			snapshotAt(3600),
+		]);
+	});
+
+	it('should stop reading at the first snapshot after the range', async () => {
+		for (const timestamp of [1200, 2400, 3600, 2400]) {
+			await store.append(snapshotAt(timestamp));
+		}
+
+		expect(await store.query(pair, 0, 3000)).toEqual([
+			snapshotAt(1200),
+			snapshotAt(2400),
+		]);
+	});
+
+	it('should keep each direction of a pair apart', async () => {
+		await store.append(snapshotAt(1200));
+
+		expect(
+			await store.query(
+				{ ...pair, sellToken: pair.buyToken, buyToken: pair.sellToken },
+				0,
+				3600
+			)
+		).toEqual([]);
+	});
+
+	it('should skip a line cut short by a crash', async () => {
+		await store.append(snapshotAt(1200));
+		const [file] = await fs.readdir(path.join(dataDir, 'nested'));
+		await fs.appendFile(path.join(dataDir, 'nested', file), '{"timestamp":24');
+
+		// A restarted process appends after the partial line
+		const restarted = new SnapshotStore(path.join(dataDir, 'nested'));
+		await restarted.append(snapshotAt(3600));
+
+		expect(await store.query(pair, 0, 3600)).toEqual([
+			snapshotAt(1200),
+			snapshotAt(3600),
+		]);
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { getAmountOut } from '../../utils/constantProduct';
+import {
+	StableSwapPool,
+	getD,
+	getDx,
+	getDy,
+	getStableSwapSpotPrice,
+} from '../../utils/stableSwap';
+
+const { BigNumber } = ethers;
+
+const units = (amount: number, decimals: number) =>
+	ethers.utils.parseUnits(amount.toString(), decimals);
+
+// DAI (18 decimals) / USDC (6 decimals), 10M each, 0.04% fee
+const pool: StableSwapPool = {
+	amp: BigNumber.from(2000),
+	fee: BigNumber.from(4_000_000),
+	balances: [units(10_000_000, 18), units(10_000_000, 6)],
+	decimals: [18, 6],
+};
+
+describe('StableSwap math', () => {
+	it('should equal the sum of balances for a balanced pool', () => {
+		const xp = [units(1000, 18), units(1000, 18), units(1000, 18)];
+		expect(getD(xp, BigNumber.from(100)).toString()).toBe(
+			units(3000, 18).toString()
+		);
+	});
+
+	it('should quote near 1:1 after the fee for a small trade', () => {
+		const dy = getDy(pool, 0, 1, units(1000, 18));
+		const expected = units(1000, 6).mul(9996).div(10000);
+		expect(dy.sub(expected).abs().lte(units(0.01, 6))).toBe(true);
+	});
+
+	it('should give far less impact than a constant-product pool', () => {
+		const dx = units(2_000_000, 18);
+		const stable = getDy(pool, 0, 1, dx);
+		const constantProduct = getAmountOut(
+			dx.div(BigNumber.from(10).pow(12)),
+			pool.balances[0].div(BigNumber.from(10).pow(12)),
+			pool.balances[1],
+			4
+		);
+		expect(stable.gt(constantProduct)).toBe(true);
+		expect(stable.gt(units(1_990_000, 6))).toBe(true);
+	});
+
+	it('should invert getDy with getDx', () => {
+		const dy = units(500_000, 6);
+		const dx = getDx(pool, 0, 1, dy);
+		expect(getDy(pool, 0, 1, dx).gte(dy)).toBe(true);
+		expect(getDy(pool, 0, 1, dx.sub(units(0.001, 18))).lt(dy)).toBe(true);
+	});
+
+	it('should throw insufficient liquidity when the output exceeds the balance', () => {
+		expect(() => getDx(pool, 0, 1, units(10_000_000, 6))).toThrow(
+			'Insufficient liquidity'
+		);
+	});
+
+	it('should price a balanced pool at parity in raw units', () => {
+		const { numerator, denominator } = getStableSwapSpotPrice(pool, 0, 1);
+		expect(numerator.mul(BigNumber.from(10).pow(12)).toString()).toBe(
+			denominator.toString()
+		);
+	});
+
+	it('should price the scarcer coin above parity', () => {
+		const imbalanced: StableSwapPool = {
+			...pool,
+			balances: [units(15_000_000, 18), units(5_000_000, 6)],
+		};
+		const { numerator, denominator } = getStableSwapSpotPrice(imbalanced, 1, 0);
+		// USDC priced in DAI: more than 1e12 raw DAI per raw USDC
+		expect(numerator.gt(denominator.mul(BigNumber.from(10).pow(12)))).toBe(
+			true
+		);
+	});
+
+	it('should reject tokens with more than 18 decimals', () => {
+		expect(() =>
+			getDy({ ...pool, decimals: [24, 6] }, 0, 1, units(1, 24))
+		).toThrow('Invalid token decimals');
+	});
+});
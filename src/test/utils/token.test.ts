@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { decodeTokenString, getTokenMetadata } from '../../utils/token';
+
+vi.mock('../../constants', async (importOriginal) => ({
+	...(await importOriginal<typeof import('../../constants')>()),
+	TOKEN_METADATA_CONFIG: {},
+}));
+
+const erc20 = new ethers.utils.Interface([
+	'function name() view returns (string)',
+	'function symbol() view returns (string)',
+	'function decimals() view returns (uint8)',
+]);
+
+const encodeString = (value: string) =>
+	ethers.utils.defaultAbiCoder.encode(['string'], [value]);
+
+/** The error ethers throws for an eth_call that failed with `error`. */
+const callException = (error?: Error) =>
+	ethers.logger.makeError(
+		'missing revert data in call exception; Transaction reverted without a reason string',
+		ethers.errors.CALL_EXCEPTION,
+		{ data: '0x', error }
+	);
+
+/**
+ * A provider serving `results` by selector, on chain `chainId`. Methods
+ * without a result revert.
+ */
+const createProvider = (
+	results: Record<string, string | Error>,
+	chainId = 1
+) => {
+	const call = vi.fn(async ({ data }: { data: string }) => {
+		const method = erc20.getFunction(data.slice(0, 10)).name;
+		if (!(method in results)) {
+			throw callException();
+		}
+		const result = results[method];
+		if (result instanceof Error) {
+			throw result;
+		}
+		return result;
+	});
+	const provider = {
+		getNetwork: async () => ({ chainId, name: 'test' }),
+		call,
+	} as unknown as ethers.providers.JsonRpcProvider;
+	return { provider, call };
+};
+
+describe('token utils', () => {
+	describe('decodeTokenString', () => {
+		it('should decode string return values', () => {
+			expect(decodeTokenString(encodeString('USD Coin'))).toBe('USD Coin');
+		});
+
+		it('should decode bytes32 return values without the padding', () => {
+			expect(decodeTokenString(ethers.utils.formatBytes32String('MKR'))).toBe(
+				'MKR'
+			);
+		});
+	});
+
+	describe('getTokenMetadata', () => {
+		const usdc = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+
+		it('should read symbol, name and decimals once per token', async () => {
+			const { provider, call } = createProvider({
+				name: encodeString('USD Coin'),
+				symbol: encodeString('USDC'),
+				decimals: erc20.encodeFunctionResult('decimals', [6]),
+			});
+
+			const [metadata, concurrent] = await Promise.all([
+				getTokenMetadata(usdc, provider),
+				getTokenMetadata(usdc, provider),
+			]);
+			const cached = await getTokenMetadata(usdc, provider);
+
+			expect(metadata).toEqual({
+				address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+				symbol: 'USDC',
+				name: 'USD Coin',
+				decimals: 6,
+			});
+			expect(concurrent).toBe(metadata);
+			expect(cached).toBe(metadata);
+			expect(call).toHaveBeenCalledTimes(3);
+		});
+
+		it('should handle bytes32 metadata and tokens without a name', async () => {
+			const { provider } = createProvider({
+				symbol: ethers.utils.formatBytes32String('MKR'),
+				decimals: erc20.encodeFunctionResult('decimals', [18]),
+			});
+
+			expect(
+				await getTokenMetadata(
+					'0x9f8F72aA9304c8B593d555F12eF6589cC3A579A2',
+					provider
+				)
+			).toEqual({
+				address: '0x9f8F72aA9304c8B593d555F12eF6589cC3A579A2',
+				symbol: 'MKR',
+				name: null,
+				decimals: 18,
+			});
+		});
+
+		it('should treat empty or undecodable metadata as missing', async () => {
+			const { provider } = createProvider({
+				symbol: '0x',
+				name: '0x1234',
+				decimals: erc20.encodeFunctionResult('decimals', [18]),
+			});
+
+			const metadata = await getTokenMetadata(
+				'0x0000000000000000000000000000000000000002',
+				provider
+			);
+
+			expect(metadata.symbol).toBeNull();
+			expect(metadata.name).toBeNull();
+		});
+
+		it('should not cache metadata whose read failed on the endpoint', async () => {
+			const token = '0x0000000000000000000000000000000000000003';
+			const results = {
+				symbol: callException(
+					ethers.logger.makeError('timeout', ethers.errors.TIMEOUT, {})
+				),
+				name: encodeString('Token'),
+				decimals: erc20.encodeFunctionResult('decimals', [18]),
+			};
+
+			await expect(
+				getTokenMetadata(token, createProvider(results).provider)
+			).rejects.toThrow('missing revert data');
+
+			const { provider } = createProvider({
+				...results,
+				symbol: encodeString('TKN'),
+			});
+			expect((await getTokenMetadata(token, provider)).symbol).toBe('TKN');
+		});
+
+		it('should cache each chain separately', async () => {
+			const results = {
+				decimals: erc20.encodeFunctionResult('decimals', [6]),
+			};
+			const mainnet = createProvider(results, 1);
+			const polygon = createProvider(
+				{ decimals: erc20.encodeFunctionResult('decimals', [18]) },
+				137
+			);
+			const token = '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174';
+
+			expect((await getTokenMetadata(token, mainnet.provider)).decimals).toBe(
+				6
+			);
+			expect((await getTokenMetadata(token, polygon.provider)).decimals).toBe(
+				18
+			);
+		});
+
+		it('should reject contracts without decimals and retry them later', async () => {
+			const token = '0x0000000000000000000000000000000000000001';
+			const { provider } = createProvider({ decimals: '0x' });
+
+			await expect(getTokenMetadata(token, provider)).rejects.toThrow(
+				`Invalid token contract: ${token} is not a valid ERC20 token`
+			);
+
+			const { provider: fixed } = createProvider({
+				decimals: erc20.encodeFunctionResult('decimals', [8]),
+			});
+			expect((await getTokenMetadata(token, fixed)).decimals).toBe(8);
+		});
+	});
+});
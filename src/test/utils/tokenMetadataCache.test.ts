@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { TokenMetadataCache } from '../../utils/tokenMetadataCache';
+
+const usdc = {
+	address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+	symbol: 'USDC',
+	name: 'USD Coin',
+	decimals: 6,
+};
+
+describe('TokenMetadataCache', () => {
+	let dataDir: string;
+	let filePath: string;
+
+	beforeEach(async () => {
+		dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'token-metadata-'));
+		filePath = path.join(dataDir, 'nested', 'tokens.jsonl');
+	});
+
+	afterEach(async () => {
+		await fs.rm(dataDir, { recursive: true, force: true });
+	});
+
+	it('should look entries up by chain and address in any case', async () => {
+		const cache = new TokenMetadataCache();
+		await cache.set(1, usdc);
+
+		expect(await cache.get(1, usdc.address.toLowerCase())).toEqual(usdc);
+		expect(await cache.get(137, usdc.address)).toBeUndefined();
+	});
+
+	it('should reload persisted entries after a restart', async () => {
+		await new TokenMetadataCache(filePath).set(1, usdc);
+
+		expect(await new TokenMetadataCache(filePath).get(1, usdc.address)).toEqual(
+			usdc
+		);
+	});
+
+	it('should skip a line cut short by a crash and start a fresh one', async () => {
+		await fs.mkdir(path.dirname(filePath), { recursive: true });
+		await fs.writeFile(filePath, '{"chainId":1,"addr');
+		const dai = {
+			address: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+			symbol: 'DAI',
+			name: 'Dai Stablecoin',
+			decimals: 18,
+		};
+
+		await new TokenMetadataCache(filePath).set(1, dai);
+
+		const reloaded = new TokenMetadataCache(filePath);
+		expect(await reloaded.get(1, dai.address)).toEqual(dai);
+		expect((await fs.readFile(filePath, 'utf8')).split('\n')).toHaveLength(3);
+	});
+});
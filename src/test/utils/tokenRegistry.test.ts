@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { TokenRegistry } from '../../utils/tokenRegistry';
+
+const usdc = {
+	chainId: 42161,
+	address: '0xaf88d065e77c8cc2239327c5edb3a432268e5831',
+	symbol: 'USDC',
+	name: 'USD Coin',
+	decimals: 6,
+};
+const bridgedUsdc = {
+	chainId: 42161,
+	address: '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8',
+	symbol: 'USDC',
+	name: 'Bridged USDC',
+	decimals: 6,
+};
+const weth = {
+	chainId: 42161,
+	address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+	symbol: 'WETH',
+	name: 'Wrapped Ether',
+	decimals: 18,
+	logoURI: 'https://example.com/weth.png',
+};
+const mainnetUsdc = {
+	chainId: 1,
+	address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+	symbol: 'USDC',
+	name: 'USD Coin',
+	decimals: 6,
+};
+
+describe('TokenRegistry', () => {
+	let listDir: string;
+	let registry: TokenRegistry;
+
+	const writeList = (file: string, tokens: unknown[]) =>
+		fs.writeFile(
+			path.join(listDir, file),
+			JSON.stringify({ name: file, tokens })
+		);
+
+	beforeEach(async () => {
+		listDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tokenlists-'));
+		registry = new TokenRegistry(listDir);
+		await writeList('a.json', [
+			usdc,
+			weth,
+			mainnetUsdc,
+			{ symbol: 'BAD' },
+			null,
+			'USDC',
+		]);
+	});
+
+	afterEach(async () => {
+		await fs.rm(listDir, { recursive: true, force: true });
+	});
+
+	describe('resolve', () => {
+		it('should resolve symbols case-insensitively on the requested chain', async () => {
+			expect(await registry.resolve(42161, 'usdc')).toBe(
+				'0xaf88d065e77c8cC2239327C5EDb3A432268e5831'
+			);
+			expect(await registry.resolve(1, 'USDC')).toBe(mainnetUsdc.address);
+		});
+
+		it('should pass addresses through unchanged', async () => {
+			expect(await registry.resolve(42161, bridgedUsdc.address)).toBe(
+				bridgedUsdc.address
+			);
+		});
+
+		it('should reject unknown symbols', async () => {
+			await expect(registry.resolve(42161, 'DOGE')).rejects.toThrow(
+				'Unknown token symbol: "DOGE" is not an address or a listed token on chain 42161'
+			);
+		});
+
+		it('should list every candidate of an ambiguous symbol', async () => {
+			await writeList('b.json', [bridgedUsdc, usdc]);
+
+			await expect(registry.resolve(42161, 'USDC')).rejects.toThrow(
+				'Ambiguous token symbol: "USDC" matches USDC (USD Coin) at 0xaf88d065e77c8cC2239327C5EDb3A432268e5831, USDC (Bridged USDC) at 0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8 on chain 42161; pass the address instead'
+			);
+		});
+	});
+
+	describe('search', () => {
+		it('should match symbols and names, exact symbols first', async () => {
+			await writeList('b.json', [
+				{ ...bridgedUsdc, symbol: 'USDC.e' },
+				{
+					...weth,
+					address: '0x0000000000000000000000000000000000000001',
+					symbol: 'AUSDC',
+					name: 'Aave USDC',
+				},
+			]);
+
+			const tokens = await registry.search(42161, 'usdc', 10);
+
+			expect(tokens.map(({ symbol }) => symbol)).toEqual([
+				'USDC',
+				'AUSDC',
+				'USDC.e',
+			]);
+		});
+
+		it('should find a token by address and keep its logo', async () => {
+			expect(
+				await registry.search(42161, weth.address.toLowerCase(), 10)
+			).toEqual([weth]);
+		});
+
+		it('should list the chain up to the limit without a query', async () => {
+			expect(await registry.search(42161, '', 1)).toHaveLength(1);
+			expect(await registry.search(10, '', 10)).toEqual([]);
+		});
+
+		it('should skip files that are not token lists', async () => {
+			await fs.writeFile(path.join(listDir, 'broken.json'), '{');
+
+			expect(await registry.search(42161, '', 10)).toHaveLength(2);
+		});
+	});
+});
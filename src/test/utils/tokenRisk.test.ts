@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import {
+	TOKEN_SIMULATOR_ABI,
+	TOKEN_SIMULATOR_BYTECODE,
+	UNISWAP_V2_ROUTER_ABI,
+} from '../../abis';
+import { TOKEN_RISK_CONFIG } from '../../constants';
+import {
+	TOKEN_SIMULATOR_ADDRESS,
+	simulateTokenRisk,
+} from '../../utils/tokenRisk';
+
+const ROUTER = '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D';
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const CLEAN = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+const TAXED = '0x1111111111111111111111111111111111111111';
+const HONEYPOT = '0x2222222222222222222222222222222222222222';
+const UNSELLABLE = '0x3333333333333333333333333333333333333333';
+const UNSUPPORTED = '0x4444444444444444444444444444444444444444';
+
+const simulator = new ethers.utils.Interface(TOKEN_SIMULATOR_ABI);
+const router = new ethers.utils.Interface(UNISWAP_V2_ROUTER_ABI);
+
+const units = (amount: string) => ethers.utils.parseEther(amount);
+
+// simulate() results the stand-in node returns per token
+const outcomes: Record<string, unknown[]> = {
+	[CLEAN]: [
+		units('200'),
+		units('200'),
+		units('0.0994'),
+		units('0.0994'),
+		true,
+		true,
+	],
+	[TAXED]: [
+		units('200'),
+		units('190'),
+		units('0.094'),
+		units('0.0893'),
+		true,
+		true,
+	],
+	[HONEYPOT]: [
+		units('200'),
+		units('200'),
+		units('0.1'),
+		units('0.01'),
+		true,
+		true,
+	],
+	[UNSELLABLE]: [units('200'), units('200'), 0, 0, true, false],
+};
+
+type JsonRpcRequest = { id: number; method: string; params: any[] };
+
+/** Minimal JSON-RPC node answering only what the simulation needs. */
+const handle = ({ method, params }: JsonRpcRequest) => {
+	if (method === 'eth_chainId') {
+		return { result: '0x1' };
+	}
+	if (method !== 'eth_call') {
+		return { error: { code: -32601, message: `${method} not supported` } };
+	}
+
+	const [{ to, data }, , overrides] = params;
+	if (ethers.utils.getAddress(to) === ROUTER) {
+		return { result: router.encodeFunctionResult('WETH', [WETH]) };
+	}
+
+	const override = overrides?.[TOKEN_SIMULATOR_ADDRESS];
+	if (
+		override?.code !== TOKEN_SIMULATOR_BYTECODE ||
+		!ethers.BigNumber.from(override.balance).eq(
+			TOKEN_RISK_CONFIG.SIMULATION_AMOUNT
+		)
+	) {
+		return { result: '0x' };
+	}
+
+	const [routerAddress, token] = simulator.decodeFunctionData('simulate', data);
+	if (routerAddress !== ROUTER || token === UNSUPPORTED) {
+		return { error: { code: -32602, message: 'state override not supported' } };
+	}
+	return {
+		result: simulator.encodeFunctionResult('simulate', outcomes[token]),
+	};
+};
+
+describe('token risk simulation', () => {
+	let server: Server;
+	let provider: ethers.providers.JsonRpcProvider;
+
+	beforeAll(async () => {
+		server = createServer((req, res) => {
+			let body = '';
+			req.on('data', (chunk) => (body += chunk));
+			req.on('end', () => {
+				const request: JsonRpcRequest = JSON.parse(body);
+				res.setHeader('Content-Type', 'application/json');
+				res.end(
+					JSON.stringify({ jsonrpc: '2.0', id: request.id, ...handle(request) })
+				);
+			});
+		});
+		await new Promise<void>((resolve) =>
+			server.listen(0, '127.0.0.1', resolve)
+		);
+		const { port } = server.address() as AddressInfo;
+		provider = new ethers.providers.JsonRpcProvider(`http://127.0.0.1:${port}`);
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	it('should report no taxes for a clean token', async () => {
+		expect(await simulateTokenRisk(CLEAN, ROUTER, provider)).toEqual({
+			simulated: true,
+			isHoneypot: false,
+			buyTaxPercent: 0,
+			sellTaxPercent: 0,
+		});
+	});
+
+	it('should report buy and sell taxes of a fee-on-transfer token', async () => {
+		expect(await simulateTokenRisk(TAXED, ROUTER, provider)).toEqual({
+			simulated: true,
+			isHoneypot: false,
+			buyTaxPercent: 5,
+			sellTaxPercent: 5,
+		});
+	});
+
+	it('should flag a prohibitive sell tax as a honeypot', async () => {
+		const risk = await simulateTokenRisk(HONEYPOT, ROUTER, provider);
+
+		expect(risk.isHoneypot).toBe(true);
+		expect(risk.sellTaxPercent).toBe(90);
+		expect(risk.reason).toBe('Sell tax of 90%');
+	});
+
+	it('should flag a token whose sell reverts as a honeypot', async () => {
+		expect(await simulateTokenRisk(UNSELLABLE, ROUTER, provider)).toEqual({
+			simulated: true,
+			isHoneypot: true,
+			buyTaxPercent: 0,
+			sellTaxPercent: null,
+			reason: 'Sell reverted',
+		});
+	});
+
+	it('should skip the wrapped native token', async () => {
+		expect(await simulateTokenRisk(WETH, ROUTER, provider)).toMatchObject({
+			simulated: false,
+			isHoneypot: false,
+			reason: 'Wrapped native token',
+		});
+	});
+
+	it('should report an RPC error as not simulated', async () => {
+		const risk = await simulateTokenRisk(UNSUPPORTED, ROUTER, provider);
+
+		expect(risk).toMatchObject({
+			simulated: false,
+			isHoneypot: false,
+			buyTaxPercent: null,
+			sellTaxPercent: null,
+		});
+		expect(risk.reason).toContain('state override not supported');
+	});
+});
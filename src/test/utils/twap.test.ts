@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { BigNumber } from 'ethers';
+import {
+	CumulativePriceObservation,
+	getCurrentCumulativePrices,
+	getDeviationBps,
+	getTwapPrice,
+	parseTwapWindow,
+} from '../../utils/twap';
+import { formatPrice } from '../../utils/price';
+
+const Q112 = BigNumber.from(2).pow(112);
+const UINT256_RANGE = BigNumber.from(2).pow(256);
+
+/** Observation of the given cumulatives at `timestamp`. */
+const observe = (
+	timestamp: number,
+	priceCumulatives: [BigNumber, BigNumber]
+): CumulativePriceObservation => ({
+	blockNumber: timestamp,
+	timestamp,
+	reserves: [BigNumber.from(1), BigNumber.from(1)],
+	priceCumulatives,
+});
+
+describe('twap utils', () => {
+	describe('parseTwapWindow', () => {
+		it('should default to 30 minutes', () => {
+			expect(parseTwapWindow(undefined)).toBe(1800);
+			expect(parseTwapWindow('1h')).toBe(3600);
+		});
+
+		it('should reject windows outside the supported range', () => {
+			expect(() => parseTwapWindow('30')).toThrow(
+				'Invalid window: window must be between 60 and 604800 seconds'
+			);
+			expect(() => parseTwapWindow('8d')).toThrow('Invalid window');
+			expect(() => parseTwapWindow('soon')).toThrow('Invalid window');
+		});
+	});
+
+	describe('getCurrentCumulativePrices', () => {
+		const reserves: [BigNumber, BigNumber] = [
+			BigNumber.from(1000),
+			BigNumber.from(4000),
+		];
+
+		it('should accrue the current price since the last update', () => {
+			const [price0, price1] = getCurrentCumulativePrices(
+				[BigNumber.from(0), BigNumber.from(0)],
+				reserves,
+				100,
+				110
+			);
+
+			expect(price0.eq(Q112.mul(4).mul(10))).toBe(true);
+			expect(price1.eq(Q112.div(4).mul(10))).toBe(true);
+		});
+
+		it('should leave cumulatives updated in the same block unchanged', () => {
+			const last: [BigNumber, BigNumber] = [
+				BigNumber.from(7),
+				BigNumber.from(9),
+			];
+
+			expect(getCurrentCumulativePrices(last, reserves, 110, 110)).toBe(last);
+		});
+
+		it('should wrap around at 2^256 like the pair', () => {
+			const [price0] = getCurrentCumulativePrices(
+				[UINT256_RANGE.sub(Q112), BigNumber.from(0)],
+				reserves,
+				100,
+				101
+			);
+
+			expect(price0.eq(Q112.mul(3))).toBe(true);
+		});
+	});
+
+	describe('getTwapPrice', () => {
+		it('should weight each price by the time it held', () => {
+			// Price 2 for 300 seconds, then 4 for 100 seconds
+			const start = observe(1000, [Q112.mul(50), Q112]);
+			const end = observe(1400, [
+				Q112.mul(50 + 2 * 300 + 4 * 100),
+				Q112.mul(2),
+			]);
+
+			const twap = getTwapPrice(start, end, 0);
+
+			expect(formatPrice(twap.numerator, 0, twap.denominator, 0)).toBe('2.5');
+		});
+
+		it('should handle a cumulative that wrapped within the window', () => {
+			const start = observe(1000, [UINT256_RANGE.sub(Q112.mul(100)), Q112]);
+			const end = observe(1100, [Q112.mul(100), Q112]);
+
+			const twap = getTwapPrice(start, end, 0);
+
+			expect(formatPrice(twap.numerator, 0, twap.denominator, 0)).toBe('2.0');
+		});
+
+		it('should reject a window without a block', () => {
+			const observation = observe(1000, [Q112, Q112]);
+
+			expect(() => getTwapPrice(observation, observation, 1)).toThrow(
+				'Invalid window: no block was produced within the window'
+			);
+		});
+	});
+
+	describe('getDeviationBps', () => {
+		const twap = {
+			numerator: BigNumber.from(2),
+			denominator: BigNumber.from(1),
+		};
+
+		it('should be positive when spot is above the TWAP', () => {
+			expect(
+				getDeviationBps(
+					{ numerator: BigNumber.from(201), denominator: BigNumber.from(100) },
+					twap
+				)
+			).toBe(50);
+		});
+
+		it('should be negative when spot is below the TWAP', () => {
+			expect(
+				getDeviationBps(
+					{ numerator: BigNumber.from(3), denominator: BigNumber.from(2) },
+					twap
+				)
+			).toBe(-2500);
+		});
+	});
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+	getAmountForUsd,
+	getStablecoinUsdPrice,
+	getUsdValue,
+} from '../../utils/usd';
+
+// $2000 per 18-decimal token, in 6-decimal stablecoin units
+const price = {
+	numerator: ethers.BigNumber.from('2000000000'),
+	denominator: ethers.utils.parseEther('1'),
+	decimals: 6,
+};
+
+describe('usd utils', () => {
+	describe('getUsdValue', () => {
+		it('should value an amount and round down to the cent', () => {
+			expect(getUsdValue(ethers.utils.parseEther('1.2345678'), price)).toBe(
+				'2469.13'
+			);
+		});
+
+		it('should value a stablecoin at $1', () => {
+			expect(
+				getUsdValue(ethers.BigNumber.from(150), getStablecoinUsdPrice(2))
+			).toBe('1.5');
+			expect(
+				getUsdValue(ethers.BigNumber.from(15), getStablecoinUsdPrice(0))
+			).toBe('15.0');
+		});
+
+		it('should return null without a price', () => {
+			expect(getUsdValue(ethers.constants.One, null)).toBeNull();
+		});
+	});
+
+	describe('getAmountForUsd', () => {
+		it('should convert a notional into a raw token amount', () => {
+			expect(getAmountForUsd(10000, price)).toEqual(
+				ethers.utils.parseEther('5')
+			);
+			expect(getAmountForUsd(0.5, getStablecoinUsdPrice(6))).toEqual(
+				ethers.BigNumber.from(500000)
+			);
+		});
+
+		it('should reject a token worth nothing', () => {
+			expect(() =>
+				getAmountForUsd(100, { ...price, numerator: ethers.constants.Zero })
+			).toThrow('Could not calculate quote: token has no USD value');
+		});
+	});
+});
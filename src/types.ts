@@ -1,35 +1,379 @@
+/** Block a request reads its on-chain state at. */
+export type BlockTag = number | 'latest' | 'safe' | 'finalized';
+
+/** Block every read of a response was pinned to. */
+export interface BlockInfo {
+	blockNumber: number;
+	/** Unix timestamp of the block, in seconds. */
+	blockTimestamp: number;
+}
+
+/** `orderbook` adds both sides of the pair's book to the response. */
+export type LiquidityMode = 'quotes' | 'orderbook';
+
 export interface LiquidityRequest {
 	sellToken: string;
 	buyToken: string;
 	chainId: number;
+	levels?: number[];
+	/** Trade sizes to quote, as USD notionals of the sell token. */
+	usdLevels?: number[];
+	mode?: LiquidityMode;
+	blockTag?: BlockTag;
+}
+
+export interface PoolSummary {
+	dex: string;
+	address: string;
+	feeBps: number;
+	feeTier?: number;
+}
+
+/**
+ * Price impact against spot in basis points, split into the LP fees charged
+ * along the path and the remainder caused by moving along the pools' curves.
+ */
+export interface PriceImpactBreakdown {
+	priceImpactBps: number;
+	lpFeeBps: number;
+	curveImpactBps: number;
+}
+
+export interface SlippageQuote extends PriceImpactBreakdown {
+	dex: string;
+	sellAmount: string;
+	buyAmount: string;
+	/** USD values of the amounts, or null when the token has no USD price. */
+	sellAmountUsd: string | null;
+	buyAmountUsd: string | null;
+	path: string[];
+	pools: PoolSummary[];
+}
+
+export interface PoolAllocation {
+	pool: PoolSummary;
+	sellAmount: string;
+	buyAmount: string;
+	/** Fraction of the aggregated sell amount routed through this pool. */
+	share: number;
 }
 
-export interface SlippageQuote {
+/** Depth at a slippage level with the order split across every direct pool. */
+export interface AggregatedQuote {
 	sellAmount: string;
 	buyAmount: string;
+	allocations: PoolAllocation[];
+}
+
+/**
+ * Outcome of a simulated buy-then-sell round trip. Taxes are `null` when the
+ * simulation could not run (see `reason`).
+ */
+export interface TokenRisk {
+	simulated: boolean;
+	isHoneypot: boolean;
+	buyTaxPercent: number | null;
+	sellTaxPercent: number | null;
+	reason?: string;
+}
+
+/**
+ * Depth on one side of the book at an impact level. Base is the sell token
+ * and prices are in buy tokens per sell token.
+ */
+export interface OrderBookLevel {
+	dex: string;
+	baseAmount: string;
+	quoteAmount: string;
+	/** Average execution price of the level. */
+	price: string;
+	path: string[];
+	pools: PoolSummary[];
+}
+
+/**
+ * Both sides of the sellToken/buyToken book from the same pool state: bids
+ * sell the sell token, asks buy it back with the buy token.
+ */
+export interface OrderBook {
+	bestBid: string;
+	bestAsk: string;
+	midPrice: string;
+	spreadBps: number;
+	bids: Record<string, OrderBookLevel>;
+	asks: Record<string, OrderBookLevel>;
+}
+
+/** Best quote per slippage level on a single DEX. */
+export interface VenueQuotes {
+	dex: string;
+	quotes: Record<string, SlippageQuote>;
+}
+
+/** ERC20 metadata; `symbol` and `name` are null when the token has none. */
+export interface TokenMetadata {
+	address: string;
+	symbol: string | null;
+	name: string | null;
+	decimals: number;
+}
+
+/** A token of a Uniswap Token List (https://tokenlists.org). */
+export interface TokenListToken {
+	chainId: number;
+	address: string;
+	symbol: string;
+	name: string;
+	decimals: number;
+	logoURI?: string;
+}
+
+export interface TokenSearchResponse {
+	chainId: number;
+	tokens: TokenListToken[];
 }
 
-export interface LiquidityResponse {
+export interface LiquidityResponse extends BlockInfo {
 	sellToken: string;
 	buyToken: string;
 	chainId: number;
-	quotes: {
-		'1%': SlippageQuote;
-		'5%': SlippageQuote;
-		'10%': SlippageQuote;
+	/** USD per token from each token's reference route, null when unpriced. */
+	usdPrices: {
+		sellToken: string | null;
+		buyToken: string | null;
+	};
+	quotes: Record<string, SlippageQuote>;
+	/** Quotes per requested USD notional of the sell token. */
+	usdQuotes?: Record<string, SlippageQuote>;
+	venues: VenueQuotes[];
+	aggregated?: Record<string, AggregatedQuote>;
+	orderBook?: OrderBook;
+	tokens: {
+		sellToken: TokenMetadata;
+		buyToken: TokenMetadata;
+	};
+	tokenRisk: {
+		sellToken: TokenRisk;
+		buyToken: TokenRisk;
 	};
 }
 
-export interface ChainConfig {
-	rpcUrl: string;
+/** The error response a request would get from the single-pair route. */
+export interface ErrorBody {
+	error: string;
+	message: string;
+	[key: string]: unknown;
+}
+
+/** Outcome of one batch item; `status` is the HTTP status it would get alone. */
+export type LiquidityBatchResult =
+	| { success: true; status: number; result: LiquidityResponse }
+	| { success: false; status: number; error: ErrorBody };
+
+export interface LiquidityBatchResponse {
+	/** One result per item, in request order. */
+	results: LiquidityBatchResult[];
+	succeeded: number;
+	failed: number;
+}
+
+export type DepthSpacing = 'linear' | 'log';
+
+export interface DepthCurveRequest {
+	sellToken: string;
+	buyToken: string;
+	chainId: number;
+	/** Price impact of the largest trade in the series, as a fraction. */
+	maxImpact: number;
+	points: number;
+	spacing: DepthSpacing;
+	blockTag?: BlockTag;
+}
+
+export interface DepthCurvePoint {
+	sellAmount: string;
+	buyAmount: string;
+	priceImpactBps: number;
+}
+
+export interface DepthCurveResponse extends BlockInfo {
+	sellToken: string;
+	buyToken: string;
+	chainId: number;
+	dex: string;
+	path: string[];
+	pools: PoolSummary[];
+	spacing: DepthSpacing;
+	points: DepthCurvePoint[];
+}
+
+export interface TwapRequest {
+	sellToken: string;
+	buyToken: string;
+	chainId: number;
+	/** Length of the averaging window, in seconds. */
+	window: number;
+	blockTag?: BlockTag;
+}
+
+/** Time-weighted average price of a pool against its current spot price. */
+export interface PoolTwap extends PoolSummary {
+	/** Average price over the window, in buyToken per sellToken. */
+	twap: string;
+	spotPrice: string;
+	/** How far the spot price is above (positive) or below the TWAP. */
+	deviationBps: number;
+}
+
+export interface TwapResponse extends BlockInfo {
+	sellToken: string;
+	buyToken: string;
+	chainId: number;
+	/** Seconds between the start block and the end block. */
+	window: number;
+	startBlockNumber: number;
+	startBlockTimestamp: number;
+	pools: PoolTwap[];
+}
+
+/** A token pair the snapshot recorder tracks. */
+export interface TrackedPair {
+	chainId: number;
+	sellToken: string;
+	buyToken: string;
+}
+
+/** Reserves of a direct pool of the pair, in token units. */
+export interface PoolReserves extends PoolSummary {
+	sellReserve: string;
+	buyReserve: string;
+}
+
+export interface SnapshotQuote {
+	dex: string;
+	sellAmount: string;
+	buyAmount: string;
+}
+
+export interface LiquiditySnapshot extends BlockInfo {
+	/** Unix time the snapshot was taken, in seconds. */
+	timestamp: number;
+	sellToken: string;
+	buyToken: string;
+	chainId: number;
+	reserves: PoolReserves[];
+	quotes: Record<string, SnapshotQuote>;
+}
+
+export interface LiquidityHistoryResponse {
+	sellToken: string;
+	buyToken: string;
+	chainId: number;
+	from: number;
+	to: number;
+	/** Bucket width in seconds, or null when snapshots are returned as recorded. */
+	interval: number | null;
+	snapshots: LiquiditySnapshot[];
+}
+
+export type AmountUnit = 'token' | 'wei';
+
+export interface ExactInputQuoteRequest {
+	sellToken: string;
+	buyToken: string;
+	chainId: number;
+	sellAmount: string;
+	unit: AmountUnit;
+	blockTag?: BlockTag;
+}
+
+export interface ExactOutputQuoteRequest {
+	sellToken: string;
+	buyToken: string;
+	chainId: number;
+	buyAmount: string;
+	unit: AmountUnit;
+	blockTag?: BlockTag;
+}
+
+export interface SwapQuoteResponse extends PriceImpactBreakdown, BlockInfo {
+	sellToken: string;
+	buyToken: string;
+	chainId: number;
+	path: string[];
+	pairAddresses: string[];
+	pools: PoolSummary[];
+	sellAmount: string;
+	sellAmountWei: string;
+	buyAmount: string;
+	buyAmountWei: string;
+	effectivePrice: string;
+	spotPrice: string;
+}
+
+export type ChainHealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface EndpointHealth {
+	/** Origin of the RPC URL; paths and queries may hold API keys. */
+	url: string;
+	healthy: boolean;
+	latencyMs: number | null;
+	latestBlock: number | null;
+	blockAgeSeconds: number | null;
+	error?: string;
+}
+
+/**
+ * A chain is healthy when every endpoint serves a recent block, degraded
+ * when only some do and unhealthy when none does.
+ */
+export interface ChainHealth {
+	chainId: number;
+	name: string;
+	status: ChainHealthStatus;
+	latestBlock: number | null;
+	blockAgeSeconds: number | null;
+	endpoints: EndpointHealth[];
+}
+
+export interface UniswapV2DexConfig {
+	type: 'uniswap-v2';
+	name: string;
 	factoryAddress: string;
 	routerAddress: string;
+	/** Swap fee charged by every pair of the DEX, in basis points. */
+	feeBps: number;
+}
+
+export interface UniswapV3DexConfig {
+	type: 'uniswap-v3';
 	name: string;
+	factoryAddress: string;
+	tickLensAddress: string;
+	feeTiers: number[];
 }
 
-export interface TokenReserves {
-	reserveSell: string;
-	reserveBuy: string;
-	token0: string;
-	token1: string;
+export interface CurveDexConfig {
+	type: 'curve';
+	name: string;
+	registryAddress: string;
+}
+
+export type DexConfig =
+	| UniswapV2DexConfig
+	| UniswapV3DexConfig
+	| CurveDexConfig;
+
+export type DexType = DexConfig['type'];
+
+export interface ChainConfig {
+	/** RPC endpoints, in order of preference until their health is known. */
+	rpcUrls: string[];
+	name: string;
+	baseTokens: string[];
+	/** USD stablecoins valued at $1; USD prices route to them. */
+	stablecoins: string[];
+	/** Multicall3 contract batching eth_calls; unset sends each call alone. */
+	multicall3Address?: string;
+	dexes: DexConfig[];
 }
@@ -0,0 +1,55 @@
+import { ethers } from 'ethers';
+import { AmountUnit } from '../types';
+
+const TOKEN_AMOUNT_PATTERN = /^(\d+(\.\d*)?|\.\d+)$/;
+const WEI_AMOUNT_PATTERN = /^\d+$/;
+
+export const parseAmountUnit = (unit: unknown): AmountUnit => {
+	if (unit === undefined) {
+		return 'token';
+	}
+	if (unit === 'token' || unit === 'wei') {
+		return unit;
+	}
+	throw new Error('Invalid amount: unit must be "token" or "wei"');
+};
+
+export const validateAmountFormat = (amount: string, unit: AmountUnit) => {
+	const pattern = unit === 'wei' ? WEI_AMOUNT_PATTERN : TOKEN_AMOUNT_PATTERN;
+	if (!pattern.test(amount)) {
+		throw new Error(
+			`Invalid amount: ${amount} is not a valid ${
+				unit === 'wei' ? 'integer wei' : 'decimal token'
+			} amount`
+		);
+	}
+};
+
+export const parseTokenAmount = (
+	amount: string,
+	unit: AmountUnit,
+	decimals: number
+): ethers.BigNumber => {
+	validateAmountFormat(amount, unit);
+
+	// parseUnits rejects the trailing dot of amounts such as "1."
+	const digits = amount.replace(/\.$/, '');
+
+	let parsed: ethers.BigNumber;
+	try {
+		parsed =
+			unit === 'wei'
+				? ethers.BigNumber.from(digits)
+				: ethers.utils.parseUnits(digits, decimals);
+	} catch {
+		throw new Error(
+			`Invalid amount: ${amount} has more than ${decimals} decimal places`
+		);
+	}
+
+	if (parsed.eq(0)) {
+		throw new Error('Invalid amount: amount must be greater than zero');
+	}
+
+	return parsed;
+};
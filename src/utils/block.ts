@@ -0,0 +1,136 @@
+import { ethers } from 'ethers';
+import { TIMEOUT_CONFIG } from '../constants';
+import { BlockTag } from '../types';
+import { withTimeout } from './timeout';
+import { MulticallBatcher, isBatchableCall } from './multicall';
+
+// Blocks the timestamp search first steps back from the latest block
+const INITIAL_SEARCH_SPAN = 100;
+const MAX_SEARCH_STEPS = 64;
+
+export interface PinnedBlock {
+	number: number;
+	timestamp: number;
+}
+
+/**
+ * JSON-RPC provider whose `eth_call`s default to a fixed block instead of
+ * "latest", so every contract read made for a request sees the same state.
+ * Requests are sent through `upstream`, typically the chain's long-lived
+ * failover provider. Given a Multicall3 address, reads at a block number are
+ * batched into `aggregate3` calls. The chain is taken from `upstream`, so
+ * reads are not preceded by `eth_chainId` requests.
+ */
+export class BlockPinnedProvider extends ethers.providers
+	.StaticJsonRpcProvider {
+	private readonly multicall?: MulticallBatcher;
+
+	constructor(
+		private readonly upstream: ethers.providers.JsonRpcProvider,
+		readonly pinnedBlockNumber: number,
+		multicall3Address?: string
+	) {
+		super(upstream.connection, upstream.network);
+		if (multicall3Address) {
+			this.multicall = new MulticallBatcher(
+				multicall3Address,
+				(transaction, blockTag) => super.call(transaction, blockTag)
+			);
+		}
+	}
+
+	call(
+		transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>,
+		blockTag?: ethers.providers.BlockTag | Promise<ethers.providers.BlockTag>
+	): Promise<string> {
+		const tag = blockTag ?? this.pinnedBlockNumber;
+		if (
+			this.multicall &&
+			typeof tag === 'number' &&
+			isBatchableCall(transaction)
+		) {
+			return this.multicall.call(transaction, tag);
+		}
+		return super.call(transaction, tag);
+	}
+
+	send(method: string, params: Array<any>): Promise<any> {
+		return this.upstream.send(method, params);
+	}
+}
+
+/** Number and timestamp of the block `blockTag` refers to right now. */
+export const resolveBlock = async (
+	provider: ethers.providers.JsonRpcProvider,
+	blockTag: BlockTag
+): Promise<PinnedBlock> => {
+	const block = await withTimeout(
+		provider.getBlock(blockTag),
+		TIMEOUT_CONFIG.RPC_CALL_TIMEOUT,
+		'RPC call timeout'
+	);
+	if (!block) {
+		throw new Error(`Invalid blockTag: block ${blockTag} not found`);
+	}
+	return { number: block.number, timestamp: block.timestamp };
+};
+
+/**
+ * Last block mined at or before `timestamp`, searched for backwards from
+ * `latest`. Steps back at least doubling the span until the target is
+ * passed, then narrows the bracket alternating between interpolating on
+ * block times and bisecting, so uneven block times cannot stall it.
+ */
+export const findBlockAtTimestamp = async (
+	provider: ethers.providers.JsonRpcProvider,
+	timestamp: number,
+	latest: PinnedBlock
+): Promise<PinnedBlock> => {
+	if (latest.timestamp <= timestamp) {
+		return latest;
+	}
+
+	let high = latest;
+	let low = await resolveBlock(
+		provider,
+		Math.max(0, latest.number - INITIAL_SEARCH_SPAN)
+	);
+	while (low.timestamp > timestamp) {
+		if (low.number === 0) {
+			throw new Error(`Invalid window: no block was mined before ${timestamp}`);
+		}
+		const span = high.number - low.number;
+		const estimate =
+			low.number -
+			Math.ceil(
+				((low.timestamp - timestamp) * span) /
+					Math.max(1, high.timestamp - low.timestamp)
+			);
+		high = low;
+		low = await resolveBlock(
+			provider,
+			Math.max(0, Math.min(estimate, low.number - span))
+		);
+	}
+
+	for (let i = 0; i < MAX_SEARCH_STEPS && high.number - low.number > 1; i++) {
+		const estimate =
+			i % 2 === 0
+				? low.number +
+				  Math.floor(
+						((timestamp - low.timestamp) * (high.number - low.number)) /
+							(high.timestamp - low.timestamp)
+				  )
+				: Math.floor((low.number + high.number) / 2);
+		const block = await resolveBlock(
+			provider,
+			Math.min(Math.max(estimate, low.number + 1), high.number - 1)
+		);
+		if (block.timestamp <= timestamp) {
+			low = block;
+		} else {
+			high = block;
+		}
+	}
+	return low;
+};
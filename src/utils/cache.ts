@@ -1,3 +1,9 @@
+import {
+	cacheEvictionsTotal,
+	cacheHitsTotal,
+	cacheMissesTotal,
+} from './metrics';
+
 export interface CacheEntry<T> {
 	data: T;
 	timestamp: number;
@@ -7,19 +13,30 @@ export interface CacheEntry<T> {
 export class SimpleCache<T> {
 	private cache = new Map<string, CacheEntry<T>>();
 
-	constructor(private maxSize: number, private ttl: number) {}
+	/** `name` labels the cache's hit, miss and eviction metrics. */
+	constructor(
+		private maxSize: number,
+		private ttl: number,
+		private name = 'default'
+	) {}
 
 	get(key: string): T | null {
 		const entry = this.cache.get(key);
-		if (!entry) return null;
+		if (!entry) {
+			cacheMissesTotal.inc({ cache: this.name });
+			return null;
+		}
 
 		const now = Date.now();
 		if (now - entry.timestamp > this.ttl) {
 			this.cache.delete(key);
+			cacheMissesTotal.inc({ cache: this.name });
+			cacheEvictionsTotal.inc({ cache: this.name, reason: 'expired' });
 			return null;
 		}
 
 		entry.lastAccessed = now;
+		cacheHitsTotal.inc({ cache: this.name });
 
 		return entry.data;
 	}
@@ -64,6 +81,12 @@ export class SimpleCache<T> {
 				removedExpired++;
 			}
 		}
+		if (removedExpired > 0) {
+			cacheEvictionsTotal.inc(
+				{ cache: this.name, reason: 'expired' },
+				removedExpired
+			);
+		}
 
 		if (this.cache.size >= this.maxSize) {
 			const entries = Array.from(this.cache.entries());
@@ -75,6 +98,10 @@ export class SimpleCache<T> {
 			for (let i = 0; i < toRemove && i < entries.length; i++) {
 				this.cache.delete(entries[i][0]);
 			}
+			cacheEvictionsTotal.inc(
+				{ cache: this.name, reason: 'capacity' },
+				Math.min(toRemove, entries.length)
+			);
 		}
 	}
 
@@ -0,0 +1,412 @@
+import { ethers } from 'ethers';
+
+/**
+ * Local port of the Uniswap V3 swap math (TickMath, SqrtPriceMath, SwapMath
+ * and the tick-walking loop of UniswapV3Pool.swap) so quotes can be computed
+ * from a snapshot of the pool without calling the quoter.
+ */
+
+const { BigNumber } = ethers;
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = BigNumber.from('4295128739');
+export const MAX_SQRT_RATIO = BigNumber.from(
+	'1461446703485210103287273052203988822378723970342'
+);
+export const Q96 = BigNumber.from(2).pow(96);
+export const Q192 = Q96.mul(Q96);
+
+const FEE_PIPS_DENOMINATOR = 1_000_000;
+const MAX_UINT160 = BigNumber.from(2).pow(160).sub(1);
+const MAX_UINT256 = ethers.constants.MaxUint256;
+
+const TICK_RATIO_FACTORS = [
+	'0xfff97272373d413259a46990580e213a',
+	'0xfff2e50f5f656932ef12357cf3c7fdcc',
+	'0xffe5caca7e10e4e61c3624eaa0941cd0',
+	'0xffcb9843d60f6159c9db58835c926644',
+	'0xff973b41fa98c081472e6896dfb254c0',
+	'0xff2ea16466c96a3843ec78b326b52861',
+	'0xfe5dee046a99a2a811c461f1969c3053',
+	'0xfcbe86c7900a88aedcffc83b479aa3a4',
+	'0xf987a7253ac413176f2b074cf7815e54',
+	'0xf3392b0822b70005940c7a398e4b70f3',
+	'0xe7159475a2c29b7443b29c7fa6e889d9',
+	'0xd097f3bdfd2022b8845ad8f792aa5825',
+	'0xa9f746462d870fdf8a65dc1f90e061e5',
+	'0x70d869a156d2a1b890bb3df62baf32f7',
+	'0x31be135f97d08fd981231505542fcfa6',
+	'0x9aa508b5b7a84e1c677de54f3e99bc9',
+	'0x5d6af8dedb81196699c329225ee604',
+	'0x2216e584f5fa1ea926041bedfe98',
+	'0x48a170391f7dc42444e8fa2',
+].map((factor) => BigNumber.from(factor));
+
+export interface InitializedTick {
+	tick: number;
+	liquidityNet: ethers.BigNumber;
+}
+
+/** Snapshot of a pool: price, active liquidity and the initialized ticks of the loaded bitmap words. */
+export interface ConcentratedLiquidityState {
+	sqrtPriceX96: ethers.BigNumber;
+	tick: number;
+	liquidity: ethers.BigNumber;
+	tickSpacing: number;
+	feePips: number;
+	ticks: InitializedTick[];
+	minWord: number;
+	maxWord: number;
+}
+
+const mulDivRoundingUp = (
+	a: ethers.BigNumber,
+	b: ethers.BigNumber,
+	denominator: ethers.BigNumber
+): ethers.BigNumber => {
+	const product = a.mul(b);
+	const result = product.div(denominator);
+	return product.mod(denominator).gt(0) ? result.add(1) : result;
+};
+
+const divRoundingUp = (
+	a: ethers.BigNumber,
+	b: ethers.BigNumber
+): ethers.BigNumber => (a.mod(b).gt(0) ? a.div(b).add(1) : a.div(b));
+
+export const getSqrtRatioAtTick = (tick: number): ethers.BigNumber => {
+	const absTick = Math.abs(tick);
+	if (absTick > MAX_TICK) {
+		throw new Error(`Tick ${tick} is out of range`);
+	}
+
+	let ratio =
+		absTick & 0x1
+			? BigNumber.from('0xfffcb933bd6fad37aa2d162d1a594001')
+			: BigNumber.from(2).pow(128);
+	TICK_RATIO_FACTORS.forEach((factor, index) => {
+		if (absTick & (1 << (index + 1))) {
+			ratio = ratio.mul(factor).shr(128);
+		}
+	});
+
+	if (tick > 0) {
+		ratio = MAX_UINT256.div(ratio);
+	}
+
+	const remainder = ratio.mod(BigNumber.from(2).pow(32));
+	return ratio.shr(32).add(remainder.gt(0) ? 1 : 0);
+};
+
+export const getAmount0Delta = (
+	sqrtRatioA: ethers.BigNumber,
+	sqrtRatioB: ethers.BigNumber,
+	liquidity: ethers.BigNumber,
+	roundUp: boolean
+): ethers.BigNumber => {
+	const [lower, upper] = sqrtRatioA.lt(sqrtRatioB)
+		? [sqrtRatioA, sqrtRatioB]
+		: [sqrtRatioB, sqrtRatioA];
+	const numerator1 = liquidity.shl(96);
+	const numerator2 = upper.sub(lower);
+
+	return roundUp
+		? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, upper), lower)
+		: numerator1.mul(numerator2).div(upper).div(lower);
+};
+
+export const getAmount1Delta = (
+	sqrtRatioA: ethers.BigNumber,
+	sqrtRatioB: ethers.BigNumber,
+	liquidity: ethers.BigNumber,
+	roundUp: boolean
+): ethers.BigNumber => {
+	const difference = sqrtRatioA.sub(sqrtRatioB).abs();
+	return roundUp
+		? mulDivRoundingUp(liquidity, difference, Q96)
+		: liquidity.mul(difference).div(Q96);
+};
+
+const getNextSqrtPriceFromAmount0RoundingUp = (
+	sqrtPrice: ethers.BigNumber,
+	liquidity: ethers.BigNumber,
+	amount: ethers.BigNumber,
+	add: boolean
+): ethers.BigNumber => {
+	if (amount.eq(0)) {
+		return sqrtPrice;
+	}
+
+	const numerator1 = liquidity.shl(96);
+	const product = amount.mul(sqrtPrice);
+
+	if (add) {
+		const denominator = numerator1.add(product);
+		if (product.lte(MAX_UINT256) && denominator.lte(MAX_UINT256)) {
+			return mulDivRoundingUp(numerator1, sqrtPrice, denominator);
+		}
+		return divRoundingUp(numerator1, numerator1.div(sqrtPrice).add(amount));
+	}
+
+	if (product.gt(MAX_UINT256) || numerator1.lte(product)) {
+		throw new Error('Insufficient liquidity: output exceeds pool liquidity');
+	}
+	return mulDivRoundingUp(numerator1, sqrtPrice, numerator1.sub(product));
+};
+
+const getNextSqrtPriceFromAmount1RoundingDown = (
+	sqrtPrice: ethers.BigNumber,
+	liquidity: ethers.BigNumber,
+	amount: ethers.BigNumber,
+	add: boolean
+): ethers.BigNumber => {
+	if (add) {
+		return sqrtPrice.add(amount.shl(96).div(liquidity));
+	}
+
+	const quotient = amount.lte(MAX_UINT160)
+		? divRoundingUp(amount.shl(96), liquidity)
+		: mulDivRoundingUp(amount, Q96, liquidity);
+	if (sqrtPrice.lte(quotient)) {
+		throw new Error('Insufficient liquidity: output exceeds pool liquidity');
+	}
+	return sqrtPrice.sub(quotient);
+};
+
+interface SwapStepResult {
+	sqrtPriceNext: ethers.BigNumber;
+	amountIn: ethers.BigNumber;
+	amountOut: ethers.BigNumber;
+	feeAmount: ethers.BigNumber;
+}
+
+/** SwapMath.computeSwapStep; a negative `amountRemaining` requests an exact output. */
+export const computeSwapStep = (
+	sqrtPriceCurrent: ethers.BigNumber,
+	sqrtPriceTarget: ethers.BigNumber,
+	liquidity: ethers.BigNumber,
+	amountRemaining: ethers.BigNumber,
+	feePips: number
+): SwapStepResult => {
+	const zeroForOne = sqrtPriceCurrent.gte(sqrtPriceTarget);
+	const exactIn = amountRemaining.gte(0);
+
+	let sqrtPriceNext: ethers.BigNumber;
+	let amountIn = ethers.constants.Zero;
+	let amountOut = ethers.constants.Zero;
+
+	if (exactIn) {
+		const amountRemainingLessFee = amountRemaining
+			.mul(FEE_PIPS_DENOMINATOR - feePips)
+			.div(FEE_PIPS_DENOMINATOR);
+		amountIn = zeroForOne
+			? getAmount0Delta(sqrtPriceTarget, sqrtPriceCurrent, liquidity, true)
+			: getAmount1Delta(sqrtPriceCurrent, sqrtPriceTarget, liquidity, true);
+		sqrtPriceNext = amountRemainingLessFee.gte(amountIn)
+			? sqrtPriceTarget
+			: zeroForOne
+			? getNextSqrtPriceFromAmount0RoundingUp(
+					sqrtPriceCurrent,
+					liquidity,
+					amountRemainingLessFee,
+					true
+			  )
+			: getNextSqrtPriceFromAmount1RoundingDown(
+					sqrtPriceCurrent,
+					liquidity,
+					amountRemainingLessFee,
+					true
+			  );
+	} else {
+		amountOut = zeroForOne
+			? getAmount1Delta(sqrtPriceTarget, sqrtPriceCurrent, liquidity, false)
+			: getAmount0Delta(sqrtPriceCurrent, sqrtPriceTarget, liquidity, false);
+		sqrtPriceNext = amountRemaining.mul(-1).gte(amountOut)
+			? sqrtPriceTarget
+			: zeroForOne
+			? getNextSqrtPriceFromAmount1RoundingDown(
+					sqrtPriceCurrent,
+					liquidity,
+					amountRemaining.mul(-1),
+					false
+			  )
+			: getNextSqrtPriceFromAmount0RoundingUp(
+					sqrtPriceCurrent,
+					liquidity,
+					amountRemaining.mul(-1),
+					false
+			  );
+	}
+
+	const reachedTarget = sqrtPriceTarget.eq(sqrtPriceNext);
+
+	if (zeroForOne) {
+		if (!(reachedTarget && exactIn)) {
+			amountIn = getAmount0Delta(
+				sqrtPriceNext,
+				sqrtPriceCurrent,
+				liquidity,
+				true
+			);
+		}
+		if (!(reachedTarget && !exactIn)) {
+			amountOut = getAmount1Delta(
+				sqrtPriceNext,
+				sqrtPriceCurrent,
+				liquidity,
+				false
+			);
+		}
+	} else {
+		if (!(reachedTarget && exactIn)) {
+			amountIn = getAmount1Delta(
+				sqrtPriceCurrent,
+				sqrtPriceNext,
+				liquidity,
+				true
+			);
+		}
+		if (!(reachedTarget && !exactIn)) {
+			amountOut = getAmount0Delta(
+				sqrtPriceCurrent,
+				sqrtPriceNext,
+				liquidity,
+				false
+			);
+		}
+	}
+
+	if (!exactIn && amountOut.gt(amountRemaining.mul(-1))) {
+		amountOut = amountRemaining.mul(-1);
+	}
+
+	const feeAmount =
+		exactIn && !reachedTarget
+			? amountRemaining.sub(amountIn)
+			: mulDivRoundingUp(
+					amountIn,
+					BigNumber.from(feePips),
+					BigNumber.from(FEE_PIPS_DENOMINATOR - feePips)
+			  );
+
+	return { sqrtPriceNext, amountIn, amountOut, feeAmount };
+};
+
+/** Word of the tick bitmap holding `tick`, as read by TickLens. */
+export const getTickWord = (tick: number, tickSpacing: number): number =>
+	Math.floor(Math.floor(tick / tickSpacing) / 256);
+
+/**
+ * TickBitmap.nextInitializedTickWithinOneWord over the loaded ticks. Throws
+ * once the walk leaves the words that were read from chain.
+ */
+const nextInitializedTickWithinOneWord = (
+	state: ConcentratedLiquidityState,
+	tick: number,
+	lte: boolean
+): { tickNext: number; initialized: boolean } => {
+	const { tickSpacing, ticks } = state;
+	const compressed = Math.floor(tick / tickSpacing);
+	const startCompressed = lte ? compressed : compressed + 1;
+	const word = Math.floor(startCompressed / 256);
+
+	if (word < state.minWord || word > state.maxWord) {
+		throw new Error(
+			'Insufficient liquidity: swap moves the price beyond the loaded ticks'
+		);
+	}
+
+	if (lte) {
+		const lowest = word * 256 * tickSpacing;
+		const initialized = ticks
+			.filter((t) => t.tick >= lowest && t.tick <= compressed * tickSpacing)
+			.pop();
+		return initialized
+			? { tickNext: initialized.tick, initialized: true }
+			: { tickNext: lowest, initialized: false };
+	}
+
+	const highest = (word * 256 + 255) * tickSpacing;
+	const initialized = ticks.find(
+		(t) => t.tick >= startCompressed * tickSpacing && t.tick <= highest
+	);
+	return initialized
+		? { tickNext: initialized.tick, initialized: true }
+		: { tickNext: highest, initialized: false };
+};
+
+/**
+ * Simulates UniswapV3Pool.swap. A positive `amountSpecified` is an exact
+ * input and returns the output; a negative one is an exact output and
+ * returns the input including fees. Throws when the pool cannot fill it.
+ */
+export const simulateSwap = (
+	state: ConcentratedLiquidityState,
+	zeroForOne: boolean,
+	amountSpecified: ethers.BigNumber
+): ethers.BigNumber => {
+	const exactIn = amountSpecified.gte(0);
+	const sqrtPriceLimit = zeroForOne
+		? MIN_SQRT_RATIO.add(1)
+		: MAX_SQRT_RATIO.sub(1);
+
+	let remaining = amountSpecified;
+	let calculated = ethers.constants.Zero;
+	let sqrtPrice = state.sqrtPriceX96;
+	let tick = state.tick;
+	let liquidity = state.liquidity;
+
+	while (!remaining.eq(0)) {
+		if (sqrtPrice.eq(sqrtPriceLimit)) {
+			throw new Error(
+				'Insufficient liquidity: swap exhausts the liquidity of the pool'
+			);
+		}
+
+		const next = nextInitializedTickWithinOneWord(state, tick, zeroForOne);
+		const tickNext = Math.min(Math.max(next.tickNext, MIN_TICK), MAX_TICK);
+		const sqrtPriceNext = getSqrtRatioAtTick(tickNext);
+		const sqrtPriceTarget = (
+			zeroForOne
+				? sqrtPriceNext.lt(sqrtPriceLimit)
+				: sqrtPriceNext.gt(sqrtPriceLimit)
+		)
+			? sqrtPriceLimit
+			: sqrtPriceNext;
+
+		const step = computeSwapStep(
+			sqrtPrice,
+			sqrtPriceTarget,
+			liquidity,
+			remaining,
+			state.feePips
+		);
+		sqrtPrice = step.sqrtPriceNext;
+
+		if (exactIn) {
+			remaining = remaining.sub(step.amountIn.add(step.feeAmount));
+			calculated = calculated.add(step.amountOut);
+		} else {
+			remaining = remaining.add(step.amountOut);
+			calculated = calculated.add(step.amountIn.add(step.feeAmount));
+		}
+
+		if (sqrtPrice.eq(sqrtPriceNext)) {
+			if (next.initialized) {
+				const crossed = state.ticks.find((t) => t.tick === tickNext);
+				if (!crossed) {
+					throw new Error(
+						'Insufficient liquidity: swap moves the price beyond the loaded ticks'
+					);
+				}
+				liquidity = liquidity.add(
+					zeroForOne ? crossed.liquidityNet.mul(-1) : crossed.liquidityNet
+				);
+			}
+			tick = zeroForOne ? tickNext - 1 : tickNext;
+		}
+	}
+
+	return calculated;
+};
@@ -0,0 +1,32 @@
+/**
+ * Calls `fn` on every item with at most `limit` calls in flight and settles
+ * each one, so a failing item does not stop the others. Results keep the
+ * order of `items`.
+ */
+export const settleWithConcurrency = async <T, R>(
+	items: readonly T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> => {
+	const results: PromiseSettledResult<R>[] = new Array(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			try {
+				results[index] = {
+					status: 'fulfilled',
+					value: await fn(items[index], index),
+				};
+			} catch (reason) {
+				results[index] = { status: 'rejected', reason };
+			}
+		}
+	};
+
+	await Promise.all(
+		Array.from({ length: Math.min(limit, items.length) }, worker)
+	);
+	return results;
+};
@@ -0,0 +1,124 @@
+import { ethers } from 'ethers';
+import { IMPACT_PRECISION, PriceRatio } from './price';
+
+export const FEE_DENOMINATOR = 10_000;
+
+export interface PoolHop {
+	reserveIn: ethers.BigNumber;
+	reserveOut: ethers.BigNumber;
+	feeBps: number;
+}
+
+/**
+ * Output of a constant-product swap, identical to UniswapV2Library.getAmountOut
+ * with the pair fee expressed in basis points (30 = 0.3%).
+ */
+export const getAmountOut = (
+	amountIn: ethers.BigNumber,
+	reserveIn: ethers.BigNumber,
+	reserveOut: ethers.BigNumber,
+	feeBps: number
+): ethers.BigNumber => {
+	const amountInWithFee = amountIn.mul(FEE_DENOMINATOR - feeBps);
+	return amountInWithFee
+		.mul(reserveOut)
+		.div(reserveIn.mul(FEE_DENOMINATOR).add(amountInWithFee));
+};
+
+/**
+ * Input required to receive exactly `amountOut`, identical to
+ * UniswapV2Library.getAmountIn. The output must be below `reserveOut`.
+ */
+export const getAmountIn = (
+	amountOut: ethers.BigNumber,
+	reserveIn: ethers.BigNumber,
+	reserveOut: ethers.BigNumber,
+	feeBps: number
+): ethers.BigNumber => {
+	if (amountOut.gte(reserveOut)) {
+		throw new Error(
+			`Insufficient liquidity: requested output ${amountOut.toString()} exceeds available reserve ${reserveOut.toString()}`
+		);
+	}
+
+	const numerator = reserveIn.mul(amountOut).mul(FEE_DENOMINATOR);
+	const denominator = reserveOut.sub(amountOut).mul(FEE_DENOMINATOR - feeBps);
+	return numerator.div(denominator).add(1);
+};
+
+export const getAmountOutAlongPath = (
+	amountIn: ethers.BigNumber,
+	hops: PoolHop[]
+): ethers.BigNumber =>
+	hops.reduce(
+		(amount, hop) =>
+			getAmountOut(amount, hop.reserveIn, hop.reserveOut, hop.feeBps),
+		amountIn
+	);
+
+export const getAmountInAlongPath = (
+	amountOut: ethers.BigNumber,
+	hops: PoolHop[]
+): ethers.BigNumber =>
+	hops.reduceRight(
+		(amount, hop) =>
+			getAmountIn(amount, hop.reserveIn, hop.reserveOut, hop.feeBps),
+		amountOut
+	);
+
+/** Spot price of a path in raw token units, excluding fees. */
+export const getSpotPrice = (hops: PoolHop[]): PriceRatio => ({
+	numerator: hops.reduce(
+		(product, hop) => product.mul(hop.reserveOut),
+		ethers.constants.One
+	),
+	denominator: hops.reduce(
+		(product, hop) => product.mul(hop.reserveIn),
+		ethers.constants.One
+	),
+});
+
+/**
+ * Exact trade size whose execution price along `hops` is `targetImpact`
+ * below the spot price. The LP fees count towards the impact, so targets at
+ * or below the combined fee have no depth and resolve to zero.
+ *
+ * Each hop maps an input x to a*x / (b + c*x). Composing such maps keeps the
+ * same form, so the whole path behaves like a single virtual pool and the
+ * target can be solved in closed form; only `a` and `c` are tracked because
+ * `b` is always the product of the scaled input reserves.
+ */
+export const solveAmountInForImpact = (
+	hops: PoolHop[],
+	targetImpact: number
+): ethers.BigNumber => {
+	const target = Math.round(targetImpact * IMPACT_PRECISION);
+	const remaining = IMPACT_PRECISION - target;
+
+	let a = ethers.constants.One;
+	let c = ethers.constants.Zero;
+	let feeProduct = ethers.constants.One;
+	let feeDenominator = ethers.constants.One;
+	let reserveInProduct = ethers.constants.One;
+
+	for (const hop of hops) {
+		const feeFactor = FEE_DENOMINATOR - hop.feeBps;
+		const hopB = hop.reserveIn.mul(FEE_DENOMINATOR);
+
+		c = hopB.mul(c).add(a.mul(feeFactor));
+		a = a.mul(hop.reserveOut).mul(feeFactor);
+
+		feeProduct = feeProduct.mul(feeFactor);
+		feeDenominator = feeDenominator.mul(FEE_DENOMINATOR);
+		reserveInProduct = reserveInProduct.mul(hop.reserveIn);
+	}
+
+	const numerator = reserveInProduct.mul(
+		feeProduct.mul(IMPACT_PRECISION).sub(feeDenominator.mul(remaining))
+	);
+	if (numerator.lte(0) || c.eq(0)) {
+		return ethers.constants.Zero;
+	}
+
+	return numerator.div(c.mul(remaining));
+};
@@ -0,0 +1,74 @@
+import { ethers } from 'ethers';
+import { DEPTH_CURVE_CONFIG } from '../constants';
+import { DepthSpacing } from '../types';
+import { parseSlippageLevel } from './levels';
+
+const POINT_COUNT_PATTERN = /^\d+$/;
+const SPACING_PRECISION = 1_000_000_000_000;
+
+export const parseMaxImpact = (input: unknown): number => {
+	if (input === undefined) {
+		return DEPTH_CURVE_CONFIG.DEFAULT_MAX_IMPACT;
+	}
+	if (typeof input !== 'string') {
+		throw new Error('Invalid maxImpact: maxImpact must be a string');
+	}
+	return parseSlippageLevel(input, 'maxImpact');
+};
+
+export const parsePointCount = (input: unknown): number => {
+	if (input === undefined) {
+		return DEPTH_CURVE_CONFIG.DEFAULT_POINTS;
+	}
+
+	const { MIN_POINTS, MAX_POINTS } = DEPTH_CURVE_CONFIG;
+	const points =
+		typeof input === 'string' && POINT_COUNT_PATTERN.test(input)
+			? parseInt(input, 10)
+			: NaN;
+	if (!(points >= MIN_POINTS && points <= MAX_POINTS)) {
+		throw new Error(
+			`Invalid points: points must be an integer between ${MIN_POINTS} and ${MAX_POINTS}`
+		);
+	}
+	return points;
+};
+
+export const parseDepthSpacing = (input: unknown): DepthSpacing => {
+	if (input === undefined) {
+		return DEPTH_CURVE_CONFIG.DEFAULT_SPACING;
+	}
+	if (input === 'linear' || input === 'log') {
+		return input;
+	}
+	throw new Error('Invalid spacing: spacing must be "linear" or "log"');
+};
+
+/**
+ * `points` trade sizes from 0 up to `maxAmount`. Linear spacing steps evenly;
+ * log spacing puts every point after the origin on a geometric grid spanning
+ * `LOG_SPAN_DECADES` orders of magnitude, so the shallow end of the curve
+ * gets as much detail as the deep end.
+ */
+export const getDepthCurveAmounts = (
+	maxAmount: ethers.BigNumber,
+	points: number,
+	spacing: DepthSpacing
+): ethers.BigNumber[] => {
+	const intervals = points - 1;
+	return Array.from({ length: points }, (_, index) => {
+		if (index === 0) {
+			return ethers.constants.Zero;
+		}
+		if (spacing === 'linear' || intervals === 1) {
+			return maxAmount.mul(index).div(intervals);
+		}
+
+		const exponent =
+			(-DEPTH_CURVE_CONFIG.LOG_SPAN_DECADES * (intervals - index)) /
+			(intervals - 1);
+		return maxAmount
+			.mul(Math.round(10 ** exponent * SPACING_PRECISION))
+			.div(SPACING_PRECISION);
+	});
+};
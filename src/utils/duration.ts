@@ -0,0 +1,25 @@
+const DURATION_PATTERN = /^(\d+)(s|m|h|d)?$/;
+const DURATION_UNITS: Record<string, number> = {
+	s: 1,
+	m: 60,
+	h: 60 * 60,
+	d: 24 * 60 * 60,
+};
+
+/**
+ * Parses a duration such as `300`, `15m`, `1h` or `1d` into seconds. `name`
+ * is the parameter reported in errors.
+ */
+export const parseDuration = (input: unknown, name: string): number => {
+	const match =
+		typeof input === 'string' ? input.match(DURATION_PATTERN) : null;
+	const duration = match
+		? parseInt(match[1], 10) * DURATION_UNITS[match[2] ?? 's']
+		: 0;
+	if (duration <= 0) {
+		throw new Error(
+			`Invalid ${name}: ${name} must be a positive number of seconds or use an s, m, h or d suffix (e.g. 15m)`
+		);
+	}
+	return duration;
+};
@@ -0,0 +1,76 @@
+import { SNAPSHOT_CONFIG } from '../constants';
+import { LiquiditySnapshot } from '../types';
+import { parseDuration } from './duration';
+
+const UNIX_TIME_PATTERN = /^\d+$/;
+
+/** Parses a Unix timestamp in seconds or an ISO 8601 date into Unix seconds. */
+export const parseHistoryTime = (
+	input: unknown,
+	name: string,
+	fallback: number
+): number => {
+	if (input === undefined) {
+		return fallback;
+	}
+	if (typeof input === 'string') {
+		if (UNIX_TIME_PATTERN.test(input)) {
+			return parseInt(input, 10);
+		}
+		const milliseconds = Date.parse(input);
+		if (!isNaN(milliseconds)) {
+			return Math.floor(milliseconds / 1000);
+		}
+	}
+	throw new Error(
+		`Invalid ${name}: ${name} must be a Unix timestamp in seconds or an ISO 8601 date`
+	);
+};
+
+/** Parses a bucket width such as `300`, `15m`, `1h` or `1d` into seconds. */
+export const parseHistoryInterval = (input: unknown): number | null =>
+	input === undefined ? null : parseDuration(input, 'interval');
+
+/**
+ * Keeps the last snapshot of each `interval`-second bucket. Snapshots must
+ * be sorted by timestamp.
+ */
+export const downsampleSnapshots = (
+	snapshots: LiquiditySnapshot[],
+	interval: number
+): LiquiditySnapshot[] => {
+	const sampled: LiquiditySnapshot[] = [];
+	let lastBucket: number | null = null;
+	for (const snapshot of snapshots) {
+		const bucket = Math.floor(snapshot.timestamp / interval);
+		if (bucket === lastBucket) {
+			sampled[sampled.length - 1] = snapshot;
+		} else {
+			sampled.push(snapshot);
+			lastBucket = bucket;
+		}
+	}
+	return sampled;
+};
+
+/**
+ * Bucket width that keeps a `from`-`to` range within `MAX_HISTORY_POINTS`
+ * snapshots: the requested interval, widened when it would return more.
+ */
+export const getHistoryInterval = (
+	snapshotCount: number,
+	from: number,
+	to: number,
+	requested: number | null
+): number | null => {
+	const { MAX_HISTORY_POINTS } = SNAPSHOT_CONFIG;
+	// A range of `to - from` seconds touches at most (to - from) / interval + 2 buckets
+	const minimum = Math.max(
+		1,
+		Math.ceil((to - from) / (MAX_HISTORY_POINTS - 2))
+	);
+	if (requested !== null) {
+		return Math.max(requested, minimum);
+	}
+	return snapshotCount > MAX_HISTORY_POINTS ? minimum : null;
+};
@@ -0,0 +1,82 @@
+import { ethers } from 'ethers';
+import { IMPACT_PRECISION, PriceRatio } from './price';
+
+const MAX_ITERATIONS = 512;
+const RELATIVE_TOLERANCE = 1_000_000_000;
+
+/**
+ * Largest input whose execution price stays within `targetImpact` of
+ * `spotPrice`, found by bisection for curves without a closed-form solution.
+ * `quote` must be monotonic and may throw once the input can no longer be
+ * filled. Resolves to zero when even the smallest measurable trade exceeds
+ * the target, e.g. a target below the pool fee. `onIterations` receives the
+ * number of iterations the search took.
+ */
+export const searchAmountInForImpact = (
+	quote: (amountIn: ethers.BigNumber) => ethers.BigNumber,
+	spotPrice: PriceRatio,
+	targetImpact: number,
+	onIterations?: (iterations: number) => void
+): ethers.BigNumber => {
+	const remaining =
+		IMPACT_PRECISION - Math.round(targetImpact * IMPACT_PRECISION);
+
+	const tryQuote = (amountIn: ethers.BigNumber): ethers.BigNumber | null => {
+		try {
+			return quote(amountIn);
+		} catch {
+			return null;
+		}
+	};
+	const isWithinTarget = (amountIn: ethers.BigNumber): boolean => {
+		const amountOut = tryQuote(amountIn);
+		return (
+			amountOut !== null &&
+			amountOut
+				.mul(spotPrice.denominator)
+				.mul(IMPACT_PRECISION)
+				.gte(amountIn.mul(spotPrice.numerator).mul(remaining))
+		);
+	};
+
+	let iterations = 0;
+
+	// Rounding dominates the impact of tiny trades, so start from the first
+	// size whose output is large enough to measure it precisely.
+	let low = ethers.constants.One;
+	let amountOut = tryQuote(low);
+	while (
+		amountOut &&
+		amountOut.lt(IMPACT_PRECISION) &&
+		iterations++ < MAX_ITERATIONS
+	) {
+		low = low.mul(2);
+		amountOut = tryQuote(low);
+	}
+	if (!isWithinTarget(low)) {
+		onIterations?.(iterations);
+		return ethers.constants.Zero;
+	}
+
+	let high = low.mul(2);
+	while (isWithinTarget(high) && iterations++ < MAX_ITERATIONS) {
+		low = high;
+		high = high.mul(2);
+	}
+
+	while (
+		high.sub(low).gt(1) &&
+		high.sub(low).mul(RELATIVE_TOLERANCE).gt(low) &&
+		iterations++ < MAX_ITERATIONS
+	) {
+		const middle = low.add(high).div(2);
+		if (isWithinTarget(middle)) {
+			low = middle;
+		} else {
+			high = middle;
+		}
+	}
+
+	onIterations?.(iterations);
+	return low;
+};
@@ -0,0 +1,134 @@
+import { SLIPPAGE_LEVELS_CONFIG, USD_PRICING_CONFIG } from '../constants';
+
+const LEVEL_PATTERN = /^(\d+(?:\.\d+)?|\.\d+)\s*(%|bps)?$/i;
+const USD_LEVEL_PATTERN = /^\$?(\d+(?:\.\d+)?|\.\d+)\s*(k|m)?$/i;
+const USD_LEVEL_MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6 };
+
+export const formatSlippageLevel = (level: number): string =>
+	`${parseFloat((level * 100).toFixed(4))}%`;
+
+export const formatUsdLevel = (notional: number): string =>
+	`$${parseFloat(notional.toFixed(2))}`;
+
+/**
+ * Parses a single slippage level, e.g. `0.5`, `0.5%` or `50bps`, into a
+ * fraction. `name` is the parameter reported in errors.
+ */
+export const parseSlippageLevel = (raw: string, name = 'levels'): number => {
+	const match = raw.trim().match(LEVEL_PATTERN);
+	if (!match) {
+		throw new Error(
+			`Invalid ${name}: "${raw}" is not a percentage (e.g. 0.5 or 0.5%) or bps value (e.g. 50bps)`
+		);
+	}
+
+	const value = parseFloat(match[1]);
+	const level =
+		match[2]?.toLowerCase() === 'bps' ? value / 10_000 : value / 100;
+
+	if (
+		level < SLIPPAGE_LEVELS_CONFIG.MIN_LEVEL ||
+		level > SLIPPAGE_LEVELS_CONFIG.MAX_LEVEL
+	) {
+		throw new Error(
+			`Invalid ${name}: "${raw}" must be between ${formatSlippageLevel(
+				SLIPPAGE_LEVELS_CONFIG.MIN_LEVEL
+			)} and ${formatSlippageLevel(SLIPPAGE_LEVELS_CONFIG.MAX_LEVEL)}`
+		);
+	}
+
+	return level;
+};
+
+/**
+ * Parses the `levels` query parameter into sorted, de-duplicated slippage
+ * fractions. Accepts a comma-separated list and/or repeated parameters; plain
+ * numbers are percentages, a `bps` suffix marks basis points.
+ */
+export const parseSlippageLevels = (input: unknown): number[] => {
+	if (input === undefined) {
+		return [...SLIPPAGE_LEVELS_CONFIG.DEFAULT_LEVELS];
+	}
+
+	const values = Array.isArray(input) ? input : [input];
+	if (!values.every((value) => typeof value === 'string')) {
+		throw new Error('Invalid levels: levels must be a list of strings');
+	}
+
+	const rawLevels = (values as string[])
+		.flatMap((value) => value.split(','))
+		.filter((value) => value.trim().length > 0);
+
+	if (rawLevels.length === 0) {
+		throw new Error('Invalid levels: at least one level is required');
+	}
+
+	// Quotes are keyed by the formatted level, so duplicates are found on
+	// that key: as floats, 0.7 and 70bps differ in the last bit
+	const levelsByKey = new Map<string, number>();
+	for (const raw of rawLevels) {
+		const level = parseSlippageLevel(raw);
+		const key = formatSlippageLevel(level);
+		if (!levelsByKey.has(key)) {
+			levelsByKey.set(key, level);
+		}
+	}
+	const levels = Array.from(levelsByKey.values()).sort((a, b) => a - b);
+
+	if (levels.length > SLIPPAGE_LEVELS_CONFIG.MAX_COUNT) {
+		throw new Error(
+			`Invalid levels: at most ${SLIPPAGE_LEVELS_CONFIG.MAX_COUNT} levels can be requested`
+		);
+	}
+
+	return levels;
+};
+
+/**
+ * Parses the `usdLevels` query parameter into sorted, de-duplicated USD
+ * notionals, e.g. `1000,$50k,1m`. Returns `undefined` when not requested.
+ */
+export const parseUsdLevels = (input: unknown): number[] | undefined => {
+	if (input === undefined) {
+		return undefined;
+	}
+
+	const values = Array.isArray(input) ? input : [input];
+	if (!values.every((value) => typeof value === 'string')) {
+		throw new Error('Invalid usdLevels: usdLevels must be a list of strings');
+	}
+
+	const rawLevels = (values as string[])
+		.flatMap((value) => value.split(','))
+		.filter((value) => value.trim().length > 0);
+
+	if (rawLevels.length === 0) {
+		throw new Error('Invalid usdLevels: at least one level is required');
+	}
+
+	const levels = Array.from(
+		new Set(
+			rawLevels.map((raw) => {
+				const match = raw.trim().match(USD_LEVEL_PATTERN);
+				const notional = match
+					? parseFloat(match[1]) *
+					  (match[2] ? USD_LEVEL_MULTIPLIERS[match[2].toLowerCase()] : 1)
+					: NaN;
+				if (!(notional > 0 && notional <= USD_PRICING_CONFIG.MAX_NOTIONAL)) {
+					throw new Error(
+						`Invalid usdLevels: "${raw}" is not a USD amount between 0 and ${USD_PRICING_CONFIG.MAX_NOTIONAL} (e.g. 10000, $50k or 1m)`
+					);
+				}
+				return notional;
+			})
+		)
+	).sort((a, b) => a - b);
+
+	if (levels.length > SLIPPAGE_LEVELS_CONFIG.MAX_COUNT) {
+		throw new Error(
+			`Invalid usdLevels: at most ${SLIPPAGE_LEVELS_CONFIG.MAX_COUNT} levels can be requested`
+		);
+	}
+
+	return levels;
+};
@@ -0,0 +1,76 @@
+import {
+	Counter,
+	Histogram,
+	Registry,
+	collectDefaultMetrics,
+} from 'prom-client';
+import { METRICS_CONFIG } from '../constants';
+
+/** Registry served at /metrics, including the Node.js process metrics. */
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const httpRequestsTotal = new Counter({
+	name: 'http_requests_total',
+	help: 'HTTP requests by route, chain and status code',
+	labelNames: ['method', 'route', 'chain', 'status'] as const,
+	registers: [metricsRegistry],
+});
+
+export const httpRequestDuration = new Histogram({
+	name: 'http_request_duration_seconds',
+	help: 'HTTP request latency by route, chain and status code',
+	labelNames: ['method', 'route', 'chain', 'status'] as const,
+	buckets: [...METRICS_CONFIG.HTTP_DURATION_BUCKETS],
+	registers: [metricsRegistry],
+});
+
+export const rpcRequestsTotal = new Counter({
+	name: 'rpc_requests_total',
+	help: 'JSON-RPC requests sent to RPC endpoints by chain, method and outcome',
+	labelNames: ['chain', 'method', 'status'] as const,
+	registers: [metricsRegistry],
+});
+
+export const rpcRequestDuration = new Histogram({
+	name: 'rpc_request_duration_seconds',
+	help: 'JSON-RPC request latency by chain and method',
+	labelNames: ['chain', 'method'] as const,
+	buckets: [...METRICS_CONFIG.RPC_DURATION_BUCKETS],
+	registers: [metricsRegistry],
+});
+
+export const cacheHitsTotal = new Counter({
+	name: 'cache_hits_total',
+	help: 'Response cache lookups that found a fresh entry',
+	labelNames: ['cache'] as const,
+	registers: [metricsRegistry],
+});
+
+export const cacheMissesTotal = new Counter({
+	name: 'cache_misses_total',
+	help: 'Response cache lookups that found no fresh entry',
+	labelNames: ['cache'] as const,
+	registers: [metricsRegistry],
+});
+
+export const cacheEvictionsTotal = new Counter({
+	name: 'cache_evictions_total',
+	help: 'Response cache entries removed because they expired or to make room',
+	labelNames: ['cache', 'reason'] as const,
+	registers: [metricsRegistry],
+});
+
+export const rateLimitRejectionsTotal = new Counter({
+	name: 'rate_limit_rejections_total',
+	help: 'Requests rejected by the rate limiter',
+	labelNames: ['route'] as const,
+	registers: [metricsRegistry],
+});
+
+export const slippageBisectionIterations = new Histogram({
+	name: 'slippage_bisection_iterations',
+	help: 'Bisection iterations spent solving the trade size of a slippage quote, 0 when solved in closed form',
+	buckets: [...METRICS_CONFIG.BISECTION_ITERATION_BUCKETS],
+	registers: [metricsRegistry],
+});
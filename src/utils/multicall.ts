@@ -0,0 +1,122 @@
+import { ethers } from 'ethers';
+import { MULTICALL3_ABI } from '../abis';
+import { MULTICALL_CONFIG } from '../constants';
+
+const multicall3 = new ethers.utils.Interface(MULTICALL3_ABI);
+
+export interface CallRequest {
+	to: string;
+	data: string;
+}
+
+type SendCall = (transaction: CallRequest, blockTag: number) => Promise<string>;
+
+interface PendingCall {
+	transaction: CallRequest;
+	resolve: (data: string) => void;
+	reject: (error: unknown) => void;
+}
+
+/** Whether `transaction` is a plain read that can go through Multicall3. */
+export const isBatchableCall = (
+	transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>
+): transaction is CallRequest =>
+	typeof transaction.to === 'string' &&
+	typeof transaction.data === 'string' &&
+	Object.entries(transaction).every(
+		([key, value]) => value === undefined || key === 'to' || key === 'data'
+	);
+
+/**
+ * Collects the eth_calls made within one tick and sends them as a single
+ * Multicall3 `aggregate3` per block, resolving each call with the data it
+ * would have returned on its own. Each call may fail independently. When
+ * the aggregate call fails the calls are sent one by one instead, and once
+ * Multicall3 turns out not to be deployed it is no longer tried.
+ */
+export class MulticallBatcher {
+	private readonly pending = new Map<number, PendingCall[]>();
+	private deployed = true;
+
+	constructor(
+		private readonly address: string,
+		private readonly send: SendCall
+	) {}
+
+	call(transaction: CallRequest, blockTag: number): Promise<string> {
+		if (!this.deployed) {
+			return this.send(transaction, blockTag);
+		}
+
+		return new Promise((resolve, reject) => {
+			let calls = this.pending.get(blockTag);
+			if (!calls) {
+				calls = [];
+				this.pending.set(blockTag, calls);
+				setTimeout(() => this.flush(blockTag), 0);
+			}
+			calls.push({ transaction, resolve, reject });
+		});
+	}
+
+	private flush(blockTag: number) {
+		const calls = this.pending.get(blockTag) ?? [];
+		this.pending.delete(blockTag);
+
+		for (let i = 0; i < calls.length; i += MULTICALL_CONFIG.MAX_CALLS) {
+			this.aggregate(calls.slice(i, i + MULTICALL_CONFIG.MAX_CALLS), blockTag);
+		}
+	}
+
+	private async aggregate(calls: PendingCall[], blockTag: number) {
+		if (calls.length === 1 || !this.deployed) {
+			return this.sendEach(calls, blockTag);
+		}
+
+		let results: { success: boolean; returnData: string }[];
+		try {
+			const data = await this.send(
+				{
+					to: this.address,
+					data: multicall3.encodeFunctionData('aggregate3', [
+						calls.map(({ transaction }) => ({
+							target: transaction.to,
+							allowFailure: true,
+							callData: transaction.data,
+						})),
+					]),
+				},
+				blockTag
+			);
+			// Calls to an address without code return nothing
+			if (data === '0x') {
+				this.deployed = false;
+			}
+			[results] = multicall3.decodeFunctionResult('aggregate3', data);
+		} catch {
+			return this.sendEach(calls, blockTag);
+		}
+
+		results.forEach(({ success, returnData }, index) => {
+			const { transaction, resolve, reject } = calls[index];
+			// A failed eth_call returns its revert data, if it has any
+			if (success || returnData !== '0x') {
+				resolve(returnData);
+			} else {
+				reject(
+					ethers.logger.makeError(
+						'missing revert data in call exception; Transaction reverted without a reason string',
+						ethers.errors.CALL_EXCEPTION,
+						{ data: '0x', transaction }
+					)
+				);
+			}
+		});
+	}
+
+	private sendEach(calls: PendingCall[], blockTag: number) {
+		for (const { transaction, resolve, reject } of calls) {
+			this.send(transaction, blockTag).then(resolve, reject);
+		}
+	}
+}
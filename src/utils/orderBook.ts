@@ -0,0 +1,44 @@
+import { SwapStep } from '../adapters/types';
+import { IMPACT_PRECISION, PriceRatio } from './price';
+import { getPathFeeBps, getPathSpotPrice } from './swapPath';
+
+/** Marginal price of the first unit traded along `steps`, net of LP fees. */
+export const getTopOfBookPrice = (steps: SwapStep[]): PriceRatio => {
+	const spotPrice = getPathSpotPrice(steps);
+	const kept = IMPACT_PRECISION - Math.round(getPathFeeBps(steps) * 100);
+	return {
+		numerator: spotPrice.numerator.mul(kept),
+		denominator: spotPrice.denominator.mul(IMPACT_PRECISION),
+	};
+};
+
+export const invertPrice = ({
+	numerator,
+	denominator,
+}: PriceRatio): PriceRatio => ({
+	numerator: denominator,
+	denominator: numerator,
+});
+
+export const getMidPrice = (bid: PriceRatio, ask: PriceRatio): PriceRatio => ({
+	numerator: bid.numerator
+		.mul(ask.denominator)
+		.add(ask.numerator.mul(bid.denominator)),
+	denominator: bid.denominator.mul(ask.denominator).mul(2),
+});
+
+/**
+ * Gap between the best ask and best bid relative to the mid price, in basis
+ * points rounded to 0.01 bps. Negative when venues disagree enough for the
+ * book to cross.
+ */
+export const getSpreadBps = (bid: PriceRatio, ask: PriceRatio): number => {
+	const bidValue = bid.numerator.mul(ask.denominator);
+	const askValue = ask.numerator.mul(bid.denominator);
+	const sum = bidValue.add(askValue);
+	if (sum.eq(0)) {
+		return 0;
+	}
+	// (ask - bid) / ((ask + bid) / 2), in hundredths of a basis point
+	return askValue.sub(bidValue).mul(2_000_000).div(sum).toNumber() / 100;
+};
@@ -0,0 +1,235 @@
+import { ethers } from 'ethers';
+import { IMPACT_PRECISION, PriceRatio } from './price';
+
+const MAX_SAMPLES = 384;
+// Each sample grows the input by about 2^(1/4)
+const SAMPLE_GROWTH_NUMERATOR = 1189;
+const SAMPLE_GROWTH_DENOMINATOR = 1000;
+// Sampling stops once the marginal price falls below a millionth of spot
+const MIN_MARGINAL_RATIO = 1_000_000;
+const SLOPE_PRECISION = 1_000_000_000;
+const MAX_ITERATIONS = 64;
+const MARGINAL_TOLERANCE = 1e-9;
+
+/** Output of a pool or path for a given input. */
+export interface DepthPoint {
+	amountIn: ethers.BigNumber;
+	amountOut: ethers.BigNumber;
+}
+
+/** A leg's exact quote together with its sampled depth curve. */
+export interface SplitLeg {
+	quote: (amountIn: ethers.BigNumber) => ethers.BigNumber;
+	curve: DepthPoint[];
+}
+
+export interface OrderSplit {
+	amountsIn: ethers.BigNumber[];
+	amountsOut: ethers.BigNumber[];
+}
+
+/** The better of several prices: the one giving the most output per input. */
+export const getBestSpotPrice = (prices: PriceRatio[]): PriceRatio =>
+	prices.reduce((best, price) =>
+		price.numerator
+			.mul(best.denominator)
+			.gt(best.numerator.mul(price.denominator))
+			? price
+			: best
+	);
+
+/** True when `b` lies on or below the chord from `a` to `c`. */
+const isBelowChord = (a: DepthPoint, b: DepthPoint, c: DepthPoint): boolean =>
+	b.amountIn
+		.sub(a.amountIn)
+		.mul(c.amountOut.sub(a.amountOut))
+		.gte(b.amountOut.sub(a.amountOut).mul(c.amountIn.sub(a.amountIn)));
+
+/**
+ * Output curve of `quote`, sampled on a geometric grid of inputs and reduced
+ * to its upper concave hull so the marginal price falls along it. Sampling
+ * stops when the quote throws (e.g. beyond the loaded V3 ticks), the output
+ * stops growing or the marginal price becomes negligible.
+ */
+export const sampleDepthCurve = (
+	quote: (amountIn: ethers.BigNumber) => ethers.BigNumber,
+	spotPrice: PriceRatio
+): DepthPoint[] => {
+	const tryQuote = (amountIn: ethers.BigNumber): ethers.BigNumber | null => {
+		try {
+			return quote(amountIn);
+		} catch {
+			return null;
+		}
+	};
+
+	const hull: DepthPoint[] = [
+		{ amountIn: ethers.constants.Zero, amountOut: ethers.constants.Zero },
+	];
+
+	// Like the impact search, start where rounding no longer dominates
+	let amountIn = ethers.constants.One;
+	let amountOut = tryQuote(amountIn);
+	let samples = 0;
+	while (
+		amountOut &&
+		amountOut.lt(IMPACT_PRECISION) &&
+		samples++ < MAX_SAMPLES
+	) {
+		amountIn = amountIn.mul(2);
+		amountOut = tryQuote(amountIn);
+	}
+
+	while (samples++ < MAX_SAMPLES) {
+		const last = hull[hull.length - 1];
+		if (!amountOut || amountOut.lte(last.amountOut)) {
+			break;
+		}
+
+		const point = { amountIn, amountOut };
+		while (
+			hull.length >= 2 &&
+			isBelowChord(hull[hull.length - 2], hull[hull.length - 1], point)
+		) {
+			hull.pop();
+		}
+		hull.push(point);
+
+		const marginalIsNegligible = amountOut
+			.sub(last.amountOut)
+			.mul(spotPrice.denominator)
+			.mul(MIN_MARGINAL_RATIO)
+			.lt(amountIn.sub(last.amountIn).mul(spotPrice.numerator));
+		if (marginalIsNegligible) {
+			break;
+		}
+
+		amountIn = amountIn
+			.mul(SAMPLE_GROWTH_NUMERATOR)
+			.div(SAMPLE_GROWTH_DENOMINATOR)
+			.add(1);
+		amountOut = tryQuote(amountIn);
+	}
+
+	return hull;
+};
+
+/** Marginal price of a curve segment relative to `spotPrice`. */
+const getRelativeSlope = (
+	from: DepthPoint,
+	to: DepthPoint,
+	spotPrice: PriceRatio
+): number =>
+	to.amountOut
+		.sub(from.amountOut)
+		.mul(spotPrice.denominator)
+		.mul(SLOPE_PRECISION)
+		.div(to.amountIn.sub(from.amountIn).mul(spotPrice.numerator))
+		.toNumber() / SLOPE_PRECISION;
+
+/**
+ * Input at which a curve's marginal price falls to `marginal` (relative to
+ * spot). Each segment's slope is taken as the marginal price at its
+ * midpoint and interpolated linearly in between.
+ */
+const getAmountInAtMarginal = (
+	curve: DepthPoint[],
+	slopes: number[],
+	marginal: number
+): ethers.BigNumber => {
+	if (slopes.length === 0 || marginal > slopes[0]) {
+		return ethers.constants.Zero;
+	}
+
+	const midpoint = (index: number) =>
+		curve[index].amountIn.add(curve[index + 1].amountIn).div(2);
+
+	for (let i = 0; i < slopes.length - 1; i++) {
+		if (marginal > slopes[i + 1]) {
+			const fraction = (slopes[i] - marginal) / (slopes[i] - slopes[i + 1]);
+			const start = midpoint(i);
+			return start.add(
+				midpoint(i + 1)
+					.sub(start)
+					.mul(Math.round(fraction * SLOPE_PRECISION))
+					.div(SLOPE_PRECISION)
+			);
+		}
+	}
+	return curve[curve.length - 1].amountIn;
+};
+
+/**
+ * Splits a trade across independent legs (pools or paths) so their marginal
+ * prices equalise, choosing the largest total whose average execution price
+ * stays within `targetImpact` of `spotPrice`. The common marginal price is
+ * found by bisection, with every candidate split quoted exactly. Allocations
+ * are all zero when the target is below every leg's fee.
+ */
+export const splitAmountInForImpact = (
+	legs: SplitLeg[],
+	spotPrice: PriceRatio,
+	targetImpact: number
+): OrderSplit => {
+	const remaining =
+		IMPACT_PRECISION - Math.round(targetImpact * IMPACT_PRECISION);
+	const slopes = legs.map(({ curve }) =>
+		curve
+			.slice(1)
+			.map((point, index) => getRelativeSlope(curve[index], point, spotPrice))
+	);
+
+	const splitAt = (marginal: number): OrderSplit | null => {
+		const amountsIn = legs.map(({ curve }, index) =>
+			getAmountInAtMarginal(curve, slopes[index], marginal)
+		);
+		let amountsOut: ethers.BigNumber[];
+		try {
+			amountsOut = legs.map(({ quote }, index) =>
+				amountsIn[index].gt(0) ? quote(amountsIn[index]) : ethers.constants.Zero
+			);
+		} catch {
+			return null;
+		}
+
+		const totalIn = amountsIn.reduce((a, b) => a.add(b), ethers.constants.Zero);
+		const totalOut = amountsOut.reduce(
+			(a, b) => a.add(b),
+			ethers.constants.Zero
+		);
+		const isWithinTarget = totalOut
+			.mul(spotPrice.denominator)
+			.mul(IMPACT_PRECISION)
+			.gte(totalIn.mul(spotPrice.numerator).mul(remaining));
+
+		return isWithinTarget ? { amountsIn, amountsOut } : null;
+	};
+
+	const none = {
+		amountsIn: legs.map(() => ethers.constants.Zero),
+		amountsOut: legs.map(() => ethers.constants.Zero),
+	};
+
+	// A leg's average price never falls below its final marginal price, so
+	// stopping every leg at 1 - target keeps the split within the target.
+	let high = 1 - targetImpact;
+	let best = splitAt(high) ?? none;
+	let low = 0;
+	const full = splitAt(low);
+	if (full) {
+		return full;
+	}
+
+	for (let i = 0; i < MAX_ITERATIONS && high - low > MARGINAL_TOLERANCE; i++) {
+		const middle = (low + high) / 2;
+		const split = splitAt(middle);
+		if (split) {
+			best = split;
+			high = middle;
+		} else {
+			low = middle;
+		}
+	}
+
+	return best;
+};
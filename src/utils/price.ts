@@ -0,0 +1,52 @@
+import { ethers } from 'ethers';
+
+const PRICE_DECIMALS = 18;
+export const IMPACT_PRECISION = 1_000_000;
+
+/** A price as the exact ratio `numerator / denominator` of raw token units. */
+export interface PriceRatio {
+	numerator: ethers.BigNumber;
+	denominator: ethers.BigNumber;
+}
+
+/**
+ * Human-readable price of `amountIn` in units of `amountOut`, e.g. WETH per
+ * USDC, with 18 decimals of precision.
+ */
+export const formatPrice = (
+	amountOut: ethers.BigNumber,
+	outDecimals: number,
+	amountIn: ethers.BigNumber,
+	inDecimals: number
+): string => {
+	if (amountIn.eq(0)) {
+		return '0.0';
+	}
+
+	const scaled = amountOut
+		.mul(ethers.BigNumber.from(10).pow(PRICE_DECIMALS + inDecimals))
+		.div(amountIn.mul(ethers.BigNumber.from(10).pow(outDecimals)));
+
+	return ethers.utils.formatUnits(scaled, PRICE_DECIMALS);
+};
+
+/**
+ * Price impact of a trade in basis points, measured against `spotPrice` and
+ * rounded down to 0.01 bps.
+ */
+export const calculatePriceImpactBps = (
+	amountIn: ethers.BigNumber,
+	amountOut: ethers.BigNumber,
+	spotPrice: PriceRatio
+): number => {
+	if (amountIn.eq(0)) {
+		return 0;
+	}
+
+	const executedRatio = amountOut
+		.mul(spotPrice.denominator)
+		.mul(IMPACT_PRECISION)
+		.div(amountIn.mul(spotPrice.numerator));
+
+	return (IMPACT_PRECISION - executedRatio.toNumber()) / 100;
+};
@@ -0,0 +1,196 @@
+import { ethers } from 'ethers';
+import { getChainConfig } from '../config/chains';
+import { RPC_CONFIG, TIMEOUT_CONFIG } from '../constants';
+import { logInfo } from './logger';
+import { rpcRequestDuration, rpcRequestsTotal } from './metrics';
+
+// Failures of the endpoint itself rather than of the request
+const ENDPOINT_ERROR_CODES: string[] = [
+	ethers.errors.SERVER_ERROR,
+	ethers.errors.TIMEOUT,
+	ethers.errors.NETWORK_ERROR,
+];
+
+// JSON-RPC errors of a node that is overloaded, rate limiting or missing
+// the requested state, which another endpoint may not be
+const NODE_ERROR_PATTERN =
+	/rate limit|too many requests|limit exceeded|header not found|missing trie node/i;
+
+/** Fields ethers sets on its errors, with the error they wrap in `error`. */
+export interface EthersError {
+	code?: unknown;
+	reason?: unknown;
+	message?: unknown;
+	error?: unknown;
+}
+
+export const isEthersError = (error: unknown): error is EthersError =>
+	typeof error === 'object' && error !== null;
+
+/**
+ * Whether `error` says the endpoint failed, so the request may succeed on
+ * another one. Errors the node returns for the request itself, such as
+ * reverts, are not.
+ */
+export const isEndpointError = (error: unknown): boolean => {
+	if (!isEthersError(error)) {
+		return false;
+	}
+	if (error.reason === 'processing response error') {
+		return (
+			isEthersError(error.error) &&
+			NODE_ERROR_PATTERN.test(String(error.error.message))
+		);
+	}
+	return (
+		typeof error.code === 'string' && ENDPOINT_ERROR_CODES.includes(error.code)
+	);
+};
+
+const sleep = (ms: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** One RPC URL with moving averages of its latency and error rate. */
+export class RpcEndpoint {
+	readonly provider: ethers.providers.StaticJsonRpcProvider;
+	latencyMs: number | null = null;
+	errorRate = 0;
+	private consecutiveFailures = 0;
+	private restingUntil = 0;
+
+	constructor(readonly url: string, chainId: number) {
+		this.provider = new ethers.providers.StaticJsonRpcProvider(
+			// Rate-limited requests fail over instead of being retried here
+			{ url, timeout: TIMEOUT_CONFIG.RPC_CALL_TIMEOUT, throttleLimit: 1 },
+			chainId
+		);
+	}
+
+	/** Effective latency, lower is better; errors weigh it up. */
+	get score(): number {
+		return (
+			(this.latencyMs ?? RPC_CONFIG.INITIAL_LATENCY_MS) *
+			(1 + this.errorRate * RPC_CONFIG.ERROR_PENALTY)
+		);
+	}
+
+	/** Endpoints that failed several times in a row rest for a while. */
+	isAvailable(now = Date.now()): boolean {
+		return now >= this.restingUntil;
+	}
+
+	recordSuccess(latencyMs: number) {
+		this.latencyMs =
+			this.latencyMs === null
+				? latencyMs
+				: this.latencyMs + RPC_CONFIG.SMOOTHING * (latencyMs - this.latencyMs);
+		this.errorRate -= RPC_CONFIG.SMOOTHING * this.errorRate;
+		this.consecutiveFailures = 0;
+	}
+
+	recordFailure() {
+		this.errorRate += RPC_CONFIG.SMOOTHING * (1 - this.errorRate);
+		this.consecutiveFailures++;
+		if (this.consecutiveFailures >= RPC_CONFIG.MAX_CONSECUTIVE_FAILURES) {
+			this.restingUntil = Date.now() + RPC_CONFIG.REST_MS;
+			this.consecutiveFailures = 0;
+		}
+	}
+}
+
+/**
+ * Provider that sends each JSON-RPC request to the healthiest of a chain's
+ * endpoints. Requests that fail on an endpoint are retried with backoff on
+ * the next best one, so a single flaky RPC does not take the chain down.
+ */
+export class FailoverProvider extends ethers.providers.StaticJsonRpcProvider {
+	constructor(readonly endpoints: RpcEndpoint[], chainId: number) {
+		super(endpoints[0].url, chainId);
+	}
+
+	async send(method: string, params: Array<any>): Promise<any> {
+		const tried = new Set<RpcEndpoint>();
+		let lastError: unknown;
+
+		for (let attempt = 0; attempt < RPC_CONFIG.MAX_ATTEMPTS; attempt++) {
+			if (attempt > 0) {
+				await sleep(
+					Math.min(
+						RPC_CONFIG.BACKOFF_BASE_MS * 2 ** (attempt - 1),
+						RPC_CONFIG.BACKOFF_MAX_MS
+					)
+				);
+			}
+
+			const endpoint = this.selectEndpoint(tried);
+			tried.add(endpoint);
+			const startTime = Date.now();
+			const labels = { chain: String(this.network.chainId), method };
+			try {
+				const result = await endpoint.provider.send(method, params);
+				endpoint.recordSuccess(Date.now() - startTime);
+				this.recordRequest(labels, startTime, 'ok');
+				return result;
+			} catch (error) {
+				this.recordRequest(labels, startTime, 'error');
+				if (!isEndpointError(error)) {
+					endpoint.recordSuccess(Date.now() - startTime);
+					throw error;
+				}
+				endpoint.recordFailure();
+				lastError = error;
+				logInfo(
+					`RPC ${method} failed on ${endpoint.url} (attempt ${attempt + 1})`
+				);
+			}
+		}
+
+		throw lastError;
+	}
+
+	private recordRequest(
+		labels: { chain: string; method: string },
+		startTime: number,
+		status: 'ok' | 'error'
+	) {
+		rpcRequestsTotal.inc({ ...labels, status });
+		rpcRequestDuration.observe(labels, (Date.now() - startTime) / 1000);
+	}
+
+	/**
+	 * Best-scoring endpoint not tried yet, preferring ones that are not
+	 * resting. Once every endpoint was tried, the best one is reused.
+	 */
+	selectEndpoint(tried: Set<RpcEndpoint> = new Set()): RpcEndpoint {
+		const now = Date.now();
+		const untried = this.endpoints.filter((endpoint) => !tried.has(endpoint));
+		const candidates = untried.length > 0 ? untried : this.endpoints;
+		const available = candidates.filter((endpoint) =>
+			endpoint.isAvailable(now)
+		);
+
+		return (available.length > 0 ? available : candidates).reduce(
+			(best, endpoint) => (endpoint.score < best.score ? endpoint : best)
+		);
+	}
+}
+
+/** Long-lived failover providers, one per chain, created on first use. */
+export class ProviderManager {
+	private readonly providers = new Map<number, FailoverProvider>();
+
+	getProvider(chainId: number): FailoverProvider {
+		let provider = this.providers.get(chainId);
+		if (!provider) {
+			const { rpcUrls } = getChainConfig(chainId);
+			provider = new FailoverProvider(
+				rpcUrls.map((url) => new RpcEndpoint(url, chainId)),
+				chainId
+			);
+			this.providers.set(chainId, provider);
+		}
+		return provider;
+	}
+}
+
+export const providerManager = new ProviderManager();
@@ -0,0 +1,79 @@
+import { ethers } from 'ethers';
+import { withTimeout } from './timeout';
+import { getErrorMessage } from './error';
+import { SLIPPAGE_CONFIG, TIMEOUT_CONFIG } from '../constants';
+
+export interface RouterVerification {
+	router: ethers.Contract;
+	path: string[];
+}
+
+const deviationBps = (
+	actual: ethers.BigNumber,
+	expected: ethers.BigNumber
+): ethers.BigNumber =>
+	actual
+		.sub(expected)
+		.abs()
+		.mul(10_000)
+		.div(expected.gt(0) ? expected : 1);
+
+export const verifyAmountOut = async (
+	{ router, path }: RouterVerification,
+	amountIn: ethers.BigNumber,
+	expectedAmountOut: ethers.BigNumber
+): Promise<void> => {
+	let amountsOut: ethers.BigNumber[];
+	try {
+		amountsOut = (await withTimeout(
+			router.getAmountsOut(amountIn, path),
+			TIMEOUT_CONFIG.RPC_CALL_TIMEOUT,
+			'RPC call timeout'
+		)) as ethers.BigNumber[];
+	} catch (error) {
+		throw new Error(
+			`Router verification call failed: ${getErrorMessage(error)}`
+		);
+	}
+
+	const routerAmountOut = amountsOut[amountsOut.length - 1];
+	if (
+		deviationBps(routerAmountOut, expectedAmountOut).gt(
+			SLIPPAGE_CONFIG.ROUTER_TOLERANCE_BPS
+		)
+	) {
+		throw new Error(
+			`Router verification failed: local quote ${expectedAmountOut.toString()}, router quote ${routerAmountOut.toString()}`
+		);
+	}
+};
+
+export const verifyAmountIn = async (
+	{ router, path }: RouterVerification,
+	amountOut: ethers.BigNumber,
+	expectedAmountIn: ethers.BigNumber
+): Promise<void> => {
+	let amountsIn: ethers.BigNumber[];
+	try {
+		amountsIn = (await withTimeout(
+			router.getAmountsIn(amountOut, path),
+			TIMEOUT_CONFIG.RPC_CALL_TIMEOUT,
+			'RPC call timeout'
+		)) as ethers.BigNumber[];
+	} catch (error) {
+		throw new Error(
+			`Router verification call failed: ${getErrorMessage(error)}`
+		);
+	}
+
+	const routerAmountIn = amountsIn[0];
+	if (
+		deviationBps(routerAmountIn, expectedAmountIn).gt(
+			SLIPPAGE_CONFIG.ROUTER_TOLERANCE_BPS
+		)
+	) {
+		throw new Error(
+			`Router verification failed: local quote ${expectedAmountIn.toString()}, router quote ${routerAmountIn.toString()}`
+		);
+	}
+};
@@ -0,0 +1,43 @@
+/**
+ * Token paths from `sellToken` to `buyToken`: the direct pair first, then
+ * every route through one or two of the chain's base tokens, up to `maxHops`
+ * pools long.
+ */
+export const buildCandidatePaths = (
+	sellToken: string,
+	buyToken: string,
+	baseTokens: string[],
+	maxHops: number
+): string[][] => {
+	const endpoints = [sellToken.toLowerCase(), buyToken.toLowerCase()];
+	const intermediates = baseTokens.filter(
+		(token, index) =>
+			!endpoints.includes(token.toLowerCase()) &&
+			baseTokens.findIndex(
+				(other) => other.toLowerCase() === token.toLowerCase()
+			) === index
+	);
+
+	const paths: string[][] = [[sellToken, buyToken]];
+
+	if (maxHops >= 2) {
+		for (const base of intermediates) {
+			paths.push([sellToken, base, buyToken]);
+		}
+	}
+
+	if (maxHops >= 3) {
+		for (const first of intermediates) {
+			for (const second of intermediates) {
+				if (first !== second) {
+					paths.push([sellToken, first, second, buyToken]);
+				}
+			}
+		}
+	}
+
+	return paths;
+};
+
+export const getPairKey = (tokenA: string, tokenB: string): string =>
+	[tokenA.toLowerCase(), tokenB.toLowerCase()].sort().join('-');
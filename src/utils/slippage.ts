@@ -1,111 +1,233 @@
 import { ethers } from 'ethers';
-import { withTimeout } from './timeout';
-import { TIMEOUT_CONFIG } from '../constants';
-import { SlippageQuote } from '../types';
+import { SwapStep } from '../adapters/types';
+import {
+	getPathPools,
+	getPathSpotPrice,
+	getPriceImpactBreakdown,
+	quoteExactInAlongPath,
+	solveAmountInForImpactAlongPath,
+} from './swapPath';
+import { formatSlippageLevel } from './levels';
+import { getErrorMessage } from './error';
+import { RouterVerification, verifyAmountOut } from './routerVerification';
+import {
+	SplitLeg,
+	getBestSpotPrice,
+	sampleDepthCurve,
+	splitAmountInForImpact,
+} from './orderSplitting';
+import { IMPACT_PRECISION, PriceRatio } from './price';
+import { UsdPrices, getUsdValue } from './usd';
+import { slippageBisectionIterations } from './metrics';
+import { AggregatedQuote, SlippageQuote } from '../types';
+
+/** Trade size along a path for a slippage level, and how it was found. */
+export interface SlippageSolution {
+	sellAmount: ethers.BigNumber;
+	/** Bisection iterations, 0 when solved in closed form. */
+	iterations: number;
+}
 
 export interface SlippageCalculationParams {
-	router: ethers.Contract;
 	path: string[];
-	reserveSell: ethers.BigNumber;
-	reserveBuy: ethers.BigNumber;
+	steps: SwapStep[];
 	targetSlippage: number;
 	sellTokenDecimals: number;
 	buyTokenDecimals: number;
+	verification?: RouterVerification;
+	/** Values the quoted amounts in USD; amounts of unpriced tokens are `null`. */
+	usdPrices?: UsdPrices;
+	/** `solveSlippage(steps, targetSlippage)`, if already solved. */
+	solution?: SlippageSolution;
 }
 
-export async function calculateSlippageQuote(
-	params: SlippageCalculationParams
-): Promise<SlippageQuote> {
+export interface NotionalCalculationParams
+	extends Omit<SlippageCalculationParams, 'targetSlippage' | 'solution'> {
+	sellAmount: ethers.BigNumber;
+	/** Level the quote is reported under in errors, e.g. `$10000`. */
+	level: string;
+}
+
+const assertReserves = (steps: SwapStep[]): void => {
+	if (
+		steps.length === 0 ||
+		steps.some(
+			({ adapter, state, tokenIn, tokenOut }) =>
+				adapter.getReserve(state, tokenIn).eq(0) ||
+				adapter.getReserve(state, tokenOut).eq(0)
+		)
+	) {
+		throw new Error('Reserve amounts are zero - cannot calculate price');
+	}
+};
+
+/** Verifies the trade with the router, if requested, and formats the quote. */
+const buildSlippageQuote = async (
+	params: Omit<SlippageCalculationParams, 'targetSlippage'>,
+	level: string,
+	sellAmount: ethers.BigNumber,
+	buyAmount: ethers.BigNumber
+): Promise<SlippageQuote> => {
 	const {
-		router,
 		path,
-		reserveSell,
-		reserveBuy,
-		targetSlippage,
+		steps,
 		sellTokenDecimals,
 		buyTokenDecimals,
+		verification,
+		usdPrices,
 	} = params;
 
-	if (reserveSell.eq(0) || reserveBuy.eq(0)) {
-		throw new Error('Reserve amounts are zero - cannot calculate price');
+	if (verification && sellAmount.gt(0)) {
+		try {
+			await verifyAmountOut(verification, sellAmount, buyAmount);
+		} catch (error) {
+			throw new Error(
+				`Could not calculate quote for ${level}: ${getErrorMessage(error)}`
+			);
+		}
 	}
 
-	const PRECISION_BASE = ethers.utils.parseUnits('1', 18);
+	return {
+		dex: steps[0].adapter.name,
+		sellAmount: ethers.utils.formatUnits(sellAmount, sellTokenDecimals),
+		buyAmount: ethers.utils.formatUnits(buyAmount, buyTokenDecimals),
+		sellAmountUsd: getUsdValue(sellAmount, usdPrices?.sellToken),
+		buyAmountUsd: getUsdValue(buyAmount, usdPrices?.buyToken),
+		path,
+		pools: getPathPools(steps),
+		...getPriceImpactBreakdown(steps, sellAmount, buyAmount),
+	};
+};
+
+/** Solves the trade size along `steps` whose slippage is `targetSlippage`. */
+export const solveSlippage = (
+	steps: SwapStep[],
+	targetSlippage: number
+): SlippageSolution => {
+	let iterations = 0;
+	const sellAmount = solveAmountInForImpactAlongPath(
+		steps,
+		targetSlippage,
+		(count) => {
+			iterations = count;
+		}
+	);
+	return { sellAmount, iterations };
+};
+
+export async function calculateSlippageQuote(
+	params: SlippageCalculationParams
+): Promise<SlippageQuote> {
+	const { steps, targetSlippage } = params;
 
-	const spotPrice = reserveBuy.mul(PRECISION_BASE).div(reserveSell);
+	assertReserves(steps);
 
-	const minTradeAmount = ethers.utils.parseUnits('0.001', sellTokenDecimals);
-	const maxTradePercent = targetSlippage >= 0.1 ? 60 : 20;
-	const maxTradeAmount = reserveSell.mul(maxTradePercent).div(100);
+	if (!(targetSlippage > 0 && targetSlippage < 1)) {
+		throw new Error(
+			`Could not calculate quote for ${formatSlippageLevel(
+				targetSlippage
+			)} slippage`
+		);
+	}
 
-	let low = minTradeAmount;
-	let high = maxTradeAmount;
-	let bestResult: SlippageQuote | null = null;
-	let bestDiffBP = Number.POSITIVE_INFINITY;
-	const targetSlippageBP = Math.floor(targetSlippage * 10000);
-	const toleranceBP = 50;
+	const { sellAmount, iterations } =
+		params.solution ?? solveSlippage(steps, targetSlippage);
+	slippageBisectionIterations.observe(iterations);
+	const buyAmount = quoteExactInAlongPath(steps, sellAmount);
+
+	return buildSlippageQuote(
+		params,
+		`${formatSlippageLevel(targetSlippage)} slippage`,
+		sellAmount,
+		buyAmount
+	);
+}
 
-	for (let i = 0; i < 15 && low.lte(high); i++) {
-		const mid = low.add(high).div(2);
+/** Quote for selling a fixed amount, e.g. a USD notional, along the path. */
+export async function calculateNotionalQuote(
+	params: NotionalCalculationParams
+): Promise<SlippageQuote> {
+	const { steps, sellAmount, level } = params;
 
-		if (mid.eq(0) || mid.gte(reserveSell.div(2))) {
-			high = mid.sub(1);
-			continue;
-		}
+	assertReserves(steps);
 
-		try {
-			const amountsOut = (await withTimeout(
-				router.getAmountsOut(mid, path),
-				TIMEOUT_CONFIG.RPC_CALL_TIMEOUT,
-				'RPC call timeout'
-			)) as ethers.BigNumber[];
-
-			const amountOut = amountsOut[amountsOut.length - 1];
-
-			if (amountOut.eq(0)) {
-				high = mid.sub(1);
-				continue;
-			}
-
-			const effectivePrice = amountOut.mul(PRECISION_BASE).div(mid);
-			const priceImpactBP = spotPrice
-				.sub(effectivePrice)
-				.mul(10_000)
-				.div(spotPrice);
-			const priceImpactBPNum = priceImpactBP.toNumber();
-			const diffBP = Math.abs(priceImpactBPNum - targetSlippageBP);
-
-			if (diffBP <= toleranceBP) {
-				bestResult = {
-					sellAmount: ethers.utils.formatUnits(mid, sellTokenDecimals),
-					buyAmount: ethers.utils.formatUnits(amountOut, buyTokenDecimals),
-				};
-				break;
-			}
-
-			if (diffBP < bestDiffBP) {
-				bestDiffBP = diffBP;
-				bestResult = {
-					sellAmount: ethers.utils.formatUnits(mid, sellTokenDecimals),
-					buyAmount: ethers.utils.formatUnits(amountOut, buyTokenDecimals),
-				};
-			}
-
-			if (priceImpactBPNum < targetSlippageBP) {
-				low = mid.add(1);
-			} else {
-				high = mid.sub(1);
-			}
-		} catch (error) {
-			high = mid.sub(1);
-		}
-	}
+	return buildSlippageQuote(
+		params,
+		level,
+		sellAmount,
+		quoteExactInAlongPath(steps, sellAmount)
+	);
+}
+
+/** Sampled depth of every direct pool for a pair, shared by all levels. */
+export interface AggregatedDepth {
+	steps: SwapStep[];
+	legs: SplitLeg[];
+	spotPrice: PriceRatio;
+}
 
-	if (!bestResult) {
+/**
+ * Samples the depth curve of each direct pool once. Aggregated impact is
+ * measured against the best spot price among them.
+ */
+export const buildAggregatedDepth = (steps: SwapStep[]): AggregatedDepth => {
+	const spotPrice = getBestSpotPrice(
+		steps.map((step) => getPathSpotPrice([step]))
+	);
+	return {
+		steps,
+		legs: steps.map((step) => {
+			const quote = (amountIn: ethers.BigNumber) =>
+				quoteExactInAlongPath([step], amountIn);
+			return { quote, curve: sampleDepthCurve(quote, spotPrice) };
+		}),
+		spotPrice,
+	};
+};
+
+/**
+ * Depth at `targetSlippage` when the order is split across all pools so
+ * their marginal prices equalise.
+ */
+export const calculateAggregatedQuote = (
+	depth: AggregatedDepth,
+	targetSlippage: number,
+	sellTokenDecimals: number,
+	buyTokenDecimals: number
+): AggregatedQuote => {
+	if (!(targetSlippage > 0 && targetSlippage < 1)) {
 		throw new Error(
-			`Could not calculate quote for ${targetSlippage * 100}% slippage`
+			`Could not calculate quote for ${formatSlippageLevel(
+				targetSlippage
+			)} slippage`
 		);
 	}
 
-	return bestResult;
-}
+	const { amountsIn, amountsOut } = splitAmountInForImpact(
+		depth.legs,
+		depth.spotPrice,
+		targetSlippage
+	);
+	const sellAmount = amountsIn.reduce(
+		(total, amount) => total.add(amount),
+		ethers.constants.Zero
+	);
+	const buyAmount = amountsOut.reduce(
+		(total, amount) => total.add(amount),
+		ethers.constants.Zero
+	);
+
+	return {
+		sellAmount: ethers.utils.formatUnits(sellAmount, sellTokenDecimals),
+		buyAmount: ethers.utils.formatUnits(buyAmount, buyTokenDecimals),
+		allocations: depth.steps.map((step, index) => ({
+			pool: getPathPools([step])[0],
+			sellAmount: ethers.utils.formatUnits(amountsIn[index], sellTokenDecimals),
+			buyAmount: ethers.utils.formatUnits(amountsOut[index], buyTokenDecimals),
+			share: sellAmount.gt(0)
+				? amountsIn[index].mul(IMPACT_PRECISION).div(sellAmount).toNumber() /
+				  IMPACT_PRECISION
+				: 0,
+		})),
+	};
+};
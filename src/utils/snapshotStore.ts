@@ -0,0 +1,106 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { LiquiditySnapshot, TrackedPair } from '../types';
+
+/**
+ * Append-only snapshot storage with one JSON Lines file per pair and
+ * direction. Lines that fail to parse (e.g. a write cut short by a crash)
+ * are skipped when reading.
+ */
+export class SnapshotStore {
+	// Files whose last line has been checked for completeness
+	private checkedFiles = new Set<string>();
+
+	constructor(private dataDir: string) {}
+
+	async append(snapshot: LiquiditySnapshot): Promise<void> {
+		const filePath = this.getFilePath(snapshot);
+		let prefix = '';
+		if (!this.checkedFiles.has(filePath)) {
+			await fs.mkdir(this.dataDir, { recursive: true });
+			// Start on a fresh line after a write cut short by a crash
+			if (!(await this.endsWithNewline(filePath))) {
+				prefix = '\n';
+			}
+			this.checkedFiles.add(filePath);
+		}
+		await fs.appendFile(filePath, `${prefix}${JSON.stringify(snapshot)}\n`);
+	}
+
+	/**
+	 * Snapshots of `pair` taken between `from` and `to` (Unix seconds,
+	 * inclusive). Snapshots are appended in time order, so the file is read
+	 * line by line and only up to the first one after `to`.
+	 */
+	async query(
+		pair: TrackedPair,
+		from: number,
+		to: number
+	): Promise<LiquiditySnapshot[]> {
+		let file: fs.FileHandle;
+		try {
+			file = await fs.open(this.getFilePath(pair), 'r');
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+				return [];
+			}
+			throw error;
+		}
+
+		const lines = readline.createInterface({
+			input: file.createReadStream({ encoding: 'utf8' }),
+			crlfDelay: Infinity,
+		});
+		const snapshots: LiquiditySnapshot[] = [];
+		try {
+			for await (const line of lines) {
+				let snapshot: LiquiditySnapshot;
+				try {
+					snapshot = JSON.parse(line);
+				} catch {
+					continue;
+				}
+				if (snapshot.timestamp > to) {
+					break;
+				}
+				if (snapshot.timestamp >= from) {
+					snapshots.push(snapshot);
+				}
+			}
+		} finally {
+			lines.close();
+			await file.close();
+		}
+		return snapshots;
+	}
+
+	private async endsWithNewline(filePath: string): Promise<boolean> {
+		let file: fs.FileHandle;
+		try {
+			file = await fs.open(filePath, 'r');
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+				return true;
+			}
+			throw error;
+		}
+		try {
+			const { size } = await file.stat();
+			if (size === 0) {
+				return true;
+			}
+			const { buffer } = await file.read(Buffer.alloc(1), 0, 1, size - 1);
+			return buffer[0] === 0x0a;
+		} finally {
+			await file.close();
+		}
+	}
+
+	private getFilePath({ chainId, sellToken, buyToken }: TrackedPair): string {
+		return path.join(
+			this.dataDir,
+			`${chainId}-${sellToken.toLowerCase()}-${buyToken.toLowerCase()}.jsonl`
+		);
+	}
+}
@@ -0,0 +1,196 @@
+import { ethers } from 'ethers';
+import { PriceRatio } from './price';
+
+/** Curve fees are expressed over 1e10 (4000000 = 0.04%). */
+export const CURVE_FEE_DENOMINATOR = ethers.BigNumber.from(10).pow(10);
+
+const MAX_NEWTON_ITERATIONS = 255;
+const PRECISION_DECIMALS = 18;
+
+export interface StableSwapPool {
+	/** Amplification coefficient as returned by `A()`. */
+	amp: ethers.BigNumber;
+	fee: ethers.BigNumber;
+	balances: ethers.BigNumber[];
+	decimals: number[];
+}
+
+const hasConverged = (
+	current: ethers.BigNumber,
+	previous: ethers.BigNumber
+): boolean => current.sub(previous).abs().lte(1);
+
+/** Multipliers that bring every balance to 18 decimals, like PRECISION_MUL. */
+const getRates = (decimals: number[]): ethers.BigNumber[] =>
+	decimals.map((d) => {
+		if (d > PRECISION_DECIMALS) {
+			throw new Error(
+				`Invalid token decimals: Curve pools support at most ${PRECISION_DECIMALS} decimals`
+			);
+		}
+		return ethers.BigNumber.from(10).pow(PRECISION_DECIMALS - d);
+	});
+
+const getXp = (pool: StableSwapPool, rates: ethers.BigNumber[]) =>
+	pool.balances.map((balance, k) => balance.mul(rates[k]));
+
+/** StableSwap invariant D for normalized balances, solved by Newton's method. */
+export const getD = (
+	xp: ethers.BigNumber[],
+	amp: ethers.BigNumber
+): ethers.BigNumber => {
+	const n = xp.length;
+	const sum = xp.reduce((acc, x) => acc.add(x), ethers.constants.Zero);
+	if (sum.eq(0)) {
+		return ethers.constants.Zero;
+	}
+
+	const ann = amp.mul(n);
+	let d = sum;
+	for (let i = 0; i < MAX_NEWTON_ITERATIONS; i++) {
+		let dP = d;
+		for (const x of xp) {
+			dP = dP.mul(d).div(x.mul(n));
+		}
+		const previous = d;
+		d = ann
+			.mul(sum)
+			.add(dP.mul(n))
+			.mul(d)
+			.div(
+				ann
+					.sub(1)
+					.mul(d)
+					.add(dP.mul(n + 1))
+			);
+		if (hasConverged(d, previous)) {
+			return d;
+		}
+	}
+	return d;
+};
+
+/**
+ * New normalized balance of coin `j` once coin `i` holds `x`, keeping D
+ * constant. Same iteration as the pool's `get_y`.
+ */
+export const getY = (
+	i: number,
+	j: number,
+	x: ethers.BigNumber,
+	xp: ethers.BigNumber[],
+	amp: ethers.BigNumber
+): ethers.BigNumber => {
+	const n = xp.length;
+	const d = getD(xp, amp);
+	const ann = amp.mul(n);
+
+	let c = d;
+	let sum = ethers.constants.Zero;
+	for (let k = 0; k < n; k++) {
+		if (k === j) {
+			continue;
+		}
+		const balance = k === i ? x : xp[k];
+		sum = sum.add(balance);
+		c = c.mul(d).div(balance.mul(n));
+	}
+	c = c.mul(d).div(ann.mul(n));
+	const b = sum.add(d.div(ann));
+
+	let y = d;
+	for (let k = 0; k < MAX_NEWTON_ITERATIONS; k++) {
+		const previous = y;
+		y = y.mul(y).add(c).div(y.mul(2).add(b).sub(d));
+		if (hasConverged(y, previous)) {
+			return y;
+		}
+	}
+	return y;
+};
+
+/** Output of swapping `dx` of coin `i` for coin `j`, identical to `get_dy`. */
+export const getDy = (
+	pool: StableSwapPool,
+	i: number,
+	j: number,
+	dx: ethers.BigNumber
+): ethers.BigNumber => {
+	const rates = getRates(pool.decimals);
+	const xp = getXp(pool, rates);
+
+	const y = getY(i, j, xp[i].add(dx.mul(rates[i])), xp, pool.amp);
+	const dy = xp[j].sub(y).sub(1).div(rates[j]);
+	if (dy.lte(0)) {
+		return ethers.constants.Zero;
+	}
+
+	return dy.sub(dy.mul(pool.fee).div(CURVE_FEE_DENOMINATOR));
+};
+
+/**
+ * Input of coin `i` required to receive exactly `dy` of coin `j`. Plain pools
+ * have no on-chain `get_dx`, so the fee is grossed up and the invariant
+ * solved for the input side; the result may exceed the exact minimum by a
+ * few wei.
+ */
+export const getDx = (
+	pool: StableSwapPool,
+	i: number,
+	j: number,
+	dy: ethers.BigNumber
+): ethers.BigNumber => {
+	if (dy.gte(pool.balances[j])) {
+		throw new Error(
+			`Insufficient liquidity: requested output ${dy.toString()} exceeds available reserve ${pool.balances[
+				j
+			].toString()}`
+		);
+	}
+
+	const rates = getRates(pool.decimals);
+	const xp = getXp(pool, rates);
+
+	const feeComplement = CURVE_FEE_DENOMINATOR.sub(pool.fee);
+	const dyBeforeFee = dy
+		.mul(CURVE_FEE_DENOMINATOR)
+		.add(feeComplement.sub(1))
+		.div(feeComplement);
+	const y = xp[j].sub(dyBeforeFee.add(1).mul(rates[j]));
+	if (y.lte(0)) {
+		throw new Error(
+			`Insufficient liquidity: requested output ${dy.toString()} exceeds available reserve ${pool.balances[
+				j
+			].toString()}`
+		);
+	}
+
+	const x = getY(j, i, y, xp, pool.amp);
+	return x.sub(xp[i]).div(rates[i]).add(1);
+};
+
+/**
+ * Marginal price of coin `i` in coin `j` excluding fees: the ratio of the
+ * invariant's partial derivatives, converted back to raw token units.
+ */
+export const getStableSwapSpotPrice = (
+	pool: StableSwapPool,
+	i: number,
+	j: number
+): PriceRatio => {
+	const rates = getRates(pool.decimals);
+	const xp = getXp(pool, rates);
+	const n = xp.length;
+
+	const d = getD(xp, pool.amp);
+	const ann = pool.amp.mul(n);
+	const nn = ethers.BigNumber.from(n).pow(n);
+	const product = xp.reduce((acc, x) => acc.mul(x), ethers.constants.One);
+	const annNnP = ann.mul(nn).mul(product);
+	const dPow = d.pow(n + 1);
+
+	return {
+		numerator: xp[j].mul(annNnP.mul(xp[i]).add(dPow)).mul(rates[i]),
+		denominator: xp[i].mul(annNnP.mul(xp[j]).add(dPow)).mul(rates[j]),
+	};
+};
@@ -0,0 +1,134 @@
+import { ethers } from 'ethers';
+import { SwapStep } from '../adapters/types';
+import {
+	FEE_DENOMINATOR,
+	PoolHop,
+	solveAmountInForImpact,
+} from './constantProduct';
+import { searchAmountInForImpact } from './impactSearch';
+import { PriceRatio, calculatePriceImpactBps } from './price';
+import { PoolSummary, PriceImpactBreakdown } from '../types';
+
+export const quoteExactInAlongPath = (
+	steps: SwapStep[],
+	amountIn: ethers.BigNumber
+): ethers.BigNumber =>
+	steps.reduce(
+		(amount, step) =>
+			step.adapter.quoteExactIn(
+				step.state,
+				step.tokenIn,
+				amount,
+				step.tokenOut
+			),
+		amountIn
+	);
+
+export const quoteExactOutAlongPath = (
+	steps: SwapStep[],
+	amountOut: ethers.BigNumber
+): ethers.BigNumber =>
+	steps.reduceRight(
+		(amount, step) =>
+			step.adapter.quoteExactOut(
+				step.state,
+				step.tokenIn,
+				amount,
+				step.tokenOut
+			),
+		amountOut
+	);
+
+/** The same pools traded in the opposite direction. */
+export const reverseSteps = (steps: SwapStep[]): SwapStep[] =>
+	[...steps].reverse().map((step) => ({
+		...step,
+		tokenIn: step.tokenOut,
+		tokenOut: step.tokenIn,
+	}));
+
+export const getPathPools = (steps: SwapStep[]): PoolSummary[] =>
+	steps.map(({ state: { pool } }) => ({
+		dex: pool.dex,
+		address: pool.address,
+		feeBps: pool.feeBps,
+		...(pool.feeTier !== undefined && { feeTier: pool.feeTier }),
+	}));
+
+export const getPathSpotPrice = (steps: SwapStep[]): PriceRatio =>
+	steps.reduce(
+		(price, step) => {
+			const stepPrice = step.adapter.getSpotPrice(
+				step.state,
+				step.tokenIn,
+				step.tokenOut
+			);
+			return {
+				numerator: price.numerator.mul(stepPrice.numerator),
+				denominator: price.denominator.mul(stepPrice.denominator),
+			};
+		},
+		{ numerator: ethers.constants.One, denominator: ethers.constants.One }
+	);
+
+/** Combined LP fee of every pool along the path, rounded to 0.01 bps. */
+export const getPathFeeBps = (steps: SwapStep[]): number => {
+	const kept = steps.reduce(
+		(fraction, { state }) =>
+			fraction * (1 - state.pool.feeBps / FEE_DENOMINATOR),
+		1
+	);
+	return Math.round((1 - kept) * FEE_DENOMINATOR * 100) / 100;
+};
+
+/**
+ * Price impact of a trade along `steps`, with the part taken by LP fees
+ * separated from the part caused by the pools' curves.
+ */
+export const getPriceImpactBreakdown = (
+	steps: SwapStep[],
+	amountIn: ethers.BigNumber,
+	amountOut: ethers.BigNumber
+): PriceImpactBreakdown => {
+	const priceImpactBps = calculatePriceImpactBps(
+		amountIn,
+		amountOut,
+		getPathSpotPrice(steps)
+	);
+	const lpFeeBps = getPathFeeBps(steps);
+
+	return {
+		priceImpactBps,
+		lpFeeBps,
+		curveImpactBps: amountIn.gt(0)
+			? Math.max(0, Math.round((priceImpactBps - lpFeeBps) * 100) / 100)
+			: 0,
+	};
+};
+
+/**
+ * Trade size along `steps` whose price impact is `targetImpact`. Paths made
+ * only of constant-product pools are solved exactly; anything else falls
+ * back to a bisection over the adapters' quotes. `onIterations` receives the
+ * bisection's iteration count, or 0 for an exact solve.
+ */
+export const solveAmountInForImpactAlongPath = (
+	steps: SwapStep[],
+	targetImpact: number,
+	onIterations?: (iterations: number) => void
+): ethers.BigNumber => {
+	const hops = steps.map((step) =>
+		step.adapter.toConstantProductHop?.(step.state, step.tokenIn)
+	);
+	if (hops.every((hop): hop is PoolHop => hop !== undefined)) {
+		onIterations?.(0);
+		return solveAmountInForImpact(hops, targetImpact);
+	}
+
+	return searchAmountInForImpact(
+		(amountIn) => quoteExactInAlongPath(steps, amountIn),
+		getPathSpotPrice(steps),
+		targetImpact,
+		onIterations
+	);
+};
@@ -0,0 +1,141 @@
+import { ethers } from 'ethers';
+import { ERC20_ABI } from '../abis';
+import { TOKEN_METADATA_CONFIG, VALIDATION_LIMITS } from '../constants';
+import { TokenMetadata } from '../types';
+import { isEndpointError, isEthersError } from './providerManager';
+import { TokenMetadataCache } from './tokenMetadataCache';
+
+const erc20 = new ethers.utils.Interface(ERC20_ABI);
+
+const metadataCache = new TokenMetadataCache(TOKEN_METADATA_CONFIG.CACHE_FILE);
+// Lookups in flight, so concurrent requests for a token share one read
+const pendingLookups = new Map<string, Promise<TokenMetadata>>();
+
+/**
+ * Decodes a `string` return value, or the `bytes32` one of early tokens
+ * such as MKR, padded with trailing zero bytes.
+ */
+export const decodeTokenString = (data: string): string => {
+	const bytes = ethers.utils.arrayify(data);
+	if (bytes.length !== 32) {
+		return ethers.utils.defaultAbiCoder.decode(['string'], data)[0];
+	}
+
+	const end = bytes.indexOf(0);
+	return ethers.utils.toUtf8String(
+		end === -1 ? bytes : bytes.slice(0, end),
+		ethers.utils.Utf8ErrorFuncs.replace
+	);
+};
+
+/**
+ * Whether a failed eth_call reverted. ethers reports every failed call as
+ * CALL_EXCEPTION, so ones caused by the endpoint are told apart by the
+ * error they wrap.
+ */
+const isRevert = (error: unknown): boolean =>
+	isEthersError(error) &&
+	error.code === ethers.errors.CALL_EXCEPTION &&
+	!isEndpointError(error.error);
+
+/**
+ * `symbol` and `name` are optional in ERC20, so one that reverts or returns
+ * nothing decodable is null. Failed reads are rethrown rather than cached.
+ */
+const readTokenString = async (
+	tokenAddress: string,
+	method: 'symbol' | 'name',
+	provider: ethers.providers.JsonRpcProvider
+): Promise<string | null> => {
+	let data: string;
+	try {
+		data = await provider.call({
+			to: tokenAddress,
+			data: erc20.encodeFunctionData(method),
+		});
+	} catch (error) {
+		if (isRevert(error)) {
+			return null;
+		}
+		throw error;
+	}
+
+	try {
+		return decodeTokenString(data);
+	} catch {
+		return null;
+	}
+};
+
+const readTokenMetadata = async (
+	tokenAddress: string,
+	provider: ethers.providers.JsonRpcProvider
+): Promise<TokenMetadata> => {
+	try {
+		const [decimalsData, symbol, name] = await Promise.all([
+			provider.call({
+				to: tokenAddress,
+				data: erc20.encodeFunctionData('decimals'),
+			}),
+			readTokenString(tokenAddress, 'symbol', provider),
+			readTokenString(tokenAddress, 'name', provider),
+		]);
+		const [decimals] = erc20.decodeFunctionResult('decimals', decimalsData);
+
+		if (
+			decimals < VALIDATION_LIMITS.MIN_TOKEN_DECIMALS ||
+			decimals > VALIDATION_LIMITS.MAX_TOKEN_DECIMALS
+		) {
+			throw new Error(
+				`Invalid token decimals: ${decimals} for token ${tokenAddress}`
+			);
+		}
+
+		return {
+			address: ethers.utils.getAddress(tokenAddress),
+			symbol,
+			name,
+			decimals,
+		};
+	} catch (error) {
+		if (isRevert(error)) {
+			throw new Error(
+				`Invalid token contract: ${tokenAddress} is not a valid ERC20 token`
+			);
+		}
+		throw error;
+	}
+};
+
+/**
+ * Symbol, name and decimals of a token. Metadata never changes, so it is
+ * read once per chain and cached for good (see TOKEN_METADATA_CACHE_FILE).
+ */
+export const getTokenMetadata = async (
+	tokenAddress: string,
+	provider: ethers.providers.JsonRpcProvider
+): Promise<TokenMetadata> => {
+	const { chainId } = await provider.getNetwork();
+	const cached = await metadataCache.get(chainId, tokenAddress);
+	if (cached) {
+		return cached;
+	}
+
+	const key = `${chainId}:${tokenAddress.toLowerCase()}`;
+	let lookup = pendingLookups.get(key);
+	if (!lookup) {
+		lookup = readTokenMetadata(tokenAddress, provider)
+			.then(async (metadata) => {
+				await metadataCache.set(chainId, metadata);
+				return metadata;
+			})
+			.finally(() => pendingLookups.delete(key));
+		pendingLookups.set(key, lookup);
+	}
+	return lookup;
+};
+
+export const getTokenDecimals = async (
+	tokenAddress: string,
+	provider: ethers.providers.JsonRpcProvider
+): Promise<number> => (await getTokenMetadata(tokenAddress, provider)).decimals;
@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TokenMetadata } from '../types';
+import { logError } from './logger';
+
+interface StoredTokenMetadata extends TokenMetadata {
+	chainId: number;
+}
+
+/**
+ * Token metadata by chain and address. Metadata never changes, so entries
+ * never expire. With a file path, entries are also appended to a JSON Lines
+ * file and reloaded on the first lookup after a restart; the cache keeps
+ * working in memory when the file cannot be read or written.
+ */
+export class TokenMetadataCache {
+	private entries = new Map<string, TokenMetadata>();
+	private loading: Promise<void> | null = null;
+	// Set when the file ends in a line cut short by a crash
+	private needsNewline = false;
+
+	constructor(private filePath?: string) {}
+
+	async get(
+		chainId: number,
+		address: string
+	): Promise<TokenMetadata | undefined> {
+		await this.load();
+		return this.entries.get(this.getKey(chainId, address));
+	}
+
+	async set(chainId: number, metadata: TokenMetadata): Promise<void> {
+		await this.load();
+		this.entries.set(this.getKey(chainId, metadata.address), metadata);
+		if (!this.filePath) {
+			return;
+		}
+
+		const prefix = this.needsNewline ? '\n' : '';
+		this.needsNewline = false;
+		try {
+			await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+			await fs.appendFile(
+				this.filePath,
+				`${prefix}${JSON.stringify({ chainId, ...metadata })}\n`
+			);
+		} catch (error) {
+			logError(`Failed to persist token metadata to ${this.filePath}:`, error);
+		}
+	}
+
+	private load(): Promise<void> {
+		if (!this.loading) {
+			this.loading = this.readFile();
+		}
+		return this.loading;
+	}
+
+	private async readFile(): Promise<void> {
+		if (!this.filePath) {
+			return;
+		}
+
+		let contents: string;
+		try {
+			contents = await fs.readFile(this.filePath, 'utf8');
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				logError(`Failed to load token metadata from ${this.filePath}:`, error);
+			}
+			return;
+		}
+
+		this.needsNewline = contents.length > 0 && !contents.endsWith('\n');
+		for (const line of contents.split('\n')) {
+			let stored: StoredTokenMetadata;
+			try {
+				stored = JSON.parse(line);
+			} catch {
+				continue;
+			}
+			const { chainId, ...metadata } = stored;
+			this.entries.set(this.getKey(chainId, metadata.address), metadata);
+		}
+	}
+
+	private getKey(chainId: number, address: string): string {
+		return `${chainId}:${address.toLowerCase()}`;
+	}
+}
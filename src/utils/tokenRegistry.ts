@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { TOKEN_LIST_CONFIG } from '../constants';
+import { TokenListToken } from '../types';
+import { logError, logInfo } from './logger';
+
+const isTokenListToken = (token: unknown): token is TokenListToken => {
+	if (typeof token !== 'object' || token === null) {
+		return false;
+	}
+	const { chainId, address, symbol, name, decimals } = token as Record<
+		string,
+		unknown
+	>;
+	return (
+		Number.isInteger(chainId) &&
+		typeof address === 'string' &&
+		ethers.utils.isAddress(address) &&
+		typeof symbol === 'string' &&
+		typeof name === 'string' &&
+		Number.isInteger(decimals)
+	);
+};
+
+/**
+ * Tokens of every Uniswap Token List JSON file in `listDir`, by chain. Lists
+ * are read on first use; malformed files and entries are skipped, and a
+ * token listed more than once keeps its first entry.
+ */
+export class TokenRegistry {
+	private tokensByChain = new Map<number, TokenListToken[]>();
+	private loading: Promise<void> | null = null;
+
+	constructor(private listDir: string) {}
+
+	async getTokens(chainId: number): Promise<TokenListToken[]> {
+		await this.load();
+		return this.tokensByChain.get(chainId) ?? [];
+	}
+
+	/**
+	 * Returns addresses unchanged and resolves anything else as a symbol,
+	 * case-insensitively. Symbols listed for several tokens are rejected with
+	 * the candidates, since picking one could quote the wrong token.
+	 */
+	async resolve(chainId: number, addressOrSymbol: string): Promise<string> {
+		if (ethers.utils.isAddress(addressOrSymbol)) {
+			return addressOrSymbol;
+		}
+
+		const symbol = addressOrSymbol.trim().toLowerCase();
+		const matches = (await this.getTokens(chainId)).filter(
+			(token) => token.symbol.toLowerCase() === symbol
+		);
+		if (matches.length === 0) {
+			throw new Error(
+				`Unknown token symbol: "${addressOrSymbol}" is not an address or a listed token on chain ${chainId}`
+			);
+		}
+		if (matches.length > 1) {
+			throw new Error(
+				`Ambiguous token symbol: "${addressOrSymbol}" matches ${matches
+					.map((token) => `${token.symbol} (${token.name}) at ${token.address}`)
+					.join(', ')} on chain ${chainId}; pass the address instead`
+			);
+		}
+		return matches[0].address;
+	}
+
+	/**
+	 * Tokens whose address equals `query` or whose symbol or name contains
+	 * it; exact symbol matches first, then by symbol.
+	 */
+	async search(
+		chainId: number,
+		query: string,
+		limit: number
+	): Promise<TokenListToken[]> {
+		const needle = query.trim().toLowerCase();
+		const tokens = await this.getTokens(chainId);
+		const matches = needle
+			? tokens.filter(
+					(token) =>
+						token.address.toLowerCase() === needle ||
+						token.symbol.toLowerCase().includes(needle) ||
+						token.name.toLowerCase().includes(needle)
+			  )
+			: [...tokens];
+
+		const isExact = (token: TokenListToken) =>
+			token.symbol.toLowerCase() === needle ? 0 : 1;
+		return matches
+			.sort(
+				(a, b) => isExact(a) - isExact(b) || a.symbol.localeCompare(b.symbol)
+			)
+			.slice(0, limit);
+	}
+
+	private load(): Promise<void> {
+		if (!this.loading) {
+			this.loading = this.readLists();
+		}
+		return this.loading;
+	}
+
+	private async readLists(): Promise<void> {
+		let files: string[];
+		try {
+			files = (await fs.readdir(this.listDir))
+				.filter((file) => file.endsWith('.json'))
+				.sort();
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				logError(`Failed to read token lists from ${this.listDir}:`, error);
+			}
+			return;
+		}
+
+		for (const file of files) {
+			let tokens: unknown[];
+			try {
+				const list = JSON.parse(
+					await fs.readFile(path.join(this.listDir, file), 'utf8')
+				);
+				tokens = Array.isArray(list?.tokens) ? list.tokens : [];
+			} catch (error) {
+				logError(`Skipping token list ${file}:`, error);
+				continue;
+			}
+
+			let added = 0;
+			for (const token of tokens) {
+				if (isTokenListToken(token) && this.add(token)) {
+					added++;
+				}
+			}
+			logInfo(`Loaded ${added} tokens from token list ${file}`);
+		}
+	}
+
+	private add(token: TokenListToken): boolean {
+		const address = ethers.utils.getAddress(token.address);
+		const tokens = this.tokensByChain.get(token.chainId) ?? [];
+		if (tokens.some((listed) => listed.address === address)) {
+			return false;
+		}
+
+		tokens.push({
+			chainId: token.chainId,
+			address,
+			symbol: token.symbol,
+			name: token.name,
+			decimals: token.decimals,
+			...(token.logoURI && { logoURI: token.logoURI }),
+		});
+		this.tokensByChain.set(token.chainId, tokens);
+		return true;
+	}
+}
+
+export const tokenRegistry = new TokenRegistry(TOKEN_LIST_CONFIG.DIR);
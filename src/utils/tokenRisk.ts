@@ -0,0 +1,159 @@
+import { ethers } from 'ethers';
+import {
+	TOKEN_SIMULATOR_ABI,
+	TOKEN_SIMULATOR_BYTECODE,
+	UNISWAP_V2_ROUTER_ABI,
+} from '../abis';
+import { TIMEOUT_CONFIG, TOKEN_RISK_CONFIG } from '../constants';
+import { TokenRisk } from '../types';
+import { getErrorMessage } from './error';
+import { withTimeout } from './timeout';
+
+/** Empty account the simulator code is injected into. */
+export const TOKEN_SIMULATOR_ADDRESS = ethers.utils.getAddress(
+	ethers.utils.hexDataSlice(ethers.utils.id('liquidity-service.simulator'), 12)
+);
+
+const simulator = new ethers.utils.Interface(TOKEN_SIMULATOR_ABI);
+
+const wrappedNativeByRouter = new Map<string, string>();
+
+const getWrappedNativeToken = async (
+	routerAddress: string,
+	provider: ethers.providers.JsonRpcProvider
+): Promise<string> => {
+	let wrapped = wrappedNativeByRouter.get(routerAddress);
+	if (!wrapped) {
+		const router = new ethers.Contract(
+			routerAddress,
+			UNISWAP_V2_ROUTER_ABI,
+			provider
+		);
+		wrapped = (await withTimeout(
+			router.WETH(),
+			TIMEOUT_CONFIG.RPC_CALL_TIMEOUT,
+			'RPC call timeout'
+		)) as string;
+		wrappedNativeByRouter.set(routerAddress, wrapped);
+	}
+	return wrapped;
+};
+
+/** Share of `expected` that did not arrive, in percent with 0.01 precision. */
+const getTaxPercent = (
+	expected: ethers.BigNumber,
+	received: ethers.BigNumber
+): number => {
+	if (expected.eq(0) || received.gte(expected)) {
+		return 0;
+	}
+	return expected.sub(received).mul(10_000).div(expected).toNumber() / 100;
+};
+
+/**
+ * Buys `token` with the native token through a Uniswap V2 router and sells
+ * it straight back, in a single eth_call against the simulator contract
+ * injected with a state override. Comparing the router's quotes with what
+ * actually arrived gives the transfer taxes; a sell that reverts or is taxed
+ * beyond `HONEYPOT_SELL_TAX_PERCENT` marks a honeypot. RPC failures (e.g.
+ * nodes without state override support) are reported as not simulated.
+ * The simulation runs on top of `blockTag`.
+ */
+export const simulateTokenRisk = async (
+	token: string,
+	routerAddress: string,
+	provider: ethers.providers.JsonRpcProvider,
+	blockTag: ethers.providers.BlockTag = 'latest'
+): Promise<TokenRisk> => {
+	const notSimulated = (reason: string): TokenRisk => ({
+		simulated: false,
+		isHoneypot: false,
+		buyTaxPercent: null,
+		sellTaxPercent: null,
+		reason,
+	});
+
+	let result: ethers.utils.Result;
+	try {
+		const wrapped = await getWrappedNativeToken(routerAddress, provider);
+		if (wrapped.toLowerCase() === token.toLowerCase()) {
+			return {
+				simulated: false,
+				isHoneypot: false,
+				buyTaxPercent: 0,
+				sellTaxPercent: 0,
+				reason: 'Wrapped native token',
+			};
+		}
+
+		const amountIn = ethers.BigNumber.from(TOKEN_RISK_CONFIG.SIMULATION_AMOUNT);
+		const raw: string = await withTimeout(
+			provider.send('eth_call', [
+				{
+					to: TOKEN_SIMULATOR_ADDRESS,
+					data: simulator.encodeFunctionData('simulate', [
+						routerAddress,
+						token,
+						amountIn,
+					]),
+				},
+				typeof blockTag === 'number'
+					? ethers.utils.hexValue(blockTag)
+					: blockTag,
+				{
+					[TOKEN_SIMULATOR_ADDRESS]: {
+						code: TOKEN_SIMULATOR_BYTECODE,
+						balance: ethers.utils.hexValue(amountIn),
+					},
+				},
+			]),
+			TIMEOUT_CONFIG.RPC_CALL_TIMEOUT,
+			'RPC call timeout'
+		);
+		result = simulator.decodeFunctionResult('simulate', raw);
+	} catch (error) {
+		return notSimulated(`Simulation failed: ${getErrorMessage(error)}`);
+	}
+
+	const {
+		buyExpected,
+		buyReceived,
+		sellExpected,
+		sellReceived,
+		buySucceeded,
+		sellSucceeded,
+	} = result;
+
+	if (!buySucceeded) {
+		return {
+			simulated: true,
+			isHoneypot: true,
+			buyTaxPercent: null,
+			sellTaxPercent: null,
+			reason: 'Buy reverted',
+		};
+	}
+
+	const buyTaxPercent = getTaxPercent(buyExpected, buyReceived);
+	if (!sellSucceeded) {
+		return {
+			simulated: true,
+			isHoneypot: true,
+			buyTaxPercent,
+			sellTaxPercent: null,
+			reason: buyReceived.eq(0) ? 'Buy delivered no tokens' : 'Sell reverted',
+		};
+	}
+
+	const sellTaxPercent = getTaxPercent(sellExpected, sellReceived);
+	const isHoneypot =
+		sellTaxPercent >= TOKEN_RISK_CONFIG.HONEYPOT_SELL_TAX_PERCENT;
+
+	return {
+		simulated: true,
+		isHoneypot,
+		buyTaxPercent,
+		sellTaxPercent,
+		...(isHoneypot && { reason: `Sell tax of ${sellTaxPercent}%` }),
+	};
+};
@@ -0,0 +1,98 @@
+import { ethers } from 'ethers';
+import { TWAP_CONFIG } from '../constants';
+import { parseDuration } from './duration';
+import { PriceRatio } from './price';
+
+/** Fixed-point scale of the UQ112x112 prices V2 pairs accumulate. */
+const Q112 = ethers.BigNumber.from(2).pow(112);
+const UINT32_RANGE = 2 ** 32;
+const UINT256_RANGE = ethers.BigNumber.from(2).pow(256);
+
+/** A V2 pair's cumulative prices as of a block. */
+export interface CumulativePriceObservation {
+	blockNumber: number;
+	timestamp: number;
+	reserves: [ethers.BigNumber, ethers.BigNumber];
+	/** price0CumulativeLast and price1CumulativeLast, brought up to `timestamp`. */
+	priceCumulatives: [ethers.BigNumber, ethers.BigNumber];
+}
+
+export const parseTwapWindow = (input: unknown): number => {
+	if (input === undefined) {
+		return TWAP_CONFIG.DEFAULT_WINDOW;
+	}
+
+	const window = parseDuration(input, 'window');
+	const { MIN_WINDOW, MAX_WINDOW } = TWAP_CONFIG;
+	if (window < MIN_WINDOW || window > MAX_WINDOW) {
+		throw new Error(
+			`Invalid window: window must be between ${MIN_WINDOW} and ${MAX_WINDOW} seconds`
+		);
+	}
+	return window;
+};
+
+/**
+ * The pair only accumulates on its first update in a block, so its stored
+ * cumulatives lag by the time since the last swap. Adds what the pair would
+ * accumulate for that time at its current reserves, as the Uniswap V2
+ * oracle library does. Timestamps wrap at 2^32 and cumulatives at 2^256.
+ */
+export const getCurrentCumulativePrices = (
+	priceCumulativesLast: [ethers.BigNumber, ethers.BigNumber],
+	reserves: [ethers.BigNumber, ethers.BigNumber],
+	blockTimestampLast: number,
+	timestamp: number
+): [ethers.BigNumber, ethers.BigNumber] => {
+	const [reserve0, reserve1] = reserves;
+	const elapsed = (timestamp - blockTimestampLast) % UINT32_RANGE;
+	if (elapsed <= 0 || reserve0.eq(0) || reserve1.eq(0)) {
+		return priceCumulativesLast;
+	}
+
+	return [
+		priceCumulativesLast[0]
+			.add(reserve1.mul(Q112).div(reserve0).mul(elapsed))
+			.mod(UINT256_RANGE),
+		priceCumulativesLast[1]
+			.add(reserve0.mul(Q112).div(reserve1).mul(elapsed))
+			.mod(UINT256_RANGE),
+	];
+};
+
+/**
+ * Time-weighted average price of the pair between two observations, in raw
+ * units of the other token per unit of `tokenIndex`.
+ */
+export const getTwapPrice = (
+	start: CumulativePriceObservation,
+	end: CumulativePriceObservation,
+	tokenIndex: 0 | 1
+): PriceRatio => {
+	const elapsed = end.timestamp - start.timestamp;
+	if (elapsed <= 0) {
+		throw new Error('Invalid window: no block was produced within the window');
+	}
+
+	// The difference is taken modulo 2^256, like the pair's overflowing sums
+	const accumulated = end.priceCumulatives[tokenIndex]
+		.sub(start.priceCumulatives[tokenIndex])
+		.add(UINT256_RANGE)
+		.mod(UINT256_RANGE);
+	return { numerator: accumulated, denominator: Q112.mul(elapsed) };
+};
+
+/**
+ * Deviation of `spot` from `twap` in basis points, truncated to 0.01 bps.
+ * Positive when the spot price is above the average.
+ */
+export const getDeviationBps = (spot: PriceRatio, twap: PriceRatio): number => {
+	const spotValue = spot.numerator.mul(twap.denominator);
+	const twapValue = twap.numerator.mul(spot.denominator);
+	if (twapValue.eq(0)) {
+		return 0;
+	}
+	return (
+		spotValue.sub(twapValue).mul(1_000_000).div(twapValue).toNumber() / 100
+	);
+};
@@ -0,0 +1,60 @@
+import { ethers } from 'ethers';
+import { PriceRatio } from './price';
+
+const CENT_DECIMALS = 2;
+
+/**
+ * USD price of a token as raw units of a USD stablecoin per raw unit of the
+ * token. `decimals` are the stablecoin's.
+ */
+export interface UsdPrice extends PriceRatio {
+	decimals: number;
+}
+
+/** USD prices of both tokens of a pair; `null` when a token has none. */
+export interface UsdPrices {
+	sellToken: UsdPrice | null;
+	buyToken: UsdPrice | null;
+}
+
+/** A stablecoin is valued at exactly $1 per token. */
+export const getStablecoinUsdPrice = (decimals: number): UsdPrice => ({
+	numerator: ethers.constants.One,
+	denominator: ethers.constants.One,
+	decimals,
+});
+
+/** USD value of a raw token amount, rounded down to the cent. */
+export const getUsdValue = (
+	amount: ethers.BigNumber,
+	price: UsdPrice | null | undefined
+): string | null => {
+	if (!price) {
+		return null;
+	}
+
+	const value = amount.mul(price.numerator).div(price.denominator);
+	const cents =
+		price.decimals > CENT_DECIMALS
+			? value.div(ethers.BigNumber.from(10).pow(price.decimals - CENT_DECIMALS))
+			: value.mul(
+					ethers.BigNumber.from(10).pow(CENT_DECIMALS - price.decimals)
+			  );
+	return ethers.utils.formatUnits(cents, CENT_DECIMALS);
+};
+
+/** Raw amount of a token worth `usd` dollars at `price`. */
+export const getAmountForUsd = (
+	usd: number,
+	price: UsdPrice
+): ethers.BigNumber => {
+	if (price.numerator.eq(0)) {
+		throw new Error('Could not calculate quote: token has no USD value');
+	}
+
+	const value = ethers.utils.parseUnits(
+		usd.toFixed(Math.min(CENT_DECIMALS, price.decimals)),
+		price.decimals
+	);
+	return value.mul(price.denominator).div(price.numerator);
+};